@@ -1,12 +1,93 @@
 import * as dotenv from 'dotenv';
 import path from 'path';
+import { HardhatPluginError } from 'hardhat/plugins';
 dotenv.config({ path: path.join(__dirname, '/.env') });
 
 export const config = {
-    mumbaiUrl: process.env.MUMBAI_URL,
-    mainnetUrl: process.env.MAINNET_URL,
-    testPrivateKey: process.env.TEST_PRIVATE_KEY,
-    privateKey: process.env.PRIVATE_KEY,
-    etherscanApiKey: process.env.ETHERSCAN_API_KEY,
-    polygonscanApiKey: process.env.POLYGONSCAN_API_KEY,
+    keystorePath: process.env.KEYSTORE_PATH,
+    keystorePasswordFile: process.env.KEYSTORE_PASSWORD_FILE,
 };
+
+type Environment = Record<string, string | undefined>;
+
+// Values are names of environment variables, so a missing one can be reported by its name
+export interface NetworkSettings {
+    chainId: number;
+    // JSON-RPC endpoint
+    url: string;
+    defaultUrl?: string;
+    // deployer private key, not required when KEYSTORE_PATH is set; accounts of the node are used without it
+    privateKey?: string;
+    // chain name known to hardhat-etherscan and its API key, networks without it can not be verified
+    explorer?: { chain: string; apiKey: string };
+}
+
+// Networks available as --network <name>, a new network needs only an entry here and its variables in .env
+export const networks: Record<string, NetworkSettings> = {
+    local: {
+        chainId: 1337,
+        url: 'LOCAL_URL',
+        defaultUrl: 'http://127.0.0.1:8545',
+    },
+    sepolia: {
+        chainId: 11155111,
+        url: 'SEPOLIA_URL',
+        privateKey: 'TEST_PRIVATE_KEY',
+    },
+    amoy: {
+        chainId: 80002,
+        url: 'AMOY_URL',
+        privateKey: 'TEST_PRIVATE_KEY',
+    },
+    polygon: {
+        chainId: 137,
+        url: 'POLYGON_URL',
+        privateKey: 'PRIVATE_KEY',
+        explorer: { chain: 'polygon', apiKey: 'POLYGONSCAN_API_KEY' },
+    },
+    mainnet: {
+        chainId: 1,
+        url: 'MAINNET_URL',
+        privateKey: 'PRIVATE_KEY',
+        explorer: { chain: 'mainnet', apiKey: 'ETHERSCAN_API_KEY' },
+    },
+};
+
+export function getNetworkUrl(settings: NetworkSettings, env: Environment = process.env): string {
+    return env[settings.url] || settings.defaultUrl || '';
+}
+
+export function getNetworkAccounts(settings: NetworkSettings, env: Environment = process.env): string[] | undefined {
+    if (!settings.privateKey) {
+        return undefined;
+    }
+    const privateKey = env[settings.privateKey];
+    return privateKey ? [privateKey] : [];
+}
+
+// Lists variables to set in .env before using the network, empty for the in-process hardhat network
+export function getMissingVariables(networkName: string, verify = false, env: Environment = process.env): string[] {
+    const settings = networks[networkName];
+    if (!settings) {
+        return [];
+    }
+
+    const missing: string[] = [];
+    if (!getNetworkUrl(settings, env)) {
+        missing.push(settings.url);
+    }
+    if (settings.privateKey && !env[settings.privateKey] && !env.KEYSTORE_PATH) {
+        missing.push(`${settings.privateKey} or KEYSTORE_PATH`);
+    }
+    if (verify && settings.explorer && !env[settings.explorer.apiKey]) {
+        missing.push(settings.explorer.apiKey);
+    }
+    return missing;
+}
+
+export function validateNetwork(networkName: string, verify = false, env: Environment = process.env): void {
+    const missing = getMissingVariables(networkName, verify, env);
+    if (missing.length) {
+        throw new HardhatPluginError('config', `Network ${networkName} is not configured, set ${missing.join(', ')} in .env`);
+    }
+}
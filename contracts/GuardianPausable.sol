@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+// Emergency pause of claims and transfers by the guardian, for a compromised token or beneficiary key.
+// Vesting schedules are not shifted, tokens keep unlocking while paused and are claimable right after.
+// Every pause ends by itself after at most MAX_PAUSE_DURATION and can not be extended, the next one
+// is possible PAUSE_COOLDOWN after the end, and all pauses together last at most MAX_TOTAL_PAUSE_DURATION,
+// so the guardian can not freeze tokens forever.
+// The guardian is changed the same way in every contract: the admin of the contract proposes an account,
+// which accepts the role itself after guardianChangeDelay, so beneficiaries can notice the change in time.
+abstract contract GuardianPausable {
+    uint64 public constant MAX_PAUSE_DURATION = 30 days;
+    uint64 public constant PAUSE_COOLDOWN = 7 days;
+    uint64 public constant MAX_TOTAL_PAUSE_DURATION = 90 days;
+    uint64 public constant GUARDIAN_CHANGE_DELAY = 2 days;
+
+    // proposed account becomes the guardian by acceptGuardian after validAfter
+    struct GuardianChange {
+        address account;
+        uint64 validAfter;
+    }
+
+    address public guardian;
+    uint64 public pausedUntil;
+    // seconds of all pauses so far, an early unpause gives back the rest of the pause
+    uint64 public pausedTotal;
+    GuardianChange public guardianChange;
+
+    event Paused(address indexed guardian, uint64 pausedUntil);
+    event Unpaused(address indexed guardian);
+    event GuardianChangeProposed(address indexed account, address indexed proposer, uint64 validAfter);
+    event GuardianChangeCancelled(address indexed account, address indexed canceller);
+    event GuardianChanged(address indexed previousGuardian, address indexed guardian);
+
+    function paused() public view returns (bool) {
+        return block.timestamp < pausedUntil;
+    }
+
+    function pause(uint64 duration) external {
+        require(msg.sender == guardian, "Not guardian");
+        require(duration > 0 && duration <= MAX_PAUSE_DURATION, "Invalid pause duration");
+        require(block.timestamp >= pausedUntil + PAUSE_COOLDOWN, "Pause is not available yet");
+        require(pausedTotal + duration <= MAX_TOTAL_PAUSE_DURATION, "Pause limit is exceeded");
+        pausedTotal += duration;
+        pausedUntil = uint64(block.timestamp) + duration;
+        emit Paused(msg.sender, pausedUntil);
+    }
+
+    // ends the pause now, the cooldown of the next one starts from here
+    function unpause() external {
+        require(msg.sender == guardian, "Not guardian");
+        require(paused(), "Not paused");
+        pausedTotal -= pausedUntil - uint64(block.timestamp);
+        pausedUntil = uint64(block.timestamp);
+        emit Unpaused(msg.sender);
+    }
+
+    // seconds between proposal and acceptance of a new guardian
+    function guardianChangeDelay() public view virtual returns (uint64) {
+        return GUARDIAN_CHANGE_DELAY;
+    }
+
+    function proposeGuardian(address account) external {
+        require(_canChangeGuardian(msg.sender), "Not allowed to set guardian");
+        require(account != address(0), "Zero address");
+        require(guardianChange.account == address(0), "Guardian change is already proposed");
+        uint64 validAfter = uint64(block.timestamp) + guardianChangeDelay();
+        guardianChange = GuardianChange(account, validAfter);
+        emit GuardianChangeProposed(account, msg.sender, validAfter);
+    }
+
+    function cancelGuardianChange() external {
+        require(_canChangeGuardian(msg.sender), "Not allowed to set guardian");
+        address account = guardianChange.account;
+        require(account != address(0), "Guardian change is not proposed");
+        delete guardianChange;
+        emit GuardianChangeCancelled(account, msg.sender);
+    }
+
+    // the new guardian accepts the role itself, so a mistyped address never gets it
+    function acceptGuardian() external {
+        GuardianChange memory change = guardianChange;
+        require(change.account != address(0), "Guardian change is not proposed");
+        require(msg.sender == change.account, "Not proposed account");
+        require(block.timestamp >= change.validAfter, "Guardian change is not valid yet");
+        delete guardianChange;
+        emit GuardianChanged(guardian, change.account);
+        guardian = change.account;
+    }
+
+    // admins of the contract, who propose and cancel guardian changes
+    function _canChangeGuardian(address account) internal view virtual returns (bool);
+
+    modifier whenNotPaused() {
+        require(!paused(), "Paused");
+        _;
+    }
+}
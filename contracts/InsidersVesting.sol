@@ -3,43 +3,104 @@ pragma solidity ^0.8.9;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {GuardianPausable} from "./GuardianPausable.sol";
 
 struct BeneficiaryInit {
     address account;
     uint96 tokenAmount;
 }
 
+// replacement of a beneficiary account proposed by the owner, see proposeRecovery
+struct Recovery {
+    address account;
+    uint64 validAfter;
+}
+
 struct BeneficiaryInfo {
     uint64 startTime;
     uint96 tokensLocked;
     uint96 tokensUnlocked;
     uint96 tokensClaimed;
-    // amount of tokens unlocked per second
-    uint96 tokensPerSec;
-    // date of pulling unlocked tokens from locked (transfer, claim)
+    // locked tokens at lastVestingUpdate, they are unlocked linearly from then until vesting finish
+    uint96 tokensVesting;
+    // start of the current linear unlock: lock-up end or the last transfer of the beneficiary
     uint64 lastVestingUpdate;
+    // fraction of a token, in 1 / FRACTION_PRECISION, unlocked by the previous linear unlock but not moved to tokensUnlocked;
+    // it is unlocked at once by the current one, so rounding is not accumulated by transfers
+    uint64 vestedFraction;
 }
 
-contract InsidersVesting {
+uint256 constant FRACTION_PRECISION = 1e18;
+
+contract InsidersVesting is GuardianPausable {
     using SafeERC20 for IERC20;
 
     mapping(address => BeneficiaryInfo) private whitelist;
-    address public immutable owner;
+    address public owner;
     bool public initialized;
     uint64 public vestingStart;
     uint64 public lockupEnd;
     uint64 public vestingFinish;
 
-    uint64 public constant VESTING_LOCKUP_DURATION = 90 days;
-    uint64 public constant VESTING_DURATION = 86745600; // 33 months
+    // terms of the round, the first round had 90 days of lock-up and 86745600 seconds (33 months) of vesting;
+    // stored instead of immutable, so VestingFactory clones can have their own
+    uint64 public VESTING_LOCKUP_DURATION;
+    uint64 public VESTING_DURATION;
 
     IERC20 public token;
+    // sum of tokenAmount of added beneficiaries, equal to the balance once initialized
+    uint96 public tokensDistributed;
+    // claimed and revoked tokens, which left the balance; the rest of tokensDistributed is owed to beneficiaries
+    uint96 public tokensReleased;
+
+    // time the beneficiary has to object to a recovery of its allocation
+    uint64 public constant RECOVERY_DELAY = 30 days;
+    mapping(address => Recovery) public recoveries;
 
     event TokensClaimed(address indexed from, address indexed to, uint256 amount);
     event TokensTransferred(address indexed from, address indexed to, uint256 amountLocked, uint256 amountUnlocked);
+    event BeneficiaryAdded(address indexed account, uint256 tokenAmount);
+    event BeneficiaryRevoked(address indexed beneficiary, address indexed treasury, uint256 amountUnlocked, uint256 amountRevoked);
+    event RecoveryProposed(address indexed beneficiary, address indexed account, uint64 validAfter);
+    event RecoveryCancelled(address indexed beneficiary, address indexed account, address indexed canceller);
+    event BeneficiaryRecovered(address indexed beneficiary, address indexed account);
+    event TokensRescued(address indexed token, address indexed to, uint256 amount);
 
-    constructor(address _owner) {
+    constructor(
+        address _owner,
+        uint64 lockupDuration,
+        uint64 vestingDuration
+    ) {
+        _setUp(_owner, lockupDuration, vestingDuration);
+    }
+
+    // constructor and initialize of EIP-1167 clones created by VestingFactory, the clone should be funded before the call
+    function initializeClone(
+        address _owner,
+        uint64 lockupDuration,
+        uint64 vestingDuration,
+        address tokenAddress,
+        BeneficiaryInit[] memory beneficiaries,
+        uint64 _vestingStart
+    ) external {
+        require(owner == address(0), "Already set up");
+        require(_owner != address(0), "Zero address");
+        require(beneficiaries.length > 0, "No users");
+        _setUp(_owner, lockupDuration, vestingDuration);
+        _startInitialization(tokenAddress, _vestingStart);
+        _addBeneficiaries(beneficiaries);
+        _finishInitialization();
+    }
+
+    function _setUp(
+        address _owner,
+        uint64 lockupDuration,
+        uint64 vestingDuration
+    ) private {
+        require(vestingDuration > 0, "Zero vesting duration");
         owner = _owner;
+        VESTING_LOCKUP_DURATION = lockupDuration;
+        VESTING_DURATION = vestingDuration;
     }
 
     // pass only existing beneficiary
@@ -49,21 +110,49 @@ contract InsidersVesting {
             uint96 unlocked = _calculateClaim(info);
             info.tokensUnlocked += unlocked;
             info.tokensLocked -= unlocked;
-            info.lastVestingUpdate = uint64(block.timestamp);
         }
         return info;
     }
 
+    // unlocked share of tokensVesting is computed from the elapsed time at once and the fraction left by the previous linear
+    // unlocks is carried, so it is behind the straight line by less than 1 wei; tokens moved to tokensUnlocked by earlier stages
+    // are subtracted
     function _calculateClaim(BeneficiaryInfo memory info) private view returns (uint96) {
         if (block.timestamp < info.lastVestingUpdate) {
             return 0;
         }
         if (block.timestamp < vestingFinish) {
-            return (uint64(block.timestamp) - info.lastVestingUpdate) * info.tokensPerSec;
+            (uint256 vested, uint256 duration) = _vested(info);
+            return uint96(vested / (duration * FRACTION_PRECISION)) - (info.tokensVesting - info.tokensLocked);
         }
         return info.tokensLocked;
     }
 
+    // tokens unlocked by the current linear unlock multiplied by FRACTION_PRECISION and its duration:
+    // vestedFraction at once and the rest of tokensVesting linearly from lastVestingUpdate until vesting finish
+    function _vested(BeneficiaryInfo memory info) private view returns (uint256, uint256) {
+        uint256 duration = vestingFinish - info.lastVestingUpdate;
+        uint256 elapsed = block.timestamp - info.lastVestingUpdate;
+        return (uint256(info.tokensVesting) * FRACTION_PRECISION * elapsed + uint256(info.vestedFraction) * (duration - elapsed), duration);
+    }
+
+    // fraction of a token unlocked by the current linear unlock on top of the whole tokens of _calculateClaim
+    function _vestedFraction(BeneficiaryInfo memory info) private view returns (uint64) {
+        if (block.timestamp < info.lastVestingUpdate || block.timestamp >= vestingFinish) {
+            return 0;
+        }
+        (uint256 vested, uint256 duration) = _vested(info);
+        return uint64((vested % (duration * FRACTION_PRECISION)) / duration);
+    }
+
+    // starts a new linear unlock of the locked tokens of a staged beneficiary with the fraction left by the current one,
+    // the fraction goes with the locked tokens when none of them are left
+    function _restartVesting(BeneficiaryInfo storage info, uint64 lastVestingUpdate) private {
+        info.vestedFraction = info.tokensLocked > 0 ? _vestedFraction(info) : 0;
+        info.tokensVesting = info.tokensLocked;
+        info.lastVestingUpdate = lastVestingUpdate;
+    }
+
     function getBeneficiaryInfo(address beneficiary) public view returns (BeneficiaryInfo memory) {
         if (whitelist[beneficiary].lastVestingUpdate > 0) {
             return whitelist[beneficiary];
@@ -76,26 +165,60 @@ contract InsidersVesting {
         address tokenAddress,
         BeneficiaryInit[] memory beneficiaries,
         uint64 _vestingStart
-    ) external {
-        require(msg.sender == owner, "Not allowed to initialize");
+    ) external onlyOwner {
         require(!initialized, "Already initialized");
-        initialized = true;
         require(beneficiaries.length > 0, "No users");
+        _startInitialization(tokenAddress, _vestingStart);
+        _addBeneficiaries(beneficiaries);
+        _finishInitialization();
+    }
+
+    // staged initialization for lists which do not fit in one block:
+    // startInitialization, then addBeneficiaries in chunks, then finishInitialization
+    function startInitialization(address tokenAddress, uint64 _vestingStart) external onlyOwner {
+        require(!initialized, "Already initialized");
+        _startInitialization(tokenAddress, _vestingStart);
+    }
+
+    function addBeneficiaries(BeneficiaryInit[] memory beneficiaries) external onlyOwner {
+        require(!initialized, "Already initialized");
+        require(vestingStart > 0, "Initialization is not started");
+        require(beneficiaries.length > 0, "No users");
+        _addBeneficiaries(beneficiaries);
+    }
+
+    function finishInitialization() external onlyOwner {
+        require(!initialized, "Already initialized");
+        require(vestingStart > 0, "Initialization is not started");
+        _finishInitialization();
+    }
+
+    function _startInitialization(address tokenAddress, uint64 _vestingStart) private {
+        require(vestingStart == 0, "Initialization is already started");
         token = IERC20(tokenAddress);
-        uint96 tokensLimitRemaining = uint96(token.balanceOf(address(this)));
-        require(tokensLimitRemaining > 0, "Zero token balance");
+        require(token.balanceOf(address(this)) > 0, "Zero token balance");
         require(_vestingStart > block.timestamp, "Start timestamp is in the past");
         vestingStart = _vestingStart;
         lockupEnd = _vestingStart + VESTING_LOCKUP_DURATION;
         vestingFinish = _vestingStart + VESTING_LOCKUP_DURATION + VESTING_DURATION;
+    }
 
+    function _addBeneficiaries(BeneficiaryInit[] memory beneficiaries) private {
+        uint96 tokensLimitRemaining = uint96(token.balanceOf(address(this))) - tokensDistributed;
         for (uint96 i = 0; i < beneficiaries.length; i++) {
             BeneficiaryInit memory b = beneficiaries[i];
+            require(whitelist[b.account].lastVestingUpdate == 0, "Beneficiary is already added");
             require(tokensLimitRemaining >= b.tokenAmount, "Tokens sum is greater than balance");
             tokensLimitRemaining -= b.tokenAmount;
-            whitelist[b.account] = BeneficiaryInfo(_vestingStart, b.tokenAmount, 0, 0, b.tokenAmount / VESTING_DURATION, lockupEnd);
+            whitelist[b.account] = BeneficiaryInfo(vestingStart, b.tokenAmount, 0, 0, b.tokenAmount, lockupEnd, 0);
+            emit BeneficiaryAdded(b.account, b.tokenAmount);
         }
-        require(tokensLimitRemaining == 0, "Not all tokens are distributed");
+        tokensDistributed = uint96(token.balanceOf(address(this))) - tokensLimitRemaining;
+    }
+
+    function _finishInitialization() private {
+        require(tokensDistributed == token.balanceOf(address(this)), "Not all tokens are distributed");
+        initialized = true;
     }
 
     function calculateClaim(address beneficiary) external view returns (uint96) {
@@ -104,8 +227,8 @@ contract InsidersVesting {
         return _calculateClaim(info) + info.tokensUnlocked;
     }
 
-    function claim(address to, uint96 amount) external onlyFromWhitelist {
-        require(block.timestamp > lockupEnd, "Cannot claim during 3 months lock-up period");
+    function claim(address to, uint96 amount) external onlyFromWhitelist whenNotPaused {
+        require(block.timestamp > lockupEnd, "Cannot claim during lock-up period");
         address sender = msg.sender;
         _calculateClaimAndStage(sender);
         BeneficiaryInfo storage claimer = whitelist[sender];
@@ -113,6 +236,7 @@ contract InsidersVesting {
 
         claimer.tokensUnlocked -= amount;
         claimer.tokensClaimed += amount;
+        tokensReleased += amount;
         token.safeTransfer(to, amount);
         emit TokensClaimed(sender, to, amount);
     }
@@ -121,18 +245,97 @@ contract InsidersVesting {
         address to,
         uint96 tokensLocked,
         uint96 tokensUnlocked
-    ) external onlyFromWhitelist {
+    ) external onlyFromWhitelist whenNotPaused {
         BeneficiaryInfo memory sender = _calculateClaimAndStage(msg.sender);
         require(sender.tokensLocked >= tokensLocked, "Requested more tokens than locked");
         require(sender.tokensUnlocked >= tokensUnlocked, "Requested more tokens than unlocked");
         _transfer(to, tokensLocked, tokensUnlocked);
     }
 
-    function transferAll(address to) external onlyFromWhitelist {
+    function transferAll(address to) external onlyFromWhitelist whenNotPaused {
         BeneficiaryInfo memory sender = _calculateClaimAndStage(msg.sender);
         _transfer(to, sender.tokensLocked, sender.tokensUnlocked);
     }
 
+    // stops vesting of the beneficiary: tokens unlocked so far stay claimable by it, the locked rest goes to the treasury
+    function revoke(address beneficiary, address treasury) external {
+        require(msg.sender == owner, "Not allowed to revoke");
+        require(initialized, "Initialization is not finished");
+        require(whitelist[beneficiary].lastVestingUpdate > 0, "Account is not in whitelist");
+        require(treasury != address(0), "Treasury is zero address");
+        _calculateClaimAndStage(beneficiary);
+        BeneficiaryInfo storage info = whitelist[beneficiary];
+        uint96 revoked = info.tokensLocked;
+        info.tokensLocked = 0;
+        info.tokensVesting = 0;
+        info.vestedFraction = 0;
+        tokensReleased += revoked;
+
+        token.safeTransfer(treasury, revoked);
+        emit BeneficiaryRevoked(beneficiary, treasury, info.tokensUnlocked, revoked);
+    }
+
+    // tokens on the balance above the ones owed to beneficiaries, sent after initialize
+    function surplus() public view returns (uint256) {
+        return token.balanceOf(address(this)) - (tokensDistributed - tokensReleased);
+    }
+
+    // returns other tokens sent by mistake and surplus of the vesting token, the allocations are not affected
+    function rescueTokens(
+        IERC20 rescuedToken,
+        address to,
+        uint256 amount
+    ) external {
+        require(msg.sender == owner, "Not allowed to rescue");
+        // token is unknown before startInitialization and allocations are incomplete before finishInitialization,
+        // so the funded vesting tokens could not be told apart from the rescued ones
+        require(initialized, "Initialization is not finished");
+        if (rescuedToken == token) {
+            require(amount <= surplus(), "Amount exceeds surplus");
+        }
+        rescuedToken.safeTransfer(to, amount);
+        emit TokensRescued(address(rescuedToken), to, amount);
+    }
+
+    function _canChangeGuardian(address account) internal view override returns (bool) {
+        return account == owner;
+    }
+
+    // Recovery of a lost or compromised beneficiary key: the owner proposes a replacement account, the beneficiary
+    // can object by cancelling the proposal, and after RECOVERY_DELAY the whole BeneficiaryInfo moves to the replacement.
+    function proposeRecovery(address beneficiary, address account) external {
+        require(msg.sender == owner, "Not allowed to recover");
+        require(initialized, "Initialization is not finished");
+        require(whitelist[beneficiary].lastVestingUpdate > 0, "Account is not in whitelist");
+        require(account != address(0), "Zero address");
+        require(whitelist[account].lastVestingUpdate == 0, "Replacement is already in whitelist");
+        require(recoveries[beneficiary].account == address(0), "Recovery is already proposed");
+        uint64 validAfter = uint64(block.timestamp) + RECOVERY_DELAY;
+        recoveries[beneficiary] = Recovery(account, validAfter);
+        emit RecoveryProposed(beneficiary, account, validAfter);
+    }
+
+    function cancelRecovery(address beneficiary) external {
+        address account = recoveries[beneficiary].account;
+        require(account != address(0), "Recovery is not proposed");
+        require(msg.sender == beneficiary || msg.sender == owner, "Not allowed to cancel");
+        delete recoveries[beneficiary];
+        emit RecoveryCancelled(beneficiary, account, msg.sender);
+    }
+
+    // the owner or the replacement account completes the recovery, tokens are moved as they are, without staging
+    function executeRecovery(address beneficiary) external {
+        Recovery memory recovery = recoveries[beneficiary];
+        require(recovery.account != address(0), "Recovery is not proposed");
+        require(msg.sender == owner || msg.sender == recovery.account, "Not allowed to recover");
+        require(block.timestamp >= recovery.validAfter, "Recovery is not valid yet");
+        require(whitelist[recovery.account].lastVestingUpdate == 0, "Replacement is already in whitelist");
+        delete recoveries[beneficiary];
+        whitelist[recovery.account] = whitelist[beneficiary];
+        delete whitelist[beneficiary];
+        emit BeneficiaryRecovered(beneficiary, recovery.account);
+    }
+
     function _transfer(
         address to,
         uint96 tokensLocked,
@@ -143,32 +346,30 @@ contract InsidersVesting {
         BeneficiaryInfo storage sender = whitelist[msg.sender];
         BeneficiaryInfo storage recipient = whitelist[to];
 
+        // locked tokens of both sides start a new linear unlock from now, or from lock-up end during lock-up
+        uint64 lastVestingUpdate = timestamp > lockupEnd ? timestamp : lockupEnd;
         sender.tokensLocked -= tokensLocked;
-        uint64 durationLeft;
-        uint64 lastVestingUpdate;
-        if (timestamp > lockupEnd) {
-            // set durationLeft = 1 after vesting finish to avoid division by zero
-            durationLeft = vestingFinish > timestamp ? vestingFinish - timestamp : 1;
-            lastVestingUpdate = timestamp;
-        } else {
-            durationLeft = VESTING_DURATION;
-            lastVestingUpdate = lockupEnd;
-        }
         sender.tokensUnlocked -= tokensUnlocked;
-        sender.tokensPerSec = sender.tokensLocked / durationLeft;
+        _restartVesting(sender, lastVestingUpdate);
         if (recipient.lastVestingUpdate == 0) {
-            whitelist[to] = BeneficiaryInfo(timestamp, tokensLocked, tokensUnlocked, 0, tokensLocked / durationLeft, lastVestingUpdate);
+            whitelist[to] = BeneficiaryInfo(timestamp, tokensLocked, tokensUnlocked, 0, tokensLocked, lastVestingUpdate, 0);
         } else {
             _calculateClaimAndStage(to);
             recipient.tokensLocked += tokensLocked;
             recipient.tokensUnlocked += tokensUnlocked;
-            recipient.tokensPerSec = recipient.tokensLocked / durationLeft;
+            _restartVesting(recipient, lastVestingUpdate);
         }
         emit TokensTransferred(msg.sender, to, tokensLocked, tokensUnlocked);
     }
 
     modifier onlyFromWhitelist() {
         require(whitelist[msg.sender].lastVestingUpdate > 0, "You are not in whitelist");
+        require(initialized, "Initialization is not finished");
+        _;
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not allowed to initialize");
         _;
     }
 }
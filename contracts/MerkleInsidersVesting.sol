@@ -0,0 +1,246 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {BeneficiaryInfo, FRACTION_PRECISION} from "./InsidersVesting.sol";
+import {GuardianPausable} from "./GuardianPausable.sol";
+
+// InsidersVesting which stores only the Merkle root of (account, tokenAmount) allocations.
+// Every beneficiary activates its allocation with a proof, on the first claim or explicitly,
+// and gets exactly the same BeneficiaryInfo as InsidersVesting creates in initialize.
+contract MerkleInsidersVesting is GuardianPausable {
+    using SafeERC20 for IERC20;
+
+    mapping(address => BeneficiaryInfo) private whitelist;
+    mapping(address => bool) public activated;
+    address public immutable owner;
+    bool public initialized;
+    bytes32 public merkleRoot;
+    uint96 public tokensTotal;
+    uint96 public tokensActivated;
+    uint64 public vestingStart;
+    uint64 public lockupEnd;
+    uint64 public vestingFinish;
+
+    // terms of the round as in InsidersVesting, 90 days of lock-up and 86745600 seconds (33 months) of vesting by default
+    uint64 public immutable VESTING_LOCKUP_DURATION;
+    uint64 public immutable VESTING_DURATION;
+
+    IERC20 public token;
+
+    event TokensClaimed(address indexed from, address indexed to, uint256 amount);
+    event TokensTransferred(address indexed from, address indexed to, uint256 amountLocked, uint256 amountUnlocked);
+    event BeneficiaryActivated(address indexed account, uint256 tokenAmount);
+
+    constructor(
+        address _owner,
+        uint64 lockupDuration,
+        uint64 vestingDuration
+    ) {
+        require(vestingDuration > 0, "Zero vesting duration");
+        owner = _owner;
+        VESTING_LOCKUP_DURATION = lockupDuration;
+        VESTING_DURATION = vestingDuration;
+    }
+
+    // pass only existing beneficiary
+    function _calculateClaimAndStage(address beneficiary) private returns (BeneficiaryInfo memory) {
+        BeneficiaryInfo storage info = whitelist[beneficiary];
+        if (block.timestamp > lockupEnd) {
+            uint96 unlocked = _calculateClaim(info);
+            info.tokensUnlocked += unlocked;
+            info.tokensLocked -= unlocked;
+        }
+        return info;
+    }
+
+    // the same exact linear unlock of tokensVesting as in InsidersVesting
+    function _calculateClaim(BeneficiaryInfo memory info) private view returns (uint96) {
+        if (block.timestamp < info.lastVestingUpdate) {
+            return 0;
+        }
+        if (block.timestamp < vestingFinish) {
+            (uint256 vested, uint256 duration) = _vested(info);
+            return uint96(vested / (duration * FRACTION_PRECISION)) - (info.tokensVesting - info.tokensLocked);
+        }
+        return info.tokensLocked;
+    }
+
+    function _vested(BeneficiaryInfo memory info) private view returns (uint256, uint256) {
+        uint256 duration = vestingFinish - info.lastVestingUpdate;
+        uint256 elapsed = block.timestamp - info.lastVestingUpdate;
+        return (uint256(info.tokensVesting) * FRACTION_PRECISION * elapsed + uint256(info.vestedFraction) * (duration - elapsed), duration);
+    }
+
+    function _vestedFraction(BeneficiaryInfo memory info) private view returns (uint64) {
+        if (block.timestamp < info.lastVestingUpdate || block.timestamp >= vestingFinish) {
+            return 0;
+        }
+        (uint256 vested, uint256 duration) = _vested(info);
+        return uint64((vested % (duration * FRACTION_PRECISION)) / duration);
+    }
+
+    function _restartVesting(BeneficiaryInfo storage info) private {
+        info.vestedFraction = info.tokensLocked > 0 ? _vestedFraction(info) : 0;
+        info.tokensVesting = info.tokensLocked;
+        info.lastVestingUpdate = _vestingUpdate();
+    }
+
+    function getBeneficiaryInfo(address beneficiary) public view returns (BeneficiaryInfo memory) {
+        if (whitelist[beneficiary].lastVestingUpdate > 0) {
+            return whitelist[beneficiary];
+        } else {
+            revert("Account is not in whitelist");
+        }
+    }
+
+    // tokensTotal is the sum of all allocations of the tree, the contract should hold exactly this amount
+    function initialize(
+        address tokenAddress,
+        bytes32 _merkleRoot,
+        uint96 _tokensTotal,
+        uint64 _vestingStart
+    ) external {
+        require(msg.sender == owner, "Not allowed to initialize");
+        require(!initialized, "Already initialized");
+        initialized = true;
+        token = IERC20(tokenAddress);
+        uint96 balance = uint96(token.balanceOf(address(this)));
+        require(balance > 0, "Zero token balance");
+        require(_vestingStart > block.timestamp, "Start timestamp is in the past");
+        require(_tokensTotal <= balance, "Tokens sum is greater than balance");
+        require(_tokensTotal == balance, "Not all tokens are distributed");
+        merkleRoot = _merkleRoot;
+        tokensTotal = _tokensTotal;
+        vestingStart = _vestingStart;
+        lockupEnd = _vestingStart + VESTING_LOCKUP_DURATION;
+        vestingFinish = _vestingStart + VESTING_LOCKUP_DURATION + VESTING_DURATION;
+    }
+
+    function calculateClaim(address beneficiary) external view returns (uint96) {
+        BeneficiaryInfo memory info = getBeneficiaryInfo(beneficiary);
+
+        return _calculateClaim(info) + info.tokensUnlocked;
+    }
+
+    // anyone can activate an allocation, tokens are credited only to the account of the leaf;
+    // activations never credit more than tokensTotal even if the tree sums up to more
+    function activate(
+        address account,
+        uint96 tokenAmount,
+        bytes32[] calldata proof
+    ) public whenNotPaused {
+        require(initialized, "Not initialized");
+        require(!activated[account], "Already activated");
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account, tokenAmount))));
+        require(MerkleProof.verify(proof, merkleRoot, leaf), "Invalid proof");
+        require(tokensActivated + tokenAmount <= tokensTotal, "Activations exceed tokens total");
+        activated[account] = true;
+        tokensActivated += tokenAmount;
+
+        BeneficiaryInfo memory allocation = BeneficiaryInfo(vestingStart, tokenAmount, 0, 0, tokenAmount, lockupEnd, 0);
+        BeneficiaryInfo storage info = whitelist[account];
+        if (info.lastVestingUpdate == 0) {
+            whitelist[account] = allocation;
+        } else {
+            // the account has already received tokens by transfer, so the allocation is merged
+            // the same way as a transfer of its locked and unlocked parts at the current time;
+            // fractions of both unlocks are added up, a whole token of them is unlocked at once
+            uint96 unlocked = block.timestamp > lockupEnd ? _calculateClaim(allocation) : 0;
+            uint256 fraction = _vestedFraction(allocation);
+            _calculateClaimAndStage(account);
+            info.tokensLocked += tokenAmount - unlocked;
+            info.tokensUnlocked += unlocked;
+            _restartVesting(info);
+            fraction += info.vestedFraction;
+            if (fraction >= FRACTION_PRECISION) {
+                info.tokensLocked -= 1;
+                info.tokensVesting -= 1;
+                info.tokensUnlocked += 1;
+                fraction -= FRACTION_PRECISION;
+            }
+            info.vestedFraction = uint64(fraction);
+        }
+        emit BeneficiaryActivated(account, tokenAmount);
+    }
+
+    function claim(address to, uint96 amount) public onlyFromWhitelist whenNotPaused {
+        require(block.timestamp > lockupEnd, "Cannot claim during lock-up period");
+        address sender = msg.sender;
+        _calculateClaimAndStage(sender);
+        BeneficiaryInfo storage claimer = whitelist[sender];
+        require(claimer.tokensUnlocked >= amount, "Requested more than unlocked");
+
+        claimer.tokensUnlocked -= amount;
+        claimer.tokensClaimed += amount;
+        token.safeTransfer(to, amount);
+        emit TokensClaimed(sender, to, amount);
+    }
+
+    // first claim of a beneficiary, activates its allocation
+    function claimWithProof(
+        address to,
+        uint96 amount,
+        uint96 tokenAmount,
+        bytes32[] calldata proof
+    ) external {
+        activate(msg.sender, tokenAmount, proof);
+        claim(to, amount);
+    }
+
+    function transfer(
+        address to,
+        uint96 tokensLocked,
+        uint96 tokensUnlocked
+    ) external onlyFromWhitelist whenNotPaused {
+        BeneficiaryInfo memory sender = _calculateClaimAndStage(msg.sender);
+        require(sender.tokensLocked >= tokensLocked, "Requested more tokens than locked");
+        require(sender.tokensUnlocked >= tokensUnlocked, "Requested more tokens than unlocked");
+        _transfer(to, tokensLocked, tokensUnlocked);
+    }
+
+    function transferAll(address to) external onlyFromWhitelist whenNotPaused {
+        BeneficiaryInfo memory sender = _calculateClaimAndStage(msg.sender);
+        _transfer(to, sender.tokensLocked, sender.tokensUnlocked);
+    }
+
+    function _canChangeGuardian(address account) internal view override returns (bool) {
+        return account == owner;
+    }
+
+    // start of a new linear unlock of tokens whose amount changes now
+    function _vestingUpdate() private view returns (uint64) {
+        return block.timestamp > lockupEnd ? uint64(block.timestamp) : lockupEnd;
+    }
+
+    function _transfer(
+        address to,
+        uint96 tokensLocked,
+        uint96 tokensUnlocked
+    ) private {
+        require(msg.sender != to, "Cannot transfer to the same address");
+        uint64 timestamp = uint64(block.timestamp);
+        BeneficiaryInfo storage sender = whitelist[msg.sender];
+        BeneficiaryInfo storage recipient = whitelist[to];
+
+        sender.tokensLocked -= tokensLocked;
+        sender.tokensUnlocked -= tokensUnlocked;
+        _restartVesting(sender);
+        if (recipient.lastVestingUpdate == 0) {
+            whitelist[to] = BeneficiaryInfo(timestamp, tokensLocked, tokensUnlocked, 0, tokensLocked, _vestingUpdate(), 0);
+        } else {
+            _calculateClaimAndStage(to);
+            recipient.tokensLocked += tokensLocked;
+            recipient.tokensUnlocked += tokensUnlocked;
+            _restartVesting(recipient);
+        }
+        emit TokensTransferred(msg.sender, to, tokensLocked, tokensUnlocked);
+    }
+
+    modifier onlyFromWhitelist() {
+        require(whitelist[msg.sender].lastVestingUpdate > 0, "You are not in whitelist");
+        _;
+    }
+}
@@ -3,24 +3,85 @@ pragma solidity ^0.8.9;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {GuardianPausable} from "./GuardianPausable.sol";
 
-contract Vesting {
+struct Payout {
+    address to;
+    uint96 amount;
+}
+
+contract Vesting is GuardianPausable {
     using SafeERC20 for IERC20;
 
+    enum Role {
+        Owner,
+        Dao
+    }
+
+    // proposed account takes the role by acceptRoleChange after validAfter
+    struct RoleChange {
+        address account;
+        uint64 validAfter;
+    }
+
     address public owner;
     address public dao;
     bool public initialized;
     uint96 public tokensLocked;
-    uint96 public tokensPerSec;
+    // balance at initialization and top-ups, unlocked linearly from vestingStart to vestingFinish
+    uint96 public tokensTotal;
     uint96 public tokensClaimed;
     uint64 public vestingStart;
     uint64 public vestingFinish;
+    // nothing is unlocked before the cliff, 0 when there is no cliff
+    uint64 public vestingCliff;
+    // unlocks happen in tranches every stepDuration seconds from the start, 0 for the straight line
+    uint64 public stepDuration;
     IERC20 public token;
+    // shortest roleChangeDelay, so a proposal made with a stolen key is never accepted before the other role can notice it
+    uint64 public constant MIN_ROLE_CHANGE_DELAY = 1 days;
+
+    // seconds between proposal and acceptance of a new owner, DAO or guardian, so the other role can notice and cancel it
+    uint64 public roleChangeDelay;
+    mapping(Role => RoleChange) public roleChanges;
+    // point of the curve at the last top-up, the rest of tokensTotal unlocks linearly from it to vestingFinish;
+    // both are 0 without top-ups, which is the straight line from vestingStart
+    uint96 public unlockedAtTopUp;
+    uint64 public elapsedAtTopUp;
 
     event TokensClaimed(address indexed from, address indexed to, uint256 amount);
+    event RoleChangeProposed(Role indexed role, address indexed account, address indexed proposer, uint64 validAfter);
+    event RoleChangeCancelled(Role indexed role, address indexed account, address indexed canceller);
+    event RoleChanged(Role indexed role, address indexed previousAccount, address indexed account);
+    event TokensToppedUp(address indexed sender, uint256 amount);
+    event TokensRescued(address indexed token, address indexed to, uint256 amount);
+
+    constructor(address _owner, uint64 _roleChangeDelay) {
+        _setUp(_owner, _roleChangeDelay);
+    }
+
+    // constructor of EIP-1167 clones created by VestingFactory, the clone should be funded before the call
+    function initializeClone(
+        address _owner,
+        uint64 _roleChangeDelay,
+        address _token,
+        uint64 _vestingStart,
+        uint64 _vestingFinish,
+        uint64 _vestingCliff,
+        uint64 _stepDuration
+    ) external {
+        require(owner == address(0), "Already set up");
+        require(_owner != address(0), "Zero address");
+        _setUp(_owner, _roleChangeDelay);
+        _initialize(_token, _vestingStart, _vestingFinish);
+        _setCurve(_vestingStart, _vestingFinish, _vestingCliff, _stepDuration);
+    }
 
-    constructor(address _owner) {
+    function _setUp(address _owner, uint64 _roleChangeDelay) private {
+        require(_roleChangeDelay >= MIN_ROLE_CHANGE_DELAY, "Role change delay is too short");
         owner = _owner;
+        roleChangeDelay = _roleChangeDelay;
+        emit RoleChanged(Role.Owner, address(0), _owner);
     }
 
     function initialize(
@@ -28,6 +89,40 @@ contract Vesting {
         uint64 _vestingStart,
         uint64 _vestingFinish
     ) external onlyOwnerOrDao {
+        _initialize(_token, _vestingStart, _vestingFinish);
+    }
+
+    function initializeWithCurve(
+        address _token,
+        uint64 _vestingStart,
+        uint64 _vestingFinish,
+        uint64 _vestingCliff,
+        uint64 _stepDuration
+    ) external onlyOwnerOrDao {
+        _initialize(_token, _vestingStart, _vestingFinish);
+        _setCurve(_vestingStart, _vestingFinish, _vestingCliff, _stepDuration);
+    }
+
+    function _setCurve(
+        uint64 _vestingStart,
+        uint64 _vestingFinish,
+        uint64 _vestingCliff,
+        uint64 _stepDuration
+    ) private {
+        require(
+            _vestingCliff == 0 || (_vestingCliff >= _vestingStart && _vestingCliff <= _vestingFinish),
+            "Cliff should be between start and finish"
+        );
+        require(_stepDuration <= _vestingFinish - _vestingStart, "Step should not be longer than vesting");
+        vestingCliff = _vestingCliff;
+        stepDuration = _stepDuration;
+    }
+
+    function _initialize(
+        address _token,
+        uint64 _vestingStart,
+        uint64 _vestingFinish
+    ) private {
         require(!initialized, "Already initialized");
         require(_vestingStart > block.timestamp, "Lock start should be in the future");
         require(_vestingFinish > _vestingStart, "Lock finish should be later than start");
@@ -36,17 +131,71 @@ contract Vesting {
         vestingFinish = _vestingFinish;
         token = IERC20(_token);
         tokensLocked = uint96(token.balanceOf(address(this)));
-        tokensPerSec = tokensLocked / (vestingFinish - vestingStart);
+        tokensTotal = tokensLocked;
     }
 
     function calculateClaim() public view returns (uint96) {
         if (block.timestamp < vestingFinish) {
-            return (uint64(block.timestamp) - vestingStart) * tokensPerSec - tokensClaimed;
+            if (block.timestamp < vestingCliff) {
+                return 0;
+            }
+            return _unlockedTotal() - tokensClaimed;
         }
         return tokensLocked;
     }
 
-    function claim(address to, uint96 amount) external onlyOwnerOrDao {
+    // tokens unlocked since vestingStart including claimed ones, the cliff is not applied
+    function _unlockedTotal() private view returns (uint96) {
+        uint64 elapsed = uint64(block.timestamp) - vestingStart;
+        if (stepDuration > 0) {
+            // the rest of the last tranche is unlocked at vestingFinish
+            elapsed -= elapsed % stepDuration;
+        }
+        // share of the rest for the elapsed time at once, so it is behind the straight line by less than 1 wei
+        uint256 vested = (uint256(tokensTotal - unlockedAtTopUp) * (elapsed - elapsedAtTopUp)) / (vestingFinish - vestingStart - elapsedAtTopUp);
+        return unlockedAtTopUp + uint96(vested);
+    }
+
+    // tokens on the balance above the unclaimed ones, sent after initialize
+    function surplus() public view returns (uint256) {
+        return token.balanceOf(address(this)) - tokensLocked;
+    }
+
+    // adds the surplus to the schedule: what is unlocked so far stays, the rest of the total with the surplus
+    // unlocks over the time left, so the rate grows from now on
+    function topUp() external onlyOwnerOrDao {
+        require(initialized, "Not initialized");
+        require(block.timestamp < vestingFinish, "Vesting is finished");
+        uint96 amount = uint96(surplus());
+        require(amount > 0, "No surplus");
+        if (block.timestamp > vestingStart) {
+            unlockedAtTopUp = _unlockedTotal();
+            elapsedAtTopUp = uint64(block.timestamp) - vestingStart;
+            if (stepDuration > 0) {
+                elapsedAtTopUp -= elapsedAtTopUp % stepDuration;
+            }
+        }
+        tokensTotal += amount;
+        tokensLocked += amount;
+        emit TokensToppedUp(msg.sender, amount);
+    }
+
+    // returns other tokens sent by mistake, and surplus of the vesting token which is not added by topUp
+    function rescueTokens(
+        IERC20 rescuedToken,
+        address to,
+        uint256 amount
+    ) external onlyOwnerOrDao {
+        // token is unknown before initialize, so the funded vesting tokens could not be told apart from the rescued ones
+        require(initialized, "Not initialized");
+        if (rescuedToken == token) {
+            require(amount <= surplus(), "Amount exceeds surplus");
+        }
+        rescuedToken.safeTransfer(to, amount);
+        emit TokensRescued(address(rescuedToken), to, amount);
+    }
+
+    function claim(address to, uint96 amount) external onlyOwnerOrDao whenNotPaused {
         uint96 unlocked = calculateClaim();
         require(unlocked >= amount, "Requested more than unlocked");
         tokensLocked -= amount;
@@ -56,12 +205,68 @@ contract Vesting {
         emit TokensClaimed(msg.sender, to, amount);
     }
 
-    function transferAuthority(address newOwner) external onlyOwnerOrDao {
-        owner = newOwner;
+    // pays several recipients at once, all or nothing, with TokensClaimed for every payout
+    function claimBatch(Payout[] calldata payouts) external onlyOwnerOrDao whenNotPaused {
+        require(payouts.length > 0, "No payouts");
+        uint96 total;
+        for (uint256 i = 0; i < payouts.length; i++) {
+            total += payouts[i].amount;
+        }
+        require(calculateClaim() >= total, "Requested more than unlocked");
+        tokensLocked -= total;
+        tokensClaimed += total;
+
+        for (uint256 i = 0; i < payouts.length; i++) {
+            token.safeTransfer(payouts[i].to, payouts[i].amount);
+            emit TokensClaimed(msg.sender, payouts[i].to, payouts[i].amount);
+        }
+    }
+
+    // every role proposes only its own successor, the first DAO is proposed by the owner
+    function proposeRoleChange(Role role, address account) external {
+        address holder = role == Role.Owner ? owner : dao;
+        require(msg.sender == (holder == address(0) ? owner : holder), "Not allowed to propose the role");
+        require(account != address(0), "Zero address");
+        require(roleChanges[role].account == address(0), "Role change is already proposed");
+        uint64 validAfter = uint64(block.timestamp) + roleChangeDelay;
+        roleChanges[role] = RoleChange(account, validAfter);
+        emit RoleChangeProposed(role, account, msg.sender, validAfter);
+    }
+
+    // either role cancels any proposal by intent: this is how the owner stops the DAO replaced with a stolen DAO key
+    // and the other way round, so a legitimate rotation cancelled by the other role has to be agreed with it
+    function cancelRoleChange(Role role) external onlyOwnerOrDao {
+        address account = roleChanges[role].account;
+        require(account != address(0), "Role change is not proposed");
+        delete roleChanges[role];
+        emit RoleChangeCancelled(role, account, msg.sender);
+    }
+
+    // the new account accepts the role itself, so a mistyped address never gets it
+    function acceptRoleChange(Role role) external {
+        RoleChange memory change = roleChanges[role];
+        require(change.account != address(0), "Role change is not proposed");
+        require(msg.sender == change.account, "Not proposed account");
+        require(block.timestamp >= change.validAfter, "Role change is not valid yet");
+        delete roleChanges[role];
+        address previousAccount;
+        if (role == Role.Owner) {
+            previousAccount = owner;
+            owner = change.account;
+        } else {
+            previousAccount = dao;
+            dao = change.account;
+        }
+        emit RoleChanged(role, previousAccount, change.account);
+    }
+
+    // the guardian is changed by proposeGuardian of the owner or DAO with the delay of their own roles
+    function guardianChangeDelay() public view override returns (uint64) {
+        return roleChangeDelay;
     }
 
-    function setDaoAddress(address newDao) external onlyOwnerOrDao {
-        dao = newDao;
+    function _canChangeGuardian(address account) internal view override returns (bool) {
+        return account == owner || account == dao;
     }
 
     modifier onlyOwnerOrDao() {
@@ -0,0 +1,91 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {BeneficiaryInit, InsidersVesting} from "./InsidersVesting.sol";
+import {Vesting} from "./Vesting.sol";
+
+// Creates vesting pools as EIP-1167 clones of deployed Vesting and InsidersVesting.
+// Every pool is cloned, funded from the caller and initialized in one transaction, so there is no window
+// between deployment and initialization. The caller should approve tokens of the pool to the factory first.
+contract VestingFactory {
+    using SafeERC20 for IERC20;
+
+    struct VestingPool {
+        address owner;
+        uint64 roleChangeDelay;
+        address token;
+        uint96 tokenAmount;
+        uint64 vestingStart;
+        uint64 vestingFinish;
+        // 0 for no cliff and for the straight line, as in Vesting.initializeWithCurve
+        uint64 vestingCliff;
+        uint64 stepDuration;
+    }
+
+    struct InsidersPool {
+        address owner;
+        uint64 lockupDuration;
+        uint64 vestingDuration;
+        address token;
+        uint64 vestingStart;
+        BeneficiaryInit[] beneficiaries;
+    }
+
+    address public immutable vestingImplementation;
+    address public immutable insidersVestingImplementation;
+    mapping(address => bool) public isPool;
+
+    event PoolCreated(string name, address indexed pool, address indexed implementation, address indexed owner, address token, uint256 tokenAmount);
+
+    constructor(address _vestingImplementation, address _insidersVestingImplementation) {
+        vestingImplementation = _vestingImplementation;
+        insidersVestingImplementation = _insidersVestingImplementation;
+    }
+
+    function createVesting(string calldata name, VestingPool calldata params) external returns (address pool) {
+        require(params.tokenAmount > 0, "Zero token amount");
+        pool = _clone(vestingImplementation, params.token, params.tokenAmount);
+        Vesting(pool).initializeClone(
+            params.owner,
+            params.roleChangeDelay,
+            params.token,
+            params.vestingStart,
+            params.vestingFinish,
+            params.vestingCliff,
+            params.stepDuration
+        );
+        emit PoolCreated(name, pool, vestingImplementation, params.owner, params.token, params.tokenAmount);
+    }
+
+    // the pool is funded with the sum of beneficiary amounts
+    function createInsidersVesting(string calldata name, InsidersPool calldata params) external returns (address pool) {
+        uint96 tokenAmount;
+        for (uint256 i = 0; i < params.beneficiaries.length; i++) {
+            tokenAmount += params.beneficiaries[i].tokenAmount;
+        }
+        require(tokenAmount > 0, "Zero token amount");
+        pool = _clone(insidersVestingImplementation, params.token, tokenAmount);
+        InsidersVesting(pool).initializeClone(
+            params.owner,
+            params.lockupDuration,
+            params.vestingDuration,
+            params.token,
+            params.beneficiaries,
+            params.vestingStart
+        );
+        emit PoolCreated(name, pool, insidersVestingImplementation, params.owner, params.token, tokenAmount);
+    }
+
+    function _clone(
+        address implementation,
+        address token,
+        uint96 tokenAmount
+    ) private returns (address pool) {
+        pool = Clones.clone(implementation);
+        isPool[pool] = true;
+        IERC20(token).safeTransferFrom(msg.sender, pool, tokenAmount);
+    }
+}
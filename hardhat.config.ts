@@ -4,10 +4,41 @@ import '@typechain/hardhat';
 import 'hardhat-gas-reporter';
 import 'hardhat-contract-sizer';
 import 'solidity-coverage';
+import { extendEnvironment } from 'hardhat/config';
+import { HttpNetworkUserConfig } from 'hardhat/types';
 import { utils } from 'ethers';
-import { config } from './config';
+import { getNetworkAccounts, getNetworkUrl, networks, validateNetwork } from './config';
 import './tasks/initializeInsiderVesting';
 import './tasks/initializeVesting';
+import './tasks/validateBeneficiaries';
+import './tasks/schedule';
+import './tasks/vestingReport';
+import './tasks/indexer';
+import './tasks/deployVesting';
+import './tasks/vestingAdmin';
+import './tasks/safeBatch';
+import './tasks/offline';
+import './tasks/beneficiary';
+import './tasks/merkle';
+import './tasks/revokeBeneficiary';
+import './tasks/recoverBeneficiary';
+import './tasks/pause';
+import './tasks/surplus';
+import './tasks/createPools';
+import './tasks/verifyDeployment';
+
+// fails every task on a network with missing variables before anything is sent
+extendEnvironment(hre => validateNetwork(hre.network.name));
+
+const networksConfig: Record<string, HttpNetworkUserConfig> = {};
+const explorerApiKeys: Record<string, string> = {};
+for (const [name, settings] of Object.entries(networks)) {
+    const accounts = getNetworkAccounts(settings);
+    networksConfig[name] = { chainId: settings.chainId, url: getNetworkUrl(settings), ...(accounts && { accounts }) };
+    if (settings.explorer) {
+        explorerApiKeys[settings.explorer.chain] = process.env[settings.explorer.apiKey] ?? '';
+    }
+}
 
 export default {
     solidity: {
@@ -46,21 +77,9 @@ export default {
                 count: 10,
             },
         },
-        mumbai: {
-            url: config.mumbaiUrl,
-            accounts: [config.testPrivateKey],
-        },
-        ethereum: {
-            url: config.mainnetUrl,
-            accounts: [config.privateKey],
-        },
+        ...networksConfig,
     },
     etherscan: {
-        apiKey: {
-            mainnet: config.etherscanApiKey,
-            rinkeby: config.etherscanApiKey,
-            polygon: config.polygonscanApiKey,
-            polygonMumbai: config.polygonscanApiKey,
-        },
+        apiKey: explorerApiKeys,
     },
 };
@@ -1,15 +1,21 @@
 import { ethers } from 'hardhat';
+import { formatDuration, parseDuration } from '../utils/dates';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION } from '../utils/schedule';
 
 async function main() {
     if (!process.env.INITIALIZER) {
         throw new Error('INITIALIZER is not provided');
     }
+    // seconds or amounts like 90d, the first round terms by default
+    const lockupDuration = process.env.LOCKUP_DURATION ? parseDuration(process.env.LOCKUP_DURATION) : INSIDERS_LOCKUP_DURATION;
+    const vestingDuration = process.env.VESTING_DURATION ? parseDuration(process.env.VESTING_DURATION) : INSIDERS_VESTING_DURATION;
 
     const InsiderVesting = await ethers.getContractFactory('InsidersVesting');
-    const insiderVesting = await InsiderVesting.deploy(process.env.INITIALIZER);
+    const insiderVesting = await InsiderVesting.deploy(process.env.INITIALIZER, lockupDuration, vestingDuration);
     await insiderVesting.deployed();
 
     console.log('InsiderVesting deployed to:', insiderVesting.address);
+    console.log(`Lock-up ${formatDuration(lockupDuration)}, vesting ${formatDuration(vestingDuration)}`);
 }
 
 main().catch(error => {
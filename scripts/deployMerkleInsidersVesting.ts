@@ -0,0 +1,24 @@
+import { ethers } from 'hardhat';
+import { formatDuration, parseDuration } from '../utils/dates';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION } from '../utils/schedule';
+
+async function main() {
+    if (!process.env.INITIALIZER) {
+        throw new Error('INITIALIZER is not provided');
+    }
+    // seconds or amounts like 90d, the first round terms by default
+    const lockupDuration = process.env.LOCKUP_DURATION ? parseDuration(process.env.LOCKUP_DURATION) : INSIDERS_LOCKUP_DURATION;
+    const vestingDuration = process.env.VESTING_DURATION ? parseDuration(process.env.VESTING_DURATION) : INSIDERS_VESTING_DURATION;
+
+    const MerkleInsidersVesting = await ethers.getContractFactory('MerkleInsidersVesting');
+    const merkleInsidersVesting = await MerkleInsidersVesting.deploy(process.env.INITIALIZER, lockupDuration, vestingDuration);
+    await merkleInsidersVesting.deployed();
+
+    console.log('MerkleInsidersVesting deployed to:', merkleInsidersVesting.address);
+    console.log(`Lock-up ${formatDuration(lockupDuration)}, vesting ${formatDuration(vestingDuration)}`);
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -1,15 +1,20 @@
 import { ethers } from 'hardhat';
+import { DEFAULT_ROLE_CHANGE_DELAY } from '../utils/authority';
+import { formatDuration, parseDuration } from '../utils/dates';
 
 async function main() {
     if (!process.env.INITIALIZER) {
         throw new Error('INITIALIZER is not provided');
     }
+    // seconds or amounts like 2d between proposal and acceptance of a new owner or DAO
+    const roleChangeDelay = process.env.ROLE_CHANGE_DELAY ? parseDuration(process.env.ROLE_CHANGE_DELAY) : DEFAULT_ROLE_CHANGE_DELAY;
 
     const Vesting = await ethers.getContractFactory('Vesting');
-    const vesting = await Vesting.deploy(process.env.INITIALIZER);
+    const vesting = await Vesting.deploy(process.env.INITIALIZER, roleChangeDelay);
     await vesting.deployed();
 
     console.log('Vesting deployed to:', vesting.address);
+    console.log(`Role change delay ${formatDuration(roleChangeDelay)}`);
 }
 
 main().catch(error => {
@@ -0,0 +1,17 @@
+// Contract types of typechain are declaration files, which tsc does not emit, so they are copied
+// next to the compiled factories to keep the declarations of the package complete.
+const fs = require('fs');
+const path = require('path');
+
+function copyDeclarations(from, to) {
+    fs.mkdirSync(to, { recursive: true });
+    for (const entry of fs.readdirSync(from, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+            copyDeclarations(path.join(from, entry.name), path.join(to, entry.name));
+        } else if (entry.name.endsWith('.d.ts')) {
+            fs.copyFileSync(path.join(from, entry.name), path.join(to, entry.name));
+        }
+    }
+}
+
+copyDeclarations(path.join(__dirname, '../src/types'), path.join(__dirname, '../dist/types'));
@@ -0,0 +1,30 @@
+// Contract types of the package are generated from the ABIs of the contracts compiled in this repository
+// and committed to src/types, so the package builds without the repository. Run after the contracts change:
+// npx hardhat compile && cd sdk && npm run generate
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { runTypeChain } = require('typechain');
+
+const CONTRACTS = ['Vesting', 'InsidersVesting'];
+
+async function main() {
+    const root = path.join(__dirname, '..');
+    // ABIs alone, without bytecode, so factories only connect to deployed contracts
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vesting-sdk-'));
+    const files = CONTRACTS.map(name => {
+        const { abi } = JSON.parse(fs.readFileSync(path.join(root, `../artifacts/contracts/${name}.sol/${name}.json`), 'utf-8'));
+        const file = path.join(directory, `${name}.json`);
+        fs.writeFileSync(file, JSON.stringify(abi));
+        return file;
+    });
+    const outDir = path.join(root, 'src/types');
+    fs.rmSync(outDir, { recursive: true, force: true });
+    await runTypeChain({ cwd: root, filesToProcess: files, allFiles: files, outDir, target: 'ethers-v5' });
+    fs.rmSync(directory, { recursive: true });
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,14 @@
+import { providers, Signer } from 'ethers';
+import { InsidersVesting, InsidersVesting__factory as InsidersVestingFactory, Vesting, Vesting__factory as VestingFactory } from './types';
+
+export type { InsidersVesting, Vesting };
+
+export type SignerOrProvider = Signer | providers.Provider;
+
+export function connectVesting(address: string, signerOrProvider: SignerOrProvider): Vesting {
+    return VestingFactory.connect(address, signerOrProvider);
+}
+
+export function connectInsidersVesting(address: string, signerOrProvider: SignerOrProvider): InsidersVesting {
+    return InsidersVestingFactory.connect(address, signerOrProvider);
+}
@@ -0,0 +1,132 @@
+import { utils } from 'ethers';
+
+// Revert strings of Vesting, InsidersVesting, MerkleInsidersVesting, GuardianPausable and VestingFactory with explanations for the users
+export const REVERT_MESSAGES: Record<string, string> = {
+    // set up and initialization
+    'Already set up': 'The contract clone is already set up',
+    'Zero address': 'The address should not be zero',
+    'No users': 'The list of beneficiaries is empty',
+    'Already initialized': 'The contract is already initialized',
+    'Not initialized': 'The contract is not initialized yet',
+    'Not allowed to initialize': 'Only the owner can initialize the contract',
+    'Zero token balance': 'The contract has no tokens, they should be sent before the initialization',
+    'Start timestamp is in the past': 'The vesting start should be in the future',
+    'Lock start should be in the future': 'The vesting start should be in the future',
+    'Lock finish should be later than start': 'The vesting finish should be later than its start',
+    'Zero vesting duration': 'The vesting duration should not be zero',
+    'Zero token amount': 'The amount of tokens of the pool should not be zero',
+    'Cliff should be between start and finish': 'The cliff should be between the vesting start and finish',
+    'Step should not be longer than vesting': 'The unlock step should not be longer than the vesting',
+    'Initialization is already started': 'The initialization is already started',
+    'Initialization is not started': 'The initialization is not started yet',
+    'Initialization is not finished': 'The initialization is not finished yet',
+    'Beneficiary is already added': 'The beneficiary is already added',
+    'Tokens sum is greater than balance': 'The beneficiaries get more tokens than the contract has',
+    'Not all tokens are distributed': 'Some tokens of the contract balance are not given to the beneficiaries',
+    // claims and transfers
+    'Not allowed': 'Only the owner or DAO can do this',
+    'You are not in whitelist': 'The sender is not a beneficiary of the contract',
+    'Account is not in whitelist': 'The account is not a beneficiary of the contract',
+    'Cannot claim during lock-up period': 'Tokens cannot be claimed until the lock-up period ends',
+    'Requested more than unlocked': 'The amount is more than the unlocked tokens',
+    'Requested more tokens than locked': 'The locked amount is more than the locked tokens of the sender',
+    'Requested more tokens than unlocked': 'The unlocked amount is more than the unlocked tokens of the sender',
+    'Cannot transfer to the same address': 'Tokens cannot be transferred to the sender itself',
+    'No payouts': 'The list of payouts is empty',
+    // activation of MerkleInsidersVesting allocations
+    'Already activated': 'The allocation of the account is already activated',
+    'Invalid proof': 'The Merkle proof does not match the account and amount of the allocation',
+    'Activations exceed tokens total': 'Activated allocations would exceed the total the contract was initialized with',
+    // role changes of Vesting
+    'Role change delay is too short': 'The role change delay should be at least 1 day',
+    'Not allowed to propose the role': 'Only the current holder of the role proposes its successor, the owner proposes the first DAO',
+    'Role change is already proposed': 'The role change is already proposed, it should be cancelled first',
+    'Role change is not proposed': 'The role change is not proposed',
+    'Role change is not valid yet': 'The role change cannot be accepted until its delay passes',
+    'Not proposed account': 'Only the proposed account can accept the role',
+    // revocation and recovery of InsidersVesting
+    'Not allowed to revoke': 'Only the owner can revoke beneficiaries',
+    'Treasury is zero address': 'The treasury address should not be zero',
+    'Not allowed to recover': 'Only the owner proposes recoveries, and only the owner or the replacement account executes them',
+    'Recovery is already proposed': 'The recovery of the beneficiary is already proposed',
+    'Recovery is not proposed': 'The recovery of the beneficiary is not proposed',
+    'Recovery is not valid yet': 'The recovery cannot be executed until its delay passes',
+    'Replacement is already in whitelist': 'The replacement account is already a beneficiary',
+    'Not allowed to cancel': 'Only the owner or the beneficiary can cancel the recovery',
+    // emergency pause
+    Paused: 'Claims and transfers are paused by the guardian',
+    'Not paused': 'The contract is not paused',
+    'Not guardian': 'Only the guardian can pause the contract',
+    'Invalid pause duration': 'The pause duration should be from 1 second to 30 days',
+    'Pause is not available yet': 'The contract cannot be paused again until the cooldown after the last pause passes',
+    'Pause limit is exceeded': 'All pauses of the contract together cannot last more than 90 days',
+    // guardian changes
+    'Not allowed to set guardian': 'Only the owner, or the DAO of Vesting, can change the guardian',
+    'Guardian change is already proposed': 'The guardian change is already proposed, it should be cancelled first',
+    'Guardian change is not proposed': 'The guardian change is not proposed',
+    'Guardian change is not valid yet': 'The guardian change cannot be accepted until its delay passes',
+    // surplus tokens
+    'Vesting is finished': 'The vesting is finished',
+    'No surplus': 'The contract has no tokens above the vested ones',
+    'Amount exceeds surplus': 'The amount is more than the tokens above the vested ones',
+    'Not allowed to rescue': 'Only the owner can rescue tokens',
+};
+
+export interface DecodedError {
+    // revert string of the contract
+    reason: string;
+    // explanation for the users, the reason itself when it is unknown
+    message: string;
+}
+
+// selector of Error(string), the encoding of require and revert messages
+const ERROR_SELECTOR = '0x08c379a0';
+
+const REASON_PATTERNS = [/reverted with reason string '([^']*)'/, /execution reverted: ([^"\n]*)/];
+
+// Revert string of a failed call or transaction, error formats of ethers and providers differ,
+// so return data is looked up in nested errors first and the messages are matched after it
+export function getRevertReason(error: unknown): string | undefined {
+    const errors: unknown[] = [error];
+    const messages: string[] = [];
+    const visited = new Set<unknown>();
+    while (errors.length > 0) {
+        const current = errors.shift();
+        if (typeof current === 'string') {
+            if (current.startsWith(ERROR_SELECTOR)) {
+                return utils.defaultAbiCoder.decode(['string'], utils.hexDataSlice(current, 4))[0];
+            }
+            messages.push(current);
+            // JSON-RPC response body of JsonRpcProvider errors
+            if (current.startsWith('{')) {
+                try {
+                    errors.push(JSON.parse(current));
+                } catch {
+                    // not a JSON, matched as a message only
+                }
+            }
+        } else if (current && typeof current === 'object' && !visited.has(current)) {
+            visited.add(current);
+            const { data, error: nested, body, message } = current as Record<string, unknown>;
+            errors.push(data, nested, body, message);
+        }
+    }
+    for (const message of messages) {
+        for (const pattern of REASON_PATTERNS) {
+            const match = message.match(pattern);
+            if (match) {
+                return match[1];
+            }
+        }
+    }
+    return undefined;
+}
+
+// undefined when the error is not a revert with a message, like a rejected signature or a network failure
+export function decodeError(error: unknown): DecodedError | undefined {
+    const reason = getRevertReason(error);
+    if (reason === undefined) {
+        return undefined;
+    }
+    return { reason, message: REVERT_MESSAGES[reason] ?? reason };
+}
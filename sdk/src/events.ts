@@ -0,0 +1,56 @@
+import { BigNumber, providers } from 'ethers';
+import type { InsidersVesting, Vesting } from './contracts';
+
+export interface ParsedEvent {
+    name: string;
+    address: string;
+    logIndex: number;
+    // named arguments only, without the positional duplicates of ethers Result
+    args: Record<string, unknown>;
+}
+
+export interface Claim {
+    from: string;
+    to: string;
+    amount: BigNumber;
+}
+
+export interface Transfer {
+    from: string;
+    to: string;
+    amountLocked: BigNumber;
+    amountUnlocked: BigNumber;
+}
+
+// Events of the contract in a transaction receipt, logs of the token and other contracts are skipped
+export function parseEvents(contract: Vesting | InsidersVesting, receipt: providers.TransactionReceipt): ParsedEvent[] {
+    return receipt.logs
+        .filter(log => log.address === contract.address)
+        .map(log => {
+            const event = contract.interface.parseLog(log);
+            const args: Record<string, unknown> = {};
+            event.eventFragment.inputs.forEach((input, index) => {
+                args[input.name] = event.args[index];
+            });
+            return { name: event.name, address: log.address, logIndex: log.logIndex, args };
+        });
+}
+
+// TokensClaimed of claim and claimBatch
+export function parseClaims(contract: Vesting | InsidersVesting, receipt: providers.TransactionReceipt): Claim[] {
+    return parseEvents(contract, receipt)
+        .filter(event => event.name === 'TokensClaimed')
+        .map(({ args }) => ({ from: args.from as string, to: args.to as string, amount: args.amount as BigNumber }));
+}
+
+// TokensTransferred of transfer and transferAll
+export function parseTransfers(contract: InsidersVesting, receipt: providers.TransactionReceipt): Transfer[] {
+    return parseEvents(contract, receipt)
+        .filter(event => event.name === 'TokensTransferred')
+        .map(({ args }) => ({
+            from: args.from as string,
+            to: args.to as string,
+            amountLocked: args.amountLocked as BigNumber,
+            amountUnlocked: args.amountUnlocked as BigNumber,
+        }));
+}
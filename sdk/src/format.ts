@@ -0,0 +1,13 @@
+import { BigNumber, utils } from 'ethers';
+
+export type Formatted<T> = { [K in keyof T]: T[K] extends BigNumber ? string : T[K] };
+
+// BigNumber fields of a schedule, an event or any other flat object as decimal strings like '1.5' for display;
+// decimals of the vesting token are 18 unless it is a custom one
+export function formatAmounts<T extends object>(value: T, decimals = 18): Formatted<T> {
+    const formatted: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+        formatted[key] = BigNumber.isBigNumber(field) ? utils.formatUnits(field, decimals) : field;
+    }
+    return formatted as Formatted<T>;
+}
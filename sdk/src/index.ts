@@ -0,0 +1,6 @@
+export * from './contracts';
+export * from './errors';
+export * from './events';
+export * from './format';
+export * from './schedule';
+export * from './transactions';
@@ -0,0 +1,177 @@
+import { BigNumber, BigNumberish, constants } from 'ethers';
+import type { InsidersVesting, Vesting } from './contracts';
+
+// precision of vestedFraction of InsidersVesting, the same as FRACTION_PRECISION of utils/schedule.ts
+const FRACTION_PRECISION = constants.WeiPerEther;
+
+export interface VestingSchedule {
+    contract: 'Vesting';
+    address: string;
+    token: string;
+    vestingStart: number;
+    vestingFinish: number;
+    // 0 when the curve has no cliff or no steps
+    vestingCliff: number;
+    stepDuration: number;
+    tokensTotal: BigNumber;
+    tokensClaimed: BigNumber;
+    // point of the curve set by the last topUp, zeros before top-ups
+    unlockedAtTopUp: BigNumber;
+    elapsedAtTopUp: number;
+}
+
+export interface InsidersSchedule {
+    contract: 'InsidersVesting';
+    address: string;
+    token: string;
+    beneficiary: string;
+    vestingStart: number;
+    lockupEnd: number;
+    vestingFinish: number;
+    // InsidersVesting.getBeneficiaryInfo of the beneficiary
+    startTime: number;
+    tokensLocked: BigNumber;
+    tokensUnlocked: BigNumber;
+    tokensClaimed: BigNumber;
+    tokensVesting: BigNumber;
+    lastVestingUpdate: number;
+    vestedFraction: BigNumber;
+}
+
+export type Schedule = VestingSchedule | InsidersSchedule;
+
+// schedule of the whole Vesting contract or of one beneficiary of InsidersVesting, read in one block
+export async function getSchedule(contract: Vesting): Promise<VestingSchedule>;
+export async function getSchedule(contract: InsidersVesting, beneficiary: string): Promise<InsidersSchedule>;
+export async function getSchedule(contract: Vesting | InsidersVesting, beneficiary?: string): Promise<Schedule> {
+    const { number: blockTag } = await contract.provider.getBlock('latest');
+    if (beneficiary === undefined) {
+        const vesting = contract as Vesting;
+        const [token, vestingStart, vestingFinish, vestingCliff, stepDuration, tokensTotal, tokensClaimed, unlockedAtTopUp, elapsedAtTopUp] =
+            await Promise.all([
+                vesting.token({ blockTag }),
+                vesting.vestingStart({ blockTag }),
+                vesting.vestingFinish({ blockTag }),
+                vesting.vestingCliff({ blockTag }),
+                vesting.stepDuration({ blockTag }),
+                vesting.tokensTotal({ blockTag }),
+                vesting.tokensClaimed({ blockTag }),
+                vesting.unlockedAtTopUp({ blockTag }),
+                vesting.elapsedAtTopUp({ blockTag }),
+            ]);
+        return {
+            contract: 'Vesting',
+            address: vesting.address,
+            token,
+            vestingStart: vestingStart.toNumber(),
+            vestingFinish: vestingFinish.toNumber(),
+            vestingCliff: vestingCliff.toNumber(),
+            stepDuration: stepDuration.toNumber(),
+            tokensTotal,
+            tokensClaimed,
+            unlockedAtTopUp,
+            elapsedAtTopUp: elapsedAtTopUp.toNumber(),
+        };
+    }
+
+    const insidersVesting = contract as InsidersVesting;
+    const [token, vestingStart, lockupEnd, vestingFinish, info] = await Promise.all([
+        insidersVesting.token({ blockTag }),
+        insidersVesting.vestingStart({ blockTag }),
+        insidersVesting.lockupEnd({ blockTag }),
+        insidersVesting.vestingFinish({ blockTag }),
+        insidersVesting.getBeneficiaryInfo(beneficiary, { blockTag }),
+    ]);
+    return {
+        contract: 'InsidersVesting',
+        address: insidersVesting.address,
+        token,
+        beneficiary,
+        vestingStart: vestingStart.toNumber(),
+        lockupEnd: lockupEnd.toNumber(),
+        vestingFinish: vestingFinish.toNumber(),
+        startTime: info.startTime.toNumber(),
+        tokensLocked: info.tokensLocked,
+        tokensUnlocked: info.tokensUnlocked,
+        tokensClaimed: info.tokensClaimed,
+        tokensVesting: info.tokensVesting,
+        lastVestingUpdate: info.lastVestingUpdate.toNumber(),
+        vestedFraction: info.vestedFraction,
+    };
+}
+
+// Vesting.calculateClaim, a copy of calculateVestingClaim of utils/schedule.ts, zero before vestingStart
+function calculateVestingClaim(schedule: VestingSchedule, timestamp: number, tokensClaimed: BigNumberish): BigNumber {
+    if (timestamp < schedule.vestingStart) {
+        return constants.Zero;
+    }
+    if (timestamp < schedule.vestingFinish) {
+        if (timestamp < schedule.vestingCliff) {
+            return constants.Zero;
+        }
+        let elapsed = timestamp - schedule.vestingStart;
+        if (schedule.stepDuration) {
+            elapsed -= elapsed % schedule.stepDuration;
+        }
+        const { unlockedAtTopUp, elapsedAtTopUp } = schedule;
+        return schedule.tokensTotal
+            .sub(unlockedAtTopUp)
+            .mul(elapsed - elapsedAtTopUp)
+            .div(schedule.vestingFinish - schedule.vestingStart - elapsedAtTopUp)
+            .add(unlockedAtTopUp)
+            .sub(tokensClaimed);
+    }
+    return schedule.tokensTotal.sub(tokensClaimed);
+}
+
+// calculateClaim of the contract in a block with the given timestamp, as long as nothing changes the schedule before it;
+// Vesting reverts before vestingStart and InsidersVesting rejects claims until lockupEnd, zero is returned there
+export function claimableAt(schedule: Schedule, timestamp: number): BigNumber {
+    if (schedule.contract === 'Vesting') {
+        return calculateVestingClaim(schedule, timestamp, schedule.tokensClaimed);
+    }
+    if (timestamp <= schedule.lockupEnd) {
+        return constants.Zero;
+    }
+    // InsidersVesting._calculateClaim
+    const { tokensVesting, tokensLocked, lastVestingUpdate, vestedFraction, vestingFinish } = schedule;
+    if (timestamp < lastVestingUpdate) {
+        return schedule.tokensUnlocked;
+    }
+    if (timestamp < vestingFinish) {
+        const duration = vestingFinish - lastVestingUpdate;
+        const elapsed = timestamp - lastVestingUpdate;
+        const vested = tokensVesting
+            .mul(FRACTION_PRECISION)
+            .mul(elapsed)
+            .add(vestedFraction.mul(duration - elapsed))
+            .div(FRACTION_PRECISION.mul(duration));
+        return vested.sub(tokensVesting.sub(tokensLocked)).add(schedule.tokensUnlocked);
+    }
+    return tokensLocked.add(schedule.tokensUnlocked);
+}
+
+// first timestamp after the given one when the claimable amount grows, undefined when nothing is left to unlock;
+// straight lines grow by whole token units (wei), so the next one may be seconds away
+export function nextUnlock(schedule: Schedule, timestamp: number): number | undefined {
+    const { vestingFinish } = schedule;
+    if (timestamp >= vestingFinish) {
+        return undefined;
+    }
+    const claimable = claimableAt(schedule, timestamp);
+    if (claimableAt(schedule, vestingFinish).lte(claimable)) {
+        return undefined;
+    }
+    // claimable amount does not decrease with time, so the first growth is found by bisection
+    let low = timestamp;
+    let high = vestingFinish;
+    while (high - low > 1) {
+        const middle = Math.floor((low + high) / 2);
+        if (claimableAt(schedule, middle).gt(claimable)) {
+            high = middle;
+        } else {
+            low = middle;
+        }
+    }
+    return high;
+}
@@ -0,0 +1,22 @@
+import { BigNumberish, PopulatedTransaction } from 'ethers';
+import type { InsidersVesting, Vesting } from './contracts';
+
+// Unsigned transactions for wallets and multisigs. Senders are checked by the contracts: claim of Vesting is sent by
+// its owner or DAO, claim and transfers of InsidersVesting by the beneficiary itself.
+
+export function buildClaimTx(contract: Vesting | InsidersVesting, to: string, amount: BigNumberish): Promise<PopulatedTransaction> {
+    return contract.populateTransaction.claim(to, amount);
+}
+
+export function buildTransferTx(
+    contract: InsidersVesting,
+    to: string,
+    tokensLocked: BigNumberish,
+    tokensUnlocked: BigNumberish
+): Promise<PopulatedTransaction> {
+    return contract.populateTransaction.transfer(to, tokensLocked, tokensUnlocked);
+}
+
+export function buildTransferAllTx(contract: InsidersVesting, to: string): Promise<PopulatedTransaction> {
+    return contract.populateTransaction.transferAll(to);
+}
@@ -0,0 +1,1610 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+  BaseContract,
+  ContractTransaction,
+  Overrides,
+  CallOverrides,
+} from "ethers";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+import type { TypedEventFilter, TypedEvent, TypedListener } from "./common";
+
+interface InsidersVestingInterface extends ethers.utils.Interface {
+  functions: {
+    "GUARDIAN_CHANGE_DELAY()": FunctionFragment;
+    "MAX_PAUSE_DURATION()": FunctionFragment;
+    "MAX_TOTAL_PAUSE_DURATION()": FunctionFragment;
+    "PAUSE_COOLDOWN()": FunctionFragment;
+    "RECOVERY_DELAY()": FunctionFragment;
+    "VESTING_DURATION()": FunctionFragment;
+    "VESTING_LOCKUP_DURATION()": FunctionFragment;
+    "acceptGuardian()": FunctionFragment;
+    "addBeneficiaries(tuple[])": FunctionFragment;
+    "calculateClaim(address)": FunctionFragment;
+    "cancelGuardianChange()": FunctionFragment;
+    "cancelRecovery(address)": FunctionFragment;
+    "claim(address,uint96)": FunctionFragment;
+    "executeRecovery(address)": FunctionFragment;
+    "finishInitialization()": FunctionFragment;
+    "getBeneficiaryInfo(address)": FunctionFragment;
+    "guardian()": FunctionFragment;
+    "guardianChange()": FunctionFragment;
+    "guardianChangeDelay()": FunctionFragment;
+    "initialize(address,tuple[],uint64)": FunctionFragment;
+    "initializeClone(address,uint64,uint64,address,tuple[],uint64)": FunctionFragment;
+    "initialized()": FunctionFragment;
+    "lockupEnd()": FunctionFragment;
+    "owner()": FunctionFragment;
+    "pause(uint64)": FunctionFragment;
+    "paused()": FunctionFragment;
+    "pausedTotal()": FunctionFragment;
+    "pausedUntil()": FunctionFragment;
+    "proposeGuardian(address)": FunctionFragment;
+    "proposeRecovery(address,address)": FunctionFragment;
+    "recoveries(address)": FunctionFragment;
+    "rescueTokens(address,address,uint256)": FunctionFragment;
+    "revoke(address,address)": FunctionFragment;
+    "startInitialization(address,uint64)": FunctionFragment;
+    "surplus()": FunctionFragment;
+    "token()": FunctionFragment;
+    "tokensDistributed()": FunctionFragment;
+    "tokensReleased()": FunctionFragment;
+    "transfer(address,uint96,uint96)": FunctionFragment;
+    "transferAll(address)": FunctionFragment;
+    "unpause()": FunctionFragment;
+    "vestingFinish()": FunctionFragment;
+    "vestingStart()": FunctionFragment;
+  };
+
+  encodeFunctionData(
+    functionFragment: "GUARDIAN_CHANGE_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PAUSE_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_TOTAL_PAUSE_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSE_COOLDOWN",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "RECOVERY_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "VESTING_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "VESTING_LOCKUP_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptGuardian",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addBeneficiaries",
+    values: [{ account: string; tokenAmount: BigNumberish }[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "calculateClaim",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelGuardianChange",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelRecovery",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claim",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeRecovery",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finishInitialization",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBeneficiaryInfo",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "guardian", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "guardianChange",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "guardianChangeDelay",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [
+      string,
+      { account: string; tokenAmount: BigNumberish }[],
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initializeClone",
+    values: [
+      string,
+      BigNumberish,
+      BigNumberish,
+      string,
+      { account: string; tokenAmount: BigNumberish }[],
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialized",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "lockupEnd", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values: [BigNumberish]): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pausedTotal",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pausedUntil",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposeGuardian",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposeRecovery",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(functionFragment: "recoveries", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "rescueTokens",
+    values: [string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revoke",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startInitialization",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "surplus", values?: undefined): string;
+  encodeFunctionData(functionFragment: "token", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "tokensDistributed",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokensReleased",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transfer",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "transferAll", values: [string]): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "vestingFinish",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "vestingStart",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "GUARDIAN_CHANGE_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PAUSE_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_TOTAL_PAUSE_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSE_COOLDOWN",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "RECOVERY_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "VESTING_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "VESTING_LOCKUP_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptGuardian",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addBeneficiaries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "calculateClaim",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelGuardianChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelRecovery",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "claim", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "executeRecovery",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finishInitialization",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBeneficiaryInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "guardian", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "guardianChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "guardianChangeDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "initializeClone",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "initialized",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "lockupEnd", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pausedTotal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pausedUntil",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposeGuardian",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposeRecovery",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "recoveries", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "rescueTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revoke", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "startInitialization",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "surplus", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "token", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "tokensDistributed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokensReleased",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "transfer", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "vestingFinish",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "vestingStart",
+    data: BytesLike
+  ): Result;
+
+  events: {
+    "BeneficiaryAdded(address,uint256)": EventFragment;
+    "BeneficiaryRecovered(address,address)": EventFragment;
+    "BeneficiaryRevoked(address,address,uint256,uint256)": EventFragment;
+    "GuardianChangeCancelled(address,address)": EventFragment;
+    "GuardianChangeProposed(address,address,uint64)": EventFragment;
+    "GuardianChanged(address,address)": EventFragment;
+    "Paused(address,uint64)": EventFragment;
+    "RecoveryCancelled(address,address,address)": EventFragment;
+    "RecoveryProposed(address,address,uint64)": EventFragment;
+    "TokensClaimed(address,address,uint256)": EventFragment;
+    "TokensRescued(address,address,uint256)": EventFragment;
+    "TokensTransferred(address,address,uint256,uint256)": EventFragment;
+    "Unpaused(address)": EventFragment;
+  };
+
+  getEvent(nameOrSignatureOrTopic: "BeneficiaryAdded"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "BeneficiaryRecovered"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "BeneficiaryRevoked"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "GuardianChangeCancelled"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "GuardianChangeProposed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "GuardianChanged"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Paused"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RecoveryCancelled"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RecoveryProposed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TokensClaimed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TokensRescued"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TokensTransferred"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Unpaused"): EventFragment;
+}
+
+export type BeneficiaryAddedEvent = TypedEvent<
+  [string, BigNumber] & { account: string; tokenAmount: BigNumber }
+>;
+
+export type BeneficiaryRecoveredEvent = TypedEvent<
+  [string, string] & { beneficiary: string; account: string }
+>;
+
+export type BeneficiaryRevokedEvent = TypedEvent<
+  [string, string, BigNumber, BigNumber] & {
+    beneficiary: string;
+    treasury: string;
+    amountUnlocked: BigNumber;
+    amountRevoked: BigNumber;
+  }
+>;
+
+export type GuardianChangeCancelledEvent = TypedEvent<
+  [string, string] & { account: string; canceller: string }
+>;
+
+export type GuardianChangeProposedEvent = TypedEvent<
+  [string, string, BigNumber] & {
+    account: string;
+    proposer: string;
+    validAfter: BigNumber;
+  }
+>;
+
+export type GuardianChangedEvent = TypedEvent<
+  [string, string] & { previousGuardian: string; guardian: string }
+>;
+
+export type PausedEvent = TypedEvent<
+  [string, BigNumber] & { guardian: string; pausedUntil: BigNumber }
+>;
+
+export type RecoveryCancelledEvent = TypedEvent<
+  [string, string, string] & {
+    beneficiary: string;
+    account: string;
+    canceller: string;
+  }
+>;
+
+export type RecoveryProposedEvent = TypedEvent<
+  [string, string, BigNumber] & {
+    beneficiary: string;
+    account: string;
+    validAfter: BigNumber;
+  }
+>;
+
+export type TokensClaimedEvent = TypedEvent<
+  [string, string, BigNumber] & { from: string; to: string; amount: BigNumber }
+>;
+
+export type TokensRescuedEvent = TypedEvent<
+  [string, string, BigNumber] & { token: string; to: string; amount: BigNumber }
+>;
+
+export type TokensTransferredEvent = TypedEvent<
+  [string, string, BigNumber, BigNumber] & {
+    from: string;
+    to: string;
+    amountLocked: BigNumber;
+    amountUnlocked: BigNumber;
+  }
+>;
+
+export type UnpausedEvent = TypedEvent<[string] & { guardian: string }>;
+
+export class InsidersVesting extends BaseContract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  listeners<EventArgsArray extends Array<any>, EventArgsObject>(
+    eventFilter?: TypedEventFilter<EventArgsArray, EventArgsObject>
+  ): Array<TypedListener<EventArgsArray, EventArgsObject>>;
+  off<EventArgsArray extends Array<any>, EventArgsObject>(
+    eventFilter: TypedEventFilter<EventArgsArray, EventArgsObject>,
+    listener: TypedListener<EventArgsArray, EventArgsObject>
+  ): this;
+  on<EventArgsArray extends Array<any>, EventArgsObject>(
+    eventFilter: TypedEventFilter<EventArgsArray, EventArgsObject>,
+    listener: TypedListener<EventArgsArray, EventArgsObject>
+  ): this;
+  once<EventArgsArray extends Array<any>, EventArgsObject>(
+    eventFilter: TypedEventFilter<EventArgsArray, EventArgsObject>,
+    listener: TypedListener<EventArgsArray, EventArgsObject>
+  ): this;
+  removeListener<EventArgsArray extends Array<any>, EventArgsObject>(
+    eventFilter: TypedEventFilter<EventArgsArray, EventArgsObject>,
+    listener: TypedListener<EventArgsArray, EventArgsObject>
+  ): this;
+  removeAllListeners<EventArgsArray extends Array<any>, EventArgsObject>(
+    eventFilter: TypedEventFilter<EventArgsArray, EventArgsObject>
+  ): this;
+
+  listeners(eventName?: string): Array<Listener>;
+  off(eventName: string, listener: Listener): this;
+  on(eventName: string, listener: Listener): this;
+  once(eventName: string, listener: Listener): this;
+  removeListener(eventName: string, listener: Listener): this;
+  removeAllListeners(eventName?: string): this;
+
+  queryFilter<EventArgsArray extends Array<any>, EventArgsObject>(
+    event: TypedEventFilter<EventArgsArray, EventArgsObject>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEvent<EventArgsArray & EventArgsObject>>>;
+
+  interface: InsidersVestingInterface;
+
+  functions: {
+    GUARDIAN_CHANGE_DELAY(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    MAX_PAUSE_DURATION(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    MAX_TOTAL_PAUSE_DURATION(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    PAUSE_COOLDOWN(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    RECOVERY_DELAY(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    VESTING_DURATION(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    VESTING_LOCKUP_DURATION(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    acceptGuardian(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    addBeneficiaries(
+      beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    calculateClaim(
+      beneficiary: string,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    cancelGuardianChange(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    cancelRecovery(
+      beneficiary: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    claim(
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    executeRecovery(
+      beneficiary: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    finishInitialization(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    getBeneficiaryInfo(
+      beneficiary: string,
+      overrides?: CallOverrides
+    ): Promise<
+      [
+        [
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber
+        ] & {
+          startTime: BigNumber;
+          tokensLocked: BigNumber;
+          tokensUnlocked: BigNumber;
+          tokensClaimed: BigNumber;
+          tokensVesting: BigNumber;
+          lastVestingUpdate: BigNumber;
+          vestedFraction: BigNumber;
+        }
+      ]
+    >;
+
+    guardian(overrides?: CallOverrides): Promise<[string]>;
+
+    guardianChange(
+      overrides?: CallOverrides
+    ): Promise<
+      [string, BigNumber] & { account: string; validAfter: BigNumber }
+    >;
+
+    guardianChangeDelay(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    initialize(
+      tokenAddress: string,
+      beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+      _vestingStart: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    initializeClone(
+      _owner: string,
+      lockupDuration: BigNumberish,
+      vestingDuration: BigNumberish,
+      tokenAddress: string,
+      beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+      _vestingStart: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    initialized(overrides?: CallOverrides): Promise<[boolean]>;
+
+    lockupEnd(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    owner(overrides?: CallOverrides): Promise<[string]>;
+
+    pause(
+      duration: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    paused(overrides?: CallOverrides): Promise<[boolean]>;
+
+    pausedTotal(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    pausedUntil(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    proposeGuardian(
+      account: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    proposeRecovery(
+      beneficiary: string,
+      account: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    recoveries(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<
+      [string, BigNumber] & { account: string; validAfter: BigNumber }
+    >;
+
+    rescueTokens(
+      rescuedToken: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    revoke(
+      beneficiary: string,
+      treasury: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    startInitialization(
+      tokenAddress: string,
+      _vestingStart: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    surplus(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    token(overrides?: CallOverrides): Promise<[string]>;
+
+    tokensDistributed(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    tokensReleased(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    transfer(
+      to: string,
+      tokensLocked: BigNumberish,
+      tokensUnlocked: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    transferAll(
+      to: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    unpause(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    vestingFinish(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    vestingStart(overrides?: CallOverrides): Promise<[BigNumber]>;
+  };
+
+  GUARDIAN_CHANGE_DELAY(overrides?: CallOverrides): Promise<BigNumber>;
+
+  MAX_PAUSE_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+  MAX_TOTAL_PAUSE_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+  PAUSE_COOLDOWN(overrides?: CallOverrides): Promise<BigNumber>;
+
+  RECOVERY_DELAY(overrides?: CallOverrides): Promise<BigNumber>;
+
+  VESTING_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+  VESTING_LOCKUP_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+  acceptGuardian(
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  addBeneficiaries(
+    beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  calculateClaim(
+    beneficiary: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  cancelGuardianChange(
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  cancelRecovery(
+    beneficiary: string,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  claim(
+    to: string,
+    amount: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  executeRecovery(
+    beneficiary: string,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  finishInitialization(
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  getBeneficiaryInfo(
+    beneficiary: string,
+    overrides?: CallOverrides
+  ): Promise<
+    [
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber
+    ] & {
+      startTime: BigNumber;
+      tokensLocked: BigNumber;
+      tokensUnlocked: BigNumber;
+      tokensClaimed: BigNumber;
+      tokensVesting: BigNumber;
+      lastVestingUpdate: BigNumber;
+      vestedFraction: BigNumber;
+    }
+  >;
+
+  guardian(overrides?: CallOverrides): Promise<string>;
+
+  guardianChange(
+    overrides?: CallOverrides
+  ): Promise<[string, BigNumber] & { account: string; validAfter: BigNumber }>;
+
+  guardianChangeDelay(overrides?: CallOverrides): Promise<BigNumber>;
+
+  initialize(
+    tokenAddress: string,
+    beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+    _vestingStart: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  initializeClone(
+    _owner: string,
+    lockupDuration: BigNumberish,
+    vestingDuration: BigNumberish,
+    tokenAddress: string,
+    beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+    _vestingStart: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  initialized(overrides?: CallOverrides): Promise<boolean>;
+
+  lockupEnd(overrides?: CallOverrides): Promise<BigNumber>;
+
+  owner(overrides?: CallOverrides): Promise<string>;
+
+  pause(
+    duration: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  paused(overrides?: CallOverrides): Promise<boolean>;
+
+  pausedTotal(overrides?: CallOverrides): Promise<BigNumber>;
+
+  pausedUntil(overrides?: CallOverrides): Promise<BigNumber>;
+
+  proposeGuardian(
+    account: string,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  proposeRecovery(
+    beneficiary: string,
+    account: string,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  recoveries(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<[string, BigNumber] & { account: string; validAfter: BigNumber }>;
+
+  rescueTokens(
+    rescuedToken: string,
+    to: string,
+    amount: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  revoke(
+    beneficiary: string,
+    treasury: string,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  startInitialization(
+    tokenAddress: string,
+    _vestingStart: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  surplus(overrides?: CallOverrides): Promise<BigNumber>;
+
+  token(overrides?: CallOverrides): Promise<string>;
+
+  tokensDistributed(overrides?: CallOverrides): Promise<BigNumber>;
+
+  tokensReleased(overrides?: CallOverrides): Promise<BigNumber>;
+
+  transfer(
+    to: string,
+    tokensLocked: BigNumberish,
+    tokensUnlocked: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  transferAll(
+    to: string,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  unpause(
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  vestingFinish(overrides?: CallOverrides): Promise<BigNumber>;
+
+  vestingStart(overrides?: CallOverrides): Promise<BigNumber>;
+
+  callStatic: {
+    GUARDIAN_CHANGE_DELAY(overrides?: CallOverrides): Promise<BigNumber>;
+
+    MAX_PAUSE_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+    MAX_TOTAL_PAUSE_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+    PAUSE_COOLDOWN(overrides?: CallOverrides): Promise<BigNumber>;
+
+    RECOVERY_DELAY(overrides?: CallOverrides): Promise<BigNumber>;
+
+    VESTING_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+    VESTING_LOCKUP_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+    acceptGuardian(overrides?: CallOverrides): Promise<void>;
+
+    addBeneficiaries(
+      beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    calculateClaim(
+      beneficiary: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    cancelGuardianChange(overrides?: CallOverrides): Promise<void>;
+
+    cancelRecovery(
+      beneficiary: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    claim(
+      to: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    executeRecovery(
+      beneficiary: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    finishInitialization(overrides?: CallOverrides): Promise<void>;
+
+    getBeneficiaryInfo(
+      beneficiary: string,
+      overrides?: CallOverrides
+    ): Promise<
+      [
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber
+      ] & {
+        startTime: BigNumber;
+        tokensLocked: BigNumber;
+        tokensUnlocked: BigNumber;
+        tokensClaimed: BigNumber;
+        tokensVesting: BigNumber;
+        lastVestingUpdate: BigNumber;
+        vestedFraction: BigNumber;
+      }
+    >;
+
+    guardian(overrides?: CallOverrides): Promise<string>;
+
+    guardianChange(
+      overrides?: CallOverrides
+    ): Promise<
+      [string, BigNumber] & { account: string; validAfter: BigNumber }
+    >;
+
+    guardianChangeDelay(overrides?: CallOverrides): Promise<BigNumber>;
+
+    initialize(
+      tokenAddress: string,
+      beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+      _vestingStart: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    initializeClone(
+      _owner: string,
+      lockupDuration: BigNumberish,
+      vestingDuration: BigNumberish,
+      tokenAddress: string,
+      beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+      _vestingStart: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    initialized(overrides?: CallOverrides): Promise<boolean>;
+
+    lockupEnd(overrides?: CallOverrides): Promise<BigNumber>;
+
+    owner(overrides?: CallOverrides): Promise<string>;
+
+    pause(duration: BigNumberish, overrides?: CallOverrides): Promise<void>;
+
+    paused(overrides?: CallOverrides): Promise<boolean>;
+
+    pausedTotal(overrides?: CallOverrides): Promise<BigNumber>;
+
+    pausedUntil(overrides?: CallOverrides): Promise<BigNumber>;
+
+    proposeGuardian(account: string, overrides?: CallOverrides): Promise<void>;
+
+    proposeRecovery(
+      beneficiary: string,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    recoveries(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<
+      [string, BigNumber] & { account: string; validAfter: BigNumber }
+    >;
+
+    rescueTokens(
+      rescuedToken: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    revoke(
+      beneficiary: string,
+      treasury: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    startInitialization(
+      tokenAddress: string,
+      _vestingStart: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    surplus(overrides?: CallOverrides): Promise<BigNumber>;
+
+    token(overrides?: CallOverrides): Promise<string>;
+
+    tokensDistributed(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tokensReleased(overrides?: CallOverrides): Promise<BigNumber>;
+
+    transfer(
+      to: string,
+      tokensLocked: BigNumberish,
+      tokensUnlocked: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    transferAll(to: string, overrides?: CallOverrides): Promise<void>;
+
+    unpause(overrides?: CallOverrides): Promise<void>;
+
+    vestingFinish(overrides?: CallOverrides): Promise<BigNumber>;
+
+    vestingStart(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  filters: {
+    "BeneficiaryAdded(address,uint256)"(
+      account?: string | null,
+      tokenAmount?: null
+    ): TypedEventFilter<
+      [string, BigNumber],
+      { account: string; tokenAmount: BigNumber }
+    >;
+
+    BeneficiaryAdded(
+      account?: string | null,
+      tokenAmount?: null
+    ): TypedEventFilter<
+      [string, BigNumber],
+      { account: string; tokenAmount: BigNumber }
+    >;
+
+    "BeneficiaryRecovered(address,address)"(
+      beneficiary?: string | null,
+      account?: string | null
+    ): TypedEventFilter<
+      [string, string],
+      { beneficiary: string; account: string }
+    >;
+
+    BeneficiaryRecovered(
+      beneficiary?: string | null,
+      account?: string | null
+    ): TypedEventFilter<
+      [string, string],
+      { beneficiary: string; account: string }
+    >;
+
+    "BeneficiaryRevoked(address,address,uint256,uint256)"(
+      beneficiary?: string | null,
+      treasury?: string | null,
+      amountUnlocked?: null,
+      amountRevoked?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber, BigNumber],
+      {
+        beneficiary: string;
+        treasury: string;
+        amountUnlocked: BigNumber;
+        amountRevoked: BigNumber;
+      }
+    >;
+
+    BeneficiaryRevoked(
+      beneficiary?: string | null,
+      treasury?: string | null,
+      amountUnlocked?: null,
+      amountRevoked?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber, BigNumber],
+      {
+        beneficiary: string;
+        treasury: string;
+        amountUnlocked: BigNumber;
+        amountRevoked: BigNumber;
+      }
+    >;
+
+    "GuardianChangeCancelled(address,address)"(
+      account?: string | null,
+      canceller?: string | null
+    ): TypedEventFilter<
+      [string, string],
+      { account: string; canceller: string }
+    >;
+
+    GuardianChangeCancelled(
+      account?: string | null,
+      canceller?: string | null
+    ): TypedEventFilter<
+      [string, string],
+      { account: string; canceller: string }
+    >;
+
+    "GuardianChangeProposed(address,address,uint64)"(
+      account?: string | null,
+      proposer?: string | null,
+      validAfter?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { account: string; proposer: string; validAfter: BigNumber }
+    >;
+
+    GuardianChangeProposed(
+      account?: string | null,
+      proposer?: string | null,
+      validAfter?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { account: string; proposer: string; validAfter: BigNumber }
+    >;
+
+    "GuardianChanged(address,address)"(
+      previousGuardian?: string | null,
+      guardian?: string | null
+    ): TypedEventFilter<
+      [string, string],
+      { previousGuardian: string; guardian: string }
+    >;
+
+    GuardianChanged(
+      previousGuardian?: string | null,
+      guardian?: string | null
+    ): TypedEventFilter<
+      [string, string],
+      { previousGuardian: string; guardian: string }
+    >;
+
+    "Paused(address,uint64)"(
+      guardian?: string | null,
+      pausedUntil?: null
+    ): TypedEventFilter<
+      [string, BigNumber],
+      { guardian: string; pausedUntil: BigNumber }
+    >;
+
+    Paused(
+      guardian?: string | null,
+      pausedUntil?: null
+    ): TypedEventFilter<
+      [string, BigNumber],
+      { guardian: string; pausedUntil: BigNumber }
+    >;
+
+    "RecoveryCancelled(address,address,address)"(
+      beneficiary?: string | null,
+      account?: string | null,
+      canceller?: string | null
+    ): TypedEventFilter<
+      [string, string, string],
+      { beneficiary: string; account: string; canceller: string }
+    >;
+
+    RecoveryCancelled(
+      beneficiary?: string | null,
+      account?: string | null,
+      canceller?: string | null
+    ): TypedEventFilter<
+      [string, string, string],
+      { beneficiary: string; account: string; canceller: string }
+    >;
+
+    "RecoveryProposed(address,address,uint64)"(
+      beneficiary?: string | null,
+      account?: string | null,
+      validAfter?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { beneficiary: string; account: string; validAfter: BigNumber }
+    >;
+
+    RecoveryProposed(
+      beneficiary?: string | null,
+      account?: string | null,
+      validAfter?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { beneficiary: string; account: string; validAfter: BigNumber }
+    >;
+
+    "TokensClaimed(address,address,uint256)"(
+      from?: string | null,
+      to?: string | null,
+      amount?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { from: string; to: string; amount: BigNumber }
+    >;
+
+    TokensClaimed(
+      from?: string | null,
+      to?: string | null,
+      amount?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { from: string; to: string; amount: BigNumber }
+    >;
+
+    "TokensRescued(address,address,uint256)"(
+      token?: string | null,
+      to?: string | null,
+      amount?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { token: string; to: string; amount: BigNumber }
+    >;
+
+    TokensRescued(
+      token?: string | null,
+      to?: string | null,
+      amount?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { token: string; to: string; amount: BigNumber }
+    >;
+
+    "TokensTransferred(address,address,uint256,uint256)"(
+      from?: string | null,
+      to?: string | null,
+      amountLocked?: null,
+      amountUnlocked?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber, BigNumber],
+      {
+        from: string;
+        to: string;
+        amountLocked: BigNumber;
+        amountUnlocked: BigNumber;
+      }
+    >;
+
+    TokensTransferred(
+      from?: string | null,
+      to?: string | null,
+      amountLocked?: null,
+      amountUnlocked?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber, BigNumber],
+      {
+        from: string;
+        to: string;
+        amountLocked: BigNumber;
+        amountUnlocked: BigNumber;
+      }
+    >;
+
+    "Unpaused(address)"(
+      guardian?: string | null
+    ): TypedEventFilter<[string], { guardian: string }>;
+
+    Unpaused(
+      guardian?: string | null
+    ): TypedEventFilter<[string], { guardian: string }>;
+  };
+
+  estimateGas: {
+    GUARDIAN_CHANGE_DELAY(overrides?: CallOverrides): Promise<BigNumber>;
+
+    MAX_PAUSE_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+    MAX_TOTAL_PAUSE_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+    PAUSE_COOLDOWN(overrides?: CallOverrides): Promise<BigNumber>;
+
+    RECOVERY_DELAY(overrides?: CallOverrides): Promise<BigNumber>;
+
+    VESTING_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+    VESTING_LOCKUP_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+    acceptGuardian(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    addBeneficiaries(
+      beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    calculateClaim(
+      beneficiary: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    cancelGuardianChange(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    cancelRecovery(
+      beneficiary: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    claim(
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    executeRecovery(
+      beneficiary: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    finishInitialization(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    getBeneficiaryInfo(
+      beneficiary: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    guardian(overrides?: CallOverrides): Promise<BigNumber>;
+
+    guardianChange(overrides?: CallOverrides): Promise<BigNumber>;
+
+    guardianChangeDelay(overrides?: CallOverrides): Promise<BigNumber>;
+
+    initialize(
+      tokenAddress: string,
+      beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+      _vestingStart: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    initializeClone(
+      _owner: string,
+      lockupDuration: BigNumberish,
+      vestingDuration: BigNumberish,
+      tokenAddress: string,
+      beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+      _vestingStart: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    initialized(overrides?: CallOverrides): Promise<BigNumber>;
+
+    lockupEnd(overrides?: CallOverrides): Promise<BigNumber>;
+
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+
+    pause(
+      duration: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    paused(overrides?: CallOverrides): Promise<BigNumber>;
+
+    pausedTotal(overrides?: CallOverrides): Promise<BigNumber>;
+
+    pausedUntil(overrides?: CallOverrides): Promise<BigNumber>;
+
+    proposeGuardian(
+      account: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    proposeRecovery(
+      beneficiary: string,
+      account: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    recoveries(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    rescueTokens(
+      rescuedToken: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    revoke(
+      beneficiary: string,
+      treasury: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    startInitialization(
+      tokenAddress: string,
+      _vestingStart: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    surplus(overrides?: CallOverrides): Promise<BigNumber>;
+
+    token(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tokensDistributed(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tokensReleased(overrides?: CallOverrides): Promise<BigNumber>;
+
+    transfer(
+      to: string,
+      tokensLocked: BigNumberish,
+      tokensUnlocked: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    transferAll(
+      to: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    unpause(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    vestingFinish(overrides?: CallOverrides): Promise<BigNumber>;
+
+    vestingStart(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    GUARDIAN_CHANGE_DELAY(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    MAX_PAUSE_DURATION(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    MAX_TOTAL_PAUSE_DURATION(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    PAUSE_COOLDOWN(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    RECOVERY_DELAY(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    VESTING_DURATION(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    VESTING_LOCKUP_DURATION(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    acceptGuardian(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    addBeneficiaries(
+      beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    calculateClaim(
+      beneficiary: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    cancelGuardianChange(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    cancelRecovery(
+      beneficiary: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    claim(
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    executeRecovery(
+      beneficiary: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    finishInitialization(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    getBeneficiaryInfo(
+      beneficiary: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    guardian(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    guardianChange(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    guardianChangeDelay(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    initialize(
+      tokenAddress: string,
+      beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+      _vestingStart: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    initializeClone(
+      _owner: string,
+      lockupDuration: BigNumberish,
+      vestingDuration: BigNumberish,
+      tokenAddress: string,
+      beneficiaries: { account: string; tokenAmount: BigNumberish }[],
+      _vestingStart: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    initialized(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    lockupEnd(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    pause(
+      duration: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    paused(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    pausedTotal(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    pausedUntil(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    proposeGuardian(
+      account: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    proposeRecovery(
+      beneficiary: string,
+      account: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    recoveries(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    rescueTokens(
+      rescuedToken: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    revoke(
+      beneficiary: string,
+      treasury: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    startInitialization(
+      tokenAddress: string,
+      _vestingStart: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    surplus(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    token(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    tokensDistributed(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    tokensReleased(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    transfer(
+      to: string,
+      tokensLocked: BigNumberish,
+      tokensUnlocked: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    transferAll(
+      to: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    unpause(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    vestingFinish(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    vestingStart(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+  };
+}
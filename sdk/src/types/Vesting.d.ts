@@ -0,0 +1,1420 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+  BaseContract,
+  ContractTransaction,
+  Overrides,
+  CallOverrides,
+} from "ethers";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+import type { TypedEventFilter, TypedEvent, TypedListener } from "./common";
+
+interface VestingInterface extends ethers.utils.Interface {
+  functions: {
+    "GUARDIAN_CHANGE_DELAY()": FunctionFragment;
+    "MAX_PAUSE_DURATION()": FunctionFragment;
+    "MAX_TOTAL_PAUSE_DURATION()": FunctionFragment;
+    "MIN_ROLE_CHANGE_DELAY()": FunctionFragment;
+    "PAUSE_COOLDOWN()": FunctionFragment;
+    "acceptGuardian()": FunctionFragment;
+    "acceptRoleChange(uint8)": FunctionFragment;
+    "calculateClaim()": FunctionFragment;
+    "cancelGuardianChange()": FunctionFragment;
+    "cancelRoleChange(uint8)": FunctionFragment;
+    "claim(address,uint96)": FunctionFragment;
+    "claimBatch(tuple[])": FunctionFragment;
+    "dao()": FunctionFragment;
+    "elapsedAtTopUp()": FunctionFragment;
+    "guardian()": FunctionFragment;
+    "guardianChange()": FunctionFragment;
+    "guardianChangeDelay()": FunctionFragment;
+    "initialize(address,uint64,uint64)": FunctionFragment;
+    "initializeClone(address,uint64,address,uint64,uint64,uint64,uint64)": FunctionFragment;
+    "initializeWithCurve(address,uint64,uint64,uint64,uint64)": FunctionFragment;
+    "initialized()": FunctionFragment;
+    "owner()": FunctionFragment;
+    "pause(uint64)": FunctionFragment;
+    "paused()": FunctionFragment;
+    "pausedTotal()": FunctionFragment;
+    "pausedUntil()": FunctionFragment;
+    "proposeGuardian(address)": FunctionFragment;
+    "proposeRoleChange(uint8,address)": FunctionFragment;
+    "rescueTokens(address,address,uint256)": FunctionFragment;
+    "roleChangeDelay()": FunctionFragment;
+    "roleChanges(uint8)": FunctionFragment;
+    "stepDuration()": FunctionFragment;
+    "surplus()": FunctionFragment;
+    "token()": FunctionFragment;
+    "tokensClaimed()": FunctionFragment;
+    "tokensLocked()": FunctionFragment;
+    "tokensTotal()": FunctionFragment;
+    "topUp()": FunctionFragment;
+    "unlockedAtTopUp()": FunctionFragment;
+    "unpause()": FunctionFragment;
+    "vestingCliff()": FunctionFragment;
+    "vestingFinish()": FunctionFragment;
+    "vestingStart()": FunctionFragment;
+  };
+
+  encodeFunctionData(
+    functionFragment: "GUARDIAN_CHANGE_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PAUSE_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_TOTAL_PAUSE_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_ROLE_CHANGE_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSE_COOLDOWN",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptGuardian",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptRoleChange",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "calculateClaim",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelGuardianChange",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelRoleChange",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claim",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimBatch",
+    values: [{ to: string; amount: BigNumberish }[]]
+  ): string;
+  encodeFunctionData(functionFragment: "dao", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "elapsedAtTopUp",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "guardian", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "guardianChange",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "guardianChangeDelay",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initializeClone",
+    values: [
+      string,
+      BigNumberish,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initializeWithCurve",
+    values: [string, BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialized",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values: [BigNumberish]): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pausedTotal",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pausedUntil",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposeGuardian",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposeRoleChange",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rescueTokens",
+    values: [string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "roleChangeDelay",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "roleChanges",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "stepDuration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "surplus", values?: undefined): string;
+  encodeFunctionData(functionFragment: "token", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "tokensClaimed",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokensLocked",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokensTotal",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "topUp", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "unlockedAtTopUp",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "vestingCliff",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "vestingFinish",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "vestingStart",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "GUARDIAN_CHANGE_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PAUSE_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_TOTAL_PAUSE_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_ROLE_CHANGE_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSE_COOLDOWN",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptGuardian",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptRoleChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "calculateClaim",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelGuardianChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelRoleChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "claim", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "claimBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "dao", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "elapsedAtTopUp",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "guardian", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "guardianChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "guardianChangeDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "initializeClone",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "initializeWithCurve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "initialized",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pausedTotal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pausedUntil",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposeGuardian",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposeRoleChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rescueTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "roleChangeDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "roleChanges",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "stepDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "surplus", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "token", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "tokensClaimed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokensLocked",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokensTotal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "topUp", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "unlockedAtTopUp",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "vestingCliff",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "vestingFinish",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "vestingStart",
+    data: BytesLike
+  ): Result;
+
+  events: {
+    "GuardianChangeCancelled(address,address)": EventFragment;
+    "GuardianChangeProposed(address,address,uint64)": EventFragment;
+    "GuardianChanged(address,address)": EventFragment;
+    "Paused(address,uint64)": EventFragment;
+    "RoleChangeCancelled(uint8,address,address)": EventFragment;
+    "RoleChangeProposed(uint8,address,address,uint64)": EventFragment;
+    "RoleChanged(uint8,address,address)": EventFragment;
+    "TokensClaimed(address,address,uint256)": EventFragment;
+    "TokensRescued(address,address,uint256)": EventFragment;
+    "TokensToppedUp(address,uint256)": EventFragment;
+    "Unpaused(address)": EventFragment;
+  };
+
+  getEvent(nameOrSignatureOrTopic: "GuardianChangeCancelled"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "GuardianChangeProposed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "GuardianChanged"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Paused"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RoleChangeCancelled"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RoleChangeProposed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RoleChanged"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TokensClaimed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TokensRescued"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TokensToppedUp"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Unpaused"): EventFragment;
+}
+
+export type GuardianChangeCancelledEvent = TypedEvent<
+  [string, string] & { account: string; canceller: string }
+>;
+
+export type GuardianChangeProposedEvent = TypedEvent<
+  [string, string, BigNumber] & {
+    account: string;
+    proposer: string;
+    validAfter: BigNumber;
+  }
+>;
+
+export type GuardianChangedEvent = TypedEvent<
+  [string, string] & { previousGuardian: string; guardian: string }
+>;
+
+export type PausedEvent = TypedEvent<
+  [string, BigNumber] & { guardian: string; pausedUntil: BigNumber }
+>;
+
+export type RoleChangeCancelledEvent = TypedEvent<
+  [number, string, string] & {
+    role: number;
+    account: string;
+    canceller: string;
+  }
+>;
+
+export type RoleChangeProposedEvent = TypedEvent<
+  [number, string, string, BigNumber] & {
+    role: number;
+    account: string;
+    proposer: string;
+    validAfter: BigNumber;
+  }
+>;
+
+export type RoleChangedEvent = TypedEvent<
+  [number, string, string] & {
+    role: number;
+    previousAccount: string;
+    account: string;
+  }
+>;
+
+export type TokensClaimedEvent = TypedEvent<
+  [string, string, BigNumber] & { from: string; to: string; amount: BigNumber }
+>;
+
+export type TokensRescuedEvent = TypedEvent<
+  [string, string, BigNumber] & { token: string; to: string; amount: BigNumber }
+>;
+
+export type TokensToppedUpEvent = TypedEvent<
+  [string, BigNumber] & { sender: string; amount: BigNumber }
+>;
+
+export type UnpausedEvent = TypedEvent<[string] & { guardian: string }>;
+
+export class Vesting extends BaseContract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  listeners<EventArgsArray extends Array<any>, EventArgsObject>(
+    eventFilter?: TypedEventFilter<EventArgsArray, EventArgsObject>
+  ): Array<TypedListener<EventArgsArray, EventArgsObject>>;
+  off<EventArgsArray extends Array<any>, EventArgsObject>(
+    eventFilter: TypedEventFilter<EventArgsArray, EventArgsObject>,
+    listener: TypedListener<EventArgsArray, EventArgsObject>
+  ): this;
+  on<EventArgsArray extends Array<any>, EventArgsObject>(
+    eventFilter: TypedEventFilter<EventArgsArray, EventArgsObject>,
+    listener: TypedListener<EventArgsArray, EventArgsObject>
+  ): this;
+  once<EventArgsArray extends Array<any>, EventArgsObject>(
+    eventFilter: TypedEventFilter<EventArgsArray, EventArgsObject>,
+    listener: TypedListener<EventArgsArray, EventArgsObject>
+  ): this;
+  removeListener<EventArgsArray extends Array<any>, EventArgsObject>(
+    eventFilter: TypedEventFilter<EventArgsArray, EventArgsObject>,
+    listener: TypedListener<EventArgsArray, EventArgsObject>
+  ): this;
+  removeAllListeners<EventArgsArray extends Array<any>, EventArgsObject>(
+    eventFilter: TypedEventFilter<EventArgsArray, EventArgsObject>
+  ): this;
+
+  listeners(eventName?: string): Array<Listener>;
+  off(eventName: string, listener: Listener): this;
+  on(eventName: string, listener: Listener): this;
+  once(eventName: string, listener: Listener): this;
+  removeListener(eventName: string, listener: Listener): this;
+  removeAllListeners(eventName?: string): this;
+
+  queryFilter<EventArgsArray extends Array<any>, EventArgsObject>(
+    event: TypedEventFilter<EventArgsArray, EventArgsObject>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEvent<EventArgsArray & EventArgsObject>>>;
+
+  interface: VestingInterface;
+
+  functions: {
+    GUARDIAN_CHANGE_DELAY(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    MAX_PAUSE_DURATION(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    MAX_TOTAL_PAUSE_DURATION(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    MIN_ROLE_CHANGE_DELAY(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    PAUSE_COOLDOWN(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    acceptGuardian(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    acceptRoleChange(
+      role: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    calculateClaim(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    cancelGuardianChange(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    cancelRoleChange(
+      role: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    claim(
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    claimBatch(
+      payouts: { to: string; amount: BigNumberish }[],
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    dao(overrides?: CallOverrides): Promise<[string]>;
+
+    elapsedAtTopUp(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    guardian(overrides?: CallOverrides): Promise<[string]>;
+
+    guardianChange(
+      overrides?: CallOverrides
+    ): Promise<
+      [string, BigNumber] & { account: string; validAfter: BigNumber }
+    >;
+
+    guardianChangeDelay(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    initialize(
+      _token: string,
+      _vestingStart: BigNumberish,
+      _vestingFinish: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    initializeClone(
+      _owner: string,
+      _roleChangeDelay: BigNumberish,
+      _token: string,
+      _vestingStart: BigNumberish,
+      _vestingFinish: BigNumberish,
+      _vestingCliff: BigNumberish,
+      _stepDuration: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    initializeWithCurve(
+      _token: string,
+      _vestingStart: BigNumberish,
+      _vestingFinish: BigNumberish,
+      _vestingCliff: BigNumberish,
+      _stepDuration: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    initialized(overrides?: CallOverrides): Promise<[boolean]>;
+
+    owner(overrides?: CallOverrides): Promise<[string]>;
+
+    pause(
+      duration: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    paused(overrides?: CallOverrides): Promise<[boolean]>;
+
+    pausedTotal(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    pausedUntil(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    proposeGuardian(
+      account: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    proposeRoleChange(
+      role: BigNumberish,
+      account: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    rescueTokens(
+      rescuedToken: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    roleChangeDelay(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    roleChanges(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<
+      [string, BigNumber] & { account: string; validAfter: BigNumber }
+    >;
+
+    stepDuration(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    surplus(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    token(overrides?: CallOverrides): Promise<[string]>;
+
+    tokensClaimed(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    tokensLocked(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    tokensTotal(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    topUp(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    unlockedAtTopUp(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    unpause(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<ContractTransaction>;
+
+    vestingCliff(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    vestingFinish(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    vestingStart(overrides?: CallOverrides): Promise<[BigNumber]>;
+  };
+
+  GUARDIAN_CHANGE_DELAY(overrides?: CallOverrides): Promise<BigNumber>;
+
+  MAX_PAUSE_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+  MAX_TOTAL_PAUSE_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+  MIN_ROLE_CHANGE_DELAY(overrides?: CallOverrides): Promise<BigNumber>;
+
+  PAUSE_COOLDOWN(overrides?: CallOverrides): Promise<BigNumber>;
+
+  acceptGuardian(
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  acceptRoleChange(
+    role: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  calculateClaim(overrides?: CallOverrides): Promise<BigNumber>;
+
+  cancelGuardianChange(
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  cancelRoleChange(
+    role: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  claim(
+    to: string,
+    amount: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  claimBatch(
+    payouts: { to: string; amount: BigNumberish }[],
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  dao(overrides?: CallOverrides): Promise<string>;
+
+  elapsedAtTopUp(overrides?: CallOverrides): Promise<BigNumber>;
+
+  guardian(overrides?: CallOverrides): Promise<string>;
+
+  guardianChange(
+    overrides?: CallOverrides
+  ): Promise<[string, BigNumber] & { account: string; validAfter: BigNumber }>;
+
+  guardianChangeDelay(overrides?: CallOverrides): Promise<BigNumber>;
+
+  initialize(
+    _token: string,
+    _vestingStart: BigNumberish,
+    _vestingFinish: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  initializeClone(
+    _owner: string,
+    _roleChangeDelay: BigNumberish,
+    _token: string,
+    _vestingStart: BigNumberish,
+    _vestingFinish: BigNumberish,
+    _vestingCliff: BigNumberish,
+    _stepDuration: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  initializeWithCurve(
+    _token: string,
+    _vestingStart: BigNumberish,
+    _vestingFinish: BigNumberish,
+    _vestingCliff: BigNumberish,
+    _stepDuration: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  initialized(overrides?: CallOverrides): Promise<boolean>;
+
+  owner(overrides?: CallOverrides): Promise<string>;
+
+  pause(
+    duration: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  paused(overrides?: CallOverrides): Promise<boolean>;
+
+  pausedTotal(overrides?: CallOverrides): Promise<BigNumber>;
+
+  pausedUntil(overrides?: CallOverrides): Promise<BigNumber>;
+
+  proposeGuardian(
+    account: string,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  proposeRoleChange(
+    role: BigNumberish,
+    account: string,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  rescueTokens(
+    rescuedToken: string,
+    to: string,
+    amount: BigNumberish,
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  roleChangeDelay(overrides?: CallOverrides): Promise<BigNumber>;
+
+  roleChanges(
+    arg0: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<[string, BigNumber] & { account: string; validAfter: BigNumber }>;
+
+  stepDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+  surplus(overrides?: CallOverrides): Promise<BigNumber>;
+
+  token(overrides?: CallOverrides): Promise<string>;
+
+  tokensClaimed(overrides?: CallOverrides): Promise<BigNumber>;
+
+  tokensLocked(overrides?: CallOverrides): Promise<BigNumber>;
+
+  tokensTotal(overrides?: CallOverrides): Promise<BigNumber>;
+
+  topUp(
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  unlockedAtTopUp(overrides?: CallOverrides): Promise<BigNumber>;
+
+  unpause(
+    overrides?: Overrides & { from?: string | Promise<string> }
+  ): Promise<ContractTransaction>;
+
+  vestingCliff(overrides?: CallOverrides): Promise<BigNumber>;
+
+  vestingFinish(overrides?: CallOverrides): Promise<BigNumber>;
+
+  vestingStart(overrides?: CallOverrides): Promise<BigNumber>;
+
+  callStatic: {
+    GUARDIAN_CHANGE_DELAY(overrides?: CallOverrides): Promise<BigNumber>;
+
+    MAX_PAUSE_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+    MAX_TOTAL_PAUSE_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+    MIN_ROLE_CHANGE_DELAY(overrides?: CallOverrides): Promise<BigNumber>;
+
+    PAUSE_COOLDOWN(overrides?: CallOverrides): Promise<BigNumber>;
+
+    acceptGuardian(overrides?: CallOverrides): Promise<void>;
+
+    acceptRoleChange(
+      role: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    calculateClaim(overrides?: CallOverrides): Promise<BigNumber>;
+
+    cancelGuardianChange(overrides?: CallOverrides): Promise<void>;
+
+    cancelRoleChange(
+      role: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    claim(
+      to: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    claimBatch(
+      payouts: { to: string; amount: BigNumberish }[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    dao(overrides?: CallOverrides): Promise<string>;
+
+    elapsedAtTopUp(overrides?: CallOverrides): Promise<BigNumber>;
+
+    guardian(overrides?: CallOverrides): Promise<string>;
+
+    guardianChange(
+      overrides?: CallOverrides
+    ): Promise<
+      [string, BigNumber] & { account: string; validAfter: BigNumber }
+    >;
+
+    guardianChangeDelay(overrides?: CallOverrides): Promise<BigNumber>;
+
+    initialize(
+      _token: string,
+      _vestingStart: BigNumberish,
+      _vestingFinish: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    initializeClone(
+      _owner: string,
+      _roleChangeDelay: BigNumberish,
+      _token: string,
+      _vestingStart: BigNumberish,
+      _vestingFinish: BigNumberish,
+      _vestingCliff: BigNumberish,
+      _stepDuration: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    initializeWithCurve(
+      _token: string,
+      _vestingStart: BigNumberish,
+      _vestingFinish: BigNumberish,
+      _vestingCliff: BigNumberish,
+      _stepDuration: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    initialized(overrides?: CallOverrides): Promise<boolean>;
+
+    owner(overrides?: CallOverrides): Promise<string>;
+
+    pause(duration: BigNumberish, overrides?: CallOverrides): Promise<void>;
+
+    paused(overrides?: CallOverrides): Promise<boolean>;
+
+    pausedTotal(overrides?: CallOverrides): Promise<BigNumber>;
+
+    pausedUntil(overrides?: CallOverrides): Promise<BigNumber>;
+
+    proposeGuardian(account: string, overrides?: CallOverrides): Promise<void>;
+
+    proposeRoleChange(
+      role: BigNumberish,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    rescueTokens(
+      rescuedToken: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    roleChangeDelay(overrides?: CallOverrides): Promise<BigNumber>;
+
+    roleChanges(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<
+      [string, BigNumber] & { account: string; validAfter: BigNumber }
+    >;
+
+    stepDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+    surplus(overrides?: CallOverrides): Promise<BigNumber>;
+
+    token(overrides?: CallOverrides): Promise<string>;
+
+    tokensClaimed(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tokensLocked(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tokensTotal(overrides?: CallOverrides): Promise<BigNumber>;
+
+    topUp(overrides?: CallOverrides): Promise<void>;
+
+    unlockedAtTopUp(overrides?: CallOverrides): Promise<BigNumber>;
+
+    unpause(overrides?: CallOverrides): Promise<void>;
+
+    vestingCliff(overrides?: CallOverrides): Promise<BigNumber>;
+
+    vestingFinish(overrides?: CallOverrides): Promise<BigNumber>;
+
+    vestingStart(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  filters: {
+    "GuardianChangeCancelled(address,address)"(
+      account?: string | null,
+      canceller?: string | null
+    ): TypedEventFilter<
+      [string, string],
+      { account: string; canceller: string }
+    >;
+
+    GuardianChangeCancelled(
+      account?: string | null,
+      canceller?: string | null
+    ): TypedEventFilter<
+      [string, string],
+      { account: string; canceller: string }
+    >;
+
+    "GuardianChangeProposed(address,address,uint64)"(
+      account?: string | null,
+      proposer?: string | null,
+      validAfter?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { account: string; proposer: string; validAfter: BigNumber }
+    >;
+
+    GuardianChangeProposed(
+      account?: string | null,
+      proposer?: string | null,
+      validAfter?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { account: string; proposer: string; validAfter: BigNumber }
+    >;
+
+    "GuardianChanged(address,address)"(
+      previousGuardian?: string | null,
+      guardian?: string | null
+    ): TypedEventFilter<
+      [string, string],
+      { previousGuardian: string; guardian: string }
+    >;
+
+    GuardianChanged(
+      previousGuardian?: string | null,
+      guardian?: string | null
+    ): TypedEventFilter<
+      [string, string],
+      { previousGuardian: string; guardian: string }
+    >;
+
+    "Paused(address,uint64)"(
+      guardian?: string | null,
+      pausedUntil?: null
+    ): TypedEventFilter<
+      [string, BigNumber],
+      { guardian: string; pausedUntil: BigNumber }
+    >;
+
+    Paused(
+      guardian?: string | null,
+      pausedUntil?: null
+    ): TypedEventFilter<
+      [string, BigNumber],
+      { guardian: string; pausedUntil: BigNumber }
+    >;
+
+    "RoleChangeCancelled(uint8,address,address)"(
+      role?: BigNumberish | null,
+      account?: string | null,
+      canceller?: string | null
+    ): TypedEventFilter<
+      [number, string, string],
+      { role: number; account: string; canceller: string }
+    >;
+
+    RoleChangeCancelled(
+      role?: BigNumberish | null,
+      account?: string | null,
+      canceller?: string | null
+    ): TypedEventFilter<
+      [number, string, string],
+      { role: number; account: string; canceller: string }
+    >;
+
+    "RoleChangeProposed(uint8,address,address,uint64)"(
+      role?: BigNumberish | null,
+      account?: string | null,
+      proposer?: string | null,
+      validAfter?: null
+    ): TypedEventFilter<
+      [number, string, string, BigNumber],
+      { role: number; account: string; proposer: string; validAfter: BigNumber }
+    >;
+
+    RoleChangeProposed(
+      role?: BigNumberish | null,
+      account?: string | null,
+      proposer?: string | null,
+      validAfter?: null
+    ): TypedEventFilter<
+      [number, string, string, BigNumber],
+      { role: number; account: string; proposer: string; validAfter: BigNumber }
+    >;
+
+    "RoleChanged(uint8,address,address)"(
+      role?: BigNumberish | null,
+      previousAccount?: string | null,
+      account?: string | null
+    ): TypedEventFilter<
+      [number, string, string],
+      { role: number; previousAccount: string; account: string }
+    >;
+
+    RoleChanged(
+      role?: BigNumberish | null,
+      previousAccount?: string | null,
+      account?: string | null
+    ): TypedEventFilter<
+      [number, string, string],
+      { role: number; previousAccount: string; account: string }
+    >;
+
+    "TokensClaimed(address,address,uint256)"(
+      from?: string | null,
+      to?: string | null,
+      amount?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { from: string; to: string; amount: BigNumber }
+    >;
+
+    TokensClaimed(
+      from?: string | null,
+      to?: string | null,
+      amount?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { from: string; to: string; amount: BigNumber }
+    >;
+
+    "TokensRescued(address,address,uint256)"(
+      token?: string | null,
+      to?: string | null,
+      amount?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { token: string; to: string; amount: BigNumber }
+    >;
+
+    TokensRescued(
+      token?: string | null,
+      to?: string | null,
+      amount?: null
+    ): TypedEventFilter<
+      [string, string, BigNumber],
+      { token: string; to: string; amount: BigNumber }
+    >;
+
+    "TokensToppedUp(address,uint256)"(
+      sender?: string | null,
+      amount?: null
+    ): TypedEventFilter<
+      [string, BigNumber],
+      { sender: string; amount: BigNumber }
+    >;
+
+    TokensToppedUp(
+      sender?: string | null,
+      amount?: null
+    ): TypedEventFilter<
+      [string, BigNumber],
+      { sender: string; amount: BigNumber }
+    >;
+
+    "Unpaused(address)"(
+      guardian?: string | null
+    ): TypedEventFilter<[string], { guardian: string }>;
+
+    Unpaused(
+      guardian?: string | null
+    ): TypedEventFilter<[string], { guardian: string }>;
+  };
+
+  estimateGas: {
+    GUARDIAN_CHANGE_DELAY(overrides?: CallOverrides): Promise<BigNumber>;
+
+    MAX_PAUSE_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+    MAX_TOTAL_PAUSE_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+
+    MIN_ROLE_CHANGE_DELAY(overrides?: CallOverrides): Promise<BigNumber>;
+
+    PAUSE_COOLDOWN(overrides?: CallOverrides): Promise<BigNumber>;
+
+    acceptGuardian(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    acceptRoleChange(
+      role: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    calculateClaim(overrides?: CallOverrides): Promise<BigNumber>;
+
+    cancelGuardianChange(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    cancelRoleChange(
+      role: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    claim(
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    claimBatch(
+      payouts: { to: string; amount: BigNumberish }[],
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    dao(overrides?: CallOverrides): Promise<BigNumber>;
+
+    elapsedAtTopUp(overrides?: CallOverrides): Promise<BigNumber>;
+
+    guardian(overrides?: CallOverrides): Promise<BigNumber>;
+
+    guardianChange(overrides?: CallOverrides): Promise<BigNumber>;
+
+    guardianChangeDelay(overrides?: CallOverrides): Promise<BigNumber>;
+
+    initialize(
+      _token: string,
+      _vestingStart: BigNumberish,
+      _vestingFinish: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    initializeClone(
+      _owner: string,
+      _roleChangeDelay: BigNumberish,
+      _token: string,
+      _vestingStart: BigNumberish,
+      _vestingFinish: BigNumberish,
+      _vestingCliff: BigNumberish,
+      _stepDuration: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    initializeWithCurve(
+      _token: string,
+      _vestingStart: BigNumberish,
+      _vestingFinish: BigNumberish,
+      _vestingCliff: BigNumberish,
+      _stepDuration: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    initialized(overrides?: CallOverrides): Promise<BigNumber>;
+
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+
+    pause(
+      duration: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    paused(overrides?: CallOverrides): Promise<BigNumber>;
+
+    pausedTotal(overrides?: CallOverrides): Promise<BigNumber>;
+
+    pausedUntil(overrides?: CallOverrides): Promise<BigNumber>;
+
+    proposeGuardian(
+      account: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    proposeRoleChange(
+      role: BigNumberish,
+      account: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    rescueTokens(
+      rescuedToken: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    roleChangeDelay(overrides?: CallOverrides): Promise<BigNumber>;
+
+    roleChanges(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    stepDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+    surplus(overrides?: CallOverrides): Promise<BigNumber>;
+
+    token(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tokensClaimed(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tokensLocked(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tokensTotal(overrides?: CallOverrides): Promise<BigNumber>;
+
+    topUp(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    unlockedAtTopUp(overrides?: CallOverrides): Promise<BigNumber>;
+
+    unpause(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<BigNumber>;
+
+    vestingCliff(overrides?: CallOverrides): Promise<BigNumber>;
+
+    vestingFinish(overrides?: CallOverrides): Promise<BigNumber>;
+
+    vestingStart(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    GUARDIAN_CHANGE_DELAY(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    MAX_PAUSE_DURATION(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    MAX_TOTAL_PAUSE_DURATION(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    MIN_ROLE_CHANGE_DELAY(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    PAUSE_COOLDOWN(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    acceptGuardian(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    acceptRoleChange(
+      role: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    calculateClaim(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    cancelGuardianChange(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    cancelRoleChange(
+      role: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    claim(
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    claimBatch(
+      payouts: { to: string; amount: BigNumberish }[],
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    dao(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    elapsedAtTopUp(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    guardian(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    guardianChange(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    guardianChangeDelay(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    initialize(
+      _token: string,
+      _vestingStart: BigNumberish,
+      _vestingFinish: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    initializeClone(
+      _owner: string,
+      _roleChangeDelay: BigNumberish,
+      _token: string,
+      _vestingStart: BigNumberish,
+      _vestingFinish: BigNumberish,
+      _vestingCliff: BigNumberish,
+      _stepDuration: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    initializeWithCurve(
+      _token: string,
+      _vestingStart: BigNumberish,
+      _vestingFinish: BigNumberish,
+      _vestingCliff: BigNumberish,
+      _stepDuration: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    initialized(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    pause(
+      duration: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    paused(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    pausedTotal(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    pausedUntil(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    proposeGuardian(
+      account: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    proposeRoleChange(
+      role: BigNumberish,
+      account: string,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    rescueTokens(
+      rescuedToken: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    roleChangeDelay(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    roleChanges(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    stepDuration(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    surplus(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    token(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    tokensClaimed(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    tokensLocked(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    tokensTotal(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    topUp(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    unlockedAtTopUp(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    unpause(
+      overrides?: Overrides & { from?: string | Promise<string> }
+    ): Promise<PopulatedTransaction>;
+
+    vestingCliff(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    vestingFinish(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    vestingStart(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+  };
+}
@@ -0,0 +1,8 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { Vesting } from "./Vesting";
+export type { InsidersVesting } from "./InsidersVesting";
+
+export { Vesting__factory } from "./factories/Vesting__factory";
+export { InsidersVesting__factory } from "./factories/InsidersVesting__factory";
@@ -0,0 +1,96 @@
+import { task } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import { BigNumber, utils } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { formatDate } from '../utils/dates';
+import { getSigner } from '../utils/signer';
+import { formatEvents, getTokenUnits, TokenUnits } from '../utils/tokens';
+
+// Balances of the beneficiary as the next transaction will see them. Unlocked amount only grows with time,
+// so the values at the latest block are a safe lower bound for unlocked and an upper bound for locked.
+async function prepareInsiders(hre: HardhatRuntimeEnvironment, contract: string) {
+    const signer = await getSigner(hre.ethers);
+    const vesting = await hre.ethers.getContractAt('InsidersVesting', contract);
+    const units = await getTokenUnits(await hre.ethers.getContractAt('IERC20Metadata', await vesting.token()));
+    if (await vesting.paused()) {
+        throw new Error(`Claims and transfers are paused until ${formatDate((await vesting.pausedUntil()).toNumber())}`);
+    }
+
+    let info;
+    try {
+        info = await vesting.getBeneficiaryInfo(signer.address);
+    } catch {
+        throw new Error(`${signer.address} is not in whitelist`);
+    }
+    const unlocked = await vesting.calculateClaim(signer.address);
+    // calculateClaim counts staged and not yet staged unlocks, the latter are still in tokensLocked
+    const locked = info.tokensLocked.sub(unlocked.sub(info.tokensUnlocked));
+    const { timestamp } = await hre.ethers.provider.getBlock('latest');
+
+    console.log(`Beneficiary ${signer.address}: locked ${units.format(locked)}, unlocked ${units.format(unlocked)}`);
+    return { signer, vesting, units, locked, unlocked, timestamp };
+}
+
+function checkRecipient(from: string, to: string) {
+    if (utils.getAddress(from) === utils.getAddress(to)) {
+        throw new Error('Cannot transfer to the same address');
+    }
+}
+
+function checkAmount(kind: string, requested: BigNumber, available: BigNumber, units: TokenUnits) {
+    if (requested.gt(available)) {
+        throw new Error(`Requested more than ${kind}: ${units.format(requested)} of ${units.format(available)}`);
+    }
+}
+
+task('insiders-claim', 'Claim unlocked tokens of InsidersVesting beneficiary')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('to', 'Address receiving the tokens')
+    .addParam('amount', 'Amount of tokens, like 1.5')
+    .setAction(async (taskArgs, hre) => {
+        const { signer, vesting, units, unlocked, timestamp } = await prepareInsiders(hre, taskArgs.contract);
+        const lockupEnd = (await vesting.lockupEnd()).toNumber();
+        // the claim is mined in a later block, which should be after lockupEnd
+        if (timestamp + 1 <= lockupEnd) {
+            throw new Error(`Cannot claim during lock-up period, it ends at ${formatDate(lockupEnd)}`);
+        }
+        const amount = units.parse(taskArgs.amount);
+        checkAmount('unlocked', amount, unlocked, units);
+
+        const receipt = await (await vesting.connect(signer).claim(taskArgs.to, amount)).wait();
+        formatEvents(receipt, vesting, units).forEach(event => console.log(event));
+
+        return receipt;
+    });
+
+task('insiders-transfer', 'Transfer locked and unlocked tokens of InsidersVesting beneficiary to another account')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('to', 'Address receiving the tokens')
+    .addOptionalParam('locked', 'Amount of locked tokens, like 1.5', '0')
+    .addOptionalParam('unlocked', 'Amount of unlocked tokens, like 1.5', '0')
+    .setAction(async (taskArgs, hre) => {
+        const { signer, vesting, units, locked, unlocked } = await prepareInsiders(hre, taskArgs.contract);
+        checkRecipient(signer.address, taskArgs.to);
+        const tokensLocked = units.parse(taskArgs.locked);
+        const tokensUnlocked = units.parse(taskArgs.unlocked);
+        checkAmount('locked', tokensLocked, locked, units);
+        checkAmount('unlocked', tokensUnlocked, unlocked, units);
+
+        const receipt = await (await vesting.connect(signer).transfer(taskArgs.to, tokensLocked, tokensUnlocked)).wait();
+        formatEvents(receipt, vesting, units).forEach(event => console.log(event));
+
+        return receipt;
+    });
+
+task('insiders-transfer-all', 'Transfer all tokens of InsidersVesting beneficiary to another account')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('to', 'Address receiving the tokens')
+    .setAction(async (taskArgs, hre) => {
+        const { signer, vesting, units } = await prepareInsiders(hre, taskArgs.contract);
+        checkRecipient(signer.address, taskArgs.to);
+
+        const receipt = await (await vesting.connect(signer).transferAll(taskArgs.to)).wait();
+        formatEvents(receipt, vesting, units).forEach(event => console.log(event));
+
+        return receipt;
+    });
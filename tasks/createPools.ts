@@ -0,0 +1,115 @@
+import path from 'path';
+import { task } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import '@nomiclabs/hardhat-etherscan';
+import { networks, validateNetwork } from '../config';
+import { DEFAULT_ROLE_CHANGE_DELAY } from '../utils/authority';
+import { Deployment, executeStep, getManifestPath, readManifest, writeManifest } from '../utils/deployments';
+import { readPools, resolvePool } from '../utils/pools';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION } from '../utils/schedule';
+import { getSigner } from '../utils/signer';
+
+task('create-pools', 'Create vesting pools of a YAML or JSON file as VestingFactory clones, recording every pool in deployments/<network>.json')
+    .addParam('pools', 'Path to pools file, .yaml, .yml or .json')
+    .addOptionalParam('factory', 'Address of deployed VestingFactory, by default it is deployed with implementations and recorded in the manifest')
+    .addOptionalParam('manifest', 'Path to deployment manifest, deployments/<network>.json by default')
+    .addFlag('skipVerify', 'Do not verify contract source code on block explorer, networks without explorer in config.ts are never verified')
+    .setAction(async (taskArgs, { ethers, network, run }) => {
+        const verify = !taskArgs.skipVerify && !!networks[network.name]?.explorer;
+        validateNetwork(network.name, verify);
+
+        const deployer = await getSigner(ethers);
+        const file = readPools(taskArgs.pools);
+        const pools = file.pools.map(pool => resolvePool(file, pool, path.dirname(taskArgs.pools), deployer.address));
+        const manifestPath = taskArgs.manifest ?? getManifestPath(network.name);
+        const manifest = readManifest(manifestPath);
+        const save = () => writeManifest(manifestPath, manifest);
+
+        // implementations are never initialized by the factory, their owner and terms only fill the constructor
+        const deploy = async (name: string, contract: string, constructorArgs: (string | number)[]): Promise<string> => {
+            let deployment = manifest[name];
+            if (!deployment) {
+                deployment = { contract, constructorArgs, parameters: {}, steps: {} };
+                manifest[name] = deployment;
+                save();
+            } else if (JSON.stringify(deployment.constructorArgs) !== JSON.stringify(constructorArgs)) {
+                throw new Error(`Deployment ${name} in ${manifestPath} has other parameters, pass --factory or another --manifest`);
+            }
+            const factory = await ethers.getContractFactory(contract);
+            await executeStep(ethers.provider, deployment, 'deploy', save, async () => {
+                const instance = await factory.connect(deployer).deploy(...constructorArgs);
+                deployment.address = instance.address;
+                return instance.deployTransaction;
+            });
+            const address = deployment.address as string;
+            if (verify && !deployment.verified) {
+                await run('verify:verify', { address, constructorArguments: constructorArgs });
+                deployment.verified = true;
+                save();
+            }
+            console.log(`${name} is deployed to ${address}`);
+            return address;
+        };
+
+        let factoryAddress: string = taskArgs.factory;
+        if (!factoryAddress) {
+            const vesting = await deploy('VestingImplementation', 'Vesting', [deployer.address, DEFAULT_ROLE_CHANGE_DELAY]);
+            const insiders = await deploy('InsidersVestingImplementation', 'InsidersVesting', [
+                deployer.address,
+                INSIDERS_LOCKUP_DURATION,
+                INSIDERS_VESTING_DURATION,
+            ]);
+            factoryAddress = await deploy('VestingFactory', 'VestingFactory', [vesting, insiders]);
+        }
+        const factory = await ethers.getContractAt('VestingFactory', factoryAddress);
+
+        const deployments: Deployment[] = [];
+        for (const [index, pool] of pools.entries()) {
+            const parameters: Record<string, unknown> = { ...pool.params };
+            if (pool.contract === 'InsidersVesting') {
+                // the beneficiaries file is recorded instead of the list, as in deploy-vesting; it is relative to the pools file,
+                // so the absolute path is recorded for verify-deployment run from any directory
+                parameters.beneficiaries = path.resolve(path.dirname(taskArgs.pools), file.pools[index].beneficiaries as string);
+                parameters.tokenAmount = pool.tokenAmount.toString();
+            }
+            let deployment = manifest[pool.name];
+            if (deployment) {
+                if (
+                    deployment.contract !== pool.contract ||
+                    deployment.factory !== factory.address ||
+                    JSON.stringify(deployment.parameters) !== JSON.stringify(parameters)
+                ) {
+                    throw new Error(`Deployment ${pool.name} in ${manifestPath} has other parameters, rename the pool`);
+                }
+            } else {
+                deployment = { contract: pool.contract, constructorArgs: [], parameters, factory: factory.address, steps: {} };
+                manifest[pool.name] = deployment;
+                save();
+            }
+            deployments.push(deployment);
+            if (deployment.address) {
+                console.log(`${pool.contract} pool ${pool.name} is already created at ${deployment.address}`);
+                continue;
+            }
+
+            const token = await ethers.getContractAt('IERC20', pool.params.token);
+            await executeStep(ethers.provider, deployment, 'approve', save, () => token.connect(deployer).approve(factory.address, pool.tokenAmount));
+            await executeStep(ethers.provider, deployment, 'create', save, () =>
+                pool.contract === 'Vesting'
+                    ? factory.connect(deployer).createVesting(pool.name, pool.params)
+                    : factory.connect(deployer).createInsidersVesting(pool.name, pool.params)
+            );
+
+            const receipt = await ethers.provider.getTransactionReceipt(deployment.steps.create?.txHash as string);
+            const created = receipt.logs
+                .filter(log => log.address === factory.address)
+                .map(log => factory.interface.parseLog(log))
+                .find(event => event.name === 'PoolCreated');
+            deployment.address = created?.args.pool;
+            save();
+            console.log(`${pool.contract} pool ${pool.name} is created at ${deployment.address}`);
+        }
+
+        console.log('Done');
+        return deployments;
+    });
@@ -0,0 +1,138 @@
+import { task, types } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import '@nomiclabs/hardhat-etherscan';
+import { networks, validateNetwork } from '../config';
+import { DEFAULT_ROLE_CHANGE_DELAY } from '../utils/authority';
+import { readBeneficiaries } from '../utils/beneficiaries';
+import { parseDuration } from '../utils/dates';
+import { executeStep, getManifestPath, readManifest, writeManifest } from '../utils/deployments';
+import { proposeTransaction } from '../utils/safe';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION } from '../utils/schedule';
+import { getSigner } from '../utils/signer';
+
+const CONTRACTS = ['Vesting', 'InsidersVesting'];
+
+task('deploy-vesting', 'Deploy, fund, initialize and verify vesting contract, recording every step in deployments/<network>.json')
+    .addParam('contract', 'Contract to deploy: Vesting or InsidersVesting')
+    .addParam('token', 'Address of current token contract')
+    .addParam('start', 'Timestamp of the date, when vesting will start', undefined, types.int)
+    .addOptionalParam('finish', 'Timestamp of the date, when vesting will finish (Vesting only)', undefined, types.int)
+    .addOptionalParam('beneficiaries', 'Path to file beneficiaries.json (InsidersVesting only)')
+    .addOptionalParam('lockupDuration', 'Lock-up duration: seconds or amounts like 90d (InsidersVesting only), 90 days by default')
+    .addOptionalParam('vestingDuration', 'Vesting duration after lock-up: seconds or amounts like 1004d (InsidersVesting only), 33 months by default')
+    .addOptionalParam('roleChangeDelay', 'Delay of owner and DAO changes: seconds or amounts like 2d (Vesting only), 2 days by default')
+    .addOptionalParam('owner', 'Owner of deployed contract, deployer by default')
+    .addOptionalParam('fund', 'Amount of tokens to transfer from deployer to the contract before initialize')
+    .addOptionalParam('name', 'Name of the deployment in the manifest, contract name by default')
+    .addOptionalParam('manifest', 'Path to deployment manifest, deployments/<network>.json by default')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add initialize transaction to, when owner is not the deployer')
+    .addFlag('skipVerify', 'Do not verify contract source code on block explorer, networks without explorer in config.ts are never verified')
+    .setAction(async (taskArgs, { ethers, network, run }) => {
+        if (!CONTRACTS.includes(taskArgs.contract)) {
+            throw new Error(`Unknown contract ${taskArgs.contract}, expected one of ${CONTRACTS.join(', ')}`);
+        }
+        const isInsiders = taskArgs.contract === 'InsidersVesting';
+        if (isInsiders ? !taskArgs.beneficiaries : !taskArgs.finish) {
+            throw new Error(isInsiders ? 'Beneficiaries are not provided' : 'Finish timestamp is not provided');
+        }
+
+        const verify = !taskArgs.skipVerify && !!networks[network.name]?.explorer;
+        validateNetwork(network.name, verify);
+
+        const deployer = await getSigner(ethers);
+        const owner = ethers.utils.getAddress(taskArgs.owner ?? deployer.address);
+        const name = taskArgs.name ?? taskArgs.contract;
+        const manifestPath = taskArgs.manifest ?? getManifestPath(network.name);
+        const manifest = readManifest(manifestPath);
+        const save = () => writeManifest(manifestPath, manifest);
+
+        const parameters = {
+            token: taskArgs.token,
+            start: taskArgs.start,
+            finish: taskArgs.finish,
+            beneficiaries: taskArgs.beneficiaries,
+            fund: taskArgs.fund,
+        };
+        // InsidersVesting takes the terms of the round at deployment, Vesting the delay of role changes
+        const lockupDuration = taskArgs.lockupDuration ? parseDuration(taskArgs.lockupDuration) : INSIDERS_LOCKUP_DURATION;
+        const vestingDuration = taskArgs.vestingDuration ? parseDuration(taskArgs.vestingDuration) : INSIDERS_VESTING_DURATION;
+        const roleChangeDelay = taskArgs.roleChangeDelay ? parseDuration(taskArgs.roleChangeDelay) : DEFAULT_ROLE_CHANGE_DELAY;
+        const constructorArgs: (string | number)[] = isInsiders ? [owner, lockupDuration, vestingDuration] : [owner, roleChangeDelay];
+        let deployment = manifest[name];
+        if (deployment) {
+            if (
+                deployment.contract !== taskArgs.contract ||
+                JSON.stringify(deployment.constructorArgs) !== JSON.stringify(constructorArgs) ||
+                JSON.stringify(deployment.parameters) !== JSON.stringify(parameters)
+            ) {
+                throw new Error(`Deployment ${name} in ${manifestPath} has other parameters, use another --name`);
+            }
+            console.log(`Resuming deployment ${name} from ${manifestPath}`);
+        } else {
+            deployment = { contract: taskArgs.contract, constructorArgs, parameters, steps: {} };
+            manifest[name] = deployment;
+            save();
+        }
+
+        const contractName: string = taskArgs.contract;
+        const factory = await ethers.getContractFactory(contractName);
+        await executeStep(ethers.provider, deployment, 'deploy', save, async () => {
+            const contract = await factory.connect(deployer).deploy(...constructorArgs);
+            deployment.address = contract.address;
+            return contract.deployTransaction;
+        });
+        const address = deployment.address as string;
+        console.log(`${taskArgs.contract} is deployed to ${address}`);
+
+        if (taskArgs.fund) {
+            const token = await ethers.getContractAt('IERC20', taskArgs.token);
+            await executeStep(ethers.provider, deployment, 'fund', save, () => token.connect(deployer).transfer(address, taskArgs.fund));
+            console.log(`Funded with ${taskArgs.fund} tokens`);
+        }
+
+        if (owner !== deployer.address) {
+            if (deployment.initializeProposal) {
+                console.log(`Initialize proposal is already written to ${deployment.initializeProposal}`);
+            } else if (taskArgs.propose) {
+                const vesting = await ethers.getContractAt(contractName, address);
+                const args = isInsiders
+                    ? [taskArgs.token, readBeneficiaries(taskArgs.beneficiaries), taskArgs.start]
+                    : [taskArgs.token, taskArgs.start, taskArgs.finish];
+                await proposeTransaction(taskArgs.propose, vesting, 'initialize', args);
+                deployment.initializeProposal = taskArgs.propose;
+                save();
+                console.log(`Initialize proposal for Safe ${owner} is written to ${taskArgs.propose}`);
+            } else {
+                console.log(`Owner ${owner} is not the deployer, initialize the contract from the owner account`);
+            }
+        } else if (isInsiders) {
+            const vesting = await ethers.getContractAt('InsidersVesting', address);
+            await executeStep(ethers.provider, deployment, 'initialize', save, async () => {
+                const valid = await run('validate-beneficiaries', {
+                    contract: address,
+                    token: taskArgs.token,
+                    beneficiaries: taskArgs.beneficiaries,
+                });
+                if (!valid) {
+                    throw new Error('Beneficiaries file is invalid');
+                }
+                return vesting.connect(deployer).initialize(taskArgs.token, readBeneficiaries(taskArgs.beneficiaries), taskArgs.start);
+            });
+            console.log('Initialized');
+        } else {
+            const vesting = await ethers.getContractAt('Vesting', address);
+            await executeStep(ethers.provider, deployment, 'initialize', save, () =>
+                vesting.connect(deployer).initialize(taskArgs.token, taskArgs.start, taskArgs.finish)
+            );
+            console.log('Initialized');
+        }
+
+        if (verify && !deployment.verified) {
+            await run('verify:verify', { address, constructorArguments: constructorArgs });
+            deployment.verified = true;
+            save();
+        }
+
+        console.log('Done');
+        return deployment;
+    });
@@ -0,0 +1,76 @@
+import { task, types } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import path from 'path';
+import { BigNumberish } from 'ethers';
+import { DEFAULT_BATCH_SIZE, DEFAULT_REORG_DEPTH, EventStore, queryEvents, sumClaims, syncEvents } from '../utils/indexer';
+import { getTokenUnits, TokenUnits } from '../utils/tokens';
+
+function getStore(store: string | undefined, networkName: string) {
+    return new EventStore(store ?? path.join('indexer', networkName));
+}
+
+task('index-events', 'Sync TokensClaimed and TokensTransferred events of vesting contracts into a local store')
+    .addParam('contracts', 'Comma separated addresses of Vesting and InsidersVesting contracts')
+    .addOptionalParam('store', 'Directory of the event store, indexer/<network> by default')
+    .addOptionalParam('fromBlock', 'Block to start from when the store is empty', 0, types.int)
+    .addOptionalParam('batchSize', 'Amount of blocks requested at once', DEFAULT_BATCH_SIZE, types.int)
+    .addOptionalParam('reorgDepth', 'Amount of latest blocks re-checked for reorg on the next sync', DEFAULT_REORG_DEPTH, types.int)
+    .setAction(async (taskArgs, { ethers, network }) => {
+        const store = getStore(taskArgs.store, network.name);
+        const state = await syncEvents(ethers.provider, store, {
+            contracts: taskArgs.contracts.split(','),
+            fromBlock: taskArgs.fromBlock,
+            batchSize: taskArgs.batchSize,
+            reorgDepth: taskArgs.reorgDepth,
+            onBatch: (toBlock, events) => console.log(`Synced till block ${toBlock}, ${events} new events`),
+        });
+
+        console.log(`Store ${store.directory} is synced till block ${state.lastBlock}`);
+        return state;
+    });
+
+task('query-events', 'Print indexed events and claimed totals from the local store')
+    .addOptionalParam('store', 'Directory of the event store, indexer/<network> by default')
+    .addOptionalParam('account', 'Show only events where the account is sender or recipient')
+    .addOptionalParam('from', 'Timestamp to show events from', undefined, types.int)
+    .addOptionalParam('to', 'Timestamp to show events till', undefined, types.int)
+    .setAction(async (taskArgs, { ethers, network }) => {
+        const store = getStore(taskArgs.store, network.name);
+        if (!store.exists()) {
+            throw new Error(`Store ${store.directory} does not exist, run index-events first`);
+        }
+
+        const events = queryEvents(store.readEvents(), taskArgs);
+        // contracts may vest different tokens, so amounts are formatted with the units of each contract's token
+        const units = new Map<string, TokenUnits>();
+        const contractsByToken = new Map<string, string[]>();
+        for (const contract of new Set(events.map(event => event.contract))) {
+            const token = await ethers.getContractAt('IERC20Metadata', await (await ethers.getContractAt('Vesting', contract)).token());
+            units.set(contract, await getTokenUnits(token));
+            contractsByToken.set(token.address, [...(contractsByToken.get(token.address) ?? []), contract]);
+        }
+        const format = (contract: string, amount?: BigNumberish) => (amount ? units.get(contract)?.format(amount) : '');
+
+        console.table(
+            events.map(event => ({
+                date: new Date(event.timestamp * 1000).toISOString(),
+                block: event.blockNumber,
+                event: event.event,
+                from: event.from,
+                to: event.to,
+                amount: format(event.contract, event.amount),
+                amountLocked: format(event.contract, event.amountLocked),
+                amountUnlocked: format(event.contract, event.amountUnlocked),
+            }))
+        );
+
+        const totals = sumClaims(events);
+        console.log('Claimed totals:');
+        // claims of different tokens are not added up
+        contractsByToken.forEach(contracts => {
+            const claims = sumClaims(events.filter(event => contracts.includes(event.contract)));
+            claims.forEach((amount, account) => console.log(`  ${account}: ${format(contracts[0], amount)}`));
+        });
+
+        return { events, totals };
+    });
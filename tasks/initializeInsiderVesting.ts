@@ -1,27 +1,133 @@
-import { task } from 'hardhat/config';
-import fs from 'fs';
+import { task, types } from 'hardhat/config';
 import '@nomiclabs/hardhat-ethers';
-import { BigNumber } from '@ethersproject/bignumber';
+import { constants, utils } from 'ethers';
+import { readBeneficiaries } from '../utils/beneficiaries';
+import { formatDate, formatDuration, parseDate, parseDuration, SECONDS_PER_MONTH } from '../utils/dates';
+import { getChunkSize, getPendingBeneficiaries, splitChunks } from '../utils/initialization';
+import { confirm } from '../utils/prompt';
+import { encodeSafeTransaction, proposeTransaction } from '../utils/safe';
+import { getInsidersSchedule } from '../utils/schedule';
+import { getSigner } from '../utils/signer';
+import { getTokenUnits } from '../utils/tokens';
 
-interface Beneficiary {
-    account: string;
-    tokenAmount: BigNumber;
-}
-
-task('initialize-insider-vesting', 'Initialize Vesting contract')
+task('initialize-insider-vesting', 'Initialize Vesting contract, in several transactions if beneficiaries do not fit in one')
     .addParam('contract', 'Address of deployed vesting contract')
     .addParam('token', 'Address of current token contract')
-    .addParam('start', 'Timestamp of the date, when vesting will start')
+    .addParam('start', 'Date when vesting will start: ISO-8601 like 2026-12-01T00:00:00Z or unix timestamp')
     .addParam('beneficiaries', 'Path to file beneficiaries.json')
-    .setAction(async (taskArgs, { ethers }) => {
-        const [initializer] = await ethers.getSigners();
+    .addOptionalParam('lockupDuration', 'Expected lock-up duration of the contract: seconds or amounts like 90d, checked before sending')
+    .addOptionalParam('vestingDuration', 'Expected vesting duration of the contract: seconds or amounts like 1004d, checked before sending')
+    .addOptionalParam('maxGas', 'Gas limit of one transaction, half of the block gas limit by default', undefined, types.int)
+    .addOptionalParam('chunkSize', 'Number of beneficiaries added by one transaction, sized by gas estimates by default', undefined, types.int)
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transactions to instead of sending them')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transactions, contract owner by default')
+    .addFlag('yes', 'Do not ask for confirmation')
+    .setAction(async (taskArgs, { ethers, run }) => {
+        const start = parseDate(taskArgs.start);
+        const valid = await run('validate-beneficiaries', {
+            contract: taskArgs.contract,
+            token: taskArgs.token,
+            beneficiaries: taskArgs.beneficiaries,
+        });
+        if (!valid) {
+            return;
+        }
+
         const vesting = await ethers.getContractAt('InsidersVesting', taskArgs.contract);
+        if (await vesting.initialized()) {
+            throw new Error('Already initialized');
+        }
+        const beneficiaries = readBeneficiaries(taskArgs.beneficiaries);
+        const started = !(await vesting.vestingStart()).isZero();
+        if (started && ((await vesting.vestingStart()).toNumber() !== start || (await vesting.token()) !== utils.getAddress(taskArgs.token))) {
+            throw new Error(
+                `Initialization is started with token ${await vesting.token()} and start ${formatDate((await vesting.vestingStart()).toNumber())}`
+            );
+        }
+        const pending = started ? await getPendingBeneficiaries(vesting, beneficiaries) : beneficiaries;
+
+        const token = await ethers.getContractAt('IERC20Metadata', taskArgs.token);
+        const { format } = await getTokenUnits(token);
+        // durations are set at deployment, expected ones guard against initializing a contract deployed with other terms
+        const lockupDuration = (await vesting.VESTING_LOCKUP_DURATION()).toNumber();
+        const vestingDuration = (await vesting.VESTING_DURATION()).toNumber();
+        if (taskArgs.lockupDuration && parseDuration(taskArgs.lockupDuration) !== lockupDuration) {
+            throw new Error(`Contract lock-up duration is ${formatDuration(lockupDuration)}, not ${taskArgs.lockupDuration}`);
+        }
+        if (taskArgs.vestingDuration && parseDuration(taskArgs.vestingDuration) !== vestingDuration) {
+            throw new Error(`Contract vesting duration is ${formatDuration(vestingDuration)}, not ${taskArgs.vestingDuration}`);
+        }
+        const schedule = getInsidersSchedule(start, lockupDuration, vestingDuration);
+        // average rate, every beneficiary unlocks the exact share of its amount for the elapsed time
+        const tokensPerSec = beneficiaries
+            .reduce((sum, beneficiary) => sum.add(beneficiary.tokenAmount), constants.Zero)
+            .div(schedule.vestingDuration);
+
+        const confirmed = await confirm(
+            [
+                `InsidersVesting ${vesting.address}, token ${token.address}, ${beneficiaries.length} beneficiaries, ${
+                    beneficiaries.length - pending.length
+                } already added`,
+                `Start:            ${formatDate(schedule.vestingStart)} (${schedule.vestingStart})`,
+                `Lock-up end:      ${formatDate(schedule.lockupEnd)} (${schedule.lockupEnd}), lock-up ${formatDuration(lockupDuration)}`,
+                `Finish:           ${formatDate(schedule.vestingFinish)} (${schedule.vestingFinish}), vesting ${formatDuration(vestingDuration)}`,
+                `Funded balance:   ${format(await token.balanceOf(vesting.address))}`,
+                `Tokens per sec:   ${format(tokensPerSec)}`,
+                `Tokens per month: ${format(tokensPerSec.mul(SECONDS_PER_MONTH))}`,
+            ],
+            taskArgs.yes
+        );
+        if (!confirmed) {
+            console.log('Cancelled');
+            return;
+        }
+
+        const initializer = await getSigner(ethers);
+        const from = taskArgs.propose ? utils.getAddress(taskArgs.safe ?? (await vesting.owner())) : initializer.address;
+        // estimates are made on behalf of the sender, which is the Safe when proposing
+        const estimator = vesting.connect(ethers.provider);
+        const maxGas = taskArgs.maxGas ?? Math.floor((await ethers.provider.getBlock('latest')).gasLimit.toNumber() / 2);
+        const send = async (method: string, args: unknown[]) => {
+            if (taskArgs.propose) {
+                await proposeTransaction(taskArgs.propose, vesting, method, args, from);
+            } else {
+                const { to, data } = encodeSafeTransaction(vesting, method, args);
+                await (await initializer.sendTransaction({ to, data })).wait();
+            }
+        };
 
-        const beneficiariesFilename = taskArgs.beneficiaries;
-        const beneficiaries = JSON.parse(fs.readFileSync(beneficiariesFilename).toString()) as Beneficiary[];
+        // small lists are initialized by one call, as before staged initialization
+        if (!started && !taskArgs.chunkSize) {
+            const gas = await estimator.estimateGas.initialize(taskArgs.token, beneficiaries, start, { from }).catch(() => undefined);
+            if (gas?.lte(maxGas)) {
+                await send('initialize', [taskArgs.token, beneficiaries, start]);
+                console.log(taskArgs.propose ? `Proposal for Safe ${from} is written to ${taskArgs.propose}` : 'Done');
+                return;
+            }
+        }
 
-        const txn = await vesting.connect(initializer).initialize(taskArgs.token, beneficiaries, taskArgs.start);
-        await txn.wait();
+        // checked before the first transaction, so nothing is added to the batch of a failed run
+        if (taskArgs.propose && !started && !taskArgs.chunkSize && pending.length) {
+            throw new Error('Gas of adding beneficiaries can not be estimated before initialization is started, pass --chunk-size');
+        }
+        if (!started) {
+            await send('startInitialization', [taskArgs.token, start]);
+        }
+        let chunkSize = taskArgs.chunkSize;
+        if (!chunkSize && pending.length) {
+            chunkSize = await getChunkSize(
+                count => estimator.estimateGas.addBeneficiaries(pending.slice(0, count), { from }),
+                pending.length,
+                maxGas
+            );
+        }
+        let added = beneficiaries.length - pending.length;
+        for (const chunk of splitChunks(pending, chunkSize)) {
+            await send('addBeneficiaries', [chunk]);
+            added += chunk.length;
+            console.log(`Added ${added} of ${beneficiaries.length} beneficiaries`);
+        }
+        await send('finishInitialization', []);
 
-        console.log('Done');
+        console.log(taskArgs.propose ? `Proposals for Safe ${from} are written to ${taskArgs.propose}` : 'Done');
     });
@@ -0,0 +1,100 @@
+import { task } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import { addDuration, formatDate, parseDate, parseDateOrDuration, SECONDS_PER_MONTH } from '../utils/dates';
+import { confirm } from '../utils/prompt';
+import { encodeSafeTransaction, proposeTransaction } from '../utils/safe';
+import { calculateVestingClaim, getTrancheTimestamps, getVestingTokensPerSec, VESTING_CURVES, VestingParams } from '../utils/schedule';
+import { getSigner } from '../utils/signer';
+import { getTokenUnits } from '../utils/tokens';
+
+task('initialize-vesting', 'Initialize Vesting contract')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('token', 'Address of current token contract')
+    .addParam('start', 'Date when vesting will start: ISO-8601 like 2026-12-01T00:00:00Z or unix timestamp')
+    .addOptionalParam('finish', 'Date when vesting will finish: ISO-8601 or unix timestamp')
+    .addOptionalParam('duration', 'Vesting duration instead of --finish, like 36mo, 3y or 1095d')
+    .addOptionalParam('curve', `Unlock curve: ${Object.keys(VESTING_CURVES).join(', ')}, stepped curves unlock equal tranches`, 'linear')
+    .addOptionalParam('cliff', 'Nothing is unlocked until the cliff, duration from start like 6mo or date: ISO-8601 or unix timestamp')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract owner by default')
+    .addFlag('yes', 'Do not ask for confirmation')
+    .setAction(async (taskArgs, { ethers }) => {
+        if (!taskArgs.finish === !taskArgs.duration) {
+            throw new Error('Either --finish or --duration should be provided');
+        }
+        const start = parseDate(taskArgs.start);
+        const finish = taskArgs.finish ? parseDate(taskArgs.finish) : addDuration(start, taskArgs.duration);
+        if (finish <= start) {
+            throw new Error(`Finish ${formatDate(finish)} should be later than start ${formatDate(start)}`);
+        }
+        if (!(taskArgs.curve in VESTING_CURVES)) {
+            throw new Error(`Unknown curve ${taskArgs.curve}, expected one of ${Object.keys(VESTING_CURVES).join(', ')}`);
+        }
+        const stepDuration = VESTING_CURVES[taskArgs.curve];
+        let cliff = 0;
+        if (taskArgs.cliff) {
+            cliff = parseDateOrDuration(start, taskArgs.cliff);
+            if (cliff < start || cliff > finish) {
+                throw new Error(`Cliff ${formatDate(cliff)} should be between start ${formatDate(start)} and finish ${formatDate(finish)}`);
+            }
+        }
+        if (stepDuration > finish - start) {
+            throw new Error(`Vesting from ${formatDate(start)} to ${formatDate(finish)} is shorter than one ${taskArgs.curve} step`);
+        }
+
+        const vesting = await ethers.getContractAt('Vesting', taskArgs.contract);
+        const token = await ethers.getContractAt('IERC20Metadata', taskArgs.token);
+        const balance = await token.balanceOf(vesting.address);
+        const params: VestingParams = { tokensTotal: balance, vestingStart: start, vestingFinish: finish, vestingCliff: cliff, stepDuration };
+        const tokensPerSec = getVestingTokensPerSec(params);
+        const { format } = await getTokenUnits(token);
+        // amounts of the first, a regular and the last unlock, tranches differ only by the cliff and the rest at finish
+        const unlocks = getTrancheTimestamps(params).map(timestamp => ({ timestamp, claimable: calculateVestingClaim(params, timestamp) }));
+        const curveLines: string[] = [];
+        if (cliff) {
+            curveLines.push(`Cliff:            ${formatDate(cliff)} (${cliff}), unlocks ${format(unlocks[0].claimable)}`);
+        }
+        if (stepDuration) {
+            const tranche = (index: number) =>
+                `${format(unlocks[index].claimable.sub(index ? unlocks[index - 1].claimable : 0))} at ${formatDate(unlocks[index].timestamp)}`;
+            curveLines.push(
+                `Tranches:         ${unlocks.length} ${taskArgs.curve}, first ${tranche(0)}`,
+                `                  then ${unlocks.length > 2 ? tranche(1) : 'none'}, last ${tranche(unlocks.length - 1)}`
+            );
+        }
+
+        const confirmed = await confirm(
+            [
+                `Vesting ${vesting.address}, token ${token.address}`,
+                `Start:            ${formatDate(start)} (${start})`,
+                `Finish:           ${formatDate(finish)} (${finish})`,
+                `Funded balance:   ${format(balance)}`,
+                `Tokens per sec:   ${format(tokensPerSec)}`,
+                `Tokens per month: ${format(tokensPerSec.mul(SECONDS_PER_MONTH))}`,
+                `Curve:            ${taskArgs.curve}`,
+                ...curveLines,
+            ],
+            taskArgs.yes
+        );
+        if (!confirmed) {
+            console.log('Cancelled');
+            return;
+        }
+
+        // contracts initialized with the straight line keep the original call
+        const [method, args] =
+            taskArgs.curve === 'linear' && !cliff
+                ? ['initialize', [taskArgs.token, start, finish]]
+                : ['initializeWithCurve', [taskArgs.token, start, finish, cliff, stepDuration]];
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, method, args, taskArgs.safe);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const initializer = await getSigner(ethers);
+        const { to, data } = encodeSafeTransaction(vesting, method, args);
+        await (await initializer.sendTransaction({ to, data })).wait();
+
+        console.log('Done');
+    });
@@ -0,0 +1,139 @@
+import { task } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import { BigNumber } from 'ethers';
+import { formatBeneficiaryError, readBeneficiaries, UINT96_MAX, validateBeneficiaries } from '../utils/beneficiaries';
+import { formatDate, parseDate } from '../utils/dates';
+import { buildMerkleDistribution, getMerkleProof, readMerkleDistribution, writeMerkleDistribution } from '../utils/merkle';
+import { confirm } from '../utils/prompt';
+import { proposeTransaction } from '../utils/safe';
+import { getInsidersSchedule, InsidersVestingModel } from '../utils/schedule';
+import { getSigner } from '../utils/signer';
+import { formatEvents, getTokenUnits } from '../utils/tokens';
+
+task('merkle-tree', 'Build Merkle root and proofs of MerkleInsidersVesting allocations from beneficiaries file')
+    .addParam('beneficiaries', 'Path to file beneficiaries.json')
+    .addParam('output', 'Path to JSON file with the root and proofs of every account')
+    .setAction(async taskArgs => {
+        const beneficiaries = readBeneficiaries(taskArgs.beneficiaries);
+        const errors = validateBeneficiaries(beneficiaries);
+        if (errors.length > 0) {
+            console.error(`Found ${errors.length} error(s) in ${taskArgs.beneficiaries}:`);
+            errors.forEach(error => console.error(`  ${formatBeneficiaryError(error)}`));
+            process.exitCode = 1;
+            return;
+        }
+
+        const distribution = buildMerkleDistribution(beneficiaries);
+        if (BigNumber.from(distribution.tokensTotal).gt(UINT96_MAX)) {
+            throw new Error(`Tokens sum ${distribution.tokensTotal} does not fit in uint96`);
+        }
+        writeMerkleDistribution(taskArgs.output, distribution);
+
+        console.log(`Root ${distribution.root} of ${beneficiaries.length} allocations, total ${distribution.tokensTotal} tokens`);
+        console.log(`Proofs are written to ${taskArgs.output}`);
+        return distribution;
+    });
+
+task('initialize-merkle-vesting', 'Initialize MerkleInsidersVesting contract with the root built by merkle-tree')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('token', 'Address of current token contract')
+    .addParam('start', 'Date when vesting will start: ISO-8601 like 2026-12-01T00:00:00Z or unix timestamp')
+    .addParam('proofs', 'Path to JSON file written by merkle-tree')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract owner by default')
+    .addFlag('yes', 'Do not ask for confirmation')
+    .setAction(async (taskArgs, { ethers }) => {
+        const start = parseDate(taskArgs.start);
+        const { root, tokensTotal, proofs } = readMerkleDistribution(taskArgs.proofs);
+        const vesting = await ethers.getContractAt('MerkleInsidersVesting', taskArgs.contract);
+        const token = await ethers.getContractAt('IERC20Metadata', taskArgs.token);
+        const units = await getTokenUnits(token);
+        const balance = await token.balanceOf(vesting.address);
+        if (!balance.eq(tokensTotal)) {
+            throw new Error(`Tokens sum ${units.format(tokensTotal)} is not equal to contract balance ${units.format(balance)}`);
+        }
+        // durations are set at deployment
+        const schedule = getInsidersSchedule(
+            start,
+            (await vesting.VESTING_LOCKUP_DURATION()).toNumber(),
+            (await vesting.VESTING_DURATION()).toNumber()
+        );
+
+        const confirmed = await confirm(
+            [
+                `MerkleInsidersVesting ${vesting.address}, token ${taskArgs.token}, ${Object.keys(proofs).length} allocations`,
+                `Root:             ${root}`,
+                `Start:            ${formatDate(schedule.vestingStart)} (${schedule.vestingStart})`,
+                `Lock-up end:      ${formatDate(schedule.lockupEnd)} (${schedule.lockupEnd})`,
+                `Finish:           ${formatDate(schedule.vestingFinish)} (${schedule.vestingFinish})`,
+                `Funded balance:   ${units.format(balance)}`,
+            ],
+            taskArgs.yes
+        );
+        if (!confirmed) {
+            console.log('Cancelled');
+            return;
+        }
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'initialize', [taskArgs.token, root, tokensTotal, start], taskArgs.safe);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const initializer = await getSigner(ethers);
+        const txn = await vesting.connect(initializer).initialize(taskArgs.token, root, tokensTotal, start);
+        await txn.wait();
+
+        console.log('Done');
+    });
+
+task('merkle-claim', 'Claim unlocked tokens of MerkleInsidersVesting beneficiary, activating its allocation on the first claim')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('to', 'Address receiving the tokens')
+    .addParam('amount', 'Amount of tokens, like 1.5')
+    .addParam('proofs', 'Path to JSON file written by merkle-tree')
+    .setAction(async (taskArgs, { ethers }) => {
+        const signer = await getSigner(ethers);
+        const vesting = await ethers.getContractAt('MerkleInsidersVesting', taskArgs.contract);
+        const units = await getTokenUnits(await ethers.getContractAt('IERC20Metadata', await vesting.token()));
+        if (await vesting.paused()) {
+            throw new Error(`Claims and transfers are paused until ${formatDate((await vesting.pausedUntil()).toNumber())}`);
+        }
+        const activated = await vesting.activated(signer.address);
+        const entry = activated ? undefined : getMerkleProof(readMerkleDistribution(taskArgs.proofs), signer.address);
+
+        const { timestamp } = await ethers.provider.getBlock('latest');
+        const lockupEnd = (await vesting.lockupEnd()).toNumber();
+        // the claim is mined in a later block, which should be after lockupEnd
+        if (timestamp + 1 <= lockupEnd) {
+            throw new Error(`Cannot claim during lock-up period, it ends at ${formatDate(lockupEnd)}`);
+        }
+        let unlocked: BigNumber;
+        if (entry) {
+            // not activated allocation unlocks the same way as InsidersVesting one, tokens received by transfers are added
+            const schedule = getInsidersSchedule(
+                (await vesting.vestingStart()).toNumber(),
+                (await vesting.VESTING_LOCKUP_DURATION()).toNumber(),
+                (await vesting.VESTING_DURATION()).toNumber()
+            );
+            const model = new InsidersVestingModel(schedule, [{ account: signer.address, tokenAmount: entry.tokenAmount }]);
+            unlocked = model.calculateClaim(signer.address, timestamp);
+            unlocked = unlocked.add(await vesting.calculateClaim(signer.address).catch(() => BigNumber.from(0)));
+        } else {
+            unlocked = await vesting.calculateClaim(signer.address);
+        }
+        console.log(`Beneficiary ${signer.address}: unlocked ${units.format(unlocked)}${entry ? ', allocation is not activated yet' : ''}`);
+        const amount = units.parse(taskArgs.amount);
+        if (amount.gt(unlocked)) {
+            throw new Error(`Requested more than unlocked: ${units.format(amount)} of ${units.format(unlocked)}`);
+        }
+
+        const txn = entry
+            ? await vesting.connect(signer).claimWithProof(taskArgs.to, amount, entry.tokenAmount, entry.proof)
+            : await vesting.connect(signer).claim(taskArgs.to, amount);
+        const receipt = await txn.wait();
+        formatEvents(receipt, vesting, units).forEach(event => console.log(event));
+
+        return receipt;
+    });
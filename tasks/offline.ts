@@ -0,0 +1,101 @@
+import { task } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import fs from 'fs';
+import { utils, Wallet } from 'ethers';
+import { config } from '../config';
+import { decodeSafeTransaction, readSafeBatch, readVestingInterfaces } from '../utils/safe';
+import {
+    buildUnsignedTransactions,
+    loadKeystore,
+    parseUnsignedTransaction,
+    promptPassword,
+    SignedTransactions,
+    signTransactions,
+    UnsignedTransactions,
+} from '../utils/signer';
+
+task('create-keystore', 'Encrypt private key into JSON keystore file')
+    .addParam('output', 'Path to keystore file')
+    .addOptionalParam('passwordFile', 'Path to file with keystore password, prompted if not provided')
+    .setAction(async taskArgs => {
+        const wallet = new Wallet(await promptPassword('Private key: '));
+        const password = taskArgs.passwordFile
+            ? fs.readFileSync(taskArgs.passwordFile).toString().trim()
+            : await promptPassword('Keystore password: ');
+        fs.writeFileSync(taskArgs.output, await wallet.encrypt(password));
+
+        console.log(`Keystore of ${wallet.address} is written to ${taskArgs.output}`);
+    });
+
+task('offline-build', 'Build unsigned transactions with nonce and gas to sign them on an offline machine')
+    .addParam('from', 'Address which will sign the transactions')
+    .addParam('output', 'Path to file with unsigned transactions')
+    .addOptionalParam('to', 'Address of called contract')
+    .addOptionalParam('data', 'Call data of the transaction')
+    .addOptionalParam('value', 'Amount of native tokens sent with the transaction', '0')
+    .addOptionalParam('batch', 'Path to Safe Transaction Builder batch file, its transactions are built one by one')
+    .setAction(async (taskArgs, { ethers }) => {
+        let calls;
+        if (taskArgs.batch) {
+            calls = readSafeBatch(taskArgs.batch).transactions;
+        } else if (taskArgs.to && taskArgs.data) {
+            calls = [{ to: taskArgs.to, value: taskArgs.value, data: taskArgs.data }];
+        } else {
+            throw new Error('Either --batch or --to with --data should be provided');
+        }
+
+        const unsigned = await buildUnsignedTransactions(ethers.provider, taskArgs.from, calls);
+        fs.writeFileSync(taskArgs.output, JSON.stringify(unsigned, null, 4) + '\n');
+
+        console.log(`${unsigned.transactions.length} unsigned transaction(s) are written to ${taskArgs.output}`);
+        return unsigned;
+    });
+
+task('offline-sign', 'Sign transactions built by offline-build with keystore, does not need network access')
+    .addParam('input', 'Path to file with unsigned transactions')
+    .addParam('output', 'Path to file with signed transactions')
+    .addOptionalParam('keystore', 'Path to keystore file, KEYSTORE_PATH by default')
+    .addOptionalParam('passwordFile', 'Path to file with keystore password, KEYSTORE_PASSWORD_FILE by default or prompted')
+    .setAction(async (taskArgs, { artifacts }) => {
+        const keystore = taskArgs.keystore ?? config.keystorePath;
+        if (!keystore) {
+            throw new Error('Keystore is not provided');
+        }
+        const unsigned: UnsignedTransactions = JSON.parse(fs.readFileSync(taskArgs.input).toString());
+        const interfaces = await readVestingInterfaces(artifacts);
+
+        // show what is going to be signed before the keystore is unlocked
+        unsigned.transactions.forEach((serialized, index) => {
+            const transaction = parseUnsignedTransaction(serialized);
+            const call = { to: transaction.to as string, value: transaction.value?.toString() ?? '0', data: utils.hexlify(transaction.data ?? '0x') };
+            let method = 'unknown method';
+            try {
+                const decoded = decodeSafeTransaction(call, interfaces);
+                method = `${decoded.method} ${JSON.stringify(decoded.args)}`;
+            } catch {}
+            console.log(`#${index + 1} chain ${transaction.chainId}, nonce ${transaction.nonce}, to ${call.to}, value ${call.value}: ${method}`);
+        });
+
+        const wallet = await loadKeystore(keystore, taskArgs.passwordFile ?? config.keystorePasswordFile);
+        const signed = await signTransactions(wallet, unsigned);
+        fs.writeFileSync(taskArgs.output, JSON.stringify(signed, null, 4) + '\n');
+
+        console.log(`${signed.transactions.length} signed transaction(s) are written to ${taskArgs.output}`);
+        return signed;
+    });
+
+task('offline-broadcast', 'Send transactions signed by offline-sign')
+    .addParam('input', 'Path to file with signed transactions')
+    .setAction(async (taskArgs, { ethers }) => {
+        const signed: SignedTransactions = JSON.parse(fs.readFileSync(taskArgs.input).toString());
+
+        const hashes: string[] = [];
+        for (const transaction of signed.transactions) {
+            const response = await ethers.provider.sendTransaction(transaction);
+            const receipt = await response.wait();
+            console.log(`Transaction ${receipt.transactionHash} is mined in block ${receipt.blockNumber}`);
+            hashes.push(receipt.transactionHash);
+        }
+
+        return hashes;
+    });
@@ -0,0 +1,213 @@
+import { task } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import { constants, utils } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { formatDate, formatDuration, parseDuration } from '../utils/dates';
+import { proposeTransaction } from '../utils/safe';
+import { getSigner } from '../utils/signer';
+import { formatEvents } from '../utils/tokens';
+
+export interface PauseStatus {
+    guardian: string;
+    paused: boolean;
+    pausedUntil: number;
+    // the guardian can pause again from this time, 0 when it can pause now
+    nextPauseAfter: number;
+    // seconds all the next pauses can last together
+    pauseLeft: number;
+}
+
+// Vesting, InsidersVesting and MerkleInsidersVesting share the pause functions of GuardianPausable
+async function getPauseStatus(ethers: HardhatRuntimeEnvironment['ethers'], contract: string) {
+    const vesting = await ethers.getContractAt('GuardianPausable', contract);
+    const { timestamp } = await ethers.provider.getBlock('latest');
+    const pausedUntil = (await vesting.pausedUntil()).toNumber();
+    const nextPauseAfter = pausedUntil + (await vesting.PAUSE_COOLDOWN()).toNumber();
+    const status: PauseStatus = {
+        guardian: await vesting.guardian(),
+        paused: await vesting.paused(),
+        pausedUntil,
+        // the next block is at least one second later than the latest one
+        nextPauseAfter: timestamp + 1 < nextPauseAfter ? nextPauseAfter : 0,
+        pauseLeft: (await vesting.MAX_TOTAL_PAUSE_DURATION()).sub(await vesting.pausedTotal()).toNumber(),
+    };
+    return { vesting, timestamp, status };
+}
+
+// guardian changes of all the contracts are proposed and cancelled by their owner, or the DAO of Vesting
+async function prepareGuardianChange(ethers: HardhatRuntimeEnvironment['ethers'], contract: string) {
+    const vesting = await ethers.getContractAt('GuardianPausable', contract);
+    const change = await vesting.guardianChange();
+    // every contract has owner() of the same signature, the default Safe of the proposals
+    const owner = await (await ethers.getContractAt('InsidersVesting', contract)).owner();
+    return { vesting, change, owner };
+}
+
+task('pause', 'Pause claims and transfers of Vesting or InsidersVesting as the guardian, the pause ends by itself after the duration')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('duration', 'Pause duration: seconds or amounts like 3d, 30 days at most')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract guardian by default')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { vesting, timestamp, status } = await getPauseStatus(ethers, taskArgs.contract);
+        if (status.guardian === constants.AddressZero) {
+            throw new Error('Contract has no guardian');
+        }
+        const duration = parseDuration(taskArgs.duration);
+        const maxDuration = (await vesting.MAX_PAUSE_DURATION()).toNumber();
+        if (duration === 0 || duration > maxDuration) {
+            throw new Error(`Pause duration should be from 1 second to ${formatDuration(maxDuration)}`);
+        }
+        if (status.paused) {
+            throw new Error(`Contract is already paused until ${formatDate(status.pausedUntil)}`);
+        }
+        if (status.nextPauseAfter) {
+            throw new Error(`Contract can be paused again after ${formatDate(status.nextPauseAfter)}`);
+        }
+        if (duration > status.pauseLeft) {
+            throw new Error(`Pauses of the contract can last ${formatDuration(status.pauseLeft)} more`);
+        }
+        console.log(`Claims and transfers are paused for ${formatDuration(duration)}, until about ${formatDate(timestamp + duration)}`);
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'pause', [duration], taskArgs.safe ?? status.guardian);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        if (sender.address !== status.guardian) {
+            throw new Error(`${sender.address} is not guardian of the contract`);
+        }
+        const receipt = await (await vesting.connect(sender).pause(duration)).wait();
+        formatEvents(receipt, vesting).forEach(event => console.log(event));
+
+        return receipt;
+    });
+
+task('unpause', 'End the pause of Vesting or InsidersVesting before its time as the guardian')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract guardian by default')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { vesting, status } = await getPauseStatus(ethers, taskArgs.contract);
+        if (!status.paused) {
+            throw new Error('Contract is not paused');
+        }
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'unpause', [], taskArgs.safe ?? status.guardian);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        if (sender.address !== status.guardian) {
+            throw new Error(`${sender.address} is not guardian of the contract`);
+        }
+        const receipt = await (await vesting.connect(sender).unpause()).wait();
+        formatEvents(receipt, vesting).forEach(event => console.log(event));
+
+        return receipt;
+    });
+
+task('pause-status', 'Print guardian and pause state of Vesting or InsidersVesting')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { status } = await getPauseStatus(ethers, taskArgs.contract);
+
+        console.log(`Guardian: ${status.guardian === constants.AddressZero ? 'none' : status.guardian}`);
+        console.log(status.paused ? `Paused until ${formatDate(status.pausedUntil)}` : 'Not paused');
+        if (status.nextPauseAfter) {
+            console.log(`Next pause is possible after ${formatDate(status.nextPauseAfter)}`);
+        }
+        console.log(`Pauses can last ${formatDuration(status.pauseLeft)} more`);
+
+        return status;
+    });
+
+task(
+    'propose-guardian',
+    'Propose new guardian of Vesting, InsidersVesting or MerkleInsidersVesting, it accepts the role after the delay of the contract'
+)
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('account', 'Address of the new guardian')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract owner by default')
+    .setAction(async (taskArgs, { ethers }) => {
+        if (!utils.isAddress(taskArgs.account) || taskArgs.account === constants.AddressZero) {
+            throw new Error(`Invalid guardian address ${taskArgs.account}`);
+        }
+        const { vesting, change, owner } = await prepareGuardianChange(ethers, taskArgs.contract);
+        if (change.account !== constants.AddressZero) {
+            throw new Error(`Change of guardian to ${change.account} is already proposed, cancel it first`);
+        }
+        const delay = (await vesting.guardianChangeDelay()).toNumber();
+        console.log(`${taskArgs.account} can replace guardian ${await vesting.guardian()} ${formatDuration(delay)} after the proposal`);
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'proposeGuardian', [taskArgs.account], taskArgs.safe ?? owner);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        const receipt = await (await vesting.connect(sender).proposeGuardian(taskArgs.account)).wait();
+        formatEvents(receipt, vesting).forEach(event => console.log(event));
+
+        return receipt;
+    });
+
+task('accept-guardian', 'Accept guardian role of Vesting, InsidersVesting or MerkleInsidersVesting proposed to the signer account')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to, when the proposed account is a Safe')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { vesting, change } = await prepareGuardianChange(ethers, taskArgs.contract);
+        if (change.account === constants.AddressZero) {
+            throw new Error('Change of guardian is not proposed');
+        }
+        const { timestamp } = await ethers.provider.getBlock('latest');
+        // the next block is at least one second later than the latest one
+        if (timestamp + 1 < change.validAfter.toNumber()) {
+            throw new Error(`Change of guardian can be accepted after ${formatDate(change.validAfter.toNumber())}`);
+        }
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'acceptGuardian', [], change.account);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        if (sender.address !== change.account) {
+            throw new Error(`Guardian role is proposed to ${change.account}, not to ${sender.address}`);
+        }
+        const receipt = await (await vesting.connect(sender).acceptGuardian()).wait();
+        formatEvents(receipt, vesting).forEach(event => console.log(event));
+
+        return receipt;
+    });
+
+task('cancel-guardian', 'Cancel proposed change of guardian of Vesting, InsidersVesting or MerkleInsidersVesting')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract owner by default')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { vesting, change, owner } = await prepareGuardianChange(ethers, taskArgs.contract);
+        if (change.account === constants.AddressZero) {
+            throw new Error('Change of guardian is not proposed');
+        }
+        console.log(`Cancelling change of guardian to ${change.account}`);
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'cancelGuardianChange', [], taskArgs.safe ?? owner);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        const receipt = await (await vesting.connect(sender).cancelGuardianChange()).wait();
+        formatEvents(receipt, vesting).forEach(event => console.log(event));
+
+        return receipt;
+    });
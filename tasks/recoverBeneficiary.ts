@@ -0,0 +1,138 @@
+import { task } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import { constants, utils } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { formatDate, formatDuration } from '../utils/dates';
+import { confirm } from '../utils/prompt';
+import { proposeTransaction } from '../utils/safe';
+import { getSigner } from '../utils/signer';
+import { formatEvents, getTokenUnits } from '../utils/tokens';
+
+async function prepareRecovery(ethers: HardhatRuntimeEnvironment['ethers'], contract: string, beneficiary: string) {
+    const vesting = await ethers.getContractAt('InsidersVesting', contract);
+    if (!(await vesting.initialized())) {
+        throw new Error('Initialization is not finished');
+    }
+    const recovery = await vesting.recoveries(beneficiary);
+    return { vesting, recovery };
+}
+
+task('propose-recovery', 'Propose replacement account of InsidersVesting beneficiary, the beneficiary can cancel it during the recovery delay')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('beneficiary', 'Address of the beneficiary whose key is lost or compromised')
+    .addParam('account', 'Address of the replacement account')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract owner by default')
+    .addFlag('yes', 'Do not ask for confirmation')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { vesting, recovery } = await prepareRecovery(ethers, taskArgs.contract, taskArgs.beneficiary);
+        if (recovery.account !== constants.AddressZero) {
+            throw new Error(`Recovery of ${taskArgs.beneficiary} to ${recovery.account} is already proposed, cancel it first`);
+        }
+        if (!utils.isAddress(taskArgs.account) || utils.getAddress(taskArgs.account) === constants.AddressZero) {
+            throw new Error(`Invalid replacement address ${taskArgs.account}`);
+        }
+        let info;
+        try {
+            info = await vesting.getBeneficiaryInfo(taskArgs.beneficiary);
+        } catch {
+            throw new Error(`${taskArgs.beneficiary} is not in whitelist`);
+        }
+        const units = await getTokenUnits(await ethers.getContractAt('IERC20Metadata', await vesting.token()));
+
+        const delay = await vesting.RECOVERY_DELAY();
+        const confirmed = await confirm(
+            [
+                `InsidersVesting ${vesting.address}, beneficiary ${taskArgs.beneficiary}`,
+                `Locked ${units.format(info.tokensLocked)}, unlocked ${units.format(info.tokensUnlocked)}`,
+                `Claimed ${units.format(info.tokensClaimed)}`,
+                `Moves to ${taskArgs.account} ${formatDuration(delay.toNumber())} after the proposal, unless the beneficiary cancels it`,
+            ],
+            taskArgs.yes
+        );
+        if (!confirmed) {
+            console.log('Cancelled');
+            return;
+        }
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(
+                taskArgs.propose,
+                vesting,
+                'proposeRecovery',
+                [taskArgs.beneficiary, taskArgs.account],
+                taskArgs.safe
+            );
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        if (sender.address !== (await vesting.owner())) {
+            throw new Error(`${sender.address} is not owner of the contract`);
+        }
+        const receipt = await (await vesting.connect(sender).proposeRecovery(taskArgs.beneficiary, taskArgs.account)).wait();
+        formatEvents(receipt, vesting).forEach(event => console.log(event));
+
+        return receipt;
+    });
+
+task('cancel-recovery', 'Cancel proposed recovery of InsidersVesting beneficiary, as the beneficiary objecting to it or as the owner')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('beneficiary', 'Address of the beneficiary of the proposal')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract owner by default')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { vesting, recovery } = await prepareRecovery(ethers, taskArgs.contract, taskArgs.beneficiary);
+        if (recovery.account === constants.AddressZero) {
+            throw new Error(`Recovery of ${taskArgs.beneficiary} is not proposed`);
+        }
+        console.log(`Cancelling recovery of ${taskArgs.beneficiary} to ${recovery.account}`);
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'cancelRecovery', [taskArgs.beneficiary], taskArgs.safe);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        if (sender.address !== utils.getAddress(taskArgs.beneficiary) && sender.address !== (await vesting.owner())) {
+            throw new Error(`${sender.address} is neither the beneficiary nor owner of the contract`);
+        }
+        const receipt = await (await vesting.connect(sender).cancelRecovery(taskArgs.beneficiary)).wait();
+        formatEvents(receipt, vesting).forEach(event => console.log(event));
+
+        return receipt;
+    });
+
+task('execute-recovery', 'Move InsidersVesting allocation of the beneficiary to the proposed account after the recovery delay')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('beneficiary', 'Address of the recovered beneficiary')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract owner by default')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { vesting, recovery } = await prepareRecovery(ethers, taskArgs.contract, taskArgs.beneficiary);
+        if (recovery.account === constants.AddressZero) {
+            throw new Error(`Recovery of ${taskArgs.beneficiary} is not proposed`);
+        }
+        const { timestamp } = await ethers.provider.getBlock('latest');
+        // the next block is at least one second later than the latest one
+        if (timestamp + 1 < recovery.validAfter.toNumber()) {
+            throw new Error(`Recovery of ${taskArgs.beneficiary} can be executed after ${formatDate(recovery.validAfter.toNumber())}`);
+        }
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'executeRecovery', [taskArgs.beneficiary], taskArgs.safe);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        if (sender.address !== recovery.account && sender.address !== (await vesting.owner())) {
+            throw new Error(`${sender.address} is neither the replacement account nor owner of the contract`);
+        }
+        const receipt = await (await vesting.connect(sender).executeRecovery(taskArgs.beneficiary)).wait();
+        formatEvents(receipt, vesting).forEach(event => console.log(event));
+
+        return receipt;
+    });
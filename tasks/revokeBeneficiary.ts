@@ -0,0 +1,64 @@
+import { task } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import { constants, utils } from 'ethers';
+import { formatDate } from '../utils/dates';
+import { confirm } from '../utils/prompt';
+import { proposeTransaction } from '../utils/safe';
+import { getSigner } from '../utils/signer';
+import { formatEvents, getTokenUnits } from '../utils/tokens';
+
+task('revoke-beneficiary', 'Stop vesting of InsidersVesting beneficiary and return its locked tokens to the treasury')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('beneficiary', 'Address of the revoked beneficiary')
+    .addParam('treasury', 'Address receiving the locked tokens')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract owner by default')
+    .addFlag('yes', 'Do not ask for confirmation')
+    .setAction(async (taskArgs, { ethers }) => {
+        const vesting = await ethers.getContractAt('InsidersVesting', taskArgs.contract);
+        if (!(await vesting.initialized())) {
+            throw new Error('Initialization is not finished');
+        }
+        if (!utils.isAddress(taskArgs.treasury) || utils.getAddress(taskArgs.treasury) === constants.AddressZero) {
+            throw new Error(`Invalid treasury address ${taskArgs.treasury}`);
+        }
+        let info;
+        try {
+            info = await vesting.getBeneficiaryInfo(taskArgs.beneficiary);
+        } catch {
+            throw new Error(`${taskArgs.beneficiary} is not in whitelist`);
+        }
+        const units = await getTokenUnits(await ethers.getContractAt('IERC20Metadata', await vesting.token()));
+
+        // the transaction stages unlocks of its own block, so the beneficiary keeps slightly more than at the latest one
+        const unlocked = await vesting.calculateClaim(taskArgs.beneficiary);
+        const revoked = info.tokensLocked.sub(unlocked.sub(info.tokensUnlocked));
+        const { timestamp } = await ethers.provider.getBlock('latest');
+        const confirmed = await confirm(
+            [
+                `InsidersVesting ${vesting.address}, beneficiary ${taskArgs.beneficiary}, at ${formatDate(timestamp)}`,
+                `Stays claimable by the beneficiary: ${units.format(unlocked)}`,
+                `Returned to treasury ${taskArgs.treasury}: ${units.format(revoked)}`,
+            ],
+            taskArgs.yes
+        );
+        if (!confirmed) {
+            console.log('Cancelled');
+            return;
+        }
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'revoke', [taskArgs.beneficiary, taskArgs.treasury], taskArgs.safe);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        if (sender.address !== (await vesting.owner())) {
+            throw new Error(`${sender.address} is not owner of the contract`);
+        }
+        const receipt = await (await vesting.connect(sender).revoke(taskArgs.beneficiary, taskArgs.treasury)).wait();
+        formatEvents(receipt, vesting, units).forEach(event => console.log(event));
+
+        return receipt;
+    });
@@ -0,0 +1,20 @@
+import { task } from 'hardhat/config';
+import { decodeSafeTransaction, readSafeBatch, readVestingInterfaces } from '../utils/safe';
+
+task('decode-safe-batch', 'Print transactions of Safe Transaction Builder batch file for review')
+    .addParam('file', 'Path to batch file')
+    .setAction(async (taskArgs, { artifacts }) => {
+        const interfaces = await readVestingInterfaces(artifacts);
+
+        const batch = readSafeBatch(taskArgs.file);
+        console.log(`Safe ${batch.meta.createdFromSafeAddress} on chain ${batch.chainId}, ${batch.transactions.length} transaction(s)`);
+        const decoded = batch.transactions.map(transaction => decodeSafeTransaction(transaction, interfaces));
+        decoded.forEach((transaction, index) => {
+            console.log(`\n#${index + 1} ${transaction.method}`);
+            console.log(`  to: ${transaction.to}`);
+            console.log(`  value: ${transaction.value}`);
+            console.log(`  args: ${JSON.stringify(transaction.args, null, 4).replace(/\n/g, '\n  ')}`);
+        });
+
+        return decoded;
+    });
@@ -0,0 +1,106 @@
+import { task, types } from 'hardhat/config';
+import fs from 'fs';
+import { BigNumber, constants, utils } from 'ethers';
+import { readBeneficiaries } from '../utils/beneficiaries';
+import { parseDuration } from '../utils/dates';
+import {
+    calculateVestingClaim,
+    getInsidersSchedule,
+    getMonthlyTimestamps,
+    INSIDERS_LOCKUP_DURATION,
+    INSIDERS_VESTING_DURATION,
+    InsidersVestingModel,
+} from '../utils/schedule';
+
+interface ScheduleRow {
+    date: string;
+    timestamp: number;
+    account: string;
+    claimable: string;
+    unlockedInPeriod: string;
+}
+
+function formatRows(rows: ScheduleRow[], format: string): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(rows, null, 4);
+        case 'csv': {
+            const header = 'date,timestamp,account,claimable,unlockedInPeriod';
+            const lines = rows.map(row => [row.date, row.timestamp, row.account, row.claimable, row.unlockedInPeriod].join(','));
+            return [header, ...lines].join('\n');
+        }
+        default:
+            throw new Error(`Unknown format ${format}, expected table, csv or json`);
+    }
+}
+
+task('schedule', 'Calculate claimable tokens offline, without a deployed contract')
+    .addOptionalParam('beneficiaries', 'Path to file beneficiaries.json, calculates InsidersVesting schedule')
+    .addOptionalParam('total', 'Amount of tokens locked in Vesting in the smallest token units, calculates Vesting schedule')
+    .addParam('start', 'Timestamp of the date, when vesting will start', undefined, types.int)
+    .addOptionalParam('finish', 'Timestamp of the date, when Vesting will finish', undefined, types.int)
+    .addOptionalParam('lockupDuration', 'Lock-up duration of InsidersVesting: seconds or amounts like 90d, 90 days by default')
+    .addOptionalParam('vestingDuration', 'Vesting duration of InsidersVesting: seconds or amounts like 1004d, 33 months by default')
+    .addOptionalParam('at', 'Timestamp to calculate claimable amount at, current time by default', undefined, types.int)
+    .addFlag('monthly', 'Print claimable amounts at every month boundary until vesting finish')
+    .addOptionalParam('decimals', 'Token decimals used to format amounts', 18, types.int)
+    .addOptionalParam('format', 'Output format: table, csv or json', 'table')
+    .addOptionalParam('output', 'Path to file to write the result to')
+    .setAction(async taskArgs => {
+        let accounts: string[];
+        let vestingFinish: number;
+        let calculateClaim: (account: string, timestamp: number) => BigNumber;
+
+        if (taskArgs.beneficiaries) {
+            const model = new InsidersVestingModel(
+                getInsidersSchedule(
+                    taskArgs.start,
+                    taskArgs.lockupDuration ? parseDuration(taskArgs.lockupDuration) : INSIDERS_LOCKUP_DURATION,
+                    taskArgs.vestingDuration ? parseDuration(taskArgs.vestingDuration) : INSIDERS_VESTING_DURATION
+                ),
+                readBeneficiaries(taskArgs.beneficiaries)
+            );
+            accounts = model.accounts();
+            vestingFinish = model.schedule.vestingFinish;
+            calculateClaim = (account, timestamp) => model.calculateClaim(account, timestamp);
+        } else if (taskArgs.total && taskArgs.finish) {
+            const params = { tokensTotal: BigNumber.from(taskArgs.total), vestingStart: taskArgs.start, vestingFinish: taskArgs.finish };
+            accounts = ['vesting'];
+            vestingFinish = params.vestingFinish;
+            calculateClaim = (_, timestamp) => calculateVestingClaim(params, timestamp);
+        } else {
+            throw new Error('Either --beneficiaries or --total with --finish should be provided');
+        }
+
+        const timestamps = taskArgs.monthly ? getMonthlyTimestamps(taskArgs.start, vestingFinish) : [taskArgs.at ?? Math.floor(Date.now() / 1000)];
+        const rows: ScheduleRow[] = [];
+        for (const account of accounts) {
+            let previous = constants.Zero;
+            for (const timestamp of timestamps) {
+                const claimable = calculateClaim(account, timestamp);
+                rows.push({
+                    date: new Date(timestamp * 1000).toISOString(),
+                    timestamp,
+                    account,
+                    claimable: utils.formatUnits(claimable, taskArgs.decimals),
+                    unlockedInPeriod: utils.formatUnits(claimable.sub(previous), taskArgs.decimals),
+                });
+                previous = claimable;
+            }
+        }
+
+        if (taskArgs.format === 'table') {
+            if (taskArgs.output) {
+                throw new Error('Table format can only be printed, use csv or json with --output');
+            }
+            console.table(rows);
+            return;
+        }
+        const result = formatRows(rows, taskArgs.format);
+        if (taskArgs.output) {
+            fs.writeFileSync(taskArgs.output, result);
+            console.log(`Schedule is written to ${taskArgs.output}`);
+        } else {
+            console.log(result);
+        }
+    });
@@ -0,0 +1,148 @@
+import { task } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import { BigNumber, utils } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { formatDuration } from '../utils/dates';
+import { confirm } from '../utils/prompt';
+import { proposeTransaction } from '../utils/safe';
+import { getSigner } from '../utils/signer';
+import { formatEvents, getTokenUnits } from '../utils/tokens';
+
+export interface SurplusInfo {
+    contract: 'Vesting' | 'InsidersVesting';
+    token: string;
+    // actual balance of the vesting token
+    balance: BigNumber;
+    // unclaimed tokens the contract owes by its schedule
+    tracked: BigNumber;
+    surplus: BigNumber;
+}
+
+// Vesting and InsidersVesting have the same surplus() and rescueTokens(), the contract is told apart by tokensDistributed
+async function prepareSurplus(ethers: HardhatRuntimeEnvironment['ethers'], contract: string) {
+    const insidersVesting = await ethers.getContractAt('InsidersVesting', contract);
+    const vesting = await ethers.getContractAt('Vesting', contract);
+    const type = await insidersVesting.tokensDistributed().then(
+        () => 'InsidersVesting' as const,
+        () => 'Vesting' as const
+    );
+    if (!(await vesting.initialized())) {
+        throw new Error('Initialization is not finished');
+    }
+    const token = await ethers.getContractAt('IERC20Metadata', await vesting.token());
+    const units = await getTokenUnits(token);
+    const balance = await token.balanceOf(contract);
+    const surplus = await vesting.surplus();
+    const info: SurplusInfo = { contract: type, token: token.address, balance, tracked: balance.sub(surplus), surplus };
+    const admins = type === 'Vesting' ? [await vesting.owner(), await vesting.dao()] : [await insidersVesting.owner()];
+
+    console.log(`${type} ${contract}`);
+    console.log(`Tracked: ${units.format(info.tracked)}`);
+    console.log(`Balance: ${units.format(info.balance)}`);
+    console.log(`Surplus: ${units.format(info.surplus)}`);
+    return { vesting, units, info, admins };
+}
+
+task('surplus', 'Print tokens owed by Vesting or InsidersVesting against its actual balance')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { info } = await prepareSurplus(ethers, taskArgs.contract);
+
+        return info;
+    });
+
+task('top-up', 'Add surplus tokens of Vesting contract to its schedule, they unlock over the time left till vesting finish')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract owner by default')
+    .addFlag('yes', 'Do not ask for confirmation')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { vesting, units, info, admins } = await prepareSurplus(ethers, taskArgs.contract);
+        if (info.contract !== 'Vesting') {
+            throw new Error('Only Vesting can be topped up, use rescue-tokens for InsidersVesting');
+        }
+        if (info.surplus.isZero()) {
+            throw new Error('No surplus');
+        }
+        const { timestamp } = await ethers.provider.getBlock('latest');
+        const vestingFinish = (await vesting.vestingFinish()).toNumber();
+        if (timestamp + 1 >= vestingFinish) {
+            throw new Error('Vesting is finished, use rescue-tokens for the surplus');
+        }
+        const remaining = vestingFinish - Math.max(timestamp, (await vesting.vestingStart()).toNumber());
+
+        const confirmed = await confirm(
+            [
+                `Vesting ${vesting.address}, total ${units.format(await vesting.tokensTotal())}`,
+                `Adds ${units.format(info.surplus)} to ${units.format(info.tracked)} unclaimed tokens`,
+                `Unlocked with the rest of the schedule over the remaining ${formatDuration(remaining)}`,
+            ],
+            taskArgs.yes
+        );
+        if (!confirmed) {
+            console.log('Cancelled');
+            return;
+        }
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'topUp', [], taskArgs.safe);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        if (!admins.includes(sender.address)) {
+            throw new Error(`${sender.address} is neither owner nor DAO of the contract`);
+        }
+        const receipt = await (await vesting.connect(sender).topUp()).wait();
+        formatEvents(receipt, vesting, units).forEach(event => console.log(event));
+
+        return receipt;
+    });
+
+task('rescue-tokens', 'Send surplus of the vesting token or other tokens sent by mistake from Vesting or InsidersVesting')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('to', 'Address receiving the tokens')
+    .addOptionalParam('token', 'Address of the rescued token, the vesting token by default')
+    .addOptionalParam('amount', 'Amount of tokens like 1.5, the whole surplus or balance of other token by default')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract owner by default')
+    .addFlag('yes', 'Do not ask for confirmation')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { vesting, info, admins } = await prepareSurplus(ethers, taskArgs.contract);
+        if (!utils.isAddress(taskArgs.to)) {
+            throw new Error(`Invalid recipient address ${taskArgs.to}`);
+        }
+        const token = await ethers.getContractAt('IERC20Metadata', taskArgs.token ?? info.token);
+        const units = await getTokenUnits(token);
+        const isVestingToken = utils.getAddress(token.address) === info.token;
+        const available = isVestingToken ? info.surplus : await token.balanceOf(vesting.address);
+        const amount = taskArgs.amount ? units.parse(taskArgs.amount) : available;
+        if (amount.isZero()) {
+            throw new Error(isVestingToken ? 'No surplus' : `No ${units.symbol} on the contract balance`);
+        }
+        if (amount.gt(available)) {
+            throw new Error(`Requested more than ${isVestingToken ? 'surplus' : 'balance'}: ${units.format(amount)} of ${units.format(available)}`);
+        }
+
+        const confirmed = await confirm([`${info.contract} ${vesting.address}`, `Sends ${units.format(amount)} to ${taskArgs.to}`], taskArgs.yes);
+        if (!confirmed) {
+            console.log('Cancelled');
+            return;
+        }
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'rescueTokens', [token.address, taskArgs.to, amount], taskArgs.safe);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        if (!admins.includes(sender.address)) {
+            throw new Error(`${sender.address} is not allowed to rescue tokens of the contract`);
+        }
+        const receipt = await (await vesting.connect(sender).rescueTokens(token.address, taskArgs.to, amount)).wait();
+        formatEvents(receipt, vesting, units).forEach(event => console.log(event));
+
+        return receipt;
+    });
@@ -0,0 +1,24 @@
+import { task } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import { formatBeneficiaryError, readBeneficiaries, validateBeneficiaries } from '../utils/beneficiaries';
+
+task('validate-beneficiaries', 'Check beneficiaries file before InsidersVesting initialization')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('token', 'Address of current token contract')
+    .addParam('beneficiaries', 'Path to file beneficiaries.json')
+    .setAction(async (taskArgs, { ethers }) => {
+        const token = await ethers.getContractAt('IERC20', taskArgs.token);
+        const balance = await token.balanceOf(taskArgs.contract);
+
+        const beneficiaries = readBeneficiaries(taskArgs.beneficiaries);
+        const errors = validateBeneficiaries(beneficiaries, balance);
+        if (errors.length > 0) {
+            console.error(`Found ${errors.length} error(s) in ${taskArgs.beneficiaries}:`);
+            errors.forEach(error => console.error(`  ${formatBeneficiaryError(error)}`));
+            process.exitCode = 1;
+            return false;
+        }
+
+        console.log(`${beneficiaries.length} beneficiaries are valid, total ${balance.toString()} tokens`);
+        return true;
+    });
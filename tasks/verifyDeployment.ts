@@ -0,0 +1,98 @@
+import { task, types } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import { readBeneficiaries } from '../utils/beneficiaries';
+import { checkBytecode, checkInsidersVesting, checkVesting, ConformanceRow, getIntendedDeployment, IntendedDeployment } from '../utils/conformance';
+import { parseDuration } from '../utils/dates';
+import { getManifestPath, readManifest } from '../utils/deployments';
+
+const CONTRACTS = ['Vesting', 'InsidersVesting'];
+
+task('verify-deployment', 'Compare state and bytecode of deployed vesting contract with the intended configuration')
+    .addOptionalParam('name', 'Name of the deployment in the manifest to take address and intended configuration from')
+    .addOptionalParam('manifest', 'Path to deployment manifest, deployments/<network>.json by default')
+    .addOptionalParam('contract', 'Address of deployed vesting contract, taken from the manifest by default')
+    .addOptionalParam('type', 'Deployed contract: Vesting or InsidersVesting, taken from the manifest by default')
+    .addOptionalParam('owner', 'Intended owner')
+    .addOptionalParam('dao', 'Intended DAO of Vesting, zero address by default')
+    .addOptionalParam('token', 'Intended token')
+    .addOptionalParam('start', 'Intended vesting start timestamp', undefined, types.int)
+    .addOptionalParam('finish', 'Intended vesting finish timestamp (Vesting only)', undefined, types.int)
+    .addOptionalParam('total', 'Intended amount of tokens in the smallest units (Vesting only)')
+    .addOptionalParam('roleChangeDelay', 'Intended delay of owner and DAO changes like 2d (Vesting only), 2 days by default')
+    .addOptionalParam('beneficiaries', 'Path to intended beneficiaries.json (InsidersVesting only)')
+    .addOptionalParam('lockupDuration', 'Intended lock-up duration like 90d (InsidersVesting only), 90 days by default')
+    .addOptionalParam('vestingDuration', 'Intended vesting duration like 1004d (InsidersVesting only), 33 months by default')
+    .setAction(async (taskArgs, { artifacts, ethers, network }) => {
+        let intended: IntendedDeployment = { contract: taskArgs.type };
+        let address: string | undefined = taskArgs.contract;
+        let factoryAddress: string | undefined;
+        if (taskArgs.name) {
+            const manifestPath = taskArgs.manifest ?? getManifestPath(network.name);
+            const deployment = readManifest(manifestPath)[taskArgs.name];
+            if (!deployment) {
+                throw new Error(`Deployment ${taskArgs.name} is not found in ${manifestPath}`);
+            }
+            intended = getIntendedDeployment(deployment);
+            address = address ?? deployment.address;
+            factoryAddress = deployment.factory;
+        }
+
+        // parameters given explicitly take precedence over the manifest
+        const overrides: Partial<IntendedDeployment> = {
+            contract: taskArgs.type,
+            owner: taskArgs.owner,
+            dao: taskArgs.dao,
+            token: taskArgs.token,
+            vestingStart: taskArgs.start,
+            vestingFinish: taskArgs.finish,
+            tokensTotal: taskArgs.total,
+            roleChangeDelay: taskArgs.roleChangeDelay ? parseDuration(taskArgs.roleChangeDelay) : undefined,
+            beneficiaries: taskArgs.beneficiaries,
+            lockupDuration: taskArgs.lockupDuration ? parseDuration(taskArgs.lockupDuration) : undefined,
+            vestingDuration: taskArgs.vestingDuration ? parseDuration(taskArgs.vestingDuration) : undefined,
+        };
+        for (const [key, value] of Object.entries(overrides)) {
+            if (value !== undefined) {
+                intended = { ...intended, [key]: value };
+            }
+        }
+        if (!address) {
+            throw new Error('Either --name of the deployment or --contract address should be provided');
+        }
+        if (!CONTRACTS.includes(intended.contract)) {
+            throw new Error(`Unknown contract ${intended.contract}, expected one of ${CONTRACTS.join(', ')}`);
+        }
+
+        let expectedImplementation: string | undefined;
+        if (factoryAddress) {
+            const factory = await ethers.getContractAt('VestingFactory', factoryAddress);
+            expectedImplementation =
+                intended.contract === 'Vesting' ? await factory.vestingImplementation() : await factory.insidersVestingImplementation();
+        }
+        const { deployedBytecode } = await artifacts.readArtifact(intended.contract);
+        const rows: ConformanceRow[] = await checkBytecode(ethers.provider, address, deployedBytecode, expectedImplementation);
+
+        if (intended.contract === 'Vesting') {
+            const vesting = await ethers.getContractAt('Vesting', address);
+            const token = await ethers.getContractAt('IERC20', await vesting.token());
+            rows.push(...(await checkVesting(vesting, token, intended)));
+        } else {
+            if (!intended.beneficiaries) {
+                throw new Error('Beneficiaries are not provided');
+            }
+            const vesting = await ethers.getContractAt('InsidersVesting', address);
+            const token = await ethers.getContractAt('IERC20', await vesting.token());
+            rows.push(...(await checkInsidersVesting(vesting, token, intended, readBeneficiaries(intended.beneficiaries))));
+        }
+
+        console.table(rows);
+        const failed = rows.filter(({ result }) => result === 'FAIL').length;
+        if (failed > 0) {
+            console.error(`${failed} of ${rows.length} checks failed for ${intended.contract} ${address}`);
+            process.exitCode = 1;
+        } else {
+            console.log(`All ${rows.length} checks passed for ${intended.contract} ${address}`);
+        }
+
+        return rows;
+    });
@@ -0,0 +1,278 @@
+import { task, types } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import { BigNumber, constants, providers, utils } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { parseRole, ROLES } from '../utils/authority';
+import { formatDate, formatDuration } from '../utils/dates';
+import { DeploymentStep, executeStep } from '../utils/deployments';
+import { getChunkSize, splitChunks } from '../utils/initialization';
+import {
+    getPayoutChunkStep,
+    getPayoutRunKey,
+    getPayoutStatePath,
+    PayoutRun,
+    readPayouts,
+    readPayoutState,
+    sumPayouts,
+    writePayoutState,
+} from '../utils/payouts';
+import { confirm } from '../utils/prompt';
+import { proposeTransaction } from '../utils/safe';
+import { getSigner } from '../utils/signer';
+import { formatEvents, getTokenUnits } from '../utils/tokens';
+
+task('vesting-claim', 'Claim unlocked tokens of Vesting contract as owner or DAO')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('to', 'Address receiving the tokens')
+    .addParam('amount', 'Amount of tokens, like 1.5')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract owner by default')
+    .setAction(async (taskArgs, { ethers }) => {
+        const sender = await getSigner(ethers);
+        const vesting = await ethers.getContractAt('Vesting', taskArgs.contract);
+        if (!(await vesting.initialized())) {
+            throw new Error('Vesting is not initialized');
+        }
+        if (await vesting.paused()) {
+            throw new Error(`Claims are paused until ${formatDate((await vesting.pausedUntil()).toNumber())}`);
+        }
+        const units = await getTokenUnits(await ethers.getContractAt('IERC20Metadata', await vesting.token()));
+        const amount = units.parse(taskArgs.amount);
+
+        // calculateClaim reverts before vesting start, unlocked amount at the latest block is a lower bound for the next one
+        const { timestamp } = await ethers.provider.getBlock('latest');
+        const unlocked = timestamp >= (await vesting.vestingStart()).toNumber() ? await vesting.calculateClaim() : BigNumber.from(0);
+        console.log(`Unlocked ${units.format(unlocked)}, claimed ${units.format(await vesting.tokensClaimed())}`);
+        if (amount.gt(unlocked)) {
+            throw new Error(`Requested more than unlocked: ${units.format(amount)} of ${units.format(unlocked)}`);
+        }
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'claim', [taskArgs.to, amount], taskArgs.safe);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const allowed = [await vesting.owner(), await vesting.dao()];
+        if (!allowed.includes(sender.address)) {
+            throw new Error(`${sender.address} is neither owner nor DAO of the contract`);
+        }
+        const receipt = await (await vesting.connect(sender).claim(taskArgs.to, amount)).wait();
+        formatEvents(receipt, vesting, units).forEach(event => console.log(event));
+
+        return receipt;
+    });
+
+task('vesting-payout', 'Pay recipients of CSV file from unlocked tokens of Vesting contract, in several transactions if they do not fit in one')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('payouts', 'Path to CSV file of recipient,amount lines with amounts like 1.5')
+    .addOptionalParam('maxGas', 'Gas limit of one transaction, half of the block gas limit by default', undefined, types.int)
+    .addOptionalParam('chunkSize', 'Number of payouts of one transaction, sized by gas estimates by default', undefined, types.int)
+    .addOptionalParam('state', 'Path to JSON file recording sent transactions, deployments/<network>-payouts.json by default')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transactions to instead of sending them')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transactions, contract owner by default')
+    .addFlag('yes', 'Do not ask for confirmation')
+    .setAction(async (taskArgs, { ethers, network }) => {
+        const vesting = await ethers.getContractAt('Vesting', taskArgs.contract);
+        if (!(await vesting.initialized())) {
+            throw new Error('Vesting is not initialized');
+        }
+        if (await vesting.paused()) {
+            throw new Error(`Claims are paused until ${formatDate((await vesting.pausedUntil()).toNumber())}`);
+        }
+        const units = await getTokenUnits(await ethers.getContractAt('IERC20Metadata', await vesting.token()));
+        const payouts = readPayouts(taskArgs.payouts, units);
+
+        // proposals are not sent, so only sent runs are recorded and resumed
+        const statePath = taskArgs.state ?? getPayoutStatePath(network.name);
+        const state = readPayoutState(statePath);
+        const save = () => writePayoutState(statePath, state);
+        const key = getPayoutRunKey(vesting.address, taskArgs.payouts);
+        const run = taskArgs.propose ? undefined : state[key];
+        if (run) {
+            console.log(`Resuming payouts of ${taskArgs.payouts} from ${statePath}`);
+        }
+
+        const sender = await getSigner(ethers);
+        const from = taskArgs.propose ? utils.getAddress(taskArgs.safe ?? (await vesting.owner())) : sender.address;
+        if (!taskArgs.propose && ![await vesting.owner(), await vesting.dao()].includes(sender.address)) {
+            throw new Error(`${sender.address} is neither owner nor DAO of the contract`);
+        }
+        // chunks of the run with a recorded transaction are paid by it, or by a new one after its revert
+        let paid = 0;
+        let total = sumPayouts(payouts);
+        if (run) {
+            total = constants.Zero;
+            splitChunks(payouts, run.chunkSize).forEach((chunk, index) => {
+                const step = run.steps[getPayoutChunkStep(index)];
+                if (step?.block !== undefined) {
+                    paid += chunk.length;
+                } else if (!step) {
+                    total = total.add(sumPayouts(chunk));
+                }
+            });
+        }
+        if (paid === payouts.length) {
+            console.log(`All ${payouts.length} recipients are already paid`);
+            return [];
+        }
+
+        const { timestamp, gasLimit } = await ethers.provider.getBlock('latest');
+        const unlocked = timestamp >= (await vesting.vestingStart()).toNumber() ? await vesting.calculateClaim() : BigNumber.from(0);
+        if (total.gt(unlocked)) {
+            throw new Error(`Requested more than unlocked: ${units.format(total)} of ${units.format(unlocked)}`);
+        }
+
+        // estimates are made on behalf of the sender, which is the Safe when proposing
+        const estimator = vesting.connect(ethers.provider);
+        const maxGas = taskArgs.maxGas ?? Math.floor(gasLimit.toNumber() / 2);
+        const chunkSize =
+            run?.chunkSize ??
+            taskArgs.chunkSize ??
+            (await getChunkSize(count => estimator.estimateGas.claimBatch(payouts.slice(0, count), { from }), payouts.length, maxGas));
+        const chunks = splitChunks(payouts, chunkSize);
+
+        const confirmed = await confirm(
+            [
+                `Vesting ${vesting.address}, ${payouts.length} payouts in ${chunks.length} transactions`,
+                ...(paid ? [`Paid:     ${paid} recipients by earlier runs`] : []),
+                `Total:    ${units.format(total)}`,
+                `Unlocked: ${units.format(unlocked)}, claimed ${units.format(await vesting.tokensClaimed())}`,
+                `Left:     ${units.format(unlocked.sub(total))} unlocked after the payouts`,
+            ],
+            taskArgs.yes
+        );
+        if (!confirmed) {
+            console.log('Cancelled');
+            return;
+        }
+
+        if (taskArgs.propose) {
+            for (const chunk of chunks) {
+                await proposeTransaction(taskArgs.propose, vesting, 'claimBatch', [chunk], from);
+            }
+            console.log(`Proposals for Safe ${from} are written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const record: PayoutRun = run ?? { chunkSize, steps: {} };
+        state[key] = record;
+        save();
+        const receipts: providers.TransactionReceipt[] = [];
+        let count = paid;
+        for (const [index, chunk] of chunks.entries()) {
+            const step = getPayoutChunkStep(index);
+            if (!(await executeStep(ethers.provider, record, step, save, () => vesting.connect(sender).claimBatch(chunk)))) {
+                continue;
+            }
+            const receipt = await ethers.provider.getTransactionReceipt((record.steps[step] as DeploymentStep).txHash);
+            formatEvents(receipt, vesting, units).forEach(event => console.log(event));
+            receipts.push(receipt);
+            count += chunk.length;
+            console.log(`Paid ${count} of ${payouts.length} recipients`);
+        }
+
+        return receipts;
+    });
+
+async function prepareRoleChange(ethers: HardhatRuntimeEnvironment['ethers'], contract: string, roleName: string) {
+    const vesting = await ethers.getContractAt('Vesting', contract);
+    const role = parseRole(roleName);
+    const change = await vesting.roleChanges(role);
+    // the current holder proposes the successor of its role, the owner proposes the first DAO
+    const holder = role === ROLES.owner ? await vesting.owner() : await vesting.dao();
+    const proposer = holder === constants.AddressZero ? await vesting.owner() : holder;
+    return { vesting, role, change, proposer };
+}
+
+task('propose-authority', 'Propose new owner or DAO of Vesting contract, it accepts the role after the delay of the contract')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addParam('account', 'Address of the new owner or DAO')
+    .addOptionalParam('role', 'Role to change: owner or dao', 'owner')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, current holder of the role by default, owner for the first DAO')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { vesting, role, change, proposer } = await prepareRoleChange(ethers, taskArgs.contract, taskArgs.role);
+        if (change.account !== constants.AddressZero) {
+            throw new Error(`Change of ${taskArgs.role} to ${change.account} is already proposed, cancel it first`);
+        }
+        const delay = (await vesting.roleChangeDelay()).toNumber();
+        console.log(`${taskArgs.account} can accept ${taskArgs.role} role ${formatDuration(delay)} after the proposal`);
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(
+                taskArgs.propose,
+                vesting,
+                'proposeRoleChange',
+                [role, taskArgs.account],
+                taskArgs.safe ?? proposer
+            );
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        if (sender.address !== proposer) {
+            throw new Error(`Change of ${taskArgs.role} is proposed by ${proposer}, not by ${sender.address}`);
+        }
+        const receipt = await (await vesting.connect(sender).proposeRoleChange(role, taskArgs.account)).wait();
+        formatEvents(receipt, vesting).forEach(event => console.log(event));
+
+        return receipt;
+    });
+
+task('accept-authority', 'Accept owner or DAO role of Vesting contract proposed to the signer account')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addOptionalParam('role', 'Role to accept: owner or dao', 'owner')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to, when the proposed account is a Safe')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { vesting, role, change } = await prepareRoleChange(ethers, taskArgs.contract, taskArgs.role);
+        if (change.account === constants.AddressZero) {
+            throw new Error(`Change of ${taskArgs.role} is not proposed`);
+        }
+        const { timestamp } = await ethers.provider.getBlock('latest');
+        // the next block is at least one second later than the latest one
+        if (timestamp + 1 < change.validAfter.toNumber()) {
+            throw new Error(`Change of ${taskArgs.role} can be accepted after ${formatDate(change.validAfter.toNumber())}`);
+        }
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'acceptRoleChange', [role], change.account);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        if (sender.address !== change.account) {
+            throw new Error(`${taskArgs.role} role is proposed to ${change.account}, not to ${sender.address}`);
+        }
+        const receipt = await (await vesting.connect(sender).acceptRoleChange(role)).wait();
+        formatEvents(receipt, vesting).forEach(event => console.log(event));
+
+        return receipt;
+    });
+
+task('cancel-authority', 'Cancel proposed change of owner or DAO of Vesting contract')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addOptionalParam('role', 'Role of the proposal: owner or dao', 'owner')
+    .addOptionalParam('propose', 'Path to Safe Transaction Builder batch file to add the transaction to instead of sending it')
+    .addOptionalParam('safe', 'Address of the Safe proposing the transaction, contract owner by default')
+    .setAction(async (taskArgs, { ethers }) => {
+        const { vesting, role, change } = await prepareRoleChange(ethers, taskArgs.contract, taskArgs.role);
+        if (change.account === constants.AddressZero) {
+            throw new Error(`Change of ${taskArgs.role} is not proposed`);
+        }
+        console.log(`Cancelling change of ${taskArgs.role} to ${change.account}`);
+
+        if (taskArgs.propose) {
+            const safe = await proposeTransaction(taskArgs.propose, vesting, 'cancelRoleChange', [role], taskArgs.safe);
+            console.log(`Proposal for Safe ${safe} is written to ${taskArgs.propose}`);
+            return;
+        }
+
+        const sender = await getSigner(ethers);
+        const receipt = await (await vesting.connect(sender).cancelRoleChange(role)).wait();
+        formatEvents(receipt, vesting).forEach(event => console.log(event));
+
+        return receipt;
+    });
@@ -0,0 +1,42 @@
+import { task, types } from 'hardhat/config';
+import '@nomiclabs/hardhat-ethers';
+import { buildVestingReport, findInitializeTransaction } from '../utils/report';
+import { getTokenUnits } from '../utils/tokens';
+
+task('vesting-report', 'Print state of every beneficiary of deployed InsidersVesting contract')
+    .addParam('contract', 'Address of deployed vesting contract')
+    .addOptionalParam('fromBlock', 'Block number to start searching initialize transaction from', 0, types.int)
+    .addOptionalParam('initializeTx', 'Hash of initialize transaction, found automatically if not provided')
+    .setAction(async (taskArgs, { ethers }) => {
+        const vesting = await ethers.getContractAt('InsidersVesting', taskArgs.contract);
+        const token = await ethers.getContractAt('IERC20Metadata', await vesting.token());
+        const { format } = await getTokenUnits(token);
+
+        const initializeTx = taskArgs.initializeTx
+            ? await ethers.provider.getTransaction(taskArgs.initializeTx)
+            : await findInitializeTransaction(vesting, taskArgs.fromBlock);
+        const report = await buildVestingReport(vesting, token, initializeTx);
+
+        console.log(`Initialized in transaction ${report.initializeTx}`);
+        console.table(
+            report.beneficiaries.map(beneficiary => ({
+                account: beneficiary.account,
+                tokensLocked: format(beneficiary.tokensLocked),
+                tokensUnlocked: format(beneficiary.tokensUnlocked),
+                tokensClaimed: format(beneficiary.tokensClaimed),
+                tokensVesting: format(beneficiary.tokensVesting),
+                claimable: format(beneficiary.claimable),
+            }))
+        );
+        console.log(`Total locked: ${format(report.totalLocked)}`);
+        console.log(`Total unlocked: ${format(report.totalUnlocked)}`);
+        console.log(`Total claimed: ${format(report.totalClaimed)}`);
+        console.log(`Contract balance: ${format(report.balance)}`);
+
+        if (report.errors.length > 0) {
+            report.errors.forEach(error => console.error(`Mismatch: ${error}`));
+            process.exitCode = 1;
+        }
+
+        return report;
+    });
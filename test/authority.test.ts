@@ -0,0 +1,89 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import hre, { ethers, network } from 'hardhat';
+import { Vesting } from '../typechain';
+import { DEFAULT_ROLE_CHANGE_DELAY } from '../utils/authority';
+
+describe('Authority tasks', function () {
+    let vesting: Vesting;
+    let owner: SignerWithAddress, user1: SignerWithAddress;
+    let snapshot: any;
+
+    before(async function () {
+        // tasks sign with the first account, so it is the owner
+        [owner, user1] = await ethers.getSigners();
+        vesting = await (await ethers.getContractFactory('Vesting')).deploy(owner.address, DEFAULT_ROLE_CHANGE_DELAY);
+        await vesting.deployed();
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    afterEach(async function () {
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    async function expectTaskError(name: string, args: Record<string, unknown>, message: string) {
+        let error: Error | undefined;
+        try {
+            await hre.run(name, args);
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).be.equal(message);
+    }
+
+    async function skipDelay() {
+        const { timestamp } = await ethers.provider.getBlock('latest');
+        await network.provider.send('evm_setNextBlockTimestamp', [timestamp + DEFAULT_ROLE_CHANGE_DELAY]);
+        await network.provider.send('evm_mine');
+    }
+
+    it('should propose, refuse early or foreign acceptance and cancel owner change', async function () {
+        await hre.run('propose-authority', { contract: vesting.address, account: user1.address });
+        const { validAfter } = await vesting.roleChanges(0);
+
+        await expectTaskError(
+            'propose-authority',
+            { contract: vesting.address, account: owner.address },
+            `Change of owner to ${user1.address} is already proposed, cancel it first`
+        );
+        await expectTaskError(
+            'accept-authority',
+            { contract: vesting.address },
+            `Change of owner can be accepted after ${new Date(validAfter.toNumber() * 1000).toISOString().replace('.000Z', 'Z')}`
+        );
+        await skipDelay();
+        await expectTaskError(
+            'accept-authority',
+            { contract: vesting.address },
+            `owner role is proposed to ${user1.address}, not to ${owner.address}`
+        );
+
+        await hre.run('cancel-authority', { contract: vesting.address });
+        expect((await vesting.roleChanges(0)).account).be.equal(ethers.constants.AddressZero);
+        await expectTaskError('cancel-authority', { contract: vesting.address }, 'Change of owner is not proposed');
+    });
+
+    it('should set DAO after the delay when it accepts the role', async function () {
+        await hre.run('propose-authority', { contract: vesting.address, account: owner.address, role: 'dao' });
+        await skipDelay();
+
+        const receipt = await hre.run('accept-authority', { contract: vesting.address, role: 'dao' });
+        const event = receipt.events.find((event: any) => event.event === 'RoleChanged');
+
+        expect(event.args.account).be.equal(owner.address);
+        expect(await vesting.dao()).be.equal(owner.address);
+        await expectTaskError('accept-authority', { contract: vesting.address, role: 'admin' }, 'Unknown role admin, expected one of owner, dao');
+    });
+});
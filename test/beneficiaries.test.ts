@@ -0,0 +1,86 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { ethers } from 'hardhat';
+import { Beneficiary, readBeneficiaries, UINT96_MAX, validateBeneficiaries } from '../utils/beneficiaries';
+
+describe('validateBeneficiaries', function () {
+    const ACCOUNT_1 = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+    const ACCOUNT_2 = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+    const BALANCE = parseEther(3000);
+
+    function parseEther(amount: number) {
+        return ethers.utils.parseEther(amount.toString());
+    }
+
+    function messages(beneficiaries: Beneficiary[], balance: BigNumber = BALANCE) {
+        return validateBeneficiaries(beneficiaries, balance).map(error => error.message);
+    }
+
+    it('should accept valid beneficiaries', async function () {
+        const beneficiaries = [
+            { account: ACCOUNT_1, tokenAmount: parseEther(1000).toString() },
+            { account: ACCOUNT_2, tokenAmount: parseEther(2000).toString() },
+        ];
+        /* eslint-disable no-unused-expressions */
+        expect(validateBeneficiaries(beneficiaries, BALANCE)).be.empty;
+    });
+
+    it('should reject empty list', async function () {
+        expect(messages([], BigNumber.from(0))).be.deep.equal(['no beneficiaries']);
+    });
+
+    it('should reject invalid, not checksummed and zero addresses', async function () {
+        const beneficiaries = [
+            { account: '0x1234', tokenAmount: parseEther(1000).toString() },
+            { account: ACCOUNT_1.toLowerCase(), tokenAmount: parseEther(1000).toString() },
+            { account: ethers.constants.AddressZero, tokenAmount: parseEther(1000).toString() },
+        ];
+        expect(messages(beneficiaries)).be.deep.equal(['invalid address', `address is not checksummed, expected ${ACCOUNT_1}`, 'zero address']);
+    });
+
+    it('should reject duplicated addresses', async function () {
+        const beneficiaries = [
+            { account: ACCOUNT_1, tokenAmount: parseEther(1000).toString() },
+            { account: ACCOUNT_1, tokenAmount: parseEther(2000).toString() },
+        ];
+        const errors = validateBeneficiaries(beneficiaries, BALANCE);
+        expect(errors.length).be.equal(1);
+        expect(errors[0].row).be.equal(1);
+        expect(errors[0].message).be.equal('duplicates row 0');
+    });
+
+    it('should reject zero, non-string and too big amounts', async function () {
+        const beneficiaries = [
+            { account: ACCOUNT_1, tokenAmount: '0' },
+            { account: ACCOUNT_2, tokenAmount: 1000 as unknown as string },
+            { account: '0x90F79bf6EB2c4f870365E785982E1f101E93b906', tokenAmount: UINT96_MAX.add(1).toString() },
+        ];
+        expect(messages(beneficiaries, BigNumber.from(0))).be.deep.equal([
+            'tokenAmount should be greater than zero',
+            'tokenAmount should be a decimal string',
+            'tokenAmount does not fit in uint96',
+        ]);
+    });
+
+    it('should reject when sum is not equal to balance', async function () {
+        const beneficiaries = [{ account: ACCOUNT_1, tokenAmount: parseEther(1000).toString() }];
+        expect(messages(beneficiaries)).be.deep.equal([`tokens sum ${parseEther(1000)} is not equal to contract balance ${BALANCE}`]);
+    });
+
+    it('should reject rows which are not beneficiaries while reading', async function () {
+        const filename = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vesting-beneficiaries-')), 'beneficiaries.json');
+        const read = (rows: unknown[]) => {
+            fs.writeFileSync(filename, JSON.stringify(rows));
+            return () => readBeneficiaries(filename);
+        };
+
+        expect(read([{ account: ACCOUNT_1, tokenAmount: '1' }])()).be.deep.equal([{ account: ACCOUNT_1, tokenAmount: '1' }]);
+        expect(read([{ account: ACCOUNT_1, tokenAmount: '1' }, { account: ACCOUNT_2 }])).throw(`${filename} row 1 has no tokenAmount`);
+        expect(read([{ amount: '1' }])).throw(`${filename} row 0 has no account and tokenAmount`);
+        expect(read([ACCOUNT_1])).throw(`${filename} row 0 should be an object with account and tokenAmount`);
+        expect(read([null])).throw(`${filename} row 0 should be an object with account and tokenAmount`);
+    });
+});
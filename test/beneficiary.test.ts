@@ -0,0 +1,396 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers, network } from 'hardhat';
+import { InsidersVesting, SuperproToken, Vesting } from '../typechain';
+import { DEFAULT_ROLE_CHANGE_DELAY } from '../utils/authority';
+import { formatDate } from '../utils/dates';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION } from '../utils/schedule';
+
+describe('Beneficiary tasks', function () {
+    let superproToken: SuperproToken;
+    let insidersVesting: InsidersVesting;
+    let vesting: Vesting;
+    let owner: SignerWithAddress, user1: SignerWithAddress, user2: SignerWithAddress;
+
+    const START = Math.floor(Date.now() / 1000) + 86400;
+    const LOCKUP_END = START + 7776000;
+    const FINISH = START + 94694400;
+    const TOKENS_TOTAL = parseEther(10_000);
+    let snapshot: any;
+
+    before(async function () {
+        [owner, user1, user2] = await ethers.getSigners();
+        const superproTokenFactory = await ethers.getContractFactory('SuperproToken');
+        superproToken = await superproTokenFactory.deploy(TOKENS_TOTAL.mul(2).add(parseEther(1)), 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+
+        // tasks sign with the first account, so it is a beneficiary too
+        insidersVesting = await (
+            await ethers.getContractFactory('InsidersVesting')
+        ).deploy(owner.address, INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION);
+        await insidersVesting.deployed();
+        await superproToken.transfer(insidersVesting.address, TOKENS_TOTAL);
+        await insidersVesting.initialize(
+            superproToken.address,
+            [
+                { account: owner.address, tokenAmount: parseEther(4000) },
+                { account: user1.address, tokenAmount: parseEther(6000) },
+            ],
+            START
+        );
+
+        vesting = await (await ethers.getContractFactory('Vesting')).deploy(owner.address, DEFAULT_ROLE_CHANGE_DELAY);
+        await vesting.deployed();
+        await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+        await vesting.initialize(superproToken.address, START, FINISH);
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    afterEach(async function () {
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    function parseEther(amount: number) {
+        return ethers.utils.parseEther(amount.toString());
+    }
+
+    async function expectTaskError(name: string, args: Record<string, unknown>, message: string) {
+        let error: Error | undefined;
+        try {
+            await hre.run(name, args);
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).be.equal(message);
+    }
+
+    it('should claim human amount after lock-up', async function () {
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 86400]);
+        await network.provider.send('evm_mine');
+
+        await hre.run('insiders-claim', { contract: insidersVesting.address, to: user2.address, amount: '1.5' });
+
+        expect(await superproToken.balanceOf(user2.address)).be.equal(parseEther(1.5));
+        expect((await insidersVesting.getBeneficiaryInfo(owner.address)).tokensClaimed).be.equal(parseEther(1.5));
+    });
+
+    it('should refuse claim during lock-up and above unlocked amount', async function () {
+        await expectTaskError(
+            'insiders-claim',
+            { contract: insidersVesting.address, to: user2.address, amount: '1' },
+            `Cannot claim during lock-up period, it ends at ${formatDate(LOCKUP_END)}`
+        );
+        // the claim would be mined at lockupEnd, but the contract needs a block later than it
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END - 1]);
+        await network.provider.send('evm_mine');
+        await expectTaskError(
+            'insiders-claim',
+            { contract: insidersVesting.address, to: user2.address, amount: '1' },
+            `Cannot claim during lock-up period, it ends at ${formatDate(LOCKUP_END)}`
+        );
+
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 1000]);
+        await network.provider.send('evm_mine');
+        const unlocked = await insidersVesting.calculateClaim(owner.address);
+        await expectTaskError(
+            'insiders-claim',
+            { contract: insidersVesting.address, to: user2.address, amount: '100' },
+            `Requested more than unlocked: 100.0 SPT of ${ethers.utils.formatEther(unlocked)} SPT`
+        );
+    });
+
+    it('should transfer locked tokens and refuse transfer to the same address', async function () {
+        await hre.run('insiders-transfer', { contract: insidersVesting.address, to: user2.address, locked: '1000', unlocked: '0' });
+        expect((await insidersVesting.getBeneficiaryInfo(user2.address)).tokensLocked).be.equal(parseEther(1000));
+
+        await expectTaskError(
+            'insiders-transfer',
+            { contract: insidersVesting.address, to: owner.address, locked: '1', unlocked: '0' },
+            'Cannot transfer to the same address'
+        );
+        await expectTaskError(
+            'insiders-transfer',
+            { contract: insidersVesting.address, to: user2.address, locked: '3001', unlocked: '0' },
+            'Requested more than locked: 3001.0 SPT of 3000.0 SPT'
+        );
+    });
+
+    it('should transfer all tokens and print decoded event', async function () {
+        const receipt = await hre.run('insiders-transfer-all', { contract: insidersVesting.address, to: user2.address });
+        const events = receipt.logs.map((log: any) => insidersVesting.interface.parseLog(log));
+
+        expect(events.length).be.equal(1);
+        expect(events[0].args.amountLocked).be.equal(parseEther(4000));
+        expect((await insidersVesting.getBeneficiaryInfo(user2.address)).tokensLocked).be.equal(parseEther(4000));
+    });
+
+    it('should refuse tasks of account not in whitelist', async function () {
+        const other = await (
+            await ethers.getContractFactory('InsidersVesting')
+        ).deploy(user1.address, INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION);
+        await superproToken.transfer(other.address, parseEther(1));
+        await other.connect(user1).initialize(superproToken.address, [{ account: user1.address, tokenAmount: parseEther(1) }], START);
+
+        await expectTaskError('insiders-transfer-all', { contract: other.address, to: user2.address }, `${owner.address} is not in whitelist`);
+    });
+
+    it('should claim Vesting tokens as owner with pre-check', async function () {
+        await network.provider.send('evm_setNextBlockTimestamp', [START + 86400]);
+        await network.provider.send('evm_mine');
+
+        await hre.run('vesting-claim', { contract: vesting.address, to: user2.address, amount: '0.25' });
+        expect(await superproToken.balanceOf(user2.address)).be.equal(parseEther(0.25));
+
+        const unlocked = await vesting.calculateClaim();
+        await expectTaskError(
+            'vesting-claim',
+            { contract: vesting.address, to: user2.address, amount: '1000' },
+            `Requested more than unlocked: 1000.0 SPT of ${ethers.utils.formatEther(unlocked)} SPT`
+        );
+    });
+
+    function writePayouts(lines: string[]): string {
+        const filename = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vesting-payouts-')), 'payouts.csv');
+        fs.writeFileSync(filename, lines.join('\n'));
+        return filename;
+    }
+
+    it('should pay Vesting tokens to recipients of CSV file in several transactions', async function () {
+        await network.provider.send('evm_setNextBlockTimestamp', [START + 86400]);
+        await network.provider.send('evm_mine');
+        const payouts = writePayouts(['recipient,amount', `${user1.address},0.5`, '', `${user2.address.toLowerCase()}, 0.25`]);
+
+        const state = path.join(path.dirname(payouts), 'state.json');
+        const receipts = await hre.run('vesting-payout', { contract: vesting.address, payouts, chunkSize: 1, state, yes: true });
+
+        expect(receipts.length).be.equal(2);
+        expect(await superproToken.balanceOf(user1.address)).be.equal(parseEther(0.5));
+        expect(await superproToken.balanceOf(user2.address)).be.equal(parseEther(0.25));
+        expect(await vesting.tokensClaimed()).be.equal(parseEther(0.75));
+        fs.rmdirSync(path.dirname(payouts), { recursive: true });
+    });
+
+    it('should resume interrupted payouts without paying anyone twice', async function () {
+        await network.provider.send('evm_setNextBlockTimestamp', [START + 86400]);
+        await network.provider.send('evm_mine');
+        const recipient = ethers.Wallet.createRandom().address;
+        const payouts = writePayouts([`${user1.address},0.5`, `${user2.address},0.25`, `${recipient},0.125`]);
+        const state = path.join(path.dirname(payouts), 'state.json');
+        const args = { contract: vesting.address, payouts, chunkSize: 1, state, yes: true };
+
+        // the run is killed right after the first transaction is mined
+        const log = console.log;
+        console.log = (...messages: unknown[]) => {
+            if (String(messages[0]).startsWith('Paid 1 of 3')) {
+                throw new Error('Interrupted');
+            }
+            log(...messages);
+        };
+        try {
+            await expectTaskError('vesting-payout', args, 'Interrupted');
+        } finally {
+            console.log = log;
+        }
+        expect(await vesting.tokensClaimed()).be.equal(parseEther(0.5));
+
+        const receipts = await hre.run('vesting-payout', { ...args, chunkSize: undefined });
+        expect(receipts.length).be.equal(2);
+        expect(await hre.run('vesting-payout', args)).be.deep.equal([]);
+
+        expect(await superproToken.balanceOf(user1.address)).be.equal(parseEther(0.5));
+        expect(await superproToken.balanceOf(user2.address)).be.equal(parseEther(0.25));
+        expect(await superproToken.balanceOf(recipient)).be.equal(parseEther(0.125));
+        expect(await vesting.tokensClaimed()).be.equal(parseEther(0.875));
+        fs.rmdirSync(path.dirname(payouts), { recursive: true });
+    });
+
+    it('should refuse payouts above unlocked amount and invalid lines', async function () {
+        await network.provider.send('evm_setNextBlockTimestamp', [START + 86400]);
+        await network.provider.send('evm_mine');
+        const unlocked = await vesting.calculateClaim();
+        const payouts = writePayouts([`${user1.address},1000`, `${user2.address},1000`]);
+        await expectTaskError(
+            'vesting-payout',
+            { contract: vesting.address, payouts, yes: true },
+            `Requested more than unlocked: 2000.0 SPT of ${ethers.utils.formatEther(unlocked)} SPT`
+        );
+
+        const invalid = writePayouts([`${user1.address},1`, `${user1.address},2`, '0x1234,1', `${user2.address},0`, `${user2.address}`]);
+        await expectTaskError(
+            'vesting-payout',
+            { contract: vesting.address, payouts: invalid, yes: true },
+            [
+                `Invalid payouts in ${invalid}:`,
+                `Line 2: ${user1.address} duplicates line 1`,
+                'Line 3: invalid recipient 0x1234',
+                'Line 4: amount should be greater than zero',
+                'Line 5: expected recipient and amount',
+            ].join('\n')
+        );
+        expect(await vesting.tokensClaimed()).be.equal(0);
+        fs.rmdirSync(path.dirname(payouts), { recursive: true });
+        fs.rmdirSync(path.dirname(invalid), { recursive: true });
+    });
+
+    it('should show surplus of Vesting and add it to the schedule', async function () {
+        await expectTaskError('top-up', { contract: vesting.address, yes: true }, 'No surplus');
+        await superproToken.transfer(vesting.address, parseEther(1));
+
+        expect(await hre.run('surplus', { contract: vesting.address })).be.deep.equal({
+            contract: 'Vesting',
+            token: superproToken.address,
+            balance: TOKENS_TOTAL.add(parseEther(1)),
+            tracked: TOKENS_TOTAL,
+            surplus: parseEther(1),
+        });
+        const receipt = await hre.run('top-up', { contract: vesting.address, yes: true });
+
+        expect(receipt.events.find((event: any) => event.event === 'TokensToppedUp').args.amount).be.equal(parseEther(1));
+        expect(await vesting.tokensTotal()).be.equal(TOKENS_TOTAL.add(parseEther(1)));
+        await expectTaskError(
+            'top-up',
+            { contract: insidersVesting.address, yes: true },
+            'Only Vesting can be topped up, use rescue-tokens for InsidersVesting'
+        );
+    });
+
+    it('should rescue surplus of InsidersVesting and refuse more than surplus', async function () {
+        await superproToken.transfer(insidersVesting.address, parseEther(1));
+        const args = { contract: insidersVesting.address, to: user2.address, yes: true };
+        await expectTaskError('rescue-tokens', { ...args, amount: '2' }, 'Requested more than surplus: 2.0 SPT of 1.0 SPT');
+
+        await hre.run('rescue-tokens', args);
+
+        expect(await superproToken.balanceOf(user2.address)).be.equal(parseEther(1));
+        expect((await hre.run('surplus', { contract: insidersVesting.address })).surplus).be.equal(0);
+        await expectTaskError('rescue-tokens', args, 'No surplus');
+    });
+
+    it('should revoke beneficiary and refuse account not in whitelist', async function () {
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 86400]);
+        await network.provider.send('evm_mine');
+
+        const receipt = await hre.run('revoke-beneficiary', {
+            contract: insidersVesting.address,
+            beneficiary: user1.address,
+            treasury: user2.address,
+            yes: true,
+        });
+        const event = receipt.events.find((event: any) => event.event === 'BeneficiaryRevoked');
+
+        expect(await superproToken.balanceOf(user2.address)).be.equal(event.args.amountRevoked);
+        expect(await insidersVesting.calculateClaim(user1.address)).be.equal(event.args.amountUnlocked);
+        expect(event.args.amountUnlocked.add(event.args.amountRevoked)).be.equal(parseEther(6000));
+        await expectTaskError(
+            'revoke-beneficiary',
+            { contract: insidersVesting.address, beneficiary: user2.address, treasury: user2.address, yes: true },
+            `${user2.address} is not in whitelist`
+        );
+    });
+
+    it('should propose and execute recovery of beneficiary after the delay', async function () {
+        const args = { contract: insidersVesting.address, beneficiary: user1.address };
+        await expectTaskError('execute-recovery', args, `Recovery of ${user1.address} is not proposed`);
+        const receipt = await hre.run('propose-recovery', { ...args, account: user2.address, yes: true });
+        const { validAfter } = receipt.events.find((event: any) => event.event === 'RecoveryProposed').args;
+
+        await expectTaskError(
+            'execute-recovery',
+            args,
+            `Recovery of ${user1.address} can be executed after ${new Date(validAfter.toNumber() * 1000).toISOString().replace('.000Z', 'Z')}`
+        );
+        await network.provider.send('evm_setNextBlockTimestamp', [validAfter.toNumber() - 1]);
+        await network.provider.send('evm_mine');
+        await hre.run('execute-recovery', args);
+
+        expect((await insidersVesting.getBeneficiaryInfo(user2.address)).tokensLocked).be.equal(parseEther(6000));
+        const report = await hre.run('vesting-report', { contract: insidersVesting.address });
+        expect(report.beneficiaries.map((beneficiary: any) => beneficiary.account)).be.deep.equal([owner.address, user2.address]);
+    });
+
+    it('should cancel recovery and refuse replacement already in whitelist', async function () {
+        const args = { contract: insidersVesting.address, beneficiary: user1.address };
+        await expectTaskError('cancel-recovery', args, `Recovery of ${user1.address} is not proposed`);
+        await hre.run('propose-recovery', { ...args, account: user2.address, yes: true });
+        await expectTaskError(
+            'propose-recovery',
+            { ...args, account: user2.address, yes: true },
+            `Recovery of ${user1.address} to ${user2.address} is already proposed, cancel it first`
+        );
+
+        const receipt = await hre.run('cancel-recovery', args);
+
+        expect(receipt.events.find((event: any) => event.event === 'RecoveryCancelled').args.canceller).be.equal(owner.address);
+        expect((await insidersVesting.recoveries(user1.address)).account).be.equal(ethers.constants.AddressZero);
+    });
+
+    it('should pause InsidersVesting as the guardian and refuse claims until unpaused', async function () {
+        const args = { contract: insidersVesting.address };
+        await expectTaskError('pause', { ...args, duration: '3d' }, 'Contract has no guardian');
+        await hre.run('propose-guardian', { ...args, account: owner.address });
+        await expectTaskError(
+            'propose-guardian',
+            { ...args, account: user1.address },
+            `Change of guardian to ${owner.address} is already proposed, cancel it first`
+        );
+        const { validAfter } = await insidersVesting.guardianChange();
+        await network.provider.send('evm_setNextBlockTimestamp', [validAfter.toNumber()]);
+        await network.provider.send('evm_mine');
+        await hre.run('accept-guardian', args);
+        await expectTaskError('unpause', args, 'Contract is not paused');
+        await expectTaskError('pause', { ...args, duration: '31d' }, 'Pause duration should be from 1 second to 30d');
+
+        const receipt = await hre.run('pause', { ...args, duration: '3d' });
+        const { pausedUntil } = receipt.events.find((event: any) => event.event === 'Paused').args;
+        const date = new Date(pausedUntil.toNumber() * 1000).toISOString().replace('.000Z', 'Z');
+        await expectTaskError('pause', { ...args, duration: '3d' }, `Contract is already paused until ${date}`);
+        await expectTaskError('insiders-transfer-all', { ...args, to: user2.address }, `Claims and transfers are paused until ${date}`);
+        expect(await hre.run('pause-status', args)).be.deep.equal({
+            guardian: owner.address,
+            paused: true,
+            pausedUntil: pausedUntil.toNumber(),
+            nextPauseAfter: pausedUntil.toNumber() + 7 * 86400,
+            pauseLeft: 87 * 86400,
+        });
+
+        await hre.run('unpause', args);
+        await hre.run('insiders-transfer-all', { ...args, to: user2.address });
+        expect((await hre.run('pause-status', args)).paused).be.equal(false);
+    });
+
+    it('should pause Vesting as the guardian accepted by guardian change', async function () {
+        const args = { contract: vesting.address };
+        await hre.run('propose-guardian', { ...args, account: user2.address });
+        await hre.run('cancel-guardian', args);
+        await expectTaskError('accept-guardian', args, 'Change of guardian is not proposed');
+        await hre.run('propose-guardian', { ...args, account: user1.address });
+        const { validAfter } = await vesting.guardianChange();
+        await network.provider.send('evm_setNextBlockTimestamp', [validAfter.toNumber()]);
+        await vesting.connect(user1).acceptGuardian();
+
+        await expectTaskError('pause', { ...args, duration: '1d' }, `${owner.address} is not guardian of the contract`);
+        await vesting.connect(user1).pause(86400);
+        const status = await hre.run('pause-status', args);
+        expect([status.guardian, status.paused]).be.deep.equal([user1.address, true]);
+        await expectTaskError(
+            'vesting-claim',
+            { ...args, to: owner.address, amount: '1' },
+            `Claims are paused until ${new Date(status.pausedUntil * 1000).toISOString().replace('.000Z', 'Z')}`
+        );
+    });
+});
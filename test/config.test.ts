@@ -0,0 +1,37 @@
+import { expect } from 'chai';
+import { network } from 'hardhat';
+import { getMissingVariables, getNetworkAccounts, getNetworkUrl, networks, validateNetwork } from '../config';
+
+describe('Network registry', function () {
+    const KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+    it('should not require variables for hardhat and local networks', function () {
+        expect(getMissingVariables(network.name, true, {})).be.deep.equal([]);
+        expect(getMissingVariables('local', false, {})).be.deep.equal([]);
+        expect(getNetworkUrl(networks.local, {})).be.equal('http://127.0.0.1:8545');
+        expect(getNetworkAccounts(networks.local, {})).be.equal(undefined);
+    });
+
+    it('should report missing variables of selected network', function () {
+        expect(getMissingVariables('polygon', true, {})).be.deep.equal(['POLYGON_URL', 'PRIVATE_KEY or KEYSTORE_PATH', 'POLYGONSCAN_API_KEY']);
+        expect(getMissingVariables('amoy', false, { AMOY_URL: 'http://amoy', PRIVATE_KEY: KEY })).be.deep.equal([
+            'TEST_PRIVATE_KEY or KEYSTORE_PATH',
+        ]);
+        expect(getMissingVariables('mainnet', false, { MAINNET_URL: 'http://mainnet', KEYSTORE_PATH: 'keystore.json' })).be.deep.equal([]);
+    });
+
+    it('should fail with the list of missing variables', function () {
+        let error: Error | undefined;
+        try {
+            validateNetwork('sepolia', false, { TEST_PRIVATE_KEY: KEY });
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).be.equal('Network sepolia is not configured, set SEPOLIA_URL in .env');
+    });
+
+    it('should not pass undefined private key as account', function () {
+        expect(getNetworkAccounts(networks.sepolia, {})).be.deep.equal([]);
+        expect(getNetworkAccounts(networks.sepolia, { TEST_PRIVATE_KEY: KEY })).be.deep.equal([KEY]);
+    });
+});
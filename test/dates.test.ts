@@ -0,0 +1,149 @@
+import { expect } from 'chai';
+import hre, { ethers, network } from 'hardhat';
+import { SuperproToken, Vesting } from '../typechain';
+import { DEFAULT_ROLE_CHANGE_DELAY } from '../utils/authority';
+import { addDuration, formatDate, formatDuration, parseDate, parseDuration } from '../utils/dates';
+
+describe('Dates', function () {
+    let superproToken: SuperproToken;
+    let vesting: Vesting;
+    let snapshot: any;
+
+    before(async function () {
+        const [owner] = await ethers.getSigners();
+        superproToken = await (
+            await ethers.getContractFactory('SuperproToken')
+        ).deploy(ethers.utils.parseEther('10000'), 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+        vesting = await (await ethers.getContractFactory('Vesting')).deploy(owner.address, DEFAULT_ROLE_CHANGE_DELAY);
+        await vesting.deployed();
+        await superproToken.transfer(vesting.address, ethers.utils.parseEther('10000'));
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    afterEach(async function () {
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    function expectError(fn: () => unknown, message: string) {
+        let error: Error | undefined;
+        try {
+            fn();
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).be.equal(message);
+    }
+
+    it('should parse ISO-8601 dates and timestamps in seconds', function () {
+        expect(parseDate('2026-12-01T00:00:00Z')).be.equal(1796083200);
+        expect(parseDate('2026-12-01T03:00:00+03:00')).be.equal(1796083200);
+        expect(parseDate('2026-12-01')).be.equal(1796083200);
+        expect(parseDate('1796083200')).be.equal(1796083200);
+        expect(formatDate(1796083200)).be.equal('2026-12-01T00:00:00Z');
+    });
+
+    it('should reject milliseconds and dates without time zone', function () {
+        expectError(() => parseDate('1796083200000'), 'Timestamp 1796083200000 is too large, it should be in seconds, not milliseconds');
+        expectError(
+            () => parseDate('2026-12-01T00:00:00'),
+            'Invalid date 2026-12-01T00:00:00, expected ISO-8601 date with time zone like 2026-12-01T00:00:00Z or unix timestamp'
+        );
+        expectError(() => parseDate('2026-13-01'), 'Invalid date 2026-13-01');
+    });
+
+    it('should add calendar and fixed durations', function () {
+        const start = parseDate('2026-01-31T00:00:00Z');
+        expect(formatDate(addDuration(start, '1mo'))).be.equal('2026-02-28T00:00:00Z');
+        expect(formatDate(addDuration(start, '36mo'))).be.equal('2029-01-31T00:00:00Z');
+        expect(formatDate(addDuration(start, '3y'))).be.equal('2029-01-31T00:00:00Z');
+        expect(formatDate(addDuration(start, '1w2d12h'))).be.equal('2026-02-09T12:00:00Z');
+        expectError(
+            () => addDuration(start, '36 months'),
+            'Invalid duration 36 months, expected amounts with units y, mo, w, d, h, min or s like 36mo'
+        );
+    });
+
+    it('should parse fixed durations of contract terms', function () {
+        expect(parseDuration('7776000')).be.equal(7776000);
+        expect(parseDuration('90d')).be.equal(7776000);
+        expect(parseDuration('1w12h')).be.equal(648000);
+        expect(formatDuration(86745600)).be.equal('1004d');
+        expect(formatDuration(90061)).be.equal('1d 3661s');
+        expectError(() => parseDuration('33mo'), 'Invalid duration 33mo, months and years have no fixed length, use days like 1004d');
+    });
+
+    it('should initialize Vesting with ISO start and relative duration', async function () {
+        const start = (await ethers.provider.getBlock('latest')).timestamp + 86400;
+        await hre.run('initialize-vesting', {
+            contract: vesting.address,
+            token: superproToken.address,
+            start: formatDate(start),
+            duration: '36mo',
+            yes: true,
+        });
+
+        expect(await vesting.vestingStart()).be.equal(start);
+        expect(await vesting.vestingFinish()).be.equal(addDuration(start, '36mo'));
+    });
+
+    it('should initialize Vesting with monthly tranches after a cliff', async function () {
+        const start = (await ethers.provider.getBlock('latest')).timestamp + 86400;
+        await hre.run('initialize-vesting', {
+            contract: vesting.address,
+            token: superproToken.address,
+            start: start.toString(),
+            duration: '2y',
+            curve: 'monthly',
+            cliff: '6mo',
+            yes: true,
+        });
+
+        expect(await vesting.vestingCliff()).be.equal(addDuration(start, '6mo'));
+        expect(await vesting.stepDuration()).be.equal(2629746);
+
+        let error: Error | undefined;
+        try {
+            await hre.run('initialize-vesting', {
+                contract: vesting.address,
+                token: superproToken.address,
+                start: start.toString(),
+                duration: '2y',
+                curve: 'weekly',
+            });
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).be.equal('Unknown curve weekly, expected one of linear, monthly, quarterly');
+    });
+
+    it('should ask for confirmation without --yes in non-interactive run', async function () {
+        const start = (await ethers.provider.getBlock('latest')).timestamp + 86400;
+        // the same as piped stdin of CI, even when tests are started from a terminal
+        const isTTY = process.stdin.isTTY;
+        process.stdin.isTTY = false;
+        let error: Error | undefined;
+        try {
+            await hre.run('initialize-vesting', { contract: vesting.address, token: superproToken.address, start: start.toString(), duration: '1y' });
+        } catch (e) {
+            error = e as Error;
+        } finally {
+            process.stdin.isTTY = isTTY;
+        }
+
+        expect(error?.message).be.equal('Confirmation can not be asked in non-interactive run, pass --yes to continue');
+        expect(await vesting.initialized()).be.equal(false);
+    });
+});
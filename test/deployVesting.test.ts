@@ -0,0 +1,148 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers, network } from 'hardhat';
+import { SuperproToken } from '../typechain';
+import { Deployment, readManifest } from '../utils/deployments';
+import { readSafeBatch } from '../utils/safe';
+
+describe('deploy-vesting', function () {
+    let superproToken: SuperproToken;
+    let deployer: SignerWithAddress, user1: SignerWithAddress, user2: SignerWithAddress;
+    let directory: string;
+    let manifest: string;
+
+    const START = Math.floor(Date.now() / 1000) + 86400;
+    const FINISH = START + 94694400;
+    const TOKENS_TOTAL = parseEther(10_000);
+    let snapshot: any;
+
+    before(async function () {
+        [deployer, user1, user2] = await ethers.getSigners();
+        const superproTokenFactory = await ethers.getContractFactory('SuperproToken');
+        superproToken = await superproTokenFactory.deploy(TOKENS_TOTAL, 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    beforeEach(function () {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vesting-deployments-'));
+        manifest = path.join(directory, 'hardhat.json');
+    });
+
+    afterEach(async function () {
+        fs.rmdirSync(directory, { recursive: true });
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    function parseEther(amount: number) {
+        return ethers.utils.parseEther(amount.toString());
+    }
+
+    function deployVesting(params = {}): Promise<Deployment> {
+        return hre.run('deploy-vesting', {
+            contract: 'Vesting',
+            token: superproToken.address,
+            start: START,
+            finish: FINISH,
+            fund: TOKENS_TOTAL.toString(),
+            manifest,
+            ...params,
+        });
+    }
+
+    it('should deploy, fund and initialize InsidersVesting', async function () {
+        const beneficiaries = path.join(directory, 'beneficiaries.json');
+        fs.writeFileSync(
+            beneficiaries,
+            JSON.stringify([
+                { account: user1.address, tokenAmount: parseEther(4000).toString() },
+                { account: user2.address, tokenAmount: parseEther(6000).toString() },
+            ])
+        );
+
+        const deployment: Deployment = await hre.run('deploy-vesting', {
+            contract: 'InsidersVesting',
+            token: superproToken.address,
+            start: START,
+            beneficiaries,
+            fund: TOKENS_TOTAL.toString(),
+            lockupDuration: '30d',
+            vestingDuration: '31536000',
+            manifest,
+        });
+
+        const vesting = await ethers.getContractAt('InsidersVesting', deployment.address as string);
+        expect(await vesting.initialized()).be.equal(true);
+        expect(await vesting.lockupEnd()).be.equal(START + 30 * 86400);
+        expect(await vesting.vestingFinish()).be.equal(START + 30 * 86400 + 31536000);
+        expect((await vesting.getBeneficiaryInfo(user2.address)).tokensLocked).be.equal(parseEther(6000));
+        expect(readManifest(manifest).InsidersVesting).be.deep.equal(JSON.parse(JSON.stringify(deployment)));
+        expect(Object.keys(deployment.steps)).be.deep.equal(['deploy', 'fund', 'initialize']);
+        expect(deployment.constructorArgs).be.deep.equal([deployer.address, 30 * 86400, 31536000]);
+    });
+
+    it('should resume failed deployment without deploying a second contract', async function () {
+        await superproToken.transfer(user1.address, TOKENS_TOTAL);
+        await expect(deployVesting()).be.revertedWith('ERC20: transfer amount exceeds balance');
+
+        const failed = readManifest(manifest).Vesting;
+        expect(Object.keys(failed.steps)).be.deep.equal(['deploy']);
+
+        await superproToken.connect(user1).transfer(deployer.address, TOKENS_TOTAL);
+        const deployment = await deployVesting();
+
+        expect(deployment.address).be.equal(failed.address);
+        expect(deployment.steps.deploy).be.deep.equal(failed.steps.deploy);
+        const vesting = await ethers.getContractAt('Vesting', deployment.address as string);
+        expect(await vesting.tokensLocked()).be.equal(TOKENS_TOTAL);
+    });
+
+    it('should skip initialize when owner is not the deployer', async function () {
+        const deployment = await deployVesting({ owner: user1.address });
+
+        expect(Object.keys(deployment.steps)).be.deep.equal(['deploy', 'fund']);
+        const vesting = await ethers.getContractAt('Vesting', deployment.address as string);
+        expect(await vesting.owner()).be.equal(user1.address);
+        expect(await vesting.initialized()).be.equal(false);
+    });
+
+    it('should write initialize proposal for the owner Safe', async function () {
+        const batchFile = path.join(directory, 'batch.json');
+        const deployment = await deployVesting({ owner: user1.address, propose: batchFile });
+        await deployVesting({ owner: user1.address, propose: batchFile });
+
+        const batch = readSafeBatch(batchFile);
+        expect(deployment.initializeProposal).be.equal(batchFile);
+        expect(batch.meta.createdFromSafeAddress).be.equal(user1.address);
+        expect(batch.transactions.length).be.equal(1);
+        await user1.sendTransaction({ to: batch.transactions[0].to, data: batch.transactions[0].data });
+        const vesting = await ethers.getContractAt('Vesting', deployment.address as string);
+        expect(await vesting.vestingFinish()).be.equal(FINISH);
+    });
+
+    it('should refuse to resume deployment with other parameters', async function () {
+        await deployVesting();
+
+        let error: Error | undefined;
+        try {
+            await deployVesting({ finish: FINISH + 1 });
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).be.equal(`Deployment Vesting in ${manifest} has other parameters, use another --name`);
+    });
+});
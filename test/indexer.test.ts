@@ -0,0 +1,158 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers, network } from 'hardhat';
+import { InsidersVesting, SuperproToken, Vesting } from '../typechain';
+import { DEFAULT_ROLE_CHANGE_DELAY } from '../utils/authority';
+import { EventStore, queryEvents, sumClaims, syncEvents } from '../utils/indexer';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION } from '../utils/schedule';
+
+describe('Indexer', function () {
+    let superproToken: SuperproToken;
+    let insidersVesting: InsidersVesting;
+    let vesting: Vesting;
+    let owner: SignerWithAddress, user1: SignerWithAddress, user2: SignerWithAddress, user3: SignerWithAddress;
+    let store: EventStore;
+    let contracts: string[];
+
+    const START = Math.floor(Date.now() / 1000) + 86400;
+    const LOCKUP_END = START + 7776000;
+    const TOKENS_TOTAL = parseEther(10_000);
+    let snapshot: any;
+
+    before(async function () {
+        [owner, user1, user2, user3] = await ethers.getSigners();
+        const superproTokenFactory = await ethers.getContractFactory('SuperproToken');
+        superproToken = await superproTokenFactory.deploy(TOKENS_TOTAL.mul(2), 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+
+        insidersVesting = await (
+            await ethers.getContractFactory('InsidersVesting')
+        ).deploy(owner.address, INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION);
+        await insidersVesting.deployed();
+        await superproToken.transfer(insidersVesting.address, TOKENS_TOTAL);
+        await insidersVesting.initialize(
+            superproToken.address,
+            [
+                { account: user1.address, tokenAmount: parseEther(4000) },
+                { account: user2.address, tokenAmount: parseEther(6000) },
+            ],
+            START
+        );
+
+        vesting = await (await ethers.getContractFactory('Vesting')).deploy(owner.address, DEFAULT_ROLE_CHANGE_DELAY);
+        await vesting.deployed();
+        await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+        await vesting.initialize(superproToken.address, START, START + 94694400);
+
+        contracts = [insidersVesting.address, vesting.address];
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    beforeEach(function () {
+        store = new EventStore(fs.mkdtempSync(path.join(os.tmpdir(), 'vesting-indexer-')));
+    });
+
+    afterEach(async function () {
+        fs.rmdirSync(store.directory, { recursive: true });
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    function parseEther(amount: number) {
+        return ethers.utils.parseEther(amount.toString());
+    }
+
+    it('should index events of both contracts', async function () {
+        await insidersVesting.connect(user1).transfer(user3.address, parseEther(1000), 0);
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 1000]);
+        await insidersVesting.connect(user2).claim(user2.address, parseEther(0.001));
+        await vesting.claim(user3.address, parseEther(1));
+
+        const state = await syncEvents(ethers.provider, store, { contracts, batchSize: 3 });
+        const events = store.readEvents();
+
+        expect(state.lastBlock).be.equal(await ethers.provider.getBlockNumber());
+        expect(events.map(event => event.event)).be.deep.equal(['TokensTransferred', 'TokensClaimed', 'TokensClaimed']);
+        expect(events[0].amountLocked).be.equal(parseEther(1000).toString());
+        expect(events[1].timestamp).be.equal(LOCKUP_END + 1000);
+        expect(events[2].contract).be.equal(vesting.address);
+        expect(events[2].from).be.equal(owner.address);
+    });
+
+    it('should resume from the last synced block', async function () {
+        await insidersVesting.connect(user1).transfer(user3.address, parseEther(1000), 0);
+        await syncEvents(ethers.provider, store, { contracts });
+
+        await insidersVesting.connect(user2).transfer(user3.address, parseEther(1000), 0);
+        await syncEvents(ethers.provider, store, { contracts });
+        await syncEvents(ethers.provider, store, { contracts });
+
+        const events = store.readEvents();
+        expect(events.map(event => event.from)).be.deep.equal([user1.address, user2.address]);
+    });
+
+    it('should drop events of blocks removed by reorg', async function () {
+        await insidersVesting.connect(user1).transfer(user3.address, parseEther(1000), 0);
+        await syncEvents(ethers.provider, store, { contracts });
+
+        const reorgSnapshot = await network.provider.request({ method: 'evm_snapshot', params: [] });
+        await insidersVesting.connect(user2).transfer(user3.address, parseEther(1000), 0);
+        await syncEvents(ethers.provider, store, { contracts });
+        expect(store.readEvents().length).be.equal(2);
+
+        await network.provider.request({ method: 'evm_revert', params: [reorgSnapshot] });
+        await network.provider.send('evm_mine');
+        await insidersVesting.connect(user2).transfer(user1.address, parseEther(500), 0);
+        await syncEvents(ethers.provider, store, { contracts });
+
+        const events = store.readEvents();
+        expect(events.map(event => [event.from, event.to])).be.deep.equal([
+            [user1.address, user3.address],
+            [user2.address, user1.address],
+        ]);
+    });
+
+    it('should query history and claim totals by account and time range', async function () {
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 1000]);
+        await insidersVesting.connect(user1).claim(user1.address, parseEther(0.001));
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 2000]);
+        await insidersVesting.connect(user1).claim(user3.address, parseEther(0.002));
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 3000]);
+        await insidersVesting.connect(user2).claim(user2.address, parseEther(0.004));
+        await syncEvents(ethers.provider, store, { contracts });
+
+        const events = store.readEvents();
+        expect(queryEvents(events, { account: user3.address }).length).be.equal(1);
+        expect(sumClaims(queryEvents(events, { account: user1.address })).get(user1.address)).be.equal(parseEther(0.003));
+
+        const totals = sumClaims(queryEvents(events, { from: LOCKUP_END + 1500, to: LOCKUP_END + 3000 }));
+        expect(totals.get(user1.address)).be.equal(parseEther(0.002));
+        expect(totals.get(user2.address)).be.equal(parseEther(0.004));
+    });
+
+    it('should print queried events with units of the vesting token', async function () {
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 1000]);
+        await insidersVesting.connect(user1).claim(user3.address, parseEther(0.001));
+        await vesting.claim(user2.address, parseEther(0.002));
+        await syncEvents(ethers.provider, store, { contracts });
+
+        const { events, totals } = await hre.run('query-events', { store: store.directory });
+
+        expect(events.length).be.equal(2);
+        expect(totals.get(user1.address)).be.equal(parseEther(0.001));
+        expect(totals.get(owner.address)).be.equal(parseEther(0.002));
+    });
+});
@@ -0,0 +1,165 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers, network } from 'hardhat';
+import { InsidersVesting, SuperproToken } from '../typechain';
+import { Beneficiary } from '../utils/beneficiaries';
+import { VestingReport } from '../utils/report';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION } from '../utils/schedule';
+
+describe('Staged initialize-insider-vesting', function () {
+    let superproToken: SuperproToken;
+    let vesting: InsidersVesting;
+    let directory: string;
+    let beneficiariesFile: string;
+    let beneficiaries: Beneficiary[];
+
+    const START = Math.floor(Date.now() / 1000) + 86400;
+    const COUNT = 40;
+    const TOKENS_TOTAL = parseEther(1000).mul(COUNT);
+    let snapshot: any;
+
+    before(async function () {
+        const [owner] = await ethers.getSigners();
+        const superproTokenFactory = await ethers.getContractFactory('SuperproToken');
+        superproToken = await superproTokenFactory.deploy(TOKENS_TOTAL, 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+        vesting = await (
+            await ethers.getContractFactory('InsidersVesting')
+        ).deploy(owner.address, INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION);
+        await vesting.deployed();
+        await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+
+        beneficiaries = [];
+        for (let i = 0; i < COUNT; i++) {
+            beneficiaries.push({
+                account: ethers.utils.getAddress(ethers.utils.hexZeroPad(ethers.utils.hexlify(i + 1), 20)),
+                tokenAmount: parseEther(1000).toString(),
+            });
+        }
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vesting-staged-'));
+        beneficiariesFile = path.join(directory, 'beneficiaries.json');
+        fs.writeFileSync(beneficiariesFile, JSON.stringify(beneficiaries));
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    after(function () {
+        fs.rmdirSync(directory, { recursive: true });
+    });
+
+    afterEach(async function () {
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    function parseEther(amount: number) {
+        return ethers.utils.parseEther(amount.toString());
+    }
+
+    async function initialize(args: Record<string, unknown> = {}) {
+        await hre.run('initialize-insider-vesting', {
+            contract: vesting.address,
+            token: superproToken.address,
+            start: START.toString(),
+            beneficiaries: beneficiariesFile,
+            yes: true,
+            ...args,
+        });
+    }
+
+    it('should initialize by one transaction when it fits in gas limit', async function () {
+        const blockNumber = await ethers.provider.getBlockNumber();
+        await initialize();
+
+        expect(await vesting.initialized()).be.equal(true);
+        expect(await ethers.provider.getBlockNumber()).be.equal(blockNumber + 1);
+    });
+
+    it('should split beneficiaries into chunks by gas estimates', async function () {
+        const blockNumber = await ethers.provider.getBlockNumber();
+        await initialize({ maxGas: 600_000 });
+
+        expect(await vesting.initialized()).be.equal(true);
+        expect(await vesting.tokensDistributed()).be.equal(TOKENS_TOTAL);
+        const blocks = await Promise.all(
+            Array.from({ length: (await ethers.provider.getBlockNumber()) - blockNumber }, (_, index) =>
+                ethers.provider.getBlockWithTransactions(blockNumber + index + 1)
+            )
+        );
+        for (const block of blocks) {
+            expect(block.gasUsed.toNumber()).be.lte(600_000);
+        }
+        // start, at least 4 chunks of about 11 beneficiaries and finish
+        expect(blocks.length).be.gte(6);
+    });
+
+    it('should resume skipping beneficiaries already added on-chain', async function () {
+        await vesting.startInitialization(superproToken.address, START);
+        await vesting.addBeneficiaries(beneficiaries.slice(0, 25));
+
+        const blockNumber = await ethers.provider.getBlockNumber();
+        await initialize({ chunkSize: 10 });
+
+        expect(await vesting.initialized()).be.equal(true);
+        // 15 pending beneficiaries in 2 chunks and finish
+        expect(await ethers.provider.getBlockNumber()).be.equal(blockNumber + 3);
+
+        const report: VestingReport = await hre.run('vesting-report', { contract: vesting.address });
+        expect(report.beneficiaries.length).be.equal(COUNT);
+        expect(report.errors).be.deep.equal([]);
+    });
+
+    it('should refuse to resume initialization started with another start', async function () {
+        await vesting.startInitialization(superproToken.address, START + 1);
+
+        let error: Error | undefined;
+        try {
+            await initialize();
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).be.equal(
+            `Initialization is started with token ${superproToken.address} and start ${new Date((START + 1) * 1000)
+                .toISOString()
+                .replace('.000Z', 'Z')}`
+        );
+    });
+
+    it('should ask for chunk size before proposing staged initialization', async function () {
+        const batchFile = path.join(directory, 'batch.json');
+        let error: Error | undefined;
+        try {
+            await initialize({ maxGas: 600_000, propose: batchFile });
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).be.equal('Gas of adding beneficiaries can not be estimated before initialization is started, pass --chunk-size');
+        expect(fs.existsSync(batchFile)).be.equal(false);
+    });
+
+    it('should refuse contract deployed with other durations than expected', async function () {
+        let error: Error | undefined;
+        try {
+            await initialize({ lockupDuration: '90d', vestingDuration: '365d' });
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).be.equal('Contract vesting duration is 1004d, not 365d');
+        expect(await vesting.vestingStart()).be.equal(0);
+
+        await initialize({ lockupDuration: '90d', vestingDuration: '1004d' });
+        expect(await vesting.initialized()).be.equal(true);
+    });
+});
@@ -1,502 +1,902 @@
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { expect } from 'chai';
-import { BigNumber, ContractReceipt } from 'ethers';
+import { BigNumber, constants, ContractReceipt } from 'ethers';
 import { ethers, network } from 'hardhat';
 import { SuperproToken, InsidersVesting } from '../typechain';
+import { formatDuration } from '../utils/dates';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION } from '../utils/schedule';
 
 interface BeneficiaryInit {
     account: string;
     tokenAmount: BigNumber;
 }
 
-describe('InsidersVesting', function () {
-    let superproToken: SuperproToken;
-    let vesting: InsidersVesting;
-    let owner: SignerWithAddress, user1: SignerWithAddress, user2: SignerWithAddress, user3: SignerWithAddress, user4: SignerWithAddress;
-
-    const oneDay = 86400;
-    const START = Math.floor(Date.now() / 1000) + oneDay;
-    const LOCKUP_END = START + 7776000;
-    const DURATION = 86745600;
-    const FINISH = LOCKUP_END + DURATION;
-    const TOKENS_TOTAL = parseEther(400_000_000);
-    let snapshot: any;
-
-    before(async function () {
-        [owner, user1, user2, user3, user4] = await ethers.getSigners();
-        const SuperproTokenFactory = await ethers.getContractFactory('SuperproToken');
-        superproToken = await SuperproTokenFactory.deploy(TOKENS_TOTAL, 'SPT', 'Superpro Test Token');
-        await superproToken.deployed();
-        const Vesting = await ethers.getContractFactory('InsidersVesting');
-
-        vesting = await Vesting.deploy(owner.address);
-        await vesting.deployed();
-        snapshot = await network.provider.request({
-            method: 'evm_snapshot',
-            params: [],
+// the same scenarios run against the terms of the first round and shorter ones, timestamps of the tests
+// are relative to lock-up end and vesting duration, lock-up should be longer than 1000 seconds after start
+const CONFIGURATIONS = [
+    { LOCKUP_DURATION: INSIDERS_LOCKUP_DURATION, DURATION: INSIDERS_VESTING_DURATION },
+    { LOCKUP_DURATION: 30 * 86400, DURATION: 365 * 86400 },
+    { LOCKUP_DURATION: 86400, DURATION: 30 * 86400 },
+];
+
+for (const { LOCKUP_DURATION, DURATION } of CONFIGURATIONS) {
+    describe(`InsidersVesting with ${formatDuration(LOCKUP_DURATION)} lock-up and ${formatDuration(DURATION)} vesting`, function () {
+        let superproToken: SuperproToken;
+        let vesting: InsidersVesting;
+        let owner: SignerWithAddress, user1: SignerWithAddress, user2: SignerWithAddress, user3: SignerWithAddress, user4: SignerWithAddress;
+
+        const oneDay = 86400;
+        const START = Math.floor(Date.now() / 1000) + oneDay;
+        const LOCKUP_END = START + LOCKUP_DURATION;
+        const FINISH = LOCKUP_END + DURATION;
+        const TOKENS_TOTAL = parseEther(400_000_000);
+        let snapshot: any;
+
+        before(async function () {
+            [owner, user1, user2, user3, user4] = await ethers.getSigners();
+            const SuperproTokenFactory = await ethers.getContractFactory('SuperproToken');
+            superproToken = await SuperproTokenFactory.deploy(TOKENS_TOTAL, 'SPT', 'Superpro Test Token');
+            await superproToken.deployed();
+            const Vesting = await ethers.getContractFactory('InsidersVesting');
+
+            vesting = await Vesting.deploy(owner.address, LOCKUP_DURATION, DURATION);
+            await vesting.deployed();
+            snapshot = await network.provider.request({
+                method: 'evm_snapshot',
+                params: [],
+            });
         });
-    });
 
-    afterEach(async function () {
-        await network.provider.request({
-            method: 'evm_revert',
-            params: [snapshot],
-        });
+        afterEach(async function () {
+            await network.provider.request({
+                method: 'evm_revert',
+                params: [snapshot],
+            });
 
-        snapshot = await network.provider.request({
-            method: 'evm_snapshot',
-            params: [],
+            snapshot = await network.provider.request({
+                method: 'evm_snapshot',
+                params: [],
+            });
         });
-    });
 
-    function parseEther(amount: number) {
-        return ethers.utils.parseEther(amount.toString());
-    }
-
-    async function initializeDefault() {
-        const remaining = TOKENS_TOTAL.sub(parseEther(2000)).sub(parseEther(3000));
-        const beneficiaries: BeneficiaryInit[] = [
-            { account: user1.address, tokenAmount: parseEther(2000) },
-            { account: user2.address, tokenAmount: parseEther(3000) },
-            { account: user3.address, tokenAmount: remaining },
-        ];
-        await superproToken.transfer(vesting.address, TOKENS_TOTAL);
-        await vesting.initialize(superproToken.address, beneficiaries, START);
-    }
-
-    it('should be able to iterate over 200 beneficiaries', async function () {
-        const beneficiaries: BeneficiaryInit[] = new Array(200); // 400 also passes
-        for (let i = 0; i < beneficiaries.length; i++) {
-            beneficiaries[i] = {
-                account: user1.address,
-                tokenAmount: parseEther(2000000),
-            };
+        function parseEther(amount: number) {
+            return ethers.utils.parseEther(amount.toString());
         }
 
-        await superproToken.transfer(vesting.address, TOKENS_TOTAL);
-        await expect(vesting.initialize(superproToken.address, beneficiaries, START)).not.be.reverted;
-    });
+        // exact linear unlock of InsidersVesting, the share of `amount` for the time passed since `from`
+        function vested(amount: BigNumber, from: number, at: number) {
+            return amount.mul(at - from).div(FINISH - from);
+        }
 
-    it('should initialize correctly', async function () {
-        await initializeDefault();
+        async function initializeDefault() {
+            const remaining = TOKENS_TOTAL.sub(parseEther(2000)).sub(parseEther(3000));
+            const beneficiaries: BeneficiaryInit[] = [
+                { account: user1.address, tokenAmount: parseEther(2000) },
+                { account: user2.address, tokenAmount: parseEther(3000) },
+                { account: user3.address, tokenAmount: remaining },
+            ];
+            await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+            await vesting.initialize(superproToken.address, beneficiaries, START);
+        }
 
-        const user1vesting = await vesting.getBeneficiaryInfo(user1.address);
-        const user2vesting = await vesting.getBeneficiaryInfo(user2.address);
-        expect(user1vesting.tokensPerSec).be.equal(user1vesting.tokensLocked.div(DURATION));
-        expect(user1vesting.tokensLocked).be.equal(parseEther(2000));
-        expect(user2vesting.tokensPerSec).be.equal(user2vesting.tokensLocked.div(DURATION));
-        expect(user2vesting.tokensLocked).be.equal(parseEther(3000));
+        // the guardian accepts the role proposed by the owner after the delay
+        async function setGuardian(guardian: SignerWithAddress) {
+            await vesting.proposeGuardian(guardian.address);
+            const { validAfter } = await vesting.guardianChange();
+            await network.provider.send('evm_setNextBlockTimestamp', [validAfter.toNumber()]);
+            await vesting.connect(guardian).acceptGuardian();
+        }
 
-        expect(await vesting.vestingStart()).be.equal(START);
-        expect(await vesting.lockupEnd()).be.equal(LOCKUP_END);
-        expect(await vesting.vestingFinish()).be.equal(LOCKUP_END + DURATION);
+        it('should be able to iterate over 200 beneficiaries', async function () {
+            const beneficiaries: BeneficiaryInit[] = new Array(200); // 400 also passes
+            for (let i = 0; i < beneficiaries.length; i++) {
+                beneficiaries[i] = {
+                    account: ethers.utils.getAddress(ethers.utils.hexZeroPad(ethers.utils.hexlify(i + 1), 20)),
+                    tokenAmount: parseEther(2000000),
+                };
+            }
+
+            await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+            await expect(vesting.initialize(superproToken.address, beneficiaries, START)).not.be.reverted;
+        });
 
-        await expect(vesting.initialize(superproToken.address, [], START)).be.revertedWith('Already initialized');
-    });
+        it('should keep durations given at deployment', async function () {
+            expect(await vesting.VESTING_LOCKUP_DURATION()).be.equal(LOCKUP_DURATION);
+            expect(await vesting.VESTING_DURATION()).be.equal(DURATION);
+            await expect((await ethers.getContractFactory('InsidersVesting')).deploy(owner.address, LOCKUP_DURATION, 0)).be.revertedWith(
+                'Zero vesting duration'
+            );
+        });
 
-    it('should revert initialize if sender is not the owner', async function () {
-        await expect(vesting.connect(user1).initialize(superproToken.address, [], START)).be.revertedWith('Not allowed to initialize');
-    });
+        it('should initialize correctly', async function () {
+            await initializeDefault();
 
-    it('should revert getBeneficiaryInfo if account is not in whitelist', async function () {
-        await expect(vesting.getBeneficiaryInfo(owner.address)).be.revertedWith('Account is not in whitelist');
-    });
+            const user1vesting = await vesting.getBeneficiaryInfo(user1.address);
+            const user2vesting = await vesting.getBeneficiaryInfo(user2.address);
+            expect(user1vesting.tokensVesting).be.equal(user1vesting.tokensLocked);
+            expect(user1vesting.tokensLocked).be.equal(parseEther(2000));
+            expect(user2vesting.tokensVesting).be.equal(user2vesting.tokensLocked);
+            expect(user2vesting.tokensLocked).be.equal(parseEther(3000));
 
-    it('should revert initialize when input params incorrect', async function () {
-        const timeInPast = Math.floor(Date.now() / 1000) - 10;
-        await expect(vesting.initialize(superproToken.address, [], START)).be.revertedWith('No users');
-        let beneficiaries: BeneficiaryInit[] = [{ account: user1.address, tokenAmount: BigNumber.from(1000) }];
-        await expect(vesting.initialize(superproToken.address, beneficiaries, START)).be.revertedWith('Zero token balance');
-
-        await superproToken.transfer(vesting.address, TOKENS_TOTAL);
-        await expect(vesting.initialize(superproToken.address, beneficiaries, timeInPast)).be.revertedWith('Start timestamp is in the past');
-
-        beneficiaries = [
-            { account: user1.address, tokenAmount: parseEther(200000000) },
-            { account: user2.address, tokenAmount: parseEther(199999999) },
-        ];
-        await expect(vesting.initialize(superproToken.address, beneficiaries, START)).be.revertedWith('Not all tokens are distributed');
-        beneficiaries = [
-            { account: user1.address, tokenAmount: parseEther(200000000) },
-            { account: user2.address, tokenAmount: parseEther(200000001) },
-        ];
-        await expect(vesting.initialize(superproToken.address, beneficiaries, START)).be.revertedWith('Tokens sum is greater than balance');
-    });
+            expect(await vesting.vestingStart()).be.equal(START);
+            expect(await vesting.lockupEnd()).be.equal(LOCKUP_END);
+            expect(await vesting.vestingFinish()).be.equal(LOCKUP_END + DURATION);
 
-    it('should calculate claim 0 before lock-up end', async function () {
-        await initializeDefault();
+            await expect(vesting.initialize(superproToken.address, [], START)).be.revertedWith('Already initialized');
+        });
 
-        const claim = await vesting.calculateClaim(user1.address);
-        expect(claim).be.eq(0);
-    });
+        it('should revert initialize if sender is not the owner', async function () {
+            await expect(vesting.connect(user1).initialize(superproToken.address, [], START)).be.revertedWith('Not allowed to initialize');
+        });
 
-    it('should forbid to claim during lock-up period', async function () {
-        await initializeDefault();
-        await expect(vesting.connect(user1).claim(user1.address, 1)).be.revertedWith('Cannot claim during 3 months lock-up period');
-    });
+        it('should revert getBeneficiaryInfo if account is not in whitelist', async function () {
+            await expect(vesting.getBeneficiaryInfo(owner.address)).be.revertedWith('Account is not in whitelist');
+        });
 
-    it('should forbid to claim if user is not in whitelist', async function () {
-        await initializeDefault();
-        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END]);
-        await network.provider.send('evm_mine');
-        await expect(vesting.claim(owner.address, 1)).be.revertedWith('You are not in whitelist');
-    });
+        it('should revert initialize when input params incorrect', async function () {
+            const timeInPast = (await ethers.provider.getBlock('latest')).timestamp - 10;
+            await expect(vesting.initialize(superproToken.address, [], START)).be.revertedWith('No users');
+            let beneficiaries: BeneficiaryInit[] = [{ account: user1.address, tokenAmount: BigNumber.from(1000) }];
+            await expect(vesting.initialize(superproToken.address, beneficiaries, START)).be.revertedWith('Zero token balance');
+
+            await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+            await expect(vesting.initialize(superproToken.address, beneficiaries, timeInPast)).be.revertedWith('Start timestamp is in the past');
+
+            beneficiaries = [
+                { account: user1.address, tokenAmount: parseEther(200000000) },
+                { account: user2.address, tokenAmount: parseEther(199999999) },
+            ];
+            await expect(vesting.initialize(superproToken.address, beneficiaries, START)).be.revertedWith('Not all tokens are distributed');
+            beneficiaries = [
+                { account: user1.address, tokenAmount: parseEther(200000000) },
+                { account: user2.address, tokenAmount: parseEther(200000001) },
+            ];
+            await expect(vesting.initialize(superproToken.address, beneficiaries, START)).be.revertedWith('Tokens sum is greater than balance');
+        });
 
-    it('should forbid to claim if requested more than unlocked', async function () {
-        await initializeDefault();
-        const record = await vesting.getBeneficiaryInfo(user1.address);
+        it('should initialize in stages', async function () {
+            await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+            await vesting.startInitialization(superproToken.address, START);
+            await vesting.addBeneficiaries([{ account: user1.address, tokenAmount: parseEther(100_000_000) }]);
+            await expect(vesting.finishInitialization()).be.revertedWith('Not all tokens are distributed');
+            await vesting.addBeneficiaries([
+                { account: user2.address, tokenAmount: parseEther(100_000_000) },
+                { account: user3.address, tokenAmount: parseEther(200_000_000) },
+            ]);
+            expect(await vesting.tokensDistributed()).be.equal(TOKENS_TOTAL);
+            await vesting.finishInitialization();
+
+            expect(await vesting.initialized()).be.equal(true);
+            expect(await vesting.lockupEnd()).be.equal(LOCKUP_END);
+            const user3vesting = await vesting.getBeneficiaryInfo(user3.address);
+            expect(user3vesting.tokensLocked).be.equal(parseEther(200_000_000));
+            expect(user3vesting.tokensVesting).be.equal(parseEther(200_000_000));
+            await expect(vesting.addBeneficiaries([{ account: user4.address, tokenAmount: 1 }])).be.revertedWith('Already initialized');
+        });
 
-        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 999]);
-        await network.provider.send('evm_mine');
-        await vesting.connect(user1).claim(user1.address, record.tokensPerSec.mul(1000));
+        it('should revert staged initialization when called out of order', async function () {
+            await expect(vesting.addBeneficiaries([{ account: user1.address, tokenAmount: 1 }])).be.revertedWith('Initialization is not started');
+            await expect(vesting.finishInitialization()).be.revertedWith('Initialization is not started');
+            await expect(vesting.connect(user1).startInitialization(superproToken.address, START)).be.revertedWith('Not allowed to initialize');
+
+            await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+            await vesting.startInitialization(superproToken.address, START);
+            await expect(vesting.startInitialization(superproToken.address, START)).be.revertedWith('Initialization is already started');
+            await expect(vesting.initialize(superproToken.address, [{ account: user1.address, tokenAmount: TOKENS_TOTAL }], START)).be.revertedWith(
+                'Initialization is already started'
+            );
+            await expect(vesting.connect(user1).addBeneficiaries([{ account: user1.address, tokenAmount: 1 }])).be.revertedWith(
+                'Not allowed to initialize'
+            );
+        });
 
-        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 1998]);
-        await network.provider.send('evm_mine');
+        it('should forbid duplicated beneficiaries and tokens above balance', async function () {
+            await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+            await vesting.startInitialization(superproToken.address, START);
+            await vesting.addBeneficiaries([{ account: user1.address, tokenAmount: parseEther(1000) }]);
+
+            await expect(vesting.addBeneficiaries([{ account: user1.address, tokenAmount: parseEther(1000) }])).be.revertedWith(
+                'Beneficiary is already added'
+            );
+            await expect(vesting.addBeneficiaries([{ account: user2.address, tokenAmount: TOKENS_TOTAL }])).be.revertedWith(
+                'Tokens sum is greater than balance'
+            );
+        });
 
-        await expect(vesting.connect(user1).claim(user1.address, record.tokensPerSec.mul(1000))).be.revertedWith('Requested more than unlocked');
-    });
+        it('should forbid claims and transfers before initialization is finished', async function () {
+            await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+            await vesting.startInitialization(superproToken.address, START);
+            await vesting.addBeneficiaries([{ account: user1.address, tokenAmount: parseEther(1000) }]);
+            await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 1000]);
+            await network.provider.send('evm_mine');
 
-    it('should allow beneficiary to claim for another address', async function () {
-        await initializeDefault();
-        const record = await vesting.getBeneficiaryInfo(user1.address);
+            await expect(vesting.connect(user1).claim(user1.address, 1)).be.revertedWith('Initialization is not finished');
+            await expect(vesting.connect(user1).transferAll(user2.address)).be.revertedWith('Initialization is not finished');
+        });
 
-        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 999]);
-        await network.provider.send('evm_mine');
+        it('should calculate claim 0 before lock-up end', async function () {
+            await initializeDefault();
 
-        const claimAmount = record.tokensPerSec.mul(1000);
-        await vesting.connect(user1).claim(user2.address, claimAmount);
-        const record2 = await vesting.getBeneficiaryInfo(user1.address);
+            const claim = await vesting.calculateClaim(user1.address);
+            expect(claim).be.eq(0);
+        });
 
-        expect(record2.tokensLocked).be.equal(record.tokensLocked.sub(claimAmount));
-        expect(record2.tokensClaimed).be.equal(claimAmount);
-        expect(await superproToken.balanceOf(user2.address)).be.equal(claimAmount);
-    });
+        it('should forbid to claim during lock-up period', async function () {
+            await initializeDefault();
+            await expect(vesting.connect(user1).claim(user1.address, 1)).be.revertedWith('Cannot claim during lock-up period');
+        });
 
-    it('should emit TokensClaimed event on claim', async function () {
-        await initializeDefault();
-
-        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 999]);
-        await network.provider.send('evm_mine');
-
-        const claimAmount = (await vesting.getBeneficiaryInfo(user1.address)).tokensPerSec.mul(1000);
-        const tx = await vesting.connect(user1).claim(user2.address, claimAmount);
-        const receipt: ContractReceipt = await tx.wait();
-        const event: any = receipt.events?.find(x => x.event === 'TokensClaimed');
-        /* eslint-disable no-unused-expressions */
-        expect(event, 'TokensClaimed event wasn`t emitted').be.ok;
-        expect(event.args.from).eq(user1.address);
-        expect(event.args.to).eq(user2.address);
-        expect(event.args.amount).eq(claimAmount);
-    });
+        it('should forbid to claim if user is not in whitelist', async function () {
+            await initializeDefault();
+            await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END]);
+            await network.provider.send('evm_mine');
+            await expect(vesting.claim(owner.address, 1)).be.revertedWith('You are not in whitelist');
+        });
 
-    it('should allow beneficiary to claim all after vesting finished', async function () {
-        await initializeDefault();
+        it('should forbid to claim if requested more than unlocked', async function () {
+            await initializeDefault();
+            const record = await vesting.getBeneficiaryInfo(user1.address);
 
-        await network.provider.send('evm_setNextBlockTimestamp', [FINISH]);
-        await network.provider.send('evm_mine');
+            await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 999]);
+            await network.provider.send('evm_mine');
+            const claimAmount = vested(record.tokensLocked, LOCKUP_END, LOCKUP_END + 1000);
+            await vesting.connect(user1).claim(user1.address, claimAmount);
 
-        await vesting.connect(user1).claim(user1.address, parseEther(2000));
-        const record = await vesting.getBeneficiaryInfo(user1.address);
-        expect(record.tokensLocked).be.equal(0);
-        expect(record.tokensClaimed).be.equal(parseEther(2000));
-    });
+            await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 1998]);
+            await network.provider.send('evm_mine');
 
-    it('should claim 3 times till the end', async function () {
-        await initializeDefault();
-        const oneThirdDuration = DURATION / 3;
-        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + oneThirdDuration]);
-        await network.provider.send('evm_mine');
+            await expect(vesting.connect(user1).claim(user1.address, claimAmount)).be.revertedWith('Requested more than unlocked');
+        });
 
-        await vesting.connect(user2).claim(user2.address, parseEther(1000));
+        it('should allow beneficiary to claim for another address', async function () {
+            await initializeDefault();
+            const record = await vesting.getBeneficiaryInfo(user1.address);
 
-        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + oneThirdDuration * 2]);
-        await network.provider.send('evm_mine');
+            await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 999]);
+            await network.provider.send('evm_mine');
 
-        await vesting.connect(user2).claim(user2.address, parseEther(1000));
+            const claimAmount = vested(record.tokensLocked, LOCKUP_END, LOCKUP_END + 1000);
+            await vesting.connect(user1).claim(user2.address, claimAmount);
+            const record2 = await vesting.getBeneficiaryInfo(user1.address);
 
-        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + DURATION]);
-        await network.provider.send('evm_mine');
+            expect(record2.tokensLocked).be.equal(record.tokensLocked.sub(claimAmount));
+            expect(record2.tokensClaimed).be.equal(claimAmount);
+            expect(await superproToken.balanceOf(user2.address)).be.equal(claimAmount);
+        });
 
-        await vesting.connect(user2).claim(user2.address, parseEther(1000));
-        expect(await vesting.connect(user2).calculateClaim(user2.address)).be.equal(0);
-    });
+        it('should emit TokensClaimed event on claim', async function () {
+            await initializeDefault();
+
+            await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 999]);
+            await network.provider.send('evm_mine');
+
+            const claimAmount = vested((await vesting.getBeneficiaryInfo(user1.address)).tokensLocked, LOCKUP_END, LOCKUP_END + 1000);
+            const tx = await vesting.connect(user1).claim(user2.address, claimAmount);
+            const receipt: ContractReceipt = await tx.wait();
+            const event: any = receipt.events?.find(x => x.event === 'TokensClaimed');
+            /* eslint-disable no-unused-expressions */
+            expect(event, 'TokensClaimed event wasn`t emitted').be.ok;
+            expect(event.args.from).eq(user1.address);
+            expect(event.args.to).eq(user2.address);
+            expect(event.args.amount).eq(claimAmount);
+        });
 
-    it('should emit TokensTransferred event on transfer', async function () {
-        await initializeDefault();
-        const lockedTokens = parseEther(1000);
-        const tx = await vesting.connect(user1).transfer(user4.address, lockedTokens, 0);
-        const receipt: ContractReceipt = await tx.wait();
-        const event: any = receipt.events?.find(x => x.event === 'TokensTransferred');
-        /* eslint-disable no-unused-expressions */
-        expect(event, 'TokensTransferred event wasn`t emitted').be.ok;
-        expect(event.args.from).eq(user1.address);
-        expect(event.args.to).eq(user4.address);
-        expect(event.args.amountLocked).eq(lockedTokens);
-        expect(event.args.amountUnlocked).eq(0);
-    });
+        it('should allow beneficiary to claim all after vesting finished', async function () {
+            await initializeDefault();
 
-    it('should transfer half of locked tokens to new beneficiary during lock-up', async function () {
-        await initializeDefault();
-        const lockedTokens = parseEther(1000);
-        await vesting.connect(user1).transfer(user4.address, lockedTokens, 0);
-
-        const user1Record = await vesting.getBeneficiaryInfo(user1.address);
-        const user4Record = await vesting.getBeneficiaryInfo(user4.address);
-        expect(user1Record.tokensLocked).be.equal(lockedTokens);
-        expect(user1Record.tokensPerSec).be.equal(user1Record.tokensLocked.div(DURATION));
-        expect(user4Record.tokensLocked).be.equal(lockedTokens);
-        expect(user4Record.tokensClaimed).be.equal(0);
-        expect(user4Record.lastVestingUpdate).be.equal(LOCKUP_END);
-        expect(user4Record.tokensPerSec).be.equal(lockedTokens.div(DURATION));
-    });
+            await network.provider.send('evm_setNextBlockTimestamp', [FINISH]);
+            await network.provider.send('evm_mine');
 
-    it('should transfer half of locked tokens to existing beneficiary during lock-up', async function () {
-        await initializeDefault();
-        const lockedTokens = parseEther(1000);
-        await vesting.connect(user1).transfer(user2.address, lockedTokens, 0);
-        const user1Record = await vesting.getBeneficiaryInfo(user1.address);
-        const user2Record = await vesting.getBeneficiaryInfo(user2.address);
-        expect(user1Record.tokensLocked).be.equal(lockedTokens);
-        expect(user1Record.tokensPerSec).be.equal(user1Record.tokensLocked.div(DURATION));
-        expect(user1Record.lastVestingUpdate).be.equal(LOCKUP_END);
-        expect(user2Record.tokensLocked).be.equal(parseEther(4000));
-        expect(user2Record.lastVestingUpdate).be.equal(LOCKUP_END);
-        expect(user2Record.tokensPerSec).be.equal(user2Record.tokensLocked.div(DURATION));
-    });
+            await vesting.connect(user1).claim(user1.address, parseEther(2000));
+            const record = await vesting.getBeneficiaryInfo(user1.address);
+            expect(record.tokensLocked).be.equal(0);
+            expect(record.tokensClaimed).be.equal(parseEther(2000));
+        });
 
-    it('should calculate claims correctly after transfer during lock-up', async function () {
-        await initializeDefault();
-        const lockedTokens = parseEther(1000);
-        await vesting.connect(user1).transfer(user4.address, lockedTokens, 0);
+        it('should claim 3 times till the end', async function () {
+            await initializeDefault();
+            const oneThirdDuration = DURATION / 3;
+            await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + oneThirdDuration]);
+            await network.provider.send('evm_mine');
 
-        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 10000]);
-        await network.provider.send('evm_mine');
+            await vesting.connect(user2).claim(user2.address, parseEther(1000));
 
-        const user1Claim = await vesting.calculateClaim(user1.address);
-        const user4Claim = await vesting.calculateClaim(user4.address);
-        const user1Record = await vesting.getBeneficiaryInfo(user1.address);
-        const user4Record = await vesting.getBeneficiaryInfo(user4.address);
-        expect(user1Record.tokensPerSec.mul(10000)).be.equal(user1Claim);
-        expect(user4Record.tokensPerSec.mul(10000)).be.equal(user4Claim);
-    });
+            await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + oneThirdDuration * 2]);
+            await network.provider.send('evm_mine');
 
-    it('should transfer locked and unlocked tokens to a new beneficiary after lock-up', async function () {
-        await initializeDefault();
-        const user1RecordOld = await vesting.getBeneficiaryInfo(user1.address);
-        const timeshift = LOCKUP_END + 99999;
-        await network.provider.send('evm_setNextBlockTimestamp', [timeshift]);
-        await network.provider.send('evm_mine');
-
-        const lockedTokens = parseEther(1000);
-        const unlockedTokens = parseEther(1);
-
-        await vesting.connect(user1).transfer(user4.address, lockedTokens, unlockedTokens);
-
-        const user1Record = await vesting.getBeneficiaryInfo(user1.address);
-        const user4Record = await vesting.getBeneficiaryInfo(user4.address);
-        expect(user1Record.tokensLocked).be.equal(user1RecordOld.tokensLocked.sub(lockedTokens).sub(user1Record.tokensUnlocked).sub(unlockedTokens));
-        expect(user1Record.tokensPerSec).be.equal(user1Record.tokensLocked.div(FINISH - timeshift - 1));
-        expect(user4Record.tokensLocked).be.equal(lockedTokens);
-        expect(user4Record.tokensUnlocked).be.equal(unlockedTokens);
-        expect(user4Record.tokensClaimed).be.equal(0);
-        expect(user4Record.lastVestingUpdate).be.equal(timeshift + 1);
-        expect(user4Record.tokensPerSec).be.equal(user4Record.tokensLocked.div(FINISH - timeshift - 1));
-    });
+            await vesting.connect(user2).claim(user2.address, parseEther(1000));
 
-    it('should calculate claims correctly after transfer after lock-up', async function () {
-        await initializeDefault();
-        const lockedTokens = parseEther(1000);
-        const unlockedTokens = parseEther(1);
+            await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + DURATION]);
+            await network.provider.send('evm_mine');
 
-        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 99999]);
-        await network.provider.send('evm_mine');
-        const user1Record1 = await vesting.getBeneficiaryInfo(user1.address);
-        await vesting.connect(user1).transfer(user4.address, lockedTokens, unlockedTokens);
+            await vesting.connect(user2).claim(user2.address, parseEther(1000));
+            expect(await vesting.connect(user2).calculateClaim(user2.address)).be.equal(0);
+        });
 
-        const user1Claim = await vesting.calculateClaim(user1.address);
-        const user4Claim = await vesting.calculateClaim(user4.address);
+        it('should emit TokensTransferred event on transfer', async function () {
+            await initializeDefault();
+            const lockedTokens = parseEther(1000);
+            const tx = await vesting.connect(user1).transfer(user4.address, lockedTokens, 0);
+            const receipt: ContractReceipt = await tx.wait();
+            const event: any = receipt.events?.find(x => x.event === 'TokensTransferred');
+            /* eslint-disable no-unused-expressions */
+            expect(event, 'TokensTransferred event wasn`t emitted').be.ok;
+            expect(event.args.from).eq(user1.address);
+            expect(event.args.to).eq(user4.address);
+            expect(event.args.amountLocked).eq(lockedTokens);
+            expect(event.args.amountUnlocked).eq(0);
+        });
 
-        expect(user1Claim).be.equal(user1Record1.tokensPerSec.mul(100000).sub(unlockedTokens));
-        expect(user4Claim).be.equal(unlockedTokens);
-    });
+        it('should transfer half of locked tokens to new beneficiary during lock-up', async function () {
+            await initializeDefault();
+            const lockedTokens = parseEther(1000);
+            await vesting.connect(user1).transfer(user4.address, lockedTokens, 0);
+
+            const user1Record = await vesting.getBeneficiaryInfo(user1.address);
+            const user4Record = await vesting.getBeneficiaryInfo(user4.address);
+            expect(user1Record.tokensLocked).be.equal(lockedTokens);
+            expect(user1Record.tokensVesting).be.equal(user1Record.tokensLocked);
+            expect(user4Record.tokensLocked).be.equal(lockedTokens);
+            expect(user4Record.tokensClaimed).be.equal(0);
+            expect(user4Record.lastVestingUpdate).be.equal(LOCKUP_END);
+            expect(user4Record.tokensVesting).be.equal(lockedTokens);
+        });
 
-    it('should transfer to existing beneficiary after lock-up', async function () {
-        await initializeDefault();
-        const lockedTokens = parseEther(1000);
-        const unlockedTokens = parseEther(1);
-        const timeshift = LOCKUP_END + 99999;
-
-        await network.provider.send('evm_setNextBlockTimestamp', [timeshift]);
-        await network.provider.send('evm_mine');
-        const user1Record1 = await vesting.getBeneficiaryInfo(user1.address);
-        const user2Record1 = await vesting.getBeneficiaryInfo(user2.address);
-        const user1Claim1 = (await vesting.calculateClaim(user1.address)).add(user1Record1.tokensPerSec);
-        const user2Claim1 = (await vesting.calculateClaim(user2.address)).add(user2Record1.tokensPerSec);
-
-        await vesting.connect(user1).transfer(user2.address, lockedTokens, unlockedTokens);
-
-        const user1Record2 = await vesting.getBeneficiaryInfo(user1.address);
-        const user2Record2 = await vesting.getBeneficiaryInfo(user2.address);
-        expect(user1Record2.tokensLocked).be.equal(user1Record1.tokensLocked.sub(lockedTokens).sub(unlockedTokens).sub(user1Record2.tokensUnlocked));
-        expect(user1Record2.tokensUnlocked).be.equal(user1Claim1.sub(unlockedTokens));
-        expect(user1Record2.tokensPerSec).be.equal(user1Record2.tokensLocked.div(FINISH - timeshift - 1));
-        expect(user1Record2.lastVestingUpdate).be.equal(timeshift + 1);
-        expect(user2Record2.tokensUnlocked).be.equal(user2Claim1.add(unlockedTokens));
-        expect(user2Record2.tokensLocked).be.equal(user2Record1.tokensLocked.add(lockedTokens).sub(user2Record2.tokensUnlocked.sub(unlockedTokens)));
-        expect(user2Record2.lastVestingUpdate).be.equal(timeshift + 1);
-        expect(user2Record2.tokensPerSec).be.equal(user2Record2.tokensLocked.div(FINISH - timeshift - 1));
-    });
+        it('should transfer half of locked tokens to existing beneficiary during lock-up', async function () {
+            await initializeDefault();
+            const lockedTokens = parseEther(1000);
+            await vesting.connect(user1).transfer(user2.address, lockedTokens, 0);
+            const user1Record = await vesting.getBeneficiaryInfo(user1.address);
+            const user2Record = await vesting.getBeneficiaryInfo(user2.address);
+            expect(user1Record.tokensLocked).be.equal(lockedTokens);
+            expect(user1Record.tokensVesting).be.equal(user1Record.tokensLocked);
+            expect(user1Record.lastVestingUpdate).be.equal(LOCKUP_END);
+            expect(user2Record.tokensLocked).be.equal(parseEther(4000));
+            expect(user2Record.lastVestingUpdate).be.equal(LOCKUP_END);
+            expect(user2Record.tokensVesting).be.equal(user2Record.tokensLocked);
+        });
 
-    it('should transfer unlocked to existing beneficiary after finish', async function () {
-        await initializeDefault();
-        const halfTokens = parseEther(1000);
-        const oneToken = parseEther(1);
-        const timeshift = LOCKUP_END + 99999;
-
-        await network.provider.send('evm_setNextBlockTimestamp', [timeshift]);
-        await network.provider.send('evm_mine');
-        const user1Record1 = await vesting.getBeneficiaryInfo(user1.address);
-        const user2Record1 = await vesting.getBeneficiaryInfo(user2.address);
-
-        await vesting.connect(user1).transfer(user2.address, halfTokens, oneToken);
-
-        await network.provider.send('evm_setNextBlockTimestamp', [FINISH]);
-        await network.provider.send('evm_mine');
-
-        await expect(vesting.connect(user1).transfer(user2.address, 0, halfTokens)).be.revertedWith('Requested more tokens than unlocked');
-        await vesting.connect(user1).transfer(user2.address, 0, parseEther(999));
-
-        const user1Record2 = await vesting.getBeneficiaryInfo(user1.address);
-        const user2Record2 = await vesting.getBeneficiaryInfo(user2.address);
-        expect(user1Record2.tokensLocked).be.equal(0);
-        expect(user1Record2.tokensUnlocked).be.equal(0);
-        expect(user1Record2.tokensPerSec).be.equal(0);
-        expect(user1Record2.lastVestingUpdate).be.equal(FINISH + 2);
-        expect(user2Record2.tokensLocked).be.equal(0);
-        expect(user2Record2.tokensUnlocked).be.equal(user2Record1.tokensLocked.add(user1Record1.tokensLocked));
-        expect(user2Record2.lastVestingUpdate).be.equal(FINISH + 2);
-        expect(user2Record2.tokensPerSec).be.equal(0);
-        await vesting.connect(user2).claim(user2.address, parseEther(5000));
-    });
+        it('should calculate claims correctly after transfer during lock-up', async function () {
+            await initializeDefault();
+            const lockedTokens = parseEther(1000);
+            await vesting.connect(user1).transfer(user4.address, lockedTokens, 0);
 
-    it('should transfer unlocked to a new beneficiary after finish', async function () {
-        await initializeDefault();
-        const halfTokens = parseEther(1000);
-
-        await network.provider.send('evm_setNextBlockTimestamp', [FINISH]);
-        await network.provider.send('evm_mine');
-
-        await expect(vesting.connect(user1).transfer(user4.address, 0, parseEther(2000).add(1))).be.revertedWith(
-            'Requested more tokens than unlocked'
-        );
-        await vesting.connect(user1).transfer(user4.address, 0, halfTokens);
-
-        const user1Record2 = await vesting.getBeneficiaryInfo(user1.address);
-        const user4Record2 = await vesting.getBeneficiaryInfo(user4.address);
-        expect(user1Record2.tokensUnlocked).be.equal(halfTokens);
-        expect(user4Record2.tokensLocked).be.equal(0);
-        expect(user4Record2.tokensUnlocked).be.equal(halfTokens);
-        expect(user4Record2.startTime).be.equal(FINISH + 2);
-        expect(user4Record2.lastVestingUpdate).be.equal(FINISH + 2);
-        expect(user4Record2.tokensPerSec).be.equal(0);
-        await vesting.connect(user4).claim(user4.address, parseEther(1000));
-    });
+            await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 10000]);
+            await network.provider.send('evm_mine');
 
-    it('should forbid transfer when seller and buyer addresses are the same', async function () {
-        await initializeDefault();
-        const share = parseEther(10);
-        await expect(vesting.connect(user1).transfer(user1.address, share, 0)).be.revertedWith('Cannot transfer to the same address');
-    });
+            const user1Claim = await vesting.calculateClaim(user1.address);
+            const user4Claim = await vesting.calculateClaim(user4.address);
+            const user1Record = await vesting.getBeneficiaryInfo(user1.address);
+            const user4Record = await vesting.getBeneficiaryInfo(user4.address);
+            expect(vested(user1Record.tokensLocked, LOCKUP_END, LOCKUP_END + 10000)).be.equal(user1Claim);
+            expect(vested(user4Record.tokensLocked, LOCKUP_END, LOCKUP_END + 10000)).be.equal(user4Claim);
+        });
 
-    it('should forbid transfer if requested more tokens than available', async function () {
-        await initializeDefault();
-        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END]);
-        await network.provider.send('evm_mine');
-        const share = parseEther(2001);
-        await expect(vesting.connect(user1).transfer(user4.address, share, 0)).be.revertedWith('Requested more tokens than locked');
-    });
+        it('should transfer locked and unlocked tokens to a new beneficiary after lock-up', async function () {
+            await initializeDefault();
+            const user1RecordOld = await vesting.getBeneficiaryInfo(user1.address);
+            const timeshift = LOCKUP_END + 99999;
+            await network.provider.send('evm_setNextBlockTimestamp', [timeshift]);
+            await network.provider.send('evm_mine');
+
+            const lockedTokens = parseEther(1000);
+            const unlockedTokens = parseEther(1);
+
+            await vesting.connect(user1).transfer(user4.address, lockedTokens, unlockedTokens);
+
+            const user1Record = await vesting.getBeneficiaryInfo(user1.address);
+            const user4Record = await vesting.getBeneficiaryInfo(user4.address);
+            expect(user1Record.tokensLocked).be.equal(
+                user1RecordOld.tokensLocked.sub(lockedTokens).sub(user1Record.tokensUnlocked).sub(unlockedTokens)
+            );
+            expect(user1Record.tokensVesting).be.equal(user1Record.tokensLocked);
+            expect(user4Record.tokensLocked).be.equal(lockedTokens);
+            expect(user4Record.tokensUnlocked).be.equal(unlockedTokens);
+            expect(user4Record.tokensClaimed).be.equal(0);
+            expect(user4Record.lastVestingUpdate).be.equal(timeshift + 1);
+            expect(user4Record.tokensVesting).be.equal(user4Record.tokensLocked);
+        });
 
-    it('should forbid transfer if requested more tokens than available', async function () {
-        await initializeDefault();
-        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 1000]);
-        await network.provider.send('evm_mine');
-        const lockedTokens = parseEther(200);
-        const unlockedTokens = parseEther(1);
-        await expect(vesting.connect(user1).transfer(user4.address, lockedTokens, unlockedTokens)).be.revertedWith(
-            'Requested more tokens than unlocked'
-        );
-    });
+        it('should calculate claims correctly after transfer after lock-up', async function () {
+            await initializeDefault();
+            const lockedTokens = parseEther(1000);
+            const unlockedTokens = parseEther(1);
 
-    it('should transferAll to a new beneficiary during lock-up', async function () {
-        await initializeDefault();
-        const timeshift = START + 1000;
-        await network.provider.send('evm_setNextBlockTimestamp', [timeshift]);
-        await network.provider.send('evm_mine');
-
-        await vesting.connect(user1).transferAll(user4.address);
-        const user1Info = await vesting.getBeneficiaryInfo(user1.address);
-        const user4Info = await vesting.getBeneficiaryInfo(user4.address);
-        expect(user1Info.tokensLocked).be.equal(0);
-        expect(user1Info.tokensUnlocked).be.equal(0);
-        expect(user1Info.tokensPerSec).be.equal(0);
-        expect(user1Info.lastVestingUpdate).be.equal(LOCKUP_END);
-
-        expect(user4Info.startTime).be.equal(timeshift + 1);
-        expect(user4Info.tokensLocked).be.equal(parseEther(2000));
-        expect(user4Info.tokensUnlocked).be.equal(0);
-        expect(user4Info.tokensPerSec).be.equal(user4Info.tokensLocked.div(DURATION));
-        expect(user4Info.lastVestingUpdate).be.equal(LOCKUP_END);
-    });
+            await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 99999]);
+            await network.provider.send('evm_mine');
+            const user1Record1 = await vesting.getBeneficiaryInfo(user1.address);
+            await vesting.connect(user1).transfer(user4.address, lockedTokens, unlockedTokens);
 
-    it('should transferAll to an existing beneficiary during lock-up', async function () {
-        await initializeDefault();
-
-        const user1InfoOld = await vesting.getBeneficiaryInfo(user1.address);
-        const user2InfoOld = await vesting.getBeneficiaryInfo(user2.address);
-        await vesting.connect(user1).transferAll(user2.address);
-        const user2Info = await vesting.getBeneficiaryInfo(user2.address);
-        expect(user2Info.startTime).be.equal(START);
-        expect(user2Info.tokensLocked).be.equal(user2InfoOld.tokensLocked.add(user1InfoOld.tokensLocked));
-        expect(user2Info.tokensUnlocked).be.equal(0);
-        expect(user2Info.tokensPerSec).be.equal(user2Info.tokensLocked.div(DURATION));
-        expect(user2Info.lastVestingUpdate).be.equal(LOCKUP_END);
-    });
+            const user1Claim = await vesting.calculateClaim(user1.address);
+            const user4Claim = await vesting.calculateClaim(user4.address);
 
-    it('should transferAll to a new beneficiary after lock-up', async function () {
-        await initializeDefault();
-        const timeshift = LOCKUP_END + 99999;
-        await network.provider.send('evm_setNextBlockTimestamp', [timeshift]);
-        await network.provider.send('evm_mine');
-
-        const user1Info = await vesting.getBeneficiaryInfo(user1.address);
-        await vesting.connect(user1).transferAll(user4.address);
-        const user4Info = await vesting.getBeneficiaryInfo(user4.address);
-        const unlockedTokens = user1Info.tokensPerSec.mul(100000);
-        expect(user4Info.startTime).be.equal(timeshift + 1);
-        expect(user4Info.tokensLocked).be.equal(user1Info.tokensLocked.sub(unlockedTokens));
-        expect(user4Info.tokensUnlocked).be.equal(unlockedTokens);
-        expect(user4Info.tokensPerSec).be.equal(user4Info.tokensLocked.div(FINISH - timeshift - 1));
-        expect(user4Info.lastVestingUpdate).be.equal(timeshift + 1);
-    });
+            expect(user1Claim).be.equal(vested(user1Record1.tokensLocked, LOCKUP_END, LOCKUP_END + 100000).sub(unlockedTokens));
+            expect(user4Claim).be.equal(unlockedTokens);
+        });
+
+        it('should transfer to existing beneficiary after lock-up', async function () {
+            await initializeDefault();
+            const lockedTokens = parseEther(1000);
+            const unlockedTokens = parseEther(1);
+            const timeshift = LOCKUP_END + 99999;
+
+            await network.provider.send('evm_setNextBlockTimestamp', [timeshift]);
+            await network.provider.send('evm_mine');
+            const user1Record1 = await vesting.getBeneficiaryInfo(user1.address);
+            const user2Record1 = await vesting.getBeneficiaryInfo(user2.address);
+            const user1Claim1 = vested(user1Record1.tokensLocked, LOCKUP_END, timeshift + 1);
+            const user2Claim1 = vested(user2Record1.tokensLocked, LOCKUP_END, timeshift + 1);
+
+            await vesting.connect(user1).transfer(user2.address, lockedTokens, unlockedTokens);
+
+            const user1Record2 = await vesting.getBeneficiaryInfo(user1.address);
+            const user2Record2 = await vesting.getBeneficiaryInfo(user2.address);
+            expect(user1Record2.tokensLocked).be.equal(
+                user1Record1.tokensLocked.sub(lockedTokens).sub(unlockedTokens).sub(user1Record2.tokensUnlocked)
+            );
+            expect(user1Record2.tokensUnlocked).be.equal(user1Claim1.sub(unlockedTokens));
+            expect(user1Record2.tokensVesting).be.equal(user1Record2.tokensLocked);
+            expect(user1Record2.lastVestingUpdate).be.equal(timeshift + 1);
+            expect(user2Record2.tokensUnlocked).be.equal(user2Claim1.add(unlockedTokens));
+            expect(user2Record2.tokensLocked).be.equal(
+                user2Record1.tokensLocked.add(lockedTokens).sub(user2Record2.tokensUnlocked.sub(unlockedTokens))
+            );
+            expect(user2Record2.lastVestingUpdate).be.equal(timeshift + 1);
+            expect(user2Record2.tokensVesting).be.equal(user2Record2.tokensLocked);
+        });
+
+        it('should transfer unlocked to existing beneficiary after finish', async function () {
+            await initializeDefault();
+            const halfTokens = parseEther(1000);
+            const oneToken = parseEther(1);
+            const timeshift = LOCKUP_END + 99999;
+
+            await network.provider.send('evm_setNextBlockTimestamp', [timeshift]);
+            await network.provider.send('evm_mine');
+            const user1Record1 = await vesting.getBeneficiaryInfo(user1.address);
+            const user2Record1 = await vesting.getBeneficiaryInfo(user2.address);
+
+            await vesting.connect(user1).transfer(user2.address, halfTokens, oneToken);
+
+            await network.provider.send('evm_setNextBlockTimestamp', [FINISH]);
+            await network.provider.send('evm_mine');
+
+            await expect(vesting.connect(user1).transfer(user2.address, 0, halfTokens)).be.revertedWith('Requested more tokens than unlocked');
+            await vesting.connect(user1).transfer(user2.address, 0, parseEther(999));
+
+            const user1Record2 = await vesting.getBeneficiaryInfo(user1.address);
+            const user2Record2 = await vesting.getBeneficiaryInfo(user2.address);
+            expect(user1Record2.tokensLocked).be.equal(0);
+            expect(user1Record2.tokensUnlocked).be.equal(0);
+            expect(user1Record2.tokensVesting).be.equal(0);
+            expect(user1Record2.lastVestingUpdate).be.equal(FINISH + 2);
+            expect(user2Record2.tokensLocked).be.equal(0);
+            expect(user2Record2.tokensUnlocked).be.equal(user2Record1.tokensLocked.add(user1Record1.tokensLocked));
+            expect(user2Record2.lastVestingUpdate).be.equal(FINISH + 2);
+            expect(user2Record2.tokensVesting).be.equal(0);
+            await vesting.connect(user2).claim(user2.address, parseEther(5000));
+        });
+
+        it('should transfer unlocked to a new beneficiary after finish', async function () {
+            await initializeDefault();
+            const halfTokens = parseEther(1000);
+
+            await network.provider.send('evm_setNextBlockTimestamp', [FINISH]);
+            await network.provider.send('evm_mine');
+
+            await expect(vesting.connect(user1).transfer(user4.address, 0, parseEther(2000).add(1))).be.revertedWith(
+                'Requested more tokens than unlocked'
+            );
+            await vesting.connect(user1).transfer(user4.address, 0, halfTokens);
+
+            const user1Record2 = await vesting.getBeneficiaryInfo(user1.address);
+            const user4Record2 = await vesting.getBeneficiaryInfo(user4.address);
+            expect(user1Record2.tokensUnlocked).be.equal(halfTokens);
+            expect(user4Record2.tokensLocked).be.equal(0);
+            expect(user4Record2.tokensUnlocked).be.equal(halfTokens);
+            expect(user4Record2.startTime).be.equal(FINISH + 2);
+            expect(user4Record2.lastVestingUpdate).be.equal(FINISH + 2);
+            expect(user4Record2.tokensVesting).be.equal(0);
+            await vesting.connect(user4).claim(user4.address, parseEther(1000));
+        });
+
+        it('should forbid transfer when seller and buyer addresses are the same', async function () {
+            await initializeDefault();
+            const share = parseEther(10);
+            await expect(vesting.connect(user1).transfer(user1.address, share, 0)).be.revertedWith('Cannot transfer to the same address');
+        });
+
+        it('should forbid transfer if requested more tokens than available', async function () {
+            await initializeDefault();
+            await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END]);
+            await network.provider.send('evm_mine');
+            const share = parseEther(2001);
+            await expect(vesting.connect(user1).transfer(user4.address, share, 0)).be.revertedWith('Requested more tokens than locked');
+        });
+
+        it('should forbid transfer if requested more tokens than available', async function () {
+            await initializeDefault();
+            await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 1000]);
+            await network.provider.send('evm_mine');
+            const lockedTokens = parseEther(200);
+            const unlockedTokens = parseEther(1);
+            await expect(vesting.connect(user1).transfer(user4.address, lockedTokens, unlockedTokens)).be.revertedWith(
+                'Requested more tokens than unlocked'
+            );
+        });
+
+        it('should transferAll to a new beneficiary during lock-up', async function () {
+            await initializeDefault();
+            const timeshift = START + 1000;
+            await network.provider.send('evm_setNextBlockTimestamp', [timeshift]);
+            await network.provider.send('evm_mine');
+
+            await vesting.connect(user1).transferAll(user4.address);
+            const user1Info = await vesting.getBeneficiaryInfo(user1.address);
+            const user4Info = await vesting.getBeneficiaryInfo(user4.address);
+            expect(user1Info.tokensLocked).be.equal(0);
+            expect(user1Info.tokensUnlocked).be.equal(0);
+            expect(user1Info.tokensVesting).be.equal(0);
+            expect(user1Info.lastVestingUpdate).be.equal(LOCKUP_END);
+
+            expect(user4Info.startTime).be.equal(timeshift + 1);
+            expect(user4Info.tokensLocked).be.equal(parseEther(2000));
+            expect(user4Info.tokensUnlocked).be.equal(0);
+            expect(user4Info.tokensVesting).be.equal(user4Info.tokensLocked);
+            expect(user4Info.lastVestingUpdate).be.equal(LOCKUP_END);
+        });
+
+        it('should transferAll to an existing beneficiary during lock-up', async function () {
+            await initializeDefault();
+
+            const user1InfoOld = await vesting.getBeneficiaryInfo(user1.address);
+            const user2InfoOld = await vesting.getBeneficiaryInfo(user2.address);
+            await vesting.connect(user1).transferAll(user2.address);
+            const user2Info = await vesting.getBeneficiaryInfo(user2.address);
+            expect(user2Info.startTime).be.equal(START);
+            expect(user2Info.tokensLocked).be.equal(user2InfoOld.tokensLocked.add(user1InfoOld.tokensLocked));
+            expect(user2Info.tokensUnlocked).be.equal(0);
+            expect(user2Info.tokensVesting).be.equal(user2Info.tokensLocked);
+            expect(user2Info.lastVestingUpdate).be.equal(LOCKUP_END);
+        });
+
+        it('should transferAll to a new beneficiary after lock-up', async function () {
+            await initializeDefault();
+            const timeshift = LOCKUP_END + 99999;
+            await network.provider.send('evm_setNextBlockTimestamp', [timeshift]);
+            await network.provider.send('evm_mine');
+
+            const user1Info = await vesting.getBeneficiaryInfo(user1.address);
+            await vesting.connect(user1).transferAll(user4.address);
+            const user4Info = await vesting.getBeneficiaryInfo(user4.address);
+            const unlockedTokens = vested(user1Info.tokensLocked, LOCKUP_END, timeshift + 1);
+            expect(user4Info.startTime).be.equal(timeshift + 1);
+            expect(user4Info.tokensLocked).be.equal(user1Info.tokensLocked.sub(unlockedTokens));
+            expect(user4Info.tokensUnlocked).be.equal(unlockedTokens);
+            expect(user4Info.tokensVesting).be.equal(user4Info.tokensLocked);
+            expect(user4Info.lastVestingUpdate).be.equal(timeshift + 1);
+        });
+
+        it('should transferAll to an existing beneficiary after lock-up', async function () {
+            await initializeDefault();
+            const timeshift = LOCKUP_END + 99999;
+            await network.provider.send('evm_setNextBlockTimestamp', [timeshift]);
+            await network.provider.send('evm_mine');
+
+            const user1InfoOld = await vesting.getBeneficiaryInfo(user1.address);
+            const user2InfoOld = await vesting.getBeneficiaryInfo(user2.address);
+            await vesting.connect(user1).transferAll(user2.address);
+            const user2Info = await vesting.getBeneficiaryInfo(user2.address);
+            const user1Unlocked = vested(user1InfoOld.tokensLocked, LOCKUP_END, timeshift + 1);
+            const user1Locked = user1InfoOld.tokensLocked.sub(user1Unlocked);
+            const user2Unlocked = vested(user2InfoOld.tokensLocked, LOCKUP_END, timeshift + 1);
+            const user2Locked = user2InfoOld.tokensLocked.sub(user2Unlocked);
+            expect(user2Info.startTime).be.equal(START);
+            expect(user2Info.tokensLocked).be.equal(user2Locked.add(user1Locked));
+            expect(user2Info.tokensUnlocked).be.equal(user2Unlocked.add(user1Unlocked));
+            expect(user2Info.tokensVesting).be.equal(user2Info.tokensLocked);
+            expect(user2Info.lastVestingUpdate).be.equal(timeshift + 1);
+        });
+
+        it('should keep unlocked amounts on the straight line across many transfers', async function () {
+            await initializeDefault();
+            const TRANSFERS = 40;
+            const step = Math.floor(DURATION / (TRANSFERS + 1));
+            const allocated = parseEther(5000);
+            // the same transfers with tokensPerSec = locked / duration left, rounded down, of the previous version of the contract
+            const legacy = [user1, user2].map(user => ({ user, locked: parseEther(user === user1 ? 2000 : 3000), unlocked: constants.Zero }));
+            const legacyRates = legacy.map(account => account.locked.div(DURATION));
+            let legacyUpdate = LOCKUP_END;
+            const legacyUnlockedAt = (timestamp: number) =>
+                legacy.reduce(
+                    (sum, account, index) => sum.add(account.unlocked).add(legacyRates[index].mul(timestamp - legacyUpdate)),
+                    constants.Zero
+                );
+
+            let drift = constants.Zero;
+            let legacyDrift = constants.Zero;
+            for (let index = 1; index <= TRANSFERS; index++) {
+                const timestamp = LOCKUP_END + index * step;
+                await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+                await network.provider.send('evm_mine');
+
+                // untouched beneficiary is exactly on its line, the transferring ones carry their fractions of a token,
+                // so together they are behind it by rounding of the last unlock only
+                const ideal = vested(allocated, LOCKUP_END, timestamp);
+                expect(await vesting.calculateClaim(user3.address)).be.equal(vested(TOKENS_TOTAL.sub(allocated), LOCKUP_END, timestamp));
+                drift = ideal.sub((await vesting.calculateClaim(user1.address)).add(await vesting.calculateClaim(user2.address)));
+                legacyDrift = ideal.sub(legacyUnlockedAt(timestamp));
+                expect(drift).be.gte(0);
+                expect(drift).be.lte(1);
+
+                const [from, to] = index % 2 ? legacy : [...legacy].reverse();
+                const amount = (await vesting.getBeneficiaryInfo(from.user.address)).tokensLocked.div(10);
+                await network.provider.send('evm_setNextBlockTimestamp', [timestamp + 1]);
+                await vesting.connect(from.user).transfer(to.user.address, amount, 0);
+
+                legacy.forEach((account, accountIndex) => {
+                    const unlocked = legacyRates[accountIndex].mul(timestamp + 1 - legacyUpdate);
+                    account.unlocked = account.unlocked.add(unlocked);
+                    account.locked = account.locked.sub(unlocked);
+                });
+                from.locked = from.locked.sub(amount);
+                to.locked = to.locked.add(amount);
+                legacy.forEach((account, accountIndex) => (legacyRates[accountIndex] = account.locked.div(FINISH - timestamp - 1)));
+                legacyUpdate = timestamp + 1;
+            }
+            // at most 1 wei against hundreds of thousands and millions of wei with tokensPerSec
+            expect(legacyDrift, `drift after ${TRANSFERS} transfers is ${drift} wei, ${legacyDrift} wei with tokensPerSec`).be.gt(drift.mul(1000));
+        });
+
+        it('should revoke all tokens during lock-up', async function () {
+            await initializeDefault();
+            await vesting.revoke(user1.address, owner.address);
+
+            const user1Info = await vesting.getBeneficiaryInfo(user1.address);
+            expect(await superproToken.balanceOf(owner.address)).be.equal(parseEther(2000));
+            expect(user1Info.tokensLocked).be.equal(0);
+            expect(user1Info.tokensUnlocked).be.equal(0);
+            expect(user1Info.tokensVesting).be.equal(0);
+
+            await network.provider.send('evm_setNextBlockTimestamp', [FINISH + 1]);
+            await network.provider.send('evm_mine');
+            expect(await vesting.calculateClaim(user1.address)).be.equal(0);
+        });
 
-    it('should transferAll to an existing beneficiary after lock-up', async function () {
-        await initializeDefault();
-        const timeshift = LOCKUP_END + 99999;
-        await network.provider.send('evm_setNextBlockTimestamp', [timeshift]);
-        await network.provider.send('evm_mine');
-
-        const user1InfoOld = await vesting.getBeneficiaryInfo(user1.address);
-        const user2InfoOld = await vesting.getBeneficiaryInfo(user2.address);
-        await vesting.connect(user1).transferAll(user2.address);
-        const user2Info = await vesting.getBeneficiaryInfo(user2.address);
-        const user1Unlocked = user1InfoOld.tokensPerSec.mul(100000);
-        const user1Locked = user1InfoOld.tokensLocked.sub(user1Unlocked);
-        const user2Unlocked = user2InfoOld.tokensPerSec.mul(100000);
-        const user2Locked = user2InfoOld.tokensLocked.sub(user2Unlocked);
-        expect(user2Info.startTime).be.equal(START);
-        expect(user2Info.tokensLocked).be.equal(user2Locked.add(user1Locked));
-        expect(user2Info.tokensUnlocked).be.equal(user2Unlocked.add(user1Unlocked));
-        expect(user2Info.tokensPerSec).be.equal(user2Info.tokensLocked.div(FINISH - timeshift - 1));
-        expect(user2Info.lastVestingUpdate).be.equal(timeshift + 1);
+        it('should keep unlocked tokens claimable after revoke during vesting', async function () {
+            await initializeDefault();
+            const timeshift = LOCKUP_END + 99999;
+            await network.provider.send('evm_setNextBlockTimestamp', [timeshift]);
+            await network.provider.send('evm_mine');
+            const user1InfoOld = await vesting.getBeneficiaryInfo(user1.address);
+            const unlocked = vested(user1InfoOld.tokensLocked, LOCKUP_END, timeshift + 1);
+            const revoked = user1InfoOld.tokensLocked.sub(unlocked);
+
+            const receipt: ContractReceipt = await (await vesting.revoke(user1.address, user4.address)).wait();
+            const event = receipt.events?.find(event => event.event === 'BeneficiaryRevoked');
+            expect(event?.args?.beneficiary).be.equal(user1.address);
+            expect(event?.args?.treasury).be.equal(user4.address);
+            expect(event?.args?.amountUnlocked).be.equal(unlocked);
+            expect(event?.args?.amountRevoked).be.equal(revoked);
+            expect(await superproToken.balanceOf(user4.address)).be.equal(revoked);
+
+            await network.provider.send('evm_setNextBlockTimestamp', [FINISH + 1]);
+            await network.provider.send('evm_mine');
+            expect(await vesting.calculateClaim(user1.address)).be.equal(unlocked);
+            await vesting.connect(user1).claim(user1.address, unlocked);
+            expect(await superproToken.balanceOf(user1.address)).be.equal(unlocked);
+            await expect(vesting.connect(user1).claim(user1.address, 1)).be.revertedWith('Requested more than unlocked');
+        });
+
+        it('should revoke nothing after vesting finish', async function () {
+            await initializeDefault();
+            await network.provider.send('evm_setNextBlockTimestamp', [FINISH + 1]);
+            await network.provider.send('evm_mine');
+
+            await vesting.revoke(user1.address, user4.address);
+
+            expect(await superproToken.balanceOf(user4.address)).be.equal(0);
+            expect(await vesting.calculateClaim(user1.address)).be.equal(parseEther(2000));
+            await vesting.connect(user1).claim(user1.address, parseEther(2000));
+            expect(await superproToken.balanceOf(user1.address)).be.equal(parseEther(2000));
+        });
+
+        it('should revoke only tokens left after transfer', async function () {
+            await initializeDefault();
+            await vesting.connect(user1).transfer(user4.address, parseEther(500), 0);
+            await vesting.revoke(user1.address, owner.address);
+            expect(await superproToken.balanceOf(owner.address)).be.equal(parseEther(1500));
+
+            // the recipient of the transfer keeps vesting, the revoked beneficiary can not transfer anything
+            await expect(vesting.connect(user1).transfer(user2.address, 1, 0)).be.revertedWith('Requested more tokens than locked');
+            await network.provider.send('evm_setNextBlockTimestamp', [FINISH + 1]);
+            await network.provider.send('evm_mine');
+            expect(await vesting.calculateClaim(user4.address)).be.equal(parseEther(500));
+            expect(await vesting.calculateClaim(user1.address)).be.equal(0);
+        });
+
+        it('should forbid revoke by not the owner and with wrong params', async function () {
+            await expect(vesting.revoke(user1.address, owner.address)).be.revertedWith('Initialization is not finished');
+            await initializeDefault();
+            await expect(vesting.connect(user1).revoke(user2.address, user1.address)).be.revertedWith('Not allowed to revoke');
+            await expect(vesting.revoke(user4.address, owner.address)).be.revertedWith('Account is not in whitelist');
+            await expect(vesting.revoke(user1.address, ethers.constants.AddressZero)).be.revertedWith('Treasury is zero address');
+        });
+
+        async function proposeRecovery(beneficiary: string, account: string): Promise<number> {
+            const receipt: ContractReceipt = await (await vesting.proposeRecovery(beneficiary, account)).wait();
+            const event = receipt.events?.find(event => event.event === 'RecoveryProposed');
+            expect(event?.args?.beneficiary).be.equal(beneficiary);
+            expect(event?.args?.account).be.equal(account);
+            return event?.args?.validAfter.toNumber();
+        }
+
+        it('should move the whole allocation with recovery proposed during lock-up', async function () {
+            await initializeDefault();
+            await vesting.connect(user1).transfer(user2.address, parseEther(500), 0);
+            const validAfter = await proposeRecovery(user1.address, user4.address);
+            expect((await vesting.recoveries(user1.address)).account).be.equal(user4.address);
+
+            await network.provider.send('evm_setNextBlockTimestamp', [validAfter - 1]);
+            await expect(vesting.connect(user4).executeRecovery(user1.address)).be.revertedWith('Recovery is not valid yet');
+            const info = await vesting.getBeneficiaryInfo(user1.address);
+            await network.provider.send('evm_setNextBlockTimestamp', [validAfter]);
+            const receipt: ContractReceipt = await (await vesting.connect(user4).executeRecovery(user1.address)).wait();
+
+            const event = receipt.events?.find(event => event.event === 'BeneficiaryRecovered');
+            expect(event?.args?.beneficiary).be.equal(user1.address);
+            expect(event?.args?.account).be.equal(user4.address);
+            expect(await vesting.getBeneficiaryInfo(user4.address)).be.deep.equal(info);
+            expect((await vesting.recoveries(user1.address)).account).be.equal(constants.AddressZero);
+            await expect(vesting.getBeneficiaryInfo(user1.address)).be.revertedWith('Account is not in whitelist');
+
+            await network.provider.send('evm_setNextBlockTimestamp', [FINISH + 1]);
+            await expect(vesting.connect(user1).claim(user1.address, 1)).be.revertedWith('You are not in whitelist');
+            await vesting.connect(user4).claim(user4.address, parseEther(1500));
+            expect(await superproToken.balanceOf(user4.address)).be.equal(parseEther(1500));
+        });
+
+        it('should move claimed and unlocked tokens with recovery after vesting finish', async function () {
+            await initializeDefault();
+            await network.provider.send('evm_setNextBlockTimestamp', [FINISH + 1]);
+            await vesting.connect(user1).claim(user1.address, parseEther(500));
+            const validAfter = await proposeRecovery(user1.address, user4.address);
+
+            await network.provider.send('evm_setNextBlockTimestamp', [validAfter]);
+            await vesting.executeRecovery(user1.address);
+
+            const info = await vesting.getBeneficiaryInfo(user4.address);
+            expect(info.tokensClaimed).be.equal(parseEther(500));
+            expect(info.tokensLocked.add(info.tokensUnlocked)).be.equal(parseEther(1500));
+            expect(await vesting.calculateClaim(user4.address)).be.equal(parseEther(1500));
+            await vesting.connect(user4).claim(user4.address, parseEther(1500));
+            expect(await superproToken.balanceOf(vesting.address)).be.equal(TOKENS_TOTAL.sub(parseEther(2000)));
+        });
+
+        it('should let the beneficiary and the owner cancel recovery', async function () {
+            await initializeDefault();
+            const validAfter = await proposeRecovery(user1.address, user4.address);
+            await expect(vesting.connect(user2).cancelRecovery(user1.address)).be.revertedWith('Not allowed to cancel');
+
+            const receipt: ContractReceipt = await (await vesting.connect(user1).cancelRecovery(user1.address)).wait();
+            const event = receipt.events?.find(event => event.event === 'RecoveryCancelled');
+            expect(event?.args?.beneficiary).be.equal(user1.address);
+            expect(event?.args?.account).be.equal(user4.address);
+            expect(event?.args?.canceller).be.equal(user1.address);
+
+            await network.provider.send('evm_setNextBlockTimestamp', [validAfter]);
+            await expect(vesting.executeRecovery(user1.address)).be.revertedWith('Recovery is not proposed');
+            await expect(vesting.cancelRecovery(user1.address)).be.revertedWith('Recovery is not proposed');
+            expect((await vesting.getBeneficiaryInfo(user1.address)).tokensVesting).be.equal(parseEther(2000));
+
+            await proposeRecovery(user1.address, user4.address);
+            await vesting.cancelRecovery(user1.address);
+            expect((await vesting.recoveries(user1.address)).account).be.equal(constants.AddressZero);
+        });
+
+        it('should forbid recovery by not the owner and with wrong params', async function () {
+            await expect(vesting.proposeRecovery(user1.address, user4.address)).be.revertedWith('Initialization is not finished');
+            await initializeDefault();
+            await expect(vesting.connect(user1).proposeRecovery(user1.address, user4.address)).be.revertedWith('Not allowed to recover');
+            await expect(vesting.proposeRecovery(user4.address, user1.address)).be.revertedWith('Account is not in whitelist');
+            await expect(vesting.proposeRecovery(user1.address, constants.AddressZero)).be.revertedWith('Zero address');
+            await expect(vesting.proposeRecovery(user1.address, user2.address)).be.revertedWith('Replacement is already in whitelist');
+
+            const validAfter = await proposeRecovery(user1.address, user4.address);
+            await expect(vesting.proposeRecovery(user1.address, user4.address)).be.revertedWith('Recovery is already proposed');
+            await network.provider.send('evm_setNextBlockTimestamp', [validAfter]);
+            await expect(vesting.connect(user2).executeRecovery(user1.address)).be.revertedWith('Not allowed to recover');
+
+            // the replacement got tokens while the recovery was waiting, the allocations can not be merged
+            await vesting.connect(user2).transfer(user4.address, 1, 0);
+            await expect(vesting.executeRecovery(user1.address)).be.revertedWith('Replacement is already in whitelist');
+        });
+
+        it('should forbid claims and transfers while paused by the guardian', async function () {
+            await initializeDefault();
+            await expect(vesting.connect(user1).proposeGuardian(user4.address)).be.revertedWith('Not allowed to set guardian');
+            await vesting.proposeGuardian(user4.address);
+            const { validAfter } = await vesting.guardianChange();
+            expect(validAfter.toNumber()).be.equal((await ethers.provider.getBlock('latest')).timestamp + 2 * oneDay);
+            await network.provider.send('evm_setNextBlockTimestamp', [validAfter.toNumber() - 2]);
+            await network.provider.send('evm_mine');
+            await expect(vesting.connect(user4).acceptGuardian()).be.revertedWith('Guardian change is not valid yet');
+            const receipt: ContractReceipt = await (await vesting.connect(user4).acceptGuardian()).wait();
+            const event = receipt.events?.find(event => event.event === 'GuardianChanged');
+            expect(event?.args?.previousGuardian).be.equal(constants.AddressZero);
+            expect(event?.args?.guardian).be.equal(user4.address);
+
+            await vesting.connect(user4).pause(oneDay);
+            await expect(vesting.connect(user1).claim(user1.address, 1)).be.revertedWith('Paused');
+            await expect(vesting.connect(user1).transfer(user4.address, 1, 0)).be.revertedWith('Paused');
+            await expect(vesting.connect(user1).transferAll(user4.address)).be.revertedWith('Paused');
+            // the owner keeps control over allocations while the beneficiaries are stopped
+            await vesting.revoke(user2.address, owner.address);
+
+            await vesting.connect(user4).unpause();
+            await vesting.connect(user1).transfer(user4.address, 1, 0);
+        });
+
+        it('should keep unlocking tokens during the pause', async function () {
+            await initializeDefault();
+            await setGuardian(user4);
+            const { timestamp } = await ethers.provider.getBlock('latest');
+            await network.provider.send('evm_setNextBlockTimestamp', [Math.max(LOCKUP_END, timestamp + 1)]);
+            await vesting.connect(user4).pause(await vesting.MAX_PAUSE_DURATION());
+            const pausedUntil = (await vesting.pausedUntil()).toNumber();
+
+            await network.provider.send('evm_setNextBlockTimestamp', [pausedUntil]);
+            const unlocked = vested(parseEther(2000), LOCKUP_END, Math.min(pausedUntil, FINISH));
+            await vesting.connect(user1).claim(user1.address, unlocked);
+            expect(await superproToken.balanceOf(user1.address)).be.equal(unlocked);
+
+            // the new guardian replaces the old one, which can not pause anymore
+            await setGuardian(user3);
+            await expect(vesting.connect(user4).pause(oneDay)).be.revertedWith('Not guardian');
+        });
+
+        it('should rescue only tokens above the ones owed to beneficiaries', async function () {
+            await initializeDefault();
+            await network.provider.send('evm_setNextBlockTimestamp', [FINISH + 1]);
+            await vesting.connect(user1).claim(user1.address, parseEther(2000));
+            await vesting.revoke(user2.address, owner.address);
+            expect(await vesting.tokensReleased()).be.equal(parseEther(2000));
+            expect(await vesting.surplus()).be.equal(0);
+
+            // tokens sent back to the contract by mistake
+            await superproToken.connect(user1).transfer(vesting.address, parseEther(500));
+            expect(await vesting.surplus()).be.equal(parseEther(500));
+            await expect(vesting.connect(user1).rescueTokens(superproToken.address, user1.address, 1)).be.revertedWith('Not allowed to rescue');
+            await expect(vesting.rescueTokens(superproToken.address, user1.address, parseEther(500).add(1))).be.revertedWith(
+                'Amount exceeds surplus'
+            );
+            const receipt: ContractReceipt = await (await vesting.rescueTokens(superproToken.address, user1.address, parseEther(500))).wait();
+            const event = receipt.events?.find(event => event.event === 'TokensRescued');
+            expect(event?.args?.token).be.equal(superproToken.address);
+            expect(event?.args?.amount).be.equal(parseEther(500));
+
+            await vesting.connect(user2).claim(user2.address, parseEther(3000));
+            await vesting.connect(user3).claim(user3.address, TOKENS_TOTAL.sub(parseEther(5000)));
+            expect(await superproToken.balanceOf(vesting.address)).be.equal(0);
+        });
+
+        it('should not rescue any token before initialization is finished', async function () {
+            const otherToken = await (await ethers.getContractFactory('SuperproToken')).deploy(parseEther(5), 'OTH', 'Other Token');
+            await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+            await otherToken.transfer(vesting.address, parseEther(5));
+            // the vesting token is not set yet, so funded tokens would otherwise pass as other ones
+            await expect(vesting.rescueTokens(superproToken.address, owner.address, TOKENS_TOTAL)).be.revertedWith('Initialization is not finished');
+            await expect(vesting.rescueTokens(otherToken.address, owner.address, parseEther(5))).be.revertedWith('Initialization is not finished');
+
+            await vesting.startInitialization(superproToken.address, START);
+            await vesting.addBeneficiaries([{ account: user1.address, tokenAmount: parseEther(2000) }]);
+            await expect(vesting.rescueTokens(superproToken.address, owner.address, 1)).be.revertedWith('Initialization is not finished');
+
+            await vesting.addBeneficiaries([{ account: user2.address, tokenAmount: TOKENS_TOTAL.sub(parseEther(2000)) }]);
+            await vesting.finishInitialization();
+            await expect(vesting.rescueTokens(superproToken.address, owner.address, 1)).be.revertedWith('Amount exceeds surplus');
+            await vesting.rescueTokens(otherToken.address, owner.address, parseEther(5));
+            expect(await otherToken.balanceOf(owner.address)).be.equal(parseEther(5));
+        });
     });
-});
+}
@@ -0,0 +1,352 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { BigNumber, constants, ContractTransaction } from 'ethers';
+import { ethers, network } from 'hardhat';
+import { SuperproToken, InsidersVesting } from '../typechain';
+import { formatDuration } from '../utils/dates';
+import { getInsidersSchedule, InsidersVestingModel } from '../utils/schedule';
+
+// Random sequences of claims, transfers and time jumps checked step by step against InsidersVestingModel.
+// Every sequence is generated from a seed before it runs and its amounts are fractions of what the sender has
+// at that moment, so any part of a sequence replays the same way. A failing sequence is shrunk by dropping
+// actions while it still fails. FUZZ_SEED, FUZZ_RUNS and FUZZ_STEPS change the seed of the first run,
+// the number of runs and the length of sequences; the default ones run the same sequences every time.
+const FIRST_SEED = Number(process.env.FUZZ_SEED ?? 20221017);
+const RUNS = Number(process.env.FUZZ_RUNS ?? 3);
+const STEPS = Number(process.env.FUZZ_STEPS ?? 40);
+
+// shares of amounts are in basis points, values above 10000 request more than the sender has
+const FULL_SHARE = 10000;
+
+type Action =
+    | { kind: 'wait'; seconds: number }
+    | { kind: 'claim'; from: number; to: number; share: number }
+    | { kind: 'transfer'; from: number; to: number; lockedShare: number; unlockedShare: number }
+    | { kind: 'transferAll'; from: number; to: number };
+
+interface Scenario {
+    seed: number;
+    lockupDuration: number;
+    vestingDuration: number;
+    // indexes of accounts and initial amounts, the rest of accounts are outside of the whitelist
+    allocations: { account: number; tokenAmount: BigNumber }[];
+    actions: Action[];
+}
+
+// mulberry32, small and good enough to spread the actions
+class Random {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed;
+    }
+
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) | 0;
+        let value = Math.imul(this.state ^ (this.state >>> 15), 1 | this.state);
+        value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+        return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+    }
+
+    int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+}
+
+function generateScenario(seed: number, steps: number, accounts: number): Scenario {
+    const random = new Random(seed);
+    const lockupDuration = random.int(3600, 30 * 86400);
+    const vestingDuration = random.int(86400, 400 * 86400);
+    const allocations = [];
+    const beneficiaries = random.int(2, accounts - 1);
+    for (let account = 0; account < beneficiaries; account++) {
+        // whole tokens and wei remainders, so rounding of unlocked amounts is exercised
+        allocations.push({ account, tokenAmount: ethers.utils.parseEther(random.int(1, 1e6).toString()).add(random.int(0, 1e9)) });
+    }
+
+    const actions: Action[] = [];
+    for (let step = 0; step < steps; step++) {
+        const from = random.int(0, accounts - 1);
+        const to = random.int(0, accounts - 1);
+        const dice = random.next();
+        if (dice < 0.3) {
+            const scale = [60, 86400, Math.floor(vestingDuration / 4)][random.int(0, 2)];
+            actions.push({ kind: 'wait', seconds: random.int(1, scale) });
+        } else if (dice < 0.6) {
+            actions.push({ kind: 'claim', from, to, share: random.int(0, FULL_SHARE + 1000) });
+        } else if (dice < 0.9) {
+            const lockedShare = random.chance(0.3) ? 0 : random.int(0, FULL_SHARE + 500);
+            actions.push({ kind: 'transfer', from, to, lockedShare, unlockedShare: random.int(0, FULL_SHARE + 500) });
+        } else {
+            actions.push({ kind: 'transferAll', from, to });
+        }
+    }
+    return { seed, lockupDuration, vestingDuration, allocations, actions };
+}
+
+function describeAction(action: Action): string {
+    switch (action.kind) {
+        case 'wait':
+            return `wait ${action.seconds}s`;
+        case 'claim':
+            return `account #${action.from} claims ${action.share / 100}% of unlocked to #${action.to}`;
+        case 'transfer':
+            return `account #${action.from} transfers ${action.lockedShare / 100}% locked, ${action.unlockedShare / 100}% unlocked to #${action.to}`;
+        case 'transferAll':
+            return `account #${action.from} transfers all to #${action.to}`;
+    }
+}
+
+// drops chunks of actions, from halves down to single ones, while the rest still fails
+async function shrink(actions: Action[], fails: (actions: Action[]) => Promise<boolean>): Promise<Action[]> {
+    let chunk = Math.ceil(actions.length / 2);
+    while (chunk >= 1) {
+        let removed = false;
+        let start = 0;
+        while (start < actions.length) {
+            const candidate = [...actions.slice(0, start), ...actions.slice(start + chunk)];
+            if (await fails(candidate)) {
+                actions = candidate;
+                removed = true;
+            } else {
+                start += chunk;
+            }
+        }
+        if (!removed) {
+            chunk = Math.floor(chunk / 2);
+        }
+    }
+    return actions;
+}
+
+function share(amount: BigNumber, basisPoints: number): BigNumber {
+    return amount.mul(basisPoints).div(FULL_SHARE);
+}
+
+describe('InsidersVesting invariants', function () {
+    let superproToken: SuperproToken;
+    let owner: SignerWithAddress;
+    let accounts: SignerWithAddress[];
+    let snapshot: any;
+
+    before(async function () {
+        const signers = await ethers.getSigners();
+        [owner, accounts] = [signers[0], signers.slice(1, 8)];
+        const SuperproTokenFactory = await ethers.getContractFactory('SuperproToken');
+        superproToken = await SuperproTokenFactory.deploy(ethers.utils.parseEther('100000000'), 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    afterEach(async function () {
+        await revertToSnapshot();
+    });
+
+    async function revertToSnapshot() {
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    }
+
+    // runs actions on a fresh contract, throws on the first difference from the model or broken invariant
+    async function run(scenario: Scenario, actions: Action[]) {
+        await revertToSnapshot();
+        const { timestamp: now } = await ethers.provider.getBlock('latest');
+        const schedule = getInsidersSchedule(now + 1000, scenario.lockupDuration, scenario.vestingDuration);
+        const beneficiaries = scenario.allocations.map(({ account, tokenAmount }) => ({ account: accounts[account].address, tokenAmount }));
+        const funding = beneficiaries.reduce((sum, beneficiary) => sum.add(beneficiary.tokenAmount), constants.Zero);
+
+        const vesting: InsidersVesting = await (
+            await ethers.getContractFactory('InsidersVesting')
+        ).deploy(owner.address, scenario.lockupDuration, scenario.vestingDuration);
+        await superproToken.transfer(vesting.address, funding);
+        await vesting.initialize(superproToken.address, beneficiaries, schedule.vestingStart);
+        const model = new InsidersVestingModel(schedule, beneficiaries);
+
+        // what every account got from the whitelist and from transfers minus what it sent, and token balances of claim recipients
+        const allocated = new Map(beneficiaries.map(({ account, tokenAmount }) => [account, tokenAmount]));
+        const received = new Map<string, BigNumber>();
+        const add = (map: Map<string, BigNumber>, account: string, amount: BigNumber) => {
+            map.set(account, (map.get(account) ?? constants.Zero).add(amount));
+        };
+        const move = (from: string, to: string, amount: BigNumber) => {
+            add(allocated, from, constants.Zero.sub(amount));
+            add(allocated, to, amount);
+        };
+
+        async function checkInvariants(timestamp: number) {
+            let total = constants.Zero;
+            for (const account of model.accounts()) {
+                const info = await vesting.getBeneficiaryInfo(account);
+                const expected = model.getBeneficiaryInfo(account);
+                expect(info.tokensLocked).be.equal(expected.tokensLocked);
+                expect(info.tokensUnlocked).be.equal(expected.tokensUnlocked);
+                expect(info.tokensClaimed).be.equal(expected.tokensClaimed);
+                expect(info.tokensVesting).be.equal(expected.tokensVesting);
+                expect(info.lastVestingUpdate).be.equal(expected.lastVestingUpdate);
+                expect(info.vestedFraction).be.equal(expected.vestedFraction);
+                expect(await vesting.calculateClaim(account)).be.equal(model.calculateClaim(account, timestamp));
+                // so nobody claims more than it was allocated
+                const held = info.tokensLocked.add(info.tokensUnlocked).add(info.tokensClaimed);
+                expect(held).be.equal(allocated.get(account));
+                total = total.add(held);
+            }
+            expect(total).be.equal(funding);
+
+            let claimed = constants.Zero;
+            for (const account of accounts) {
+                const balance = await superproToken.balanceOf(account.address);
+                expect(balance).be.equal(received.get(account.address) ?? constants.Zero);
+                claimed = claimed.add(balance);
+            }
+            expect(await superproToken.balanceOf(vesting.address)).be.equal(funding.sub(claimed));
+        }
+
+        async function execute(action: Exclude<Action, { kind: 'wait' }>, timestamp: number) {
+            const from = accounts[action.from];
+            const to = accounts[action.to].address;
+            let info;
+            try {
+                info = model.getBeneficiaryInfo(from.address);
+            } catch {
+                // the contract rejects the sender anyway, any amount will do
+            }
+            const unlocked = info ? model.calculateClaim(from.address, timestamp) : constants.One;
+            const locked = info ? info.tokensLocked.sub(unlocked.sub(info.tokensUnlocked)) : constants.One;
+
+            let apply: () => void;
+            let send: () => Promise<ContractTransaction>;
+            if (action.kind === 'claim') {
+                const amount = share(unlocked, action.share);
+                apply = () => {
+                    model.claim(from.address, amount, timestamp);
+                    add(received, to, amount);
+                };
+                send = () => vesting.connect(from).claim(to, amount);
+            } else if (action.kind === 'transfer') {
+                const [tokensLocked, tokensUnlocked] = [share(locked, action.lockedShare), share(unlocked, action.unlockedShare)];
+                apply = () => {
+                    model.transfer(from.address, to, tokensLocked, tokensUnlocked, timestamp);
+                    move(from.address, to, tokensLocked.add(tokensUnlocked));
+                };
+                send = () => vesting.connect(from).transfer(to, tokensLocked, tokensUnlocked);
+            } else {
+                apply = () => {
+                    model.transferAll(from.address, to, timestamp);
+                    move(from.address, to, locked.add(unlocked));
+                };
+                send = () => vesting.connect(from).transferAll(to);
+            }
+
+            let modelError: string | undefined;
+            try {
+                apply();
+            } catch (error: any) {
+                modelError = error.message;
+            }
+
+            await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+            let contractError: string | undefined;
+            try {
+                await (await send()).wait();
+            } catch (error: any) {
+                contractError = error.message;
+                // transactions rejected by gas estimation are not mined, the checks below read the state at `timestamp`
+                if ((await ethers.provider.getBlock('latest')).timestamp < timestamp) {
+                    await network.provider.send('evm_mine');
+                }
+            }
+            if (modelError) {
+                expect(contractError, `${describeAction(action)} should revert with "${modelError}"`).include(modelError);
+            } else {
+                expect(contractError, `${describeAction(action)} should not revert`).be.equal(undefined);
+            }
+        }
+
+        let { timestamp } = await ethers.provider.getBlock('latest');
+        for (const action of actions) {
+            if (action.kind === 'wait') {
+                timestamp += action.seconds;
+                continue;
+            }
+            timestamp += 1;
+            await execute(action, timestamp);
+            await checkInvariants(timestamp);
+        }
+
+        // everything is claimable after vesting finish, claiming it empties the contract
+        timestamp = Math.max(timestamp, schedule.vestingFinish) + 1;
+        await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+        await network.provider.send('evm_mine');
+        for (const account of model.accounts()) {
+            const info = await vesting.getBeneficiaryInfo(account);
+            expect(await vesting.calculateClaim(account)).be.equal(info.tokensLocked.add(info.tokensUnlocked));
+        }
+        for (const account of accounts) {
+            if (!model.accounts().includes(account.address)) {
+                continue;
+            }
+            const amount = model.calculateClaim(account.address, ++timestamp);
+            await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+            await vesting.connect(account).claim(account.address, amount);
+            model.claim(account.address, amount, timestamp);
+            add(received, account.address, amount);
+        }
+        await checkInvariants(timestamp);
+        expect(await superproToken.balanceOf(vesting.address)).be.equal(0);
+    }
+
+    async function fails(scenario: Scenario, actions: Action[]): Promise<string | undefined> {
+        try {
+            await run(scenario, actions);
+        } catch (error: any) {
+            return error.message;
+        }
+    }
+
+    for (let seed = FIRST_SEED; seed < FIRST_SEED + RUNS; seed++) {
+        it(`should follow the model in random sequence of seed ${seed}`, async function () {
+            const scenario = generateScenario(seed, STEPS, 7);
+            const error = await fails(scenario, scenario.actions);
+            if (!error) {
+                return;
+            }
+
+            const shrunk = await shrink(scenario.actions, async actions => !!(await fails(scenario, actions)));
+            const lines = [
+                `Seed ${seed} fails: ${await fails(scenario, shrunk)}`,
+                `Reproduce with FUZZ_SEED=${seed} FUZZ_RUNS=1 FUZZ_STEPS=${STEPS}, shrunk to ${shrunk.length} of ${scenario.actions.length} actions:`,
+                `${formatDuration(scenario.lockupDuration)} lock-up, ${formatDuration(scenario.vestingDuration)} vesting`,
+                ...scenario.allocations.map(({ account, tokenAmount }) => `account #${account} gets ${tokenAmount}`),
+                ...shrunk.map(describeAction),
+            ];
+            throw new Error(lines.join('\n'));
+        });
+    }
+
+    it('should shrink a failing sequence to the actions causing the failure', async function () {
+        const actions = generateScenario(FIRST_SEED, 50, 7).actions;
+        const culprits = [actions[7], actions[31]];
+        const shrunk = await shrink(actions, async candidate => culprits.every(action => candidate.includes(action)));
+
+        expect(shrunk).be.deep.equal(culprits);
+    });
+
+    it('should generate the same sequence for the same seed', async function () {
+        expect(generateScenario(42, 30, 7)).be.deep.equal(generateScenario(42, 30, 7));
+        expect(generateScenario(42, 30, 7).actions).not.be.deep.equal(generateScenario(43, 30, 7).actions);
+    });
+});
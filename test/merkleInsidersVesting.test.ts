@@ -0,0 +1,239 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers, network } from 'hardhat';
+import { InsidersVesting, MerkleInsidersVesting, SuperproToken } from '../typechain';
+import { Beneficiary } from '../utils/beneficiaries';
+import { formatDate } from '../utils/dates';
+import { buildMerkleDistribution, getMerkleProof, hashLeaf, MerkleDistribution, verifyMerkleProof } from '../utils/merkle';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION } from '../utils/schedule';
+
+describe('MerkleInsidersVesting', function () {
+    let superproToken: SuperproToken;
+    let insidersVesting: InsidersVesting;
+    let vesting: MerkleInsidersVesting;
+    let owner: SignerWithAddress, user1: SignerWithAddress, user2: SignerWithAddress, user3: SignerWithAddress, user4: SignerWithAddress;
+    let beneficiaries: Beneficiary[];
+    let distribution: MerkleDistribution;
+    let directory: string;
+
+    const START = Math.floor(Date.now() / 1000) + 86400;
+    const LOCKUP_END = START + 7776000;
+    const FINISH = LOCKUP_END + 86745600;
+    const TOKENS_TOTAL = parseEther(10_000);
+    let snapshot: any;
+
+    before(async function () {
+        [owner, user1, user2, user3, user4] = await ethers.getSigners();
+        const superproTokenFactory = await ethers.getContractFactory('SuperproToken');
+        superproToken = await superproTokenFactory.deploy(TOKENS_TOTAL.mul(3), 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+
+        // odd number of leaves, so one of them is moved up the tree unchanged
+        beneficiaries = [
+            { account: owner.address, tokenAmount: parseEther(1000).toString() },
+            { account: user1.address, tokenAmount: parseEther(2000).toString() },
+            { account: user2.address, tokenAmount: parseEther(3000).toString() },
+            { account: user3.address, tokenAmount: parseEther(1500).toString() },
+            { account: user4.address, tokenAmount: parseEther(2500).toString() },
+        ];
+        distribution = buildMerkleDistribution(beneficiaries);
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vesting-merkle-'));
+
+        insidersVesting = await (
+            await ethers.getContractFactory('InsidersVesting')
+        ).deploy(owner.address, INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION);
+        await insidersVesting.deployed();
+        await superproToken.transfer(insidersVesting.address, TOKENS_TOTAL);
+        await insidersVesting.initialize(superproToken.address, beneficiaries, START);
+
+        vesting = await (
+            await ethers.getContractFactory('MerkleInsidersVesting')
+        ).deploy(owner.address, INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION);
+        await vesting.deployed();
+        await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+        await vesting.initialize(superproToken.address, distribution.root, distribution.tokensTotal, START);
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    after(function () {
+        fs.rmdirSync(directory, { recursive: true });
+    });
+
+    afterEach(async function () {
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    function parseEther(amount: number) {
+        return ethers.utils.parseEther(amount.toString());
+    }
+
+    async function activate(signer: SignerWithAddress) {
+        const { tokenAmount, proof } = getMerkleProof(distribution, signer.address);
+        await vesting.activate(signer.address, tokenAmount, proof);
+    }
+
+    it('should build proofs of every allocation', function () {
+        expect(distribution.tokensTotal).be.equal(TOKENS_TOTAL.toString());
+        for (const { account, tokenAmount } of beneficiaries) {
+            const entry = getMerkleProof(distribution, account.toLowerCase());
+            expect(entry.tokenAmount).be.equal(tokenAmount);
+            expect(verifyMerkleProof(distribution.root, hashLeaf(account, tokenAmount), entry.proof)).be.equal(true);
+        }
+        expect(verifyMerkleProof(distribution.root, hashLeaf(owner.address, '1'), getMerkleProof(distribution, owner.address).proof)).be.equal(false);
+    });
+
+    it('should unlock activated allocations the same way as InsidersVesting', async function () {
+        await activate(user1);
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 1_000_000]);
+        await activate(user2);
+        await network.provider.send('evm_setNextBlockTimestamp', [FINISH + 1]);
+        await activate(user3);
+
+        for (const timestamp of [FINISH - 1000, FINISH + 1000]) {
+            if (timestamp > (await ethers.provider.getBlock('latest')).timestamp) {
+                await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+                await network.provider.send('evm_mine');
+            }
+            for (const user of [user1, user2, user3]) {
+                expect(await vesting.calculateClaim(user.address)).be.equal(await insidersVesting.calculateClaim(user.address));
+                expect(await vesting.getBeneficiaryInfo(user.address)).be.deep.equal(await insidersVesting.getBeneficiaryInfo(user.address));
+            }
+        }
+    });
+
+    it('should activate allocation on the first claim', async function () {
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 86400]);
+        const { tokenAmount, proof } = getMerkleProof(distribution, user1.address);
+        await vesting.connect(user1).claimWithProof(user1.address, parseEther(1), tokenAmount, proof);
+
+        expect(await vesting.activated(user1.address)).be.equal(true);
+        expect(await superproToken.balanceOf(user1.address)).be.equal(parseEther(1));
+        await expect(vesting.connect(user1).claimWithProof(user1.address, 1, tokenAmount, proof)).be.revertedWith('Already activated');
+        await vesting.connect(user1).claim(user1.address, 1);
+    });
+
+    it('should reject wrong proofs and amounts', async function () {
+        const { tokenAmount, proof } = getMerkleProof(distribution, user1.address);
+        await expect(vesting.activate(user1.address, parseEther(2001), proof)).be.revertedWith('Invalid proof');
+        await expect(vesting.activate(user2.address, tokenAmount, proof)).be.revertedWith('Invalid proof');
+        await expect(vesting.connect(user1).claim(user1.address, 1)).be.revertedWith('You are not in whitelist');
+    });
+
+    it('should merge allocation with tokens received by transfer', async function () {
+        await activate(user1);
+        await vesting.connect(user1).transfer(user2.address, parseEther(500), 0);
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 1_000_000]);
+        await activate(user2);
+
+        const info = await vesting.getBeneficiaryInfo(user2.address);
+        expect(info.tokensLocked.add(info.tokensUnlocked)).be.equal(parseEther(3500));
+        expect(info.tokensVesting).be.equal(info.tokensLocked);
+        expect(info.lastVestingUpdate).be.equal(LOCKUP_END + 1_000_000);
+    });
+
+    it('should use lock-up and vesting durations of the deployment', async function () {
+        const other = await (await ethers.getContractFactory('MerkleInsidersVesting')).deploy(owner.address, 30 * 86400, 365 * 86400);
+        await superproToken.transfer(other.address, TOKENS_TOTAL);
+        await other.initialize(superproToken.address, distribution.root, distribution.tokensTotal, START);
+        expect(await other.lockupEnd()).be.equal(START + 30 * 86400);
+        expect(await other.vestingFinish()).be.equal(START + 395 * 86400);
+
+        const { tokenAmount, proof } = getMerkleProof(distribution, user1.address);
+        await network.provider.send('evm_setNextBlockTimestamp', [START + 30 * 86400]);
+        await expect(other.connect(user1).claimWithProof(user1.address, 1, tokenAmount, proof)).be.revertedWith('Cannot claim during lock-up period');
+        await network.provider.send('evm_setNextBlockTimestamp', [START + 395 * 86400]);
+        await other.connect(user1).claimWithProof(user1.address, tokenAmount, tokenAmount, proof);
+        expect(await superproToken.balanceOf(user1.address)).be.equal(tokenAmount);
+    });
+
+    it('should not activate more than tokens total', async function () {
+        const other = await (
+            await ethers.getContractFactory('MerkleInsidersVesting')
+        ).deploy(owner.address, INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION);
+        await superproToken.transfer(other.address, parseEther(5000));
+        await other.initialize(superproToken.address, distribution.root, parseEther(5000), START);
+        expect(await other.tokensTotal()).be.equal(parseEther(5000));
+
+        for (const user of [user2, user1]) {
+            const { tokenAmount, proof } = getMerkleProof(distribution, user.address);
+            await other.activate(user.address, tokenAmount, proof);
+        }
+        expect(await other.tokensActivated()).be.equal(parseEther(5000));
+        const { tokenAmount, proof } = getMerkleProof(distribution, user4.address);
+        await expect(other.activate(user4.address, tokenAmount, proof)).be.revertedWith('Activations exceed tokens total');
+    });
+
+    it('should pause claims, transfers and activations', async function () {
+        await expect(vesting.connect(user1).proposeGuardian(user1.address)).be.revertedWith('Not allowed to set guardian');
+        await vesting.proposeGuardian(user4.address);
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 86400]);
+        await vesting.connect(user4).acceptGuardian();
+        await vesting.connect(user4).pause(86400);
+
+        const { tokenAmount, proof } = getMerkleProof(distribution, user1.address);
+        await expect(vesting.connect(user1).claimWithProof(user1.address, 1, tokenAmount, proof)).be.revertedWith('Paused');
+        await expect(vesting.activate(user1.address, tokenAmount, proof)).be.revertedWith('Paused');
+        await vesting.connect(user4).unpause();
+        await activate(user1);
+        await network.provider.send('evm_increaseTime', [7 * 86400]);
+        await vesting.connect(user4).pause(86400);
+        await expect(vesting.connect(user1).claim(user1.address, 1)).be.revertedWith('Paused');
+        await expect(vesting.connect(user1).transfer(user2.address, 1, 0)).be.revertedWith('Paused');
+        await expect(vesting.connect(user1).transferAll(user2.address)).be.revertedWith('Paused');
+
+        // tokens keep unlocking while paused
+        await vesting.connect(user4).unpause();
+        await vesting.connect(user1).claim(user1.address, await vesting.calculateClaim(user1.address));
+    });
+
+    it('should build tree, initialize and claim with tasks', async function () {
+        const beneficiariesFile = path.join(directory, 'beneficiaries.json');
+        const proofsFile = path.join(directory, 'proofs.json');
+        fs.writeFileSync(beneficiariesFile, JSON.stringify(beneficiaries));
+        await hre.run('merkle-tree', { beneficiaries: beneficiariesFile, output: proofsFile });
+
+        const other = await (
+            await ethers.getContractFactory('MerkleInsidersVesting')
+        ).deploy(owner.address, INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION);
+        await superproToken.transfer(other.address, TOKENS_TOTAL);
+        await hre.run('initialize-merkle-vesting', {
+            contract: other.address,
+            token: superproToken.address,
+            start: START.toString(),
+            proofs: proofsFile,
+            yes: true,
+        });
+        expect(await other.merkleRoot()).be.equal(distribution.root);
+
+        // the claim would be mined at lockupEnd, but the contract needs a block later than it
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END - 1]);
+        await network.provider.send('evm_mine');
+        const lockupError = await hre
+            .run('merkle-claim', { contract: other.address, to: user4.address, amount: '0.25', proofs: proofsFile })
+            .catch(e => e);
+        expect(lockupError.message).be.equal(`Cannot claim during lock-up period, it ends at ${formatDate(LOCKUP_END)}`);
+
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 86400]);
+        await network.provider.send('evm_mine');
+        await hre.run('merkle-claim', { contract: other.address, to: user4.address, amount: '0.25', proofs: proofsFile });
+        await hre.run('merkle-claim', { contract: other.address, to: user4.address, amount: '0.25', proofs: proofsFile });
+
+        expect(await superproToken.balanceOf(user4.address)).be.equal(parseEther(0.5));
+        expect((await other.getBeneficiaryInfo(owner.address)).tokensClaimed).be.equal(parseEther(0.5));
+    });
+});
@@ -0,0 +1,119 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Wallet } from 'ethers';
+import hre, { ethers, network } from 'hardhat';
+import { config } from '../config';
+import { SuperproToken, Vesting } from '../typechain';
+import { DEFAULT_ROLE_CHANGE_DELAY } from '../utils/authority';
+
+describe('Keystore and offline signing', function () {
+    let superproToken: SuperproToken;
+    let vesting: Vesting;
+    let deployer: SignerWithAddress, user1: SignerWithAddress;
+    let wallet: Wallet;
+    let directory: string;
+    let keystore: string;
+    let passwordFile: string;
+
+    const START = Math.floor(Date.now() / 1000) + 86400;
+    const FINISH = START + 94694400;
+    const TOKENS_TOTAL = parseEther(10_000);
+    let snapshot: any;
+
+    before(async function () {
+        [deployer, user1] = await ethers.getSigners();
+        wallet = Wallet.createRandom();
+        await deployer.sendTransaction({ to: wallet.address, value: parseEther(10) });
+
+        const superproTokenFactory = await ethers.getContractFactory('SuperproToken');
+        superproToken = await superproTokenFactory.deploy(TOKENS_TOTAL, 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+        vesting = await (await ethers.getContractFactory('Vesting')).deploy(wallet.address, DEFAULT_ROLE_CHANGE_DELAY);
+        await vesting.deployed();
+        await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vesting-offline-'));
+        keystore = path.join(directory, 'keystore.json');
+        passwordFile = path.join(directory, 'password');
+        fs.writeFileSync(passwordFile, 'correct horse battery staple\n');
+        // low scrypt cost keeps the test fast
+        fs.writeFileSync(keystore, await wallet.encrypt('correct horse battery staple', { scrypt: { N: 16 } }));
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    after(function () {
+        fs.rmdirSync(directory, { recursive: true });
+    });
+
+    afterEach(async function () {
+        config.keystorePath = undefined;
+        config.keystorePasswordFile = undefined;
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    function parseEther(amount: number) {
+        return ethers.utils.parseEther(amount.toString());
+    }
+
+    it('should sign admin tasks with keystore from config', async function () {
+        config.keystorePath = keystore;
+        config.keystorePasswordFile = passwordFile;
+
+        await hre.run('propose-authority', { contract: vesting.address, account: user1.address, role: 'dao' });
+
+        expect((await vesting.roleChanges(1)).account).be.equal(user1.address);
+    });
+
+    it('should build, sign and broadcast transactions of Safe batch', async function () {
+        const batch = path.join(directory, 'batch.json');
+        const unsigned = path.join(directory, 'unsigned.json');
+        const signed = path.join(directory, 'signed.json');
+        await hre.run('initialize-vesting', {
+            contract: vesting.address,
+            token: superproToken.address,
+            start: START.toString(),
+            finish: FINISH.toString(),
+            propose: batch,
+            yes: true,
+        });
+        await hre.run('propose-authority', { contract: vesting.address, account: user1.address, role: 'dao', propose: batch });
+
+        await hre.run('offline-build', { from: wallet.address, batch, output: unsigned });
+        await hre.run('offline-sign', { input: unsigned, output: signed, keystore, passwordFile });
+        expect(await vesting.initialized()).be.equal(false);
+        await hre.run('offline-broadcast', { input: signed });
+
+        expect(await vesting.initialized()).be.equal(true);
+        expect((await vesting.roleChanges(1)).account).be.equal(user1.address);
+        fs.unlinkSync(batch);
+    });
+
+    it('should refuse to sign transactions built for another account', async function () {
+        const unsigned = path.join(directory, 'unsigned.json');
+        const data = superproToken.interface.encodeFunctionData('approve', [user1.address, parseEther(1)]);
+        await hre.run('offline-build', { from: deployer.address, to: superproToken.address, data, output: unsigned });
+
+        let error: Error | undefined;
+        try {
+            await hre.run('offline-sign', { input: unsigned, output: path.join(directory, 'signed.json'), keystore, passwordFile });
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).be.equal(`Transactions are built for ${deployer.address}, but keystore is of ${wallet.address}`);
+    });
+});
@@ -0,0 +1,171 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers, network } from 'hardhat';
+import { InsidersVesting, SuperproToken, Vesting } from '../typechain';
+import { DEFAULT_ROLE_CHANGE_DELAY } from '../utils/authority';
+import { DecodedSafeTransaction, readSafeBatch } from '../utils/safe';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION } from '../utils/schedule';
+
+describe('Safe proposals', function () {
+    let superproToken: SuperproToken;
+    let vesting: Vesting;
+    let insidersVesting: InsidersVesting;
+    let safe: SignerWithAddress, user1: SignerWithAddress, user2: SignerWithAddress;
+    let directory: string;
+    let batchFile: string;
+
+    const START = Math.floor(Date.now() / 1000) + 86400;
+    const FINISH = START + 94694400;
+    const TOKENS_TOTAL = parseEther(10_000);
+    let snapshot: any;
+
+    before(async function () {
+        [, safe, user1, user2] = await ethers.getSigners();
+        const superproTokenFactory = await ethers.getContractFactory('SuperproToken');
+        superproToken = await superproTokenFactory.deploy(TOKENS_TOTAL.mul(2), 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+        vesting = await (await ethers.getContractFactory('Vesting')).deploy(safe.address, DEFAULT_ROLE_CHANGE_DELAY);
+        await vesting.deployed();
+        insidersVesting = await (
+            await ethers.getContractFactory('InsidersVesting')
+        ).deploy(safe.address, INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION);
+        await insidersVesting.deployed();
+        await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+        await superproToken.transfer(insidersVesting.address, TOKENS_TOTAL);
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    beforeEach(function () {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vesting-safe-'));
+        batchFile = path.join(directory, 'batch.json');
+    });
+
+    afterEach(async function () {
+        fs.rmdirSync(directory, { recursive: true });
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    function parseEther(amount: number) {
+        return ethers.utils.parseEther(amount.toString());
+    }
+
+    // the Safe executes batch transactions one by one as its own calls
+    async function executeBatch() {
+        for (const transaction of readSafeBatch(batchFile).transactions) {
+            await safe.sendTransaction({ to: transaction.to, value: ethers.BigNumber.from(transaction.value), data: transaction.data });
+        }
+    }
+
+    it('should write Vesting admin calls to one batch instead of sending them', async function () {
+        await hre.run('initialize-vesting', {
+            contract: vesting.address,
+            token: superproToken.address,
+            start: START.toString(),
+            finish: FINISH.toString(),
+            propose: batchFile,
+            yes: true,
+        });
+        await hre.run('propose-authority', { contract: vesting.address, account: user1.address, role: 'dao', propose: batchFile });
+        await hre.run('propose-authority', { contract: vesting.address, account: user2.address, propose: batchFile });
+
+        expect(await vesting.initialized()).be.equal(false);
+        const batch = readSafeBatch(batchFile);
+        expect(batch.chainId).be.equal('1337');
+        expect(batch.meta.createdFromSafeAddress).be.equal(safe.address);
+        expect(batch.transactions.length).be.equal(3);
+
+        await executeBatch();
+        expect(await vesting.initialized()).be.equal(true);
+        expect((await vesting.roleChanges(1)).account).be.equal(user1.address);
+        expect((await vesting.roleChanges(0)).account).be.equal(user2.address);
+    });
+
+    it('should write Vesting payouts to the batch split into several transactions', async function () {
+        await vesting.connect(safe).initialize(superproToken.address, START, FINISH);
+        await network.provider.send('evm_setNextBlockTimestamp', [START + 86400]);
+        await network.provider.send('evm_mine');
+        const payouts = path.join(directory, 'payouts.csv');
+        fs.writeFileSync(payouts, [`${user1.address},1`, `${user2.address},2`, `${safe.address},3`].join('\n'));
+
+        await hre.run('vesting-payout', { contract: vesting.address, payouts, chunkSize: 2, propose: batchFile, yes: true });
+
+        expect(readSafeBatch(batchFile).transactions.length).be.equal(2);
+        expect(await vesting.tokensClaimed()).be.equal(0);
+        await executeBatch();
+        expect(await superproToken.balanceOf(user1.address)).be.equal(parseEther(1));
+        expect(await superproToken.balanceOf(user2.address)).be.equal(parseEther(2));
+        expect(await superproToken.balanceOf(safe.address)).be.equal(parseEther(3));
+    });
+
+    it('should decode batch with InsidersVesting initialize', async function () {
+        const beneficiaries = path.join(directory, 'beneficiaries.json');
+        fs.writeFileSync(
+            beneficiaries,
+            JSON.stringify([
+                { account: user1.address, tokenAmount: parseEther(4000).toString() },
+                { account: user2.address, tokenAmount: parseEther(6000).toString() },
+            ])
+        );
+        await hre.run('initialize-insider-vesting', {
+            contract: insidersVesting.address,
+            token: superproToken.address,
+            start: START.toString(),
+            beneficiaries,
+            propose: batchFile,
+            yes: true,
+        });
+
+        const decoded: DecodedSafeTransaction[] = await hre.run('decode-safe-batch', { file: batchFile });
+        expect(decoded).be.deep.equal([
+            {
+                to: insidersVesting.address,
+                value: '0',
+                method: 'initialize(address,(address,uint96)[],uint64)',
+                args: {
+                    tokenAddress: superproToken.address,
+                    beneficiaries: [
+                        { account: user1.address, tokenAmount: parseEther(4000).toString() },
+                        { account: user2.address, tokenAmount: parseEther(6000).toString() },
+                    ],
+                    _vestingStart: START.toString(),
+                },
+            },
+        ]);
+
+        await executeBatch();
+        expect((await insidersVesting.getBeneficiaryInfo(user2.address)).tokensLocked).be.equal(parseEther(6000));
+    });
+
+    it('should refuse to append transactions of another Safe', async function () {
+        await hre.run('propose-authority', { contract: vesting.address, account: user1.address, role: 'dao', propose: batchFile });
+
+        let error: Error | undefined;
+        try {
+            await hre.run('propose-authority', {
+                contract: vesting.address,
+                account: user1.address,
+                role: 'dao',
+                propose: batchFile,
+                safe: user2.address,
+            });
+        } catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).be.equal(`Batch ${batchFile} is created for Safe ${safe.address} on chain 1337`);
+    });
+});
@@ -0,0 +1,246 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { InsidersVesting, SuperproToken, Vesting } from '../typechain';
+import { DEFAULT_ROLE_CHANGE_DELAY } from '../utils/authority';
+import {
+    calculateVestingClaim,
+    getInsidersSchedule,
+    getMonthlyTimestamps,
+    getTrancheTimestamps,
+    INSIDERS_LOCKUP_DURATION,
+    INSIDERS_VESTING_DURATION,
+    InsidersVestingModel,
+} from '../utils/schedule';
+
+describe('Schedule', function () {
+    let superproToken: SuperproToken;
+    let insidersVesting: InsidersVesting;
+    let vesting: Vesting;
+    let owner: SignerWithAddress, user1: SignerWithAddress, user2: SignerWithAddress, user3: SignerWithAddress;
+
+    const ONE_DAY = 86400;
+    const START = Math.floor(Date.now() / 1000) + ONE_DAY;
+    const SCHEDULE = getInsidersSchedule(START);
+    const TOKENS_TOTAL = parseEther(400_000_000);
+    let snapshot: any;
+
+    before(async function () {
+        [owner, user1, user2, user3] = await ethers.getSigners();
+        const superproTokenFactory = await ethers.getContractFactory('SuperproToken');
+        superproToken = await superproTokenFactory.deploy(TOKENS_TOTAL.mul(2), 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+
+        insidersVesting = await (
+            await ethers.getContractFactory('InsidersVesting')
+        ).deploy(owner.address, INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION);
+        await insidersVesting.deployed();
+        vesting = await (await ethers.getContractFactory('Vesting')).deploy(owner.address, DEFAULT_ROLE_CHANGE_DELAY);
+        await vesting.deployed();
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    afterEach(async function () {
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    function parseEther(amount: number) {
+        return ethers.utils.parseEther(amount.toString());
+    }
+
+    async function setNextTimestamp(timestamp: number) {
+        await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+        await network.provider.send('evm_mine');
+    }
+
+    async function initializeInsiders() {
+        const beneficiaries = [
+            { account: user1.address, tokenAmount: parseEther(2000).add(7) },
+            { account: user2.address, tokenAmount: parseEther(3000).add(13) },
+            { account: user3.address, tokenAmount: TOKENS_TOTAL.sub(parseEther(5000)).sub(20) },
+        ];
+        await superproToken.transfer(insidersVesting.address, TOKENS_TOTAL);
+        await insidersVesting.initialize(superproToken.address, beneficiaries, START);
+
+        return new InsidersVestingModel(SCHEDULE, beneficiaries);
+    }
+
+    async function expectSameState(model: InsidersVestingModel, timestamp: number) {
+        for (const account of model.accounts()) {
+            const info = await insidersVesting.getBeneficiaryInfo(account);
+            const expected = model.getBeneficiaryInfo(account);
+            expect(info.tokensLocked).be.equal(expected.tokensLocked);
+            expect(info.tokensUnlocked).be.equal(expected.tokensUnlocked);
+            expect(info.tokensClaimed).be.equal(expected.tokensClaimed);
+            expect(info.tokensVesting).be.equal(expected.tokensVesting);
+            expect(info.lastVestingUpdate).be.equal(expected.lastVestingUpdate);
+            expect(info.vestedFraction).be.equal(expected.vestedFraction);
+            expect(info.startTime).be.equal(expected.startTime);
+            expect(await insidersVesting.calculateClaim(account)).be.equal(model.calculateClaim(account, timestamp));
+        }
+    }
+
+    it('should calculate InsidersVesting claims equal to the contract', async function () {
+        const model = await initializeInsiders();
+        const timestamps = [
+            SCHEDULE.lockupEnd,
+            SCHEDULE.lockupEnd + 1,
+            SCHEDULE.lockupEnd + 99999,
+            SCHEDULE.vestingFinish - 1,
+            SCHEDULE.vestingFinish,
+        ];
+
+        for (const timestamp of timestamps) {
+            await setNextTimestamp(timestamp);
+            await expectSameState(model, timestamp);
+        }
+    });
+
+    it('should follow InsidersVesting claims, transfers, revokes and recoveries', async function () {
+        const model = await initializeInsiders();
+
+        let timestamp = START + 1000;
+        await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+        await insidersVesting.connect(user1).transfer(user2.address, parseEther(500), 0);
+        model.transfer(user1.address, user2.address, parseEther(500), 0, timestamp);
+        await expectSameState(model, timestamp);
+
+        timestamp = SCHEDULE.lockupEnd + 123457;
+        await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+        await insidersVesting.connect(user2).claim(user2.address, parseEther(1));
+        model.claim(user2.address, parseEther(1), timestamp);
+        await expectSameState(model, timestamp);
+
+        timestamp += 777777;
+        await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+        await insidersVesting.connect(user2).transfer(user1.address, parseEther(333), parseEther(2));
+        model.transfer(user2.address, user1.address, parseEther(333), parseEther(2), timestamp);
+        await expectSameState(model, timestamp);
+
+        timestamp += 1;
+        await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+        await insidersVesting.connect(user3).transferAll(owner.address);
+        model.transferAll(user3.address, owner.address, timestamp);
+        await expectSameState(model, timestamp);
+
+        timestamp += 86400;
+        await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+        await insidersVesting.revoke(user2.address, user3.address);
+        expect(await superproToken.balanceOf(user3.address)).be.equal(model.revoke(user2.address, timestamp));
+        await expectSameState(model, timestamp);
+
+        const replacement = ethers.Wallet.createRandom().address;
+        timestamp += 1;
+        await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+        await insidersVesting.proposeRecovery(user1.address, replacement);
+        timestamp += (await insidersVesting.RECOVERY_DELAY()).toNumber();
+        await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+        await insidersVesting.executeRecovery(user1.address);
+        model.recover(user1.address, replacement);
+        expect(model.accounts()).not.include(user1.address);
+        await expectSameState(model, timestamp);
+
+        await setNextTimestamp(SCHEDULE.vestingFinish + 10);
+        await expectSameState(model, SCHEDULE.vestingFinish + 10);
+    });
+
+    it('should reproduce InsidersVesting revert reasons', async function () {
+        const model = await initializeInsiders();
+
+        expect(() => model.claim(user1.address, 1, START + 1)).to.throw('Cannot claim during lock-up period');
+        expect(() => model.claim(owner.address, 1, START + 1)).to.throw('You are not in whitelist');
+        expect(() => model.transfer(user1.address, user1.address, 1, 0, START + 1)).to.throw('Cannot transfer to the same address');
+        expect(() => model.transfer(user1.address, user2.address, parseEther(2001), 0, START + 1)).to.throw('Requested more tokens than locked');
+        expect(() => model.claim(user1.address, parseEther(1), SCHEDULE.lockupEnd + 1)).to.throw('Requested more than unlocked');
+        expect(() => model.recover(user1.address, user2.address)).to.throw('Replacement is already in whitelist');
+    });
+
+    it('should calculate Vesting claims equal to the contract', async function () {
+        const params = { tokensTotal: parseEther(190_000_000).add(12345), vestingStart: START, vestingFinish: START + 94694400 };
+        await superproToken.transfer(vesting.address, params.tokensTotal);
+        await vesting.initialize(superproToken.address, params.vestingStart, params.vestingFinish);
+
+        for (const timestamp of [START, START + 1, START + 5555555, params.vestingFinish - 1, params.vestingFinish]) {
+            await setNextTimestamp(timestamp);
+            expect(await vesting.calculateClaim()).be.equal(calculateVestingClaim(params, timestamp));
+        }
+    });
+
+    it('should calculate stepped Vesting claims with cliff equal to the contract', async function () {
+        const params = {
+            tokensTotal: parseEther(190_000_000).add(12345),
+            vestingStart: START,
+            vestingFinish: START + 94694400,
+            vestingCliff: START + 31556952,
+            stepDuration: 7889238,
+        };
+        await superproToken.transfer(vesting.address, params.tokensTotal);
+        await vesting.initializeWithCurve(superproToken.address, params.vestingStart, params.vestingFinish, params.vestingCliff, params.stepDuration);
+
+        const tranches = getTrancheTimestamps(params);
+        expect(tranches[0]).be.equal(params.vestingCliff);
+        expect(tranches[tranches.length - 1]).be.equal(params.vestingFinish);
+        for (const tranche of tranches) {
+            for (const timestamp of [tranche - 1, tranche]) {
+                await setNextTimestamp(timestamp);
+                expect(await vesting.calculateClaim()).be.equal(calculateVestingClaim(params, timestamp));
+            }
+        }
+    });
+
+    it('should calculate stepped Vesting claims after top-ups equal to the contract', async function () {
+        const params = {
+            tokensTotal: parseEther(100_000_000).add(12345),
+            vestingStart: START,
+            vestingFinish: START + 94694400,
+            vestingCliff: START + 31556952,
+            stepDuration: 7889238,
+        };
+        await superproToken.transfer(vesting.address, params.tokensTotal);
+        await vesting.initializeWithCurve(superproToken.address, params.vestingStart, params.vestingFinish, params.vestingCliff, params.stepDuration);
+
+        // the first top-up happens before the cliff, the second one in the middle of a tranche
+        for (const timestamp of [START + 20000000, START + 50000000]) {
+            await superproToken.transfer(vesting.address, parseEther(12_345_678).add(777));
+            await setNextTimestamp(timestamp);
+            await vesting.topUp();
+        }
+        const topUp = {
+            ...params,
+            tokensTotal: await vesting.tokensTotal(),
+            unlockedAtTopUp: await vesting.unlockedAtTopUp(),
+            elapsedAtTopUp: (await vesting.elapsedAtTopUp()).toNumber(),
+        };
+        for (const tranche of getTrancheTimestamps(params).filter(timestamp => timestamp > START + 50000000)) {
+            for (const timestamp of [tranche - 1, tranche]) {
+                await setNextTimestamp(timestamp);
+                expect(await vesting.calculateClaim()).be.equal(calculateVestingClaim(topUp, timestamp));
+            }
+        }
+    });
+
+    it('should clamp month boundaries to the end of month', async function () {
+        const from = Date.UTC(2027, 0, 31, 12) / 1000;
+        const to = Date.UTC(2027, 4, 1) / 1000;
+        const dates = getMonthlyTimestamps(from, to).map(timestamp => new Date(timestamp * 1000).toISOString());
+        expect(dates).be.deep.equal([
+            '2027-01-31T12:00:00.000Z',
+            '2027-02-28T12:00:00.000Z',
+            '2027-03-31T12:00:00.000Z',
+            '2027-04-30T12:00:00.000Z',
+            '2027-05-01T00:00:00.000Z',
+        ]);
+    });
+});
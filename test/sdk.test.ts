@@ -0,0 +1,224 @@
+import fs from 'fs';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { artifacts, ethers, network } from 'hardhat';
+import {
+    buildClaimTx,
+    buildTransferAllTx,
+    buildTransferTx,
+    claimableAt,
+    connectInsidersVesting,
+    connectVesting,
+    decodeError,
+    formatAmounts,
+    getSchedule,
+    InsidersVesting,
+    nextUnlock,
+    parseClaims,
+    parseEvents,
+    parseTransfers,
+    REVERT_MESSAGES,
+    Vesting,
+} from '../sdk/src';
+import { InsidersVesting__factory as InsidersVestingFactory, Vesting__factory as VestingFactory } from '../sdk/src/types';
+import { SuperproToken } from '../typechain';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION } from '../utils/schedule';
+
+describe('sdk', function () {
+    let superproToken: SuperproToken;
+    let vesting: Vesting;
+    let insidersVesting: InsidersVesting;
+    let admin: SignerWithAddress, user1: SignerWithAddress, user2: SignerWithAddress, user3: SignerWithAddress;
+
+    const ONE_DAY = 86400;
+    const MONTH = 30 * ONE_DAY;
+    const START = Math.floor(Date.now() / 1000) + ONE_DAY;
+    const FINISH = START + 24 * MONTH;
+    const CLIFF = START + 6 * MONTH;
+    const LOCKUP_END = START + INSIDERS_LOCKUP_DURATION;
+    const INSIDERS_FINISH = LOCKUP_END + INSIDERS_VESTING_DURATION;
+    const TOKENS_TOTAL = parseEther(10_000);
+    let snapshot: any;
+
+    before(async function () {
+        [admin, user1, user2, user3] = await ethers.getSigners();
+        superproToken = await (await ethers.getContractFactory('SuperproToken')).deploy(TOKENS_TOTAL.mul(3), 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+
+        const deployedVesting = await (await ethers.getContractFactory('Vesting')).deploy(admin.address, 2 * ONE_DAY);
+        await superproToken.transfer(deployedVesting.address, TOKENS_TOTAL);
+        await deployedVesting.connect(admin).initializeWithCurve(superproToken.address, START, FINISH, CLIFF, MONTH);
+        vesting = connectVesting(deployedVesting.address, ethers.provider);
+
+        const deployedInsiders = await (
+            await ethers.getContractFactory('InsidersVesting')
+        ).deploy(admin.address, INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION);
+        await superproToken.transfer(deployedInsiders.address, TOKENS_TOTAL);
+        await deployedInsiders.initialize(
+            superproToken.address,
+            [
+                { account: user1.address, tokenAmount: parseEther(4000) },
+                { account: user2.address, tokenAmount: parseEther(6000) },
+            ],
+            START
+        );
+        insidersVesting = connectInsidersVesting(deployedInsiders.address, ethers.provider);
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    afterEach(async function () {
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    function parseEther(amount: number) {
+        return ethers.utils.parseEther(amount.toString());
+    }
+
+    async function mineAt(timestamp: number) {
+        await network.provider.send('evm_mine', [timestamp]);
+    }
+
+    it('should read Vesting schedule', async function () {
+        const schedule = await getSchedule(vesting);
+
+        expect(schedule).be.deep.equal({
+            contract: 'Vesting',
+            address: vesting.address,
+            token: superproToken.address,
+            vestingStart: START,
+            vestingFinish: FINISH,
+            vestingCliff: CLIFF,
+            stepDuration: MONTH,
+            tokensTotal: TOKENS_TOTAL,
+            tokensClaimed: ethers.constants.Zero,
+            unlockedAtTopUp: ethers.constants.Zero,
+            elapsedAtTopUp: 0,
+        });
+    });
+
+    it('should compute claimable amount of Vesting like the contract', async function () {
+        await mineAt(START + 7 * MONTH + 100);
+        await (await buildClaimTx(vesting, admin.address, parseEther(500)).then(tx => admin.sendTransaction(tx))).wait();
+        await superproToken.transfer(vesting.address, parseEther(3000));
+        await vesting.connect(admin).topUp();
+        const schedule = await getSchedule(vesting);
+
+        for (const timestamp of [START + 9 * MONTH - 1, START + 9 * MONTH + 5, START + 20 * MONTH + 3, FINISH + 1]) {
+            await mineAt(timestamp);
+            expect(claimableAt(schedule, timestamp)).be.equal(await vesting.calculateClaim());
+        }
+        expect(claimableAt(schedule, START - 1)).be.equal(0);
+    });
+
+    it('should find next unlock of Vesting', async function () {
+        const schedule = await getSchedule(vesting);
+
+        // everything before the cliff unlocks with it, tranches follow every month
+        expect(nextUnlock(schedule, START)).be.equal(CLIFF);
+        expect(nextUnlock(schedule, CLIFF)).be.equal(CLIFF + MONTH);
+        expect(nextUnlock(schedule, CLIFF + MONTH + 10)).be.equal(CLIFF + 2 * MONTH);
+        expect(nextUnlock(schedule, START + 23 * MONTH + 1)).be.equal(FINISH);
+        expect(nextUnlock(schedule, FINISH)).be.equal(undefined);
+    });
+
+    it('should compute claimable amount of InsidersVesting beneficiary like the contract', async function () {
+        await mineAt(LOCKUP_END + 1000);
+        const tx = await buildTransferTx(insidersVesting, user3.address, parseEther(1000), 0);
+        await (await user1.sendTransaction(tx)).wait();
+        const schedule = await getSchedule(insidersVesting, user1.address);
+
+        expect(schedule.tokensVesting).be.equal(schedule.tokensLocked);
+        for (const timestamp of [LOCKUP_END + 5000, LOCKUP_END + 12 * MONTH + 7, INSIDERS_FINISH + 1]) {
+            await mineAt(timestamp);
+            expect(claimableAt(schedule, timestamp)).be.equal(await insidersVesting.calculateClaim(user1.address));
+        }
+    });
+
+    it('should find next unlock of InsidersVesting beneficiary after the lock-up', async function () {
+        const schedule = await getSchedule(insidersVesting, user2.address);
+
+        expect(claimableAt(schedule, LOCKUP_END)).be.equal(0);
+        expect(nextUnlock(schedule, START)).be.equal(LOCKUP_END + 1);
+        expect(nextUnlock(schedule, INSIDERS_FINISH - 1)).be.equal(INSIDERS_FINISH);
+        expect(nextUnlock(schedule, INSIDERS_FINISH)).be.equal(undefined);
+    });
+
+    it('should build claim and transfer transactions and parse their events', async function () {
+        await mineAt(LOCKUP_END + MONTH);
+
+        const claimReceipt = await (await user1.sendTransaction(await buildClaimTx(insidersVesting, user3.address, parseEther(10)))).wait();
+        expect(parseClaims(insidersVesting, claimReceipt)).be.deep.equal([{ from: user1.address, to: user3.address, amount: parseEther(10) }]);
+        expect(await superproToken.balanceOf(user3.address)).be.equal(parseEther(10));
+
+        const transferReceipt = await (await user1.sendTransaction(await buildTransferAllTx(insidersVesting, user2.address))).wait();
+        const info = await insidersVesting.getBeneficiaryInfo(user2.address);
+        const [transfer] = parseTransfers(insidersVesting, transferReceipt);
+        expect([transfer.from, transfer.to]).be.deep.equal([user1.address, user2.address]);
+        expect(transfer.amountLocked.add(transfer.amountUnlocked)).be.equal(parseEther(4000).sub(parseEther(10)));
+        expect(info.tokensLocked.add(info.tokensUnlocked)).be.equal(parseEther(10_000).sub(parseEther(10)));
+
+        // token Transfer logs are skipped
+        expect(parseEvents(insidersVesting, claimReceipt).map(event => event.name)).be.deep.equal(['TokensClaimed']);
+    });
+
+    it('should decode revert strings of failed calls and transactions', async function () {
+        const claimTx = await buildClaimTx(insidersVesting, user1.address, 1);
+        const lockupError = await user1.sendTransaction(claimTx).catch(error => error);
+        expect(decodeError(lockupError)).be.deep.equal({
+            reason: 'Cannot claim during lock-up period',
+            message: 'Tokens cannot be claimed until the lock-up period ends',
+        });
+
+        const callError = await vesting
+            .connect(user1)
+            .callStatic.claim(user1.address, 1)
+            .catch(error => error);
+        expect(decodeError(callError)?.message).be.equal('Only the owner or DAO can do this');
+
+        const data = ethers.utils.hexConcat(['0x08c379a0', ethers.utils.defaultAbiCoder.encode(['string'], ['Paused'])]);
+        expect(decodeError({ error: { data } })?.reason).be.equal('Paused');
+        expect(decodeError(new Error('execution reverted: Some other reason'))).be.deep.equal({
+            reason: 'Some other reason',
+            message: 'Some other reason',
+        });
+        expect(decodeError(new Error('user rejected transaction'))).be.equal(undefined);
+    });
+
+    it('should ship types of the compiled contracts', async function () {
+        expect(VestingFactory.abi).be.deep.equal((await artifacts.readArtifact('Vesting')).abi);
+        expect(InsidersVestingFactory.abi).be.deep.equal((await artifacts.readArtifact('InsidersVesting')).abi);
+    });
+
+    it('should explain every revert string of the contracts', async function () {
+        const reasons = new Set<string>();
+        for (const file of ['Vesting', 'InsidersVesting', 'MerkleInsidersVesting', 'GuardianPausable', 'VestingFactory']) {
+            // string literals of the contracts are only revert strings, imports start with a dot or @
+            for (const literal of fs.readFileSync(`contracts/${file}.sol`, 'utf-8').match(/"[A-Z][^"]*"/g) ?? []) {
+                reasons.add(literal.slice(1, -1));
+            }
+        }
+
+        expect(Array.from(reasons).sort()).be.deep.equal(Object.keys(REVERT_MESSAGES).sort());
+    });
+
+    it('should format amounts of schedules', async function () {
+        const schedule = await getSchedule(insidersVesting, user1.address);
+
+        const formatted = formatAmounts(schedule);
+        expect(formatted.tokensLocked).be.equal('4000.0');
+        expect(formatted.lockupEnd).be.equal(LOCKUP_END);
+        expect(formatAmounts({ amount: parseEther(1.5) }, 6).amount).be.equal('1500000000000.0');
+    });
+});
@@ -0,0 +1,222 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { artifacts, ethers, network } from 'hardhat';
+import { SuperproToken } from '../typechain';
+import { checkBytecode, ConformanceRow, getCloneImplementation } from '../utils/conformance';
+import { Deployment } from '../utils/deployments';
+
+describe('verify-deployment', function () {
+    let superproToken: SuperproToken;
+    let deployer: SignerWithAddress, user1: SignerWithAddress, user2: SignerWithAddress;
+    let start: number;
+    let directory: string;
+    let manifest: string;
+    let beneficiaries: string;
+
+    const TOKENS_TOTAL = parseEther(10_000);
+    let snapshot: any;
+
+    before(async function () {
+        [deployer, user1, user2] = await ethers.getSigners();
+        const superproTokenFactory = await ethers.getContractFactory('SuperproToken');
+        superproToken = await superproTokenFactory.deploy(TOKENS_TOTAL, 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    beforeEach(async function () {
+        start = (await ethers.provider.getBlock('latest')).timestamp + 86400;
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vesting-verify-'));
+        manifest = path.join(directory, 'hardhat.json');
+        beneficiaries = path.join(directory, 'beneficiaries.json');
+        fs.writeFileSync(
+            beneficiaries,
+            JSON.stringify([
+                { account: user1.address, tokenAmount: parseEther(4000).toString() },
+                { account: user2.address, tokenAmount: parseEther(6000).toString() },
+            ])
+        );
+    });
+
+    afterEach(async function () {
+        fs.rmdirSync(directory, { recursive: true });
+        // the task marks the process as failed on mismatch
+        process.exitCode = 0;
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    function parseEther(amount: number) {
+        return ethers.utils.parseEther(amount.toString());
+    }
+
+    function failures(rows: ConformanceRow[]) {
+        return rows.filter(({ result }) => result === 'FAIL').map(({ check }) => check);
+    }
+
+    function deployVesting(params = {}): Promise<Deployment> {
+        return hre.run('deploy-vesting', {
+            contract: 'Vesting',
+            token: superproToken.address,
+            start,
+            finish: start + 94694400,
+            fund: TOKENS_TOTAL.toString(),
+            manifest,
+            ...params,
+        });
+    }
+
+    function verifyDeployment(params = {}): Promise<ConformanceRow[]> {
+        return hre.run('verify-deployment', { manifest, ...params });
+    }
+
+    it('should pass Vesting deployed as recorded in the manifest', async function () {
+        await deployVesting();
+
+        const rows = await verifyDeployment({ name: 'Vesting' });
+
+        expect(failures(rows)).be.deep.equal([]);
+        expect(rows.map(({ check }) => check)).to.include.members([
+            'bytecode',
+            'owner',
+            'dao',
+            'token',
+            'vestingStart',
+            'vestingFinish',
+            'tokensLocked',
+        ]);
+        expect(process.exitCode).be.oneOf([undefined, 0]);
+    });
+
+    it('should check Vesting funded apart from deploy-vesting against its own total', async function () {
+        const deployment = await deployVesting({ fund: undefined, owner: user1.address });
+        await superproToken.transfer(deployment.address as string, TOKENS_TOTAL);
+        const vesting = await ethers.getContractAt('Vesting', deployment.address as string);
+        await vesting.connect(user1).initialize(superproToken.address, start, start + 94694400);
+
+        const rows = await verifyDeployment({ name: 'Vesting' });
+
+        expect(failures(rows)).be.deep.equal([]);
+        expect(rows.map(({ check }) => check).includes('tokensTotal')).be.equal(false);
+        expect(rows.find(({ check }) => check === 'balance')?.expected).be.equal(TOKENS_TOTAL.toString());
+    });
+
+    it('should report every mismatching value and fail the process', async function () {
+        const deployment = await deployVesting();
+
+        const rows = await verifyDeployment({
+            contract: deployment.address,
+            type: 'Vesting',
+            owner: user1.address,
+            token: superproToken.address,
+            start,
+            finish: start + 94694401,
+            total: TOKENS_TOTAL.toString(),
+        });
+
+        expect(failures(rows)).be.deep.equal(['owner', 'vestingFinish']);
+        expect(rows.find(({ check }) => check === 'owner')).be.deep.equal({
+            check: 'owner',
+            expected: user1.address,
+            actual: deployer.address,
+            result: 'FAIL',
+        });
+        expect(process.exitCode).be.equal(1);
+    });
+
+    it('should compare every beneficiary of InsidersVesting', async function () {
+        await deployVesting({ contract: 'InsidersVesting', finish: undefined, beneficiaries, lockupDuration: '30d', vestingDuration: '365d' });
+
+        expect(failures(await verifyDeployment({ name: 'InsidersVesting' }))).be.deep.equal([]);
+
+        fs.writeFileSync(
+            beneficiaries,
+            JSON.stringify([
+                { account: user1.address, tokenAmount: parseEther(5000).toString() },
+                { account: user2.address, tokenAmount: parseEther(5000).toString() },
+            ])
+        );
+        expect(failures(await verifyDeployment({ name: 'InsidersVesting' }))).be.deep.equal([user1.address, user2.address]);
+        expect(failures(await verifyDeployment({ name: 'InsidersVesting', lockupDuration: '90d' }))).to.include.members([
+            'VESTING_LOCKUP_DURATION',
+            'lockupEnd',
+            'vestingFinish',
+        ]);
+    });
+
+    it('should check VestingFactory pools against their implementation', async function () {
+        const pools = path.join(directory, 'pools.json');
+        fs.writeFileSync(
+            pools,
+            JSON.stringify({
+                token: superproToken.address,
+                pools: [
+                    {
+                        name: 'team',
+                        contract: 'Vesting',
+                        start: String(start),
+                        duration: '3y',
+                        curve: 'quarterly',
+                        tokenAmount: TOKENS_TOTAL.toString(),
+                    },
+                ],
+            })
+        );
+        await hre.run('create-pools', { pools, manifest });
+
+        const rows = await verifyDeployment({ name: 'team' });
+
+        expect(failures(rows)).be.deep.equal([]);
+        expect(rows[0].check).be.equal('implementation');
+    });
+
+    it('should compare beneficiaries of InsidersVesting pools relative to the pools file', async function () {
+        // the pools file is not in the working directory, its beneficiaries path is relative to it
+        const pools = path.join(directory, 'pools', 'pools.json');
+        fs.mkdirSync(path.dirname(pools));
+        fs.writeFileSync(
+            pools,
+            JSON.stringify({
+                token: superproToken.address,
+                pools: [{ name: 'insiders', contract: 'InsidersVesting', start: String(start), beneficiaries: '../beneficiaries.json' }],
+            })
+        );
+        await hre.run('create-pools', { pools, manifest });
+
+        const rows = await verifyDeployment({ name: 'insiders' });
+
+        expect(failures(rows)).be.deep.equal([]);
+        expect(rows.map(row => row.check)).to.include.members([user1.address, user2.address]);
+    });
+
+    it('should detect bytecode of another contract', async function () {
+        const deployment = await deployVesting();
+        const { deployedBytecode } = await artifacts.readArtifact('InsidersVesting');
+
+        const rows = await checkBytecode(ethers.provider, deployment.address as string, deployedBytecode);
+
+        expect(failures(rows)).be.deep.equal(['bytecode']);
+        expect(failures(await checkBytecode(ethers.provider, user1.address, deployedBytecode))).be.deep.equal(['bytecode']);
+    });
+
+    it('should parse implementation of EIP-1167 clone', function () {
+        const implementation = user1.address.toLowerCase().slice(2);
+
+        expect(getCloneImplementation(`0x363d3d373d3d3d363d73${implementation}5af43d82803e903d91602b57fd5bf3`)).be.equal(user1.address);
+        expect(getCloneImplementation(`0x363d3d373d3d3d363d73${implementation}5af43d82803e903d91602b57fd5bf300`)).be.equal(undefined);
+        expect(getCloneImplementation('0x')).be.equal(undefined);
+    });
+});
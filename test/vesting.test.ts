@@ -1,5 +1,6 @@
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { expect } from 'chai';
+import { ContractReceipt } from 'ethers';
 import { ethers, network } from 'hardhat';
 import { SuperproToken, Vesting } from '../typechain';
 
@@ -13,6 +14,7 @@ describe('Vesting', function () {
     const VESTING_DURATION = 94694400;
     const VESTING_FINISH = VESTING_START + VESTING_DURATION;
     const TOTAL_TOKENS = parseEther(190_000_000);
+    const ROLE_CHANGE_DELAY = 2 * ONE_DAY;
 
     let snapshot: any;
 
@@ -23,7 +25,7 @@ describe('Vesting', function () {
         await superproToken.deployed();
 
         const vestingFactory = await ethers.getContractFactory('Vesting');
-        vesting = await vestingFactory.deploy(admin.address);
+        vesting = await vestingFactory.deploy(admin.address, ROLE_CHANGE_DELAY);
         await vesting.deployed();
         snapshot = await network.provider.request({
             method: 'evm_snapshot',
@@ -62,6 +64,7 @@ describe('Vesting', function () {
 
         expect(await vesting.owner()).be.equal(admin.address);
         expect(await vesting.token()).be.equal(superproToken.address);
+        expect(await vesting.tokensTotal()).be.equal(TOTAL_TOKENS);
     });
 
     it('should forbid to initialize more than once', async function () {
@@ -85,14 +88,14 @@ describe('Vesting', function () {
 
     it('should forbid to claim if requested more than unlocked', async function () {
         await initializeDefault();
-        const tokensPerSec = await vesting.tokensPerSec();
+        const claimAmount = TOTAL_TOKENS.mul(1000).div(VESTING_FINISH - VESTING_START);
         await expect(vesting.connect(admin).calculateClaim()).be.reverted;
 
         setNextTimestamp(VESTING_START + 999);
-        await vesting.connect(admin).claim(admin.address, tokensPerSec.mul(1000));
+        await vesting.connect(admin).claim(admin.address, claimAmount);
 
         setNextTimestamp(VESTING_START + 1998);
-        await expect(vesting.connect(admin).claim(admin.address, tokensPerSec.mul(1000))).be.revertedWith('Requested more than unlocked');
+        await expect(vesting.connect(admin).claim(admin.address, claimAmount)).be.revertedWith('Requested more than unlocked');
     });
 
     it('should allow beneficiary to claim all after vesting finished', async function () {
@@ -123,19 +126,388 @@ describe('Vesting', function () {
         await vesting.connect(admin).claim(admin.address, TOTAL_TOKENS.div(4));
     });
 
-    it('should transfer authority to another account', async function () {
+    it('should pay several recipients in one batch claim', async function () {
         await initializeDefault();
+        const payouts = [
+            { to: deployer.address, amount: TOTAL_TOKENS.div(4) },
+            { to: impostor.address, amount: TOTAL_TOKENS.div(8) },
+        ];
+        await setNextTimestamp(VESTING_START + VESTING_DURATION / 2);
 
-        await expect(vesting.connect(deployer).transferAuthority(deployer.address)).be.revertedWith('Not allowed');
-        await vesting.connect(admin).transferAuthority(deployer.address);
-        expect(await vesting.owner()).be.equal(deployer.address);
+        const receipt: ContractReceipt = await (await vesting.connect(admin).claimBatch(payouts)).wait();
+
+        const claimed = receipt.events?.filter(x => x.event === 'TokensClaimed').map(x => [x.args?.from, x.args?.to, x.args?.amount]);
+        expect(claimed).be.deep.equal(payouts.map(({ to, amount }) => [admin.address, to, amount]));
+        expect(await superproToken.balanceOf(deployer.address)).be.equal(TOTAL_TOKENS.div(4));
+        expect(await superproToken.balanceOf(impostor.address)).be.equal(TOTAL_TOKENS.div(8));
+        expect(await vesting.tokensClaimed()).be.equal(TOTAL_TOKENS.mul(3).div(8));
+        expect(await vesting.tokensLocked()).be.equal(TOTAL_TOKENS.mul(5).div(8));
     });
 
-    it('should set DAO address as admin', async function () {
+    it('should revert batch claim above unlocked amount as a whole', async function () {
         await initializeDefault();
+        await setNextTimestamp(VESTING_START + VESTING_DURATION / 2);
+        const payouts = [
+            { to: deployer.address, amount: TOTAL_TOKENS.div(4) },
+            { to: impostor.address, amount: TOTAL_TOKENS.div(4).add(parseEther(1000)) },
+        ];
+
+        await expect(vesting.connect(admin).claimBatch(payouts)).be.revertedWith('Requested more than unlocked');
+        await expect(vesting.connect(admin).claimBatch([])).be.revertedWith('No payouts');
+        await expect(vesting.connect(impostor).claimBatch(payouts.slice(0, 1))).be.revertedWith('Not allowed');
+        expect(await vesting.tokensClaimed()).be.equal(0);
+        expect(await superproToken.balanceOf(deployer.address)).be.equal(0);
+    });
+
+    describe('role changes', function () {
+        const OWNER = 0;
+        const DAO = 1;
+
+        async function acceptAfterDelay(account: SignerWithAddress, role: number) {
+            const { validAfter } = await vesting.roleChanges(role);
+            // setNextTimestamp mines a block, so the rejected transaction gets validAfter - 1
+            await setNextTimestamp(validAfter.toNumber() - 2);
+            await expect(vesting.connect(account).acceptRoleChange(role)).be.revertedWith('Role change is not valid yet');
+            return vesting.connect(account).acceptRoleChange(role);
+        }
+
+        it('should transfer authority when the new owner accepts it after the delay', async function () {
+            await initializeDefault();
+            const receipt: ContractReceipt = await (await vesting.connect(admin).proposeRoleChange(OWNER, deployer.address)).wait();
+            const { timestamp } = await ethers.provider.getBlock(receipt.blockNumber);
+            const proposed: any = receipt.events?.find(x => x.event === 'RoleChangeProposed');
+            expect([proposed.args.role, proposed.args.account, proposed.args.proposer]).be.deep.equal([OWNER, deployer.address, admin.address]);
+            expect(proposed.args.validAfter).be.equal(timestamp + ROLE_CHANGE_DELAY);
+            expect(await vesting.owner()).be.equal(admin.address);
+            await expect(vesting.connect(impostor).acceptRoleChange(OWNER)).be.revertedWith('Not proposed account');
+
+            const changed: any = (await (await acceptAfterDelay(deployer, OWNER)).wait()).events?.find(x => x.event === 'RoleChanged');
+            expect([changed.args.role, changed.args.previousAccount, changed.args.account]).be.deep.equal([OWNER, admin.address, deployer.address]);
+            expect(await vesting.owner()).be.equal(deployer.address);
+            expect((await vesting.roleChanges(OWNER)).account).be.equal(ethers.constants.AddressZero);
+            await expect(vesting.connect(admin).claim(admin.address, 1)).be.revertedWith('Not allowed');
+        });
+
+        it('should set DAO address in two steps', async function () {
+            await initializeDefault();
+            await vesting.connect(admin).proposeRoleChange(DAO, dao.address);
+            const changed: any = (await (await acceptAfterDelay(dao, DAO)).wait()).events?.find(x => x.event === 'RoleChanged');
+            expect([changed.args.role, changed.args.previousAccount, changed.args.account]).be.deep.equal([
+                DAO,
+                ethers.constants.AddressZero,
+                dao.address,
+            ]);
+
+            expect(await vesting.dao()).be.equal(dao.address);
+            expect(await vesting.owner()).be.equal(admin.address);
+        });
+
+        it('should let the owner cancel replacement proposed with the DAO key', async function () {
+            await vesting.connect(admin).proposeRoleChange(DAO, dao.address);
+            await acceptAfterDelay(dao, DAO);
+
+            await vesting.connect(dao).proposeRoleChange(DAO, impostor.address);
+            const receipt: ContractReceipt = await (await vesting.connect(admin).cancelRoleChange(DAO)).wait();
+            const cancelled: any = receipt.events?.find(x => x.event === 'RoleChangeCancelled');
+            expect([cancelled.args.role, cancelled.args.account, cancelled.args.canceller]).be.deep.equal([DAO, impostor.address, admin.address]);
+            await setNextTimestamp((await ethers.provider.getBlock('latest')).timestamp + ROLE_CHANGE_DELAY);
+            await expect(vesting.connect(impostor).acceptRoleChange(DAO)).be.revertedWith('Role change is not proposed');
+            expect(await vesting.dao()).be.equal(dao.address);
+        });
+
+        it('should let every role propose only its own successor', async function () {
+            await expect(vesting.connect(impostor).proposeRoleChange(DAO, impostor.address)).be.revertedWith('Not allowed to propose the role');
+            await vesting.connect(admin).proposeRoleChange(DAO, dao.address);
+            await acceptAfterDelay(dao, DAO);
+
+            await expect(vesting.connect(dao).proposeRoleChange(OWNER, impostor.address)).be.revertedWith('Not allowed to propose the role');
+            await expect(vesting.connect(admin).proposeRoleChange(DAO, impostor.address)).be.revertedWith('Not allowed to propose the role');
+            await vesting.connect(dao).proposeRoleChange(DAO, deployer.address);
+            await acceptAfterDelay(deployer, DAO);
+            expect(await vesting.dao()).be.equal(deployer.address);
+        });
+
+        it('should refuse role change delay shorter than the minimum', async function () {
+            const factory = await ethers.getContractFactory('Vesting');
+            await expect(factory.deploy(admin.address, 0)).be.revertedWith('Role change delay is too short');
+            await expect(factory.deploy(admin.address, ONE_DAY - 1)).be.revertedWith('Role change delay is too short');
+            expect(await (await factory.deploy(admin.address, ONE_DAY)).roleChangeDelay()).be.equal(ONE_DAY);
+        });
+
+        it('should forbid proposals by others, to zero address and over a pending one', async function () {
+            await expect(vesting.connect(impostor).proposeRoleChange(OWNER, impostor.address)).be.revertedWith('Not allowed to propose the role');
+            await expect(vesting.connect(admin).proposeRoleChange(OWNER, ethers.constants.AddressZero)).be.revertedWith('Zero address');
+            await expect(vesting.connect(admin).cancelRoleChange(DAO)).be.revertedWith('Role change is not proposed');
+
+            await vesting.connect(admin).proposeRoleChange(OWNER, deployer.address);
+            await expect(vesting.connect(admin).proposeRoleChange(OWNER, dao.address)).be.revertedWith('Role change is already proposed');
+            await expect(vesting.connect(impostor).cancelRoleChange(OWNER)).be.revertedWith('Not allowed');
+        });
+    });
+
+    describe('pause', function () {
+        const MAX_PAUSE_DURATION = 30 * ONE_DAY;
+        const PAUSE_COOLDOWN = 7 * ONE_DAY;
+
+        // guardian takes the role in two steps like the owner and DAO, with the same delay
+        async function initializeWithGuardian() {
+            await initializeDefault();
+            await vesting.connect(admin).proposeGuardian(dao.address);
+            const { validAfter } = await vesting.guardianChange();
+            await setNextTimestamp(validAfter.toNumber());
+            await vesting.connect(dao).acceptGuardian();
+        }
+
+        it('should set guardian by guardian change', async function () {
+            await initializeWithGuardian();
+
+            expect(await vesting.guardian()).be.equal(dao.address);
+            expect(await vesting.dao()).be.equal(ethers.constants.AddressZero);
+            expect(await vesting.paused()).be.equal(false);
+        });
+
+        it('should propose and cancel guardian changes by the owner or DAO only', async function () {
+            await expect(vesting.connect(impostor).proposeGuardian(impostor.address)).be.revertedWith('Not allowed to set guardian');
+            await expect(vesting.connect(admin).proposeGuardian(ethers.constants.AddressZero)).be.revertedWith('Zero address');
+            const receipt: ContractReceipt = await (await vesting.connect(admin).proposeGuardian(impostor.address)).wait();
+            const { timestamp } = await ethers.provider.getBlock(receipt.blockNumber);
+            expect((await vesting.guardianChange()).validAfter).be.equal(timestamp + (await vesting.roleChangeDelay()).toNumber());
+            expect(await vesting.guardianChangeDelay()).be.equal(await vesting.roleChangeDelay());
+            await expect(vesting.connect(admin).proposeGuardian(dao.address)).be.revertedWith('Guardian change is already proposed');
+            await expect(vesting.connect(dao).acceptGuardian()).be.revertedWith('Not proposed account');
+            await expect(vesting.connect(impostor).cancelGuardianChange()).be.revertedWith('Not allowed to set guardian');
+
+            const cancelled: any = (await (await vesting.connect(admin).cancelGuardianChange()).wait()).events?.find(
+                (x: any) => x.event === 'GuardianChangeCancelled'
+            );
+            expect([cancelled.args.account, cancelled.args.canceller]).be.deep.equal([impostor.address, admin.address]);
+            await expect(vesting.connect(impostor).acceptGuardian()).be.revertedWith('Guardian change is not proposed');
+            await expect(vesting.connect(admin).cancelGuardianChange()).be.revertedWith('Guardian change is not proposed');
+        });
+
+        it('should forbid claims while paused and keep unlocking tokens', async function () {
+            await initializeWithGuardian();
+            await setNextTimestamp(VESTING_START + 10 * ONE_DAY);
+            const receipt: ContractReceipt = await (await vesting.connect(dao).pause(10 * ONE_DAY)).wait();
+            const { timestamp } = await ethers.provider.getBlock(receipt.blockNumber);
+            const paused: any = receipt.events?.find(x => x.event === 'Paused');
+            expect([paused.args.guardian, paused.args.pausedUntil.toNumber()]).be.deep.equal([dao.address, timestamp + 10 * ONE_DAY]);
+            expect(await vesting.paused()).be.equal(true);
+
+            await setNextTimestamp(timestamp + 5 * ONE_DAY);
+            await expect(vesting.connect(admin).claim(admin.address, 1)).be.revertedWith('Paused');
+
+            // the schedule is not shifted, everything unlocked during the pause is claimable after it
+            await setNextTimestamp(VESTING_FINISH);
+            expect(await vesting.paused()).be.equal(false);
+            await vesting.connect(admin).claim(admin.address, TOTAL_TOKENS);
+            expect(await superproToken.balanceOf(admin.address)).be.equal(TOTAL_TOKENS);
+        });
+
+        it('should let only the guardian pause for limited duration and unpause', async function () {
+            await initializeWithGuardian();
+            await expect(vesting.connect(admin).pause(ONE_DAY)).be.revertedWith('Not guardian');
+            await expect(vesting.connect(dao).pause(0)).be.revertedWith('Invalid pause duration');
+            await expect(vesting.connect(dao).pause(MAX_PAUSE_DURATION + 1)).be.revertedWith('Invalid pause duration');
+            await expect(vesting.connect(dao).unpause()).be.revertedWith('Not paused');
+
+            await vesting.connect(dao).pause(MAX_PAUSE_DURATION);
+            await expect(vesting.connect(dao).pause(ONE_DAY)).be.revertedWith('Pause is not available yet');
+            await expect(vesting.connect(admin).unpause()).be.revertedWith('Not guardian');
+            const receipt: ContractReceipt = await (await vesting.connect(dao).unpause()).wait();
+            expect(receipt.events?.find(x => x.event === 'Unpaused')).not.be.equal(undefined);
+            expect(await vesting.paused()).be.equal(false);
+        });
+
+        it('should allow the next pause only after the cooldown', async function () {
+            await initializeWithGuardian();
+            await vesting.connect(dao).pause(ONE_DAY);
+            const pausedUntil = (await vesting.pausedUntil()).toNumber();
 
-        await expect(vesting.connect(deployer).setDaoAddress(deployer.address)).be.revertedWith('Not allowed');
-        await vesting.connect(admin).setDaoAddress(dao.address);
-        expect(await vesting.dao()).be.equal(dao.address);
+            // setNextTimestamp mines a block, so the rejected transaction gets the timestamp before the cooldown end
+            await setNextTimestamp(pausedUntil + PAUSE_COOLDOWN - 2);
+            await expect(vesting.connect(dao).pause(ONE_DAY)).be.revertedWith('Pause is not available yet');
+            await vesting.connect(dao).pause(ONE_DAY);
+            expect(await vesting.paused()).be.equal(true);
+        });
+
+        it('should limit total duration of pauses', async function () {
+            await initializeWithGuardian();
+            for (let i = 0; i < 3; i++) {
+                await vesting.connect(dao).pause(MAX_PAUSE_DURATION);
+                await setNextTimestamp((await vesting.pausedUntil()).toNumber() + PAUSE_COOLDOWN);
+            }
+            expect(await vesting.pausedTotal()).be.equal(await vesting.MAX_TOTAL_PAUSE_DURATION());
+            await expect(vesting.connect(dao).pause(1)).be.revertedWith('Pause limit is exceeded');
+        });
+
+        it('should give back the rest of the pause ended early', async function () {
+            await initializeWithGuardian();
+            await vesting.connect(dao).pause(MAX_PAUSE_DURATION);
+            const pausedUntil = (await vesting.pausedUntil()).toNumber();
+            await setNextTimestamp(pausedUntil - 20 * ONE_DAY - 1);
+            await vesting.connect(dao).unpause();
+
+            expect(await vesting.pausedTotal()).be.equal(10 * ONE_DAY);
+        });
+    });
+
+    describe('surplus', function () {
+        // half of the supply is left for top-ups
+        async function initializeHalf() {
+            await superproToken.transfer(vesting.address, TOTAL_TOKENS.div(2));
+            await vesting.connect(admin).initialize(superproToken.address, VESTING_START, VESTING_FINISH);
+        }
+
+        it('should keep unlocked tokens and spread top-up over the time left', async function () {
+            await initializeHalf();
+            const topUpAt = VESTING_START + VESTING_DURATION / 4;
+            await setNextTimestamp(topUpAt - 10);
+            await vesting.connect(admin).claim(admin.address, parseEther(1000));
+            await superproToken.transfer(vesting.address, TOTAL_TOKENS.div(2));
+            expect(await vesting.surplus()).be.equal(TOTAL_TOKENS.div(2));
+
+            await network.provider.send('evm_setNextBlockTimestamp', [topUpAt]);
+            const receipt: ContractReceipt = await (await vesting.connect(admin).topUp()).wait();
+            const event: any = receipt.events?.find(x => x.event === 'TokensToppedUp');
+            expect([event.args.sender, event.args.amount]).be.deep.equal([admin.address, TOTAL_TOKENS.div(2)]);
+
+            const unlocked = TOTAL_TOKENS.div(2).div(4);
+            expect(await vesting.unlockedAtTopUp()).be.equal(unlocked);
+            expect(await vesting.calculateClaim()).be.equal(unlocked.sub(parseEther(1000)));
+            expect(await vesting.tokensTotal()).be.equal(TOTAL_TOKENS);
+            expect(await vesting.surplus()).be.equal(0);
+
+            // the rest of the total unlocks evenly till the finish, faster than before the top-up
+            await setNextTimestamp(topUpAt + (VESTING_FINISH - topUpAt) / 2);
+            expect(await vesting.calculateClaim()).be.equal(TOTAL_TOKENS.sub(unlocked).div(2).add(unlocked).sub(parseEther(1000)));
+            await setNextTimestamp(VESTING_FINISH);
+            await vesting.connect(admin).claim(admin.address, TOTAL_TOKENS.sub(parseEther(1000)));
+            expect(await superproToken.balanceOf(admin.address)).be.equal(TOTAL_TOKENS);
+        });
+
+        it('should forbid top-up without surplus, after finish and by others', async function () {
+            await expect(vesting.connect(admin).topUp()).be.revertedWith('Not initialized');
+            await initializeHalf();
+            await expect(vesting.connect(admin).topUp()).be.revertedWith('No surplus');
+            await superproToken.transfer(vesting.address, parseEther(1));
+            await expect(vesting.connect(impostor).topUp()).be.revertedWith('Not allowed');
+
+            await setNextTimestamp(VESTING_FINISH);
+            await expect(vesting.connect(admin).topUp()).be.revertedWith('Vesting is finished');
+        });
+
+        it('should rescue other tokens and surplus of the vesting token only', async function () {
+            const otherToken = await (await ethers.getContractFactory('SuperproToken')).deploy(parseEther(5), 'OTH', 'Other Token');
+            await otherToken.transfer(vesting.address, parseEther(5));
+            await expect(vesting.connect(admin).rescueTokens(superproToken.address, admin.address, 1)).be.revertedWith('Not initialized');
+            await expect(vesting.connect(admin).rescueTokens(otherToken.address, admin.address, 1)).be.revertedWith('Not initialized');
+            await initializeHalf();
+            await superproToken.transfer(vesting.address, parseEther(3));
+
+            await expect(vesting.connect(impostor).rescueTokens(otherToken.address, impostor.address, 1)).be.revertedWith('Not allowed');
+            await expect(vesting.connect(admin).rescueTokens(superproToken.address, admin.address, parseEther(3).add(1))).be.revertedWith(
+                'Amount exceeds surplus'
+            );
+            const receipt: ContractReceipt = await (
+                await vesting.connect(admin).rescueTokens(otherToken.address, admin.address, parseEther(5))
+            ).wait();
+            const event: any = receipt.events?.find(x => x.event === 'TokensRescued');
+            expect([event.args.token, event.args.to, event.args.amount]).be.deep.equal([otherToken.address, admin.address, parseEther(5)]);
+            await vesting.connect(admin).rescueTokens(superproToken.address, dao.address, parseEther(3));
+
+            expect(await otherToken.balanceOf(admin.address)).be.equal(parseEther(5));
+            expect(await superproToken.balanceOf(dao.address)).be.equal(parseEther(3));
+            await setNextTimestamp(VESTING_FINISH);
+            await vesting.connect(admin).claim(admin.address, TOTAL_TOKENS.div(2));
+        });
+    });
+
+    describe('curves', function () {
+        const MONTH = 2629746;
+
+        async function initializeCurve(finish: number, cliff: number, step: number) {
+            await superproToken.transfer(vesting.address, TOTAL_TOKENS);
+            await vesting.connect(admin).initializeWithCurve(superproToken.address, VESTING_START, finish, cliff, step);
+        }
+
+        async function claimableAt(timestamp: number) {
+            await setNextTimestamp(timestamp);
+            return vesting.calculateClaim();
+        }
+
+        // exact share of all tokens for `elapsed` seconds of vesting until `finish`
+        function unlocked(elapsed: number, finish: number) {
+            return TOTAL_TOKENS.mul(elapsed).div(finish - VESTING_START);
+        }
+
+        it('should unlock monthly tranches on each boundary', async function () {
+            const finish = VESTING_START + 12 * MONTH;
+            await initializeCurve(finish, 0, MONTH);
+
+            for (let month = 1; month < 12; month++) {
+                const boundary = VESTING_START + month * MONTH;
+                expect(await claimableAt(boundary - 1)).be.equal(unlocked((month - 1) * MONTH, finish));
+                expect(await claimableAt(boundary)).be.equal(unlocked(month * MONTH, finish));
+            }
+            expect(await claimableAt(finish - 1)).be.equal(unlocked(11 * MONTH, finish));
+            expect(await claimableAt(finish)).be.equal(TOTAL_TOKENS);
+        });
+
+        it('should unlock nothing before the cliff and the accrued amount at it', async function () {
+            const cliff = VESTING_START + 6 * MONTH;
+            await initializeCurve(VESTING_FINISH, cliff, 0);
+            expect(await claimableAt(VESTING_START + 1000)).be.equal(0);
+            expect(await claimableAt(cliff - 1)).be.equal(0);
+            expect(await claimableAt(cliff)).be.equal(unlocked(6 * MONTH, VESTING_FINISH));
+            expect(await claimableAt(cliff + 1)).be.equal(unlocked(6 * MONTH + 1, VESTING_FINISH));
+            expect(await claimableAt(VESTING_FINISH)).be.equal(TOTAL_TOKENS);
+        });
+
+        it('should combine the cliff with quarterly tranches and unlock the rest at finish', async function () {
+            const quarter = 3 * MONTH;
+            const cliff = VESTING_START + 4 * MONTH;
+            const finish = VESTING_START + 10 * MONTH;
+            await initializeCurve(finish, cliff, quarter);
+            const tranches = (count: number) => unlocked(count * quarter, finish);
+
+            expect(await claimableAt(cliff - 1)).be.equal(0);
+            // the first quarter has passed by the cliff
+            expect(await claimableAt(cliff)).be.equal(tranches(1));
+            expect(await claimableAt(VESTING_START + 2 * quarter - 1)).be.equal(tranches(1));
+            expect(await claimableAt(VESTING_START + 2 * quarter)).be.equal(tranches(2));
+            expect(await claimableAt(VESTING_START + 3 * quarter)).be.equal(tranches(3));
+            expect(await claimableAt(finish - 1)).be.equal(tranches(3));
+            expect(await claimableAt(finish)).be.equal(TOTAL_TOKENS);
+
+            await vesting.connect(admin).claim(admin.address, TOTAL_TOKENS);
+            expect(await vesting.tokensLocked()).be.equal(0);
+        });
+
+        it('should claim only unlocked tranches', async function () {
+            const finish = VESTING_START + 12 * MONTH;
+            await initializeCurve(finish, 0, MONTH);
+
+            await setNextTimestamp(VESTING_START + MONTH);
+            await vesting.connect(admin).claim(admin.address, unlocked(MONTH, finish));
+            await expect(vesting.connect(admin).claim(admin.address, 1)).be.revertedWith('Requested more than unlocked');
+            expect(await claimableAt(VESTING_START + 2 * MONTH - 1)).be.equal(0);
+            expect(await claimableAt(VESTING_START + 2 * MONTH)).be.equal(unlocked(2 * MONTH, finish).sub(unlocked(MONTH, finish)));
+        });
+
+        it('should revert initialize with cliff or step outside of vesting', async function () {
+            await expect(
+                vesting.connect(admin).initializeWithCurve(superproToken.address, VESTING_START, VESTING_FINISH, VESTING_START - 1, 0)
+            ).be.revertedWith('Cliff should be between start and finish');
+            await expect(
+                vesting.connect(admin).initializeWithCurve(superproToken.address, VESTING_START, VESTING_FINISH, VESTING_FINISH + 1, 0)
+            ).be.revertedWith('Cliff should be between start and finish');
+            await expect(
+                vesting.connect(admin).initializeWithCurve(superproToken.address, VESTING_START, VESTING_START + MONTH, 0, MONTH + 1)
+            ).be.revertedWith('Step should not be longer than vesting');
+            await expect(
+                vesting.connect(impostor).initializeWithCurve(superproToken.address, VESTING_START, VESTING_FINISH, 0, MONTH)
+            ).be.revertedWith('Not allowed');
+        });
     });
 });
@@ -0,0 +1,356 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers, network } from 'hardhat';
+import { InsidersVesting, SuperproToken, Vesting, VestingFactory } from '../typechain';
+import { Deployment, readManifest } from '../utils/deployments';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION, VESTING_CURVES } from '../utils/schedule';
+
+describe('VestingFactory', function () {
+    let superproToken: SuperproToken;
+    let factory: VestingFactory;
+    let vestingImplementation: Vesting;
+    let insidersImplementation: InsidersVesting;
+    let deployer: SignerWithAddress, owner: SignerWithAddress, user1: SignerWithAddress, user2: SignerWithAddress;
+    let start: number;
+    let directory: string;
+    let manifest: string;
+
+    const TOKENS_TOTAL = parseEther(10_000);
+    const VESTING_DURATION = 94694400;
+    let snapshot: any;
+
+    before(async function () {
+        [deployer, owner, user1, user2] = await ethers.getSigners();
+        const superproTokenFactory = await ethers.getContractFactory('SuperproToken');
+        superproToken = await superproTokenFactory.deploy(TOKENS_TOTAL, 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+        vestingImplementation = await (await ethers.getContractFactory('Vesting')).deploy(deployer.address, 86400);
+        insidersImplementation = await (await ethers.getContractFactory('InsidersVesting')).deploy(deployer.address, 0, 1);
+        const vestingFactoryFactory = await ethers.getContractFactory('VestingFactory');
+        factory = await vestingFactoryFactory.deploy(vestingImplementation.address, insidersImplementation.address);
+        await factory.deployed();
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    beforeEach(async function () {
+        start = (await ethers.provider.getBlock('latest')).timestamp + 86400;
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vesting-pools-'));
+        manifest = path.join(directory, 'hardhat.json');
+    });
+
+    afterEach(async function () {
+        fs.rmdirSync(directory, { recursive: true });
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    function parseEther(amount: number) {
+        return ethers.utils.parseEther(amount.toString());
+    }
+
+    function vestingPool(params = {}) {
+        return {
+            owner: owner.address,
+            roleChangeDelay: 86400,
+            token: superproToken.address,
+            tokenAmount: parseEther(1000),
+            vestingStart: start,
+            vestingFinish: start + VESTING_DURATION,
+            vestingCliff: 0,
+            stepDuration: 0,
+            ...params,
+        };
+    }
+
+    function insidersPool(params = {}) {
+        return {
+            owner: owner.address,
+            lockupDuration: 30 * 86400,
+            vestingDuration: 365 * 86400,
+            token: superproToken.address,
+            vestingStart: start,
+            beneficiaries: [
+                { account: user1.address, tokenAmount: parseEther(400) },
+                { account: user2.address, tokenAmount: parseEther(600) },
+            ],
+            ...params,
+        };
+    }
+
+    async function createdPool(tx: Promise<any>) {
+        const receipt = await (await tx).wait();
+        const event = receipt.events?.find((x: any) => x.event === 'PoolCreated');
+        return { receipt, event, pool: event?.args?.pool as string };
+    }
+
+    it('should create funded and initialized Vesting pool in one transaction', async function () {
+        await superproToken.approve(factory.address, parseEther(1000));
+        const cliff = start + 180 * 86400;
+        const { event, pool } = await createdPool(
+            factory.createVesting('team', vestingPool({ vestingCliff: cliff, stepDuration: VESTING_CURVES.monthly }))
+        );
+
+        expect(event?.args?.name).to.be.equal('team');
+        expect(event?.args?.implementation).to.be.equal(vestingImplementation.address);
+        expect(event?.args?.owner).to.be.equal(owner.address);
+        expect(event?.args?.token).to.be.equal(superproToken.address);
+        expect(event?.args?.tokenAmount).to.be.equal(parseEther(1000));
+        expect(await factory.isPool(pool)).to.be.equal(true);
+
+        const vesting = await ethers.getContractAt('Vesting', pool);
+        expect(await vesting.owner()).to.be.equal(owner.address);
+        expect(await vesting.roleChangeDelay()).to.be.equal(86400);
+        expect(await vesting.initialized()).to.be.equal(true);
+        expect(await vesting.token()).to.be.equal(superproToken.address);
+        expect(await vesting.tokensTotal()).to.be.equal(parseEther(1000));
+        expect(await vesting.vestingStart()).to.be.equal(start);
+        expect(await vesting.vestingFinish()).to.be.equal(start + VESTING_DURATION);
+        expect(await vesting.vestingCliff()).to.be.equal(cliff);
+        expect(await vesting.stepDuration()).to.be.equal(VESTING_CURVES.monthly);
+        expect(await superproToken.balanceOf(pool)).to.be.equal(parseEther(1000));
+    });
+
+    it('should create funded and initialized InsidersVesting pool in one transaction', async function () {
+        await superproToken.approve(factory.address, parseEther(1000));
+        const { event, pool } = await createdPool(factory.createInsidersVesting('seed', insidersPool()));
+
+        expect(event?.args?.implementation).to.be.equal(insidersImplementation.address);
+        expect(event?.args?.tokenAmount).to.be.equal(parseEther(1000));
+
+        const vesting = await ethers.getContractAt('InsidersVesting', pool);
+        expect(await vesting.owner()).to.be.equal(owner.address);
+        expect(await vesting.initialized()).to.be.equal(true);
+        expect(await vesting.VESTING_LOCKUP_DURATION()).to.be.equal(30 * 86400);
+        expect(await vesting.VESTING_DURATION()).to.be.equal(365 * 86400);
+        expect(await vesting.lockupEnd()).to.be.equal(start + 30 * 86400);
+        expect(await vesting.vestingFinish()).to.be.equal(start + 395 * 86400);
+        expect((await vesting.getBeneficiaryInfo(user2.address)).tokensLocked).to.be.equal(parseEther(600));
+        expect(await superproToken.balanceOf(pool)).to.be.equal(parseEther(1000));
+    });
+
+    it('should keep pools independent of each other and of the implementation', async function () {
+        await superproToken.approve(factory.address, parseEther(3000));
+        const first = await createdPool(factory.createVesting('first', vestingPool()));
+        const second = await createdPool(factory.createVesting('second', vestingPool({ owner: user1.address, tokenAmount: parseEther(2000) })));
+
+        expect(first.pool).to.not.be.equal(second.pool);
+        expect(await (await ethers.getContractAt('Vesting', first.pool)).tokensTotal()).to.be.equal(parseEther(1000));
+        expect(await (await ethers.getContractAt('Vesting', second.pool)).owner()).to.be.equal(user1.address);
+        expect(await vestingImplementation.owner()).to.be.equal(deployer.address);
+        expect(await vestingImplementation.initialized()).to.be.equal(false);
+    });
+
+    it('should not set up pools and implementations twice', async function () {
+        await superproToken.approve(factory.address, parseEther(2000));
+        const vesting = await ethers.getContractAt('Vesting', (await createdPool(factory.createVesting('team', vestingPool()))).pool);
+        const insiders = await ethers.getContractAt(
+            'InsidersVesting',
+            (
+                await createdPool(factory.createInsidersVesting('seed', insidersPool()))
+            ).pool
+        );
+        const { beneficiaries } = insidersPool();
+
+        await expect(vesting.connect(user1).initializeClone(user1.address, 0, superproToken.address, start, start + 1000, 0, 0)).to.be.revertedWith(
+            'Already set up'
+        );
+        await expect(insiders.connect(user1).initializeClone(user1.address, 0, 1, superproToken.address, beneficiaries, start)).to.be.revertedWith(
+            'Already set up'
+        );
+        await expect(
+            vestingImplementation.connect(user1).initializeClone(user1.address, 0, superproToken.address, start, start + 1000, 0, 0)
+        ).to.be.revertedWith('Already set up');
+        await expect(
+            insidersImplementation.connect(user1).initializeClone(user1.address, 0, 1, superproToken.address, beneficiaries, start)
+        ).to.be.revertedWith('Already set up');
+    });
+
+    it('should revert pool creation as a whole', async function () {
+        await superproToken.approve(factory.address, parseEther(1000));
+
+        await expect(factory.createVesting('empty', vestingPool({ tokenAmount: 0 }))).to.be.revertedWith('Zero token amount');
+        await expect(factory.createVesting('past', vestingPool({ vestingStart: start - 86400 * 2 }))).to.be.revertedWith(
+            'Lock start should be in the future'
+        );
+        await expect(factory.createVesting('cliff', vestingPool({ vestingCliff: start - 1 }))).to.be.revertedWith(
+            'Cliff should be between start and finish'
+        );
+        await expect(factory.createVesting('owner', vestingPool({ owner: ethers.constants.AddressZero }))).to.be.revertedWith('Zero address');
+        await expect(factory.createVesting('instant', vestingPool({ roleChangeDelay: 86399 }))).to.be.revertedWith('Role change delay is too short');
+        await expect(factory.createInsidersVesting('nobody', insidersPool({ beneficiaries: [] }))).to.be.revertedWith('Zero token amount');
+        await expect(factory.connect(user1).createVesting('unfunded', vestingPool())).to.be.revertedWith('ERC20: insufficient allowance');
+        expect(await superproToken.balanceOf(deployer.address)).to.be.equal(TOKENS_TOTAL);
+    });
+
+    it('should create pools cheaper than deploying and initializing contracts', async function () {
+        await superproToken.approve(factory.address, parseEther(1000));
+        const { receipt } = await createdPool(factory.createVesting('team', vestingPool()));
+
+        const vesting = await (await ethers.getContractFactory('Vesting')).deploy(deployer.address, 86400);
+        const deployed = await vesting.deployTransaction.wait();
+        await (await superproToken.transfer(vesting.address, parseEther(1000))).wait();
+        const initialized = await (await vesting.initialize(superproToken.address, start, start + VESTING_DURATION)).wait();
+
+        expect(receipt.gasUsed.lt(deployed.gasUsed.add(initialized.gasUsed).div(2))).to.be.equal(true);
+    });
+
+    describe('create-pools', function () {
+        function writePools(content: string) {
+            const filename = path.join(directory, 'pools.yaml');
+            fs.writeFileSync(filename, content);
+            return filename;
+        }
+
+        function createPools(pools: string, params = {}): Promise<Deployment[]> {
+            return hre.run('create-pools', { pools, manifest, ...params });
+        }
+
+        it('should create pools of YAML file and record them in the manifest', async function () {
+            fs.writeFileSync(
+                path.join(directory, 'seed.json'),
+                JSON.stringify([
+                    { account: user1.address, tokenAmount: parseEther(400).toString() },
+                    { account: user2.address, tokenAmount: parseEther(600).toString() },
+                ])
+            );
+            const pools = writePools(
+                [
+                    `token: '${superproToken.address}'`,
+                    `owner: '${owner.address}'`,
+                    'pools:',
+                    '  - name: team',
+                    '    contract: Vesting',
+                    `    start: ${start}`,
+                    '    duration: 3y',
+                    '    curve: monthly',
+                    '    cliff: 6mo',
+                    `    tokenAmount: '${parseEther(2000)}'`,
+                    '  - name: seed',
+                    '    contract: InsidersVesting',
+                    `    start: ${start}`,
+                    '    beneficiaries: seed.json',
+                    '    lockupDuration: 30d',
+                ].join('\n')
+            );
+
+            const [team, seed] = await createPools(pools);
+
+            const saved = readManifest(manifest);
+            expect(saved.VestingFactory.steps.deploy?.block).to.be.a('number');
+            expect(saved.team).to.be.deep.equal(team);
+            expect(saved.seed).to.be.deep.equal(seed);
+            expect(team.factory).to.be.equal(saved.VestingFactory.address);
+            expect(team.steps.approve?.block).to.be.a('number');
+            expect(team.steps.create?.block).to.be.a('number');
+            expect(seed.parameters.beneficiaries).to.be.equal(path.join(directory, 'seed.json'));
+
+            const vesting = await ethers.getContractAt('Vesting', team.address as string);
+            expect(await vesting.owner()).to.be.equal(owner.address);
+            expect(await vesting.tokensTotal()).to.be.equal(parseEther(2000));
+            expect(await vesting.stepDuration()).to.be.equal(VESTING_CURVES.monthly);
+            expect(await vesting.vestingCliff()).to.be.equal(team.parameters.vestingCliff);
+            expect(await vesting.vestingFinish()).to.be.equal(team.parameters.vestingFinish);
+
+            const insiders = await ethers.getContractAt('InsidersVesting', seed.address as string);
+            expect(await insiders.VESTING_LOCKUP_DURATION()).to.be.equal(30 * 86400);
+            expect(await insiders.VESTING_DURATION()).to.be.equal(INSIDERS_VESTING_DURATION);
+            expect(await superproToken.balanceOf(insiders.address)).to.be.equal(parseEther(1000));
+
+            const factoryDeployment = await ethers.getContractAt('VestingFactory', saved.VestingFactory.address as string);
+            expect(await factoryDeployment.vestingImplementation()).to.be.equal(saved.VestingImplementation.address);
+            expect(saved.InsidersVestingImplementation.constructorArgs).to.be.deep.equal([
+                deployer.address,
+                INSIDERS_LOCKUP_DURATION,
+                INSIDERS_VESTING_DURATION,
+            ]);
+        });
+
+        it('should not create pools twice on rerun', async function () {
+            const pools = writePools(
+                [
+                    'pools:',
+                    '  - name: team',
+                    '    contract: Vesting',
+                    `    token: '${superproToken.address}'`,
+                    `    start: ${start}`,
+                    `    finish: ${start + VESTING_DURATION}`,
+                    `    tokenAmount: '${parseEther(1000)}'`,
+                ].join('\n')
+            );
+
+            const [first] = await createPools(pools, { factory: factory.address });
+            const [second] = await createPools(pools, { factory: factory.address });
+
+            expect(second.address).to.be.equal(first.address);
+            expect(second.steps).to.be.deep.equal(first.steps);
+            expect(await superproToken.balanceOf(deployer.address)).to.be.equal(TOKENS_TOTAL.sub(parseEther(1000)));
+            expect(await (await ethers.getContractAt('Vesting', first.address as string)).owner()).to.be.equal(deployer.address);
+        });
+
+        it('should check every pool before sending transactions', async function () {
+            const pools = writePools(
+                [
+                    `token: '${superproToken.address}'`,
+                    'pools:',
+                    '  - name: team',
+                    '    contract: Vesting',
+                    `    start: ${start}`,
+                    '    duration: 1y',
+                    `    tokenAmount: '${parseEther(1000)}'`,
+                    '  - name: advisors',
+                    '    contract: Vesting',
+                    `    start: ${start}`,
+                    '    duration: 1y',
+                    '    curve: weekly',
+                    `    tokenAmount: '${parseEther(1000)}'`,
+                ].join('\n')
+            );
+
+            let error: Error | undefined;
+            try {
+                await createPools(pools, { factory: factory.address });
+            } catch (e) {
+                error = e as Error;
+            }
+
+            expect(error?.message).to.be.equal('Pool advisors: unknown curve weekly, expected one of linear, monthly, quarterly');
+            expect(fs.existsSync(manifest)).to.be.equal(false);
+        });
+
+        it('should refuse pool whose parameters are changed after creation', async function () {
+            const content = (finish: number) =>
+                [
+                    'pools:',
+                    '  - name: team',
+                    '    contract: Vesting',
+                    `    token: '${superproToken.address}'`,
+                    `    start: ${start}`,
+                    `    finish: ${finish}`,
+                    `    tokenAmount: '${parseEther(1000)}'`,
+                ].join('\n');
+            await createPools(writePools(content(start + VESTING_DURATION)), { factory: factory.address });
+
+            let error: Error | undefined;
+            try {
+                await createPools(writePools(content(start + VESTING_DURATION * 2)), { factory: factory.address });
+            } catch (e) {
+                error = e as Error;
+            }
+
+            expect(error?.message).to.be.equal(`Deployment team in ${manifest} has other parameters, rename the pool`);
+        });
+    });
+});
@@ -0,0 +1,86 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import hre, { ethers, network } from 'hardhat';
+import { InsidersVesting, SuperproToken } from '../typechain';
+import { VestingReport } from '../utils/report';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION } from '../utils/schedule';
+
+describe('vesting-report', function () {
+    let superproToken: SuperproToken;
+    let vesting: InsidersVesting;
+    let owner: SignerWithAddress, user1: SignerWithAddress, user2: SignerWithAddress, user3: SignerWithAddress;
+
+    const START = Math.floor(Date.now() / 1000) + 86400;
+    const LOCKUP_END = START + 7776000;
+    const TOKENS_TOTAL = parseEther(10_000);
+    let snapshot: any;
+
+    before(async function () {
+        [owner, user1, user2, user3] = await ethers.getSigners();
+        const superproTokenFactory = await ethers.getContractFactory('SuperproToken');
+        superproToken = await superproTokenFactory.deploy(TOKENS_TOTAL.mul(2), 'SPT', 'Superpro Test Token');
+        await superproToken.deployed();
+        vesting = await (
+            await ethers.getContractFactory('InsidersVesting')
+        ).deploy(owner.address, INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION);
+        await vesting.deployed();
+
+        await superproToken.transfer(vesting.address, TOKENS_TOTAL);
+        await vesting.initialize(
+            superproToken.address,
+            [
+                { account: user1.address, tokenAmount: parseEther(4000) },
+                { account: user2.address, tokenAmount: parseEther(6000) },
+            ],
+            START
+        );
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    afterEach(async function () {
+        await network.provider.request({
+            method: 'evm_revert',
+            params: [snapshot],
+        });
+
+        snapshot = await network.provider.request({
+            method: 'evm_snapshot',
+            params: [],
+        });
+    });
+
+    function parseEther(amount: number) {
+        return ethers.utils.parseEther(amount.toString());
+    }
+
+    it('should find beneficiaries from initialize and transfers', async function () {
+        await vesting.connect(user1).transfer(user3.address, parseEther(1000), 0);
+        await network.provider.send('evm_setNextBlockTimestamp', [LOCKUP_END + 100000]);
+        await vesting.connect(user2).claim(owner.address, parseEther(1));
+
+        const report: VestingReport = await hre.run('vesting-report', { contract: vesting.address });
+
+        expect(report.beneficiaries.map(beneficiary => beneficiary.account)).be.deep.equal([user1.address, user2.address, user3.address]);
+        expect(report.beneficiaries[2].tokensLocked).be.equal(parseEther(1000));
+        expect(report.beneficiaries[1].tokensClaimed).be.equal(parseEther(1));
+        expect(report.claimedByEvents).be.equal(parseEther(1));
+        expect(report.balance).be.equal(TOKENS_TOTAL.sub(parseEther(1)));
+        expect(report.totalLocked.add(report.totalUnlocked)).be.equal(report.balance);
+        /* eslint-disable no-unused-expressions */
+        expect(report.errors).be.empty;
+    });
+
+    it('should report mismatch when contract has more tokens than obligations', async function () {
+        await superproToken.transfer(vesting.address, 1);
+
+        const report: VestingReport = await hre.run('vesting-report', { contract: vesting.address });
+
+        expect(report.errors).be.deep.equal([`locked + unlocked ${TOKENS_TOTAL} is not equal to contract balance ${TOKENS_TOTAL.add(1)}`]);
+        // the task marks the process as failed on mismatch
+        process.exitCode = 0;
+    });
+});
@@ -0,0 +1,18 @@
+// Roles of Vesting.Role, changed in two steps: proposal by the current holder of the role (the owner
+// for the first DAO) and acceptance by the proposed account after roleChangeDelay of the contract.
+export const ROLES: Record<string, number> = {
+    owner: 0,
+    dao: 1,
+};
+
+// delay of new deployments, enough for the other role to notice the proposal and cancel it
+export const DEFAULT_ROLE_CHANGE_DELAY = 2 * 86400;
+// Vesting.MIN_ROLE_CHANGE_DELAY
+export const MIN_ROLE_CHANGE_DELAY = 86400;
+
+export function parseRole(name: string): number {
+    if (!(name in ROLES)) {
+        throw new Error(`Unknown role ${name}, expected one of ${Object.keys(ROLES).join(', ')}`);
+    }
+    return ROLES[name];
+}
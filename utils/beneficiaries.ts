@@ -0,0 +1,103 @@
+import fs from 'fs';
+import { BigNumber, constants, utils } from 'ethers';
+
+export interface Beneficiary {
+    account: string;
+    tokenAmount: string;
+}
+
+export interface BeneficiaryError {
+    row: number;
+    account: string;
+    message: string;
+}
+
+export const UINT96_MAX = BigNumber.from(2).pow(96).sub(1);
+
+export function readBeneficiaries(filename: string): Beneficiary[] {
+    const beneficiaries = JSON.parse(fs.readFileSync(filename).toString());
+    if (!Array.isArray(beneficiaries)) {
+        throw new Error(`${filename} should contain an array of beneficiaries`);
+    }
+    // values are checked by validateBeneficiaries, only rows which are not beneficiaries at all are rejected here
+    beneficiaries.forEach((beneficiary: unknown, row) => {
+        if (typeof beneficiary !== 'object' || beneficiary === null || Array.isArray(beneficiary)) {
+            throw new Error(`${filename} row ${row} should be an object with account and tokenAmount`);
+        }
+        const missing = ['account', 'tokenAmount'].filter(field => !(field in beneficiary));
+        if (missing.length > 0) {
+            throw new Error(`${filename} row ${row} has no ${missing.join(' and ')}`);
+        }
+    });
+
+    return beneficiaries;
+}
+
+function validateAccount(account: unknown): string | undefined {
+    if (typeof account !== 'string' || !utils.isAddress(account)) {
+        return 'invalid address';
+    }
+    if (account !== utils.getAddress(account)) {
+        return `address is not checksummed, expected ${utils.getAddress(account)}`;
+    }
+    if (account === constants.AddressZero) {
+        return 'zero address';
+    }
+}
+
+function validateTokenAmount(tokenAmount: unknown): string | undefined {
+    // numbers lose precision above 2^53, so amounts are accepted only as decimal strings
+    if (typeof tokenAmount !== 'string' || !/^[0-9]+$/.test(tokenAmount)) {
+        return 'tokenAmount should be a decimal string';
+    }
+    const amount = BigNumber.from(tokenAmount);
+    if (amount.isZero()) {
+        return 'tokenAmount should be greater than zero';
+    }
+    if (amount.gt(UINT96_MAX)) {
+        return 'tokenAmount does not fit in uint96';
+    }
+}
+
+// returns the list of problems found, an empty list means the beneficiaries are safe to pass to initialize;
+// the sum is compared with the balance only when it is given
+export function validateBeneficiaries(beneficiaries: Beneficiary[], balance?: BigNumber): BeneficiaryError[] {
+    const errors: BeneficiaryError[] = [];
+    const seen = new Map<string, number>();
+    let total = constants.Zero;
+
+    if (beneficiaries.length === 0) {
+        errors.push({ row: -1, account: '', message: 'no beneficiaries' });
+    }
+
+    beneficiaries.forEach(({ account, tokenAmount }, row) => {
+        const accountError = validateAccount(account);
+        if (accountError) {
+            errors.push({ row, account: String(account), message: accountError });
+        } else {
+            const firstRow = seen.get(account);
+            if (firstRow !== undefined) {
+                errors.push({ row, account, message: `duplicates row ${firstRow}` });
+            } else {
+                seen.set(account, row);
+            }
+        }
+
+        const amountError = validateTokenAmount(tokenAmount);
+        if (amountError) {
+            errors.push({ row, account: String(account), message: amountError });
+        } else {
+            total = total.add(tokenAmount);
+        }
+    });
+
+    if (balance && !total.eq(balance)) {
+        errors.push({ row: -1, account: '', message: `tokens sum ${total.toString()} is not equal to contract balance ${balance.toString()}` });
+    }
+
+    return errors;
+}
+
+export function formatBeneficiaryError({ row, account, message }: BeneficiaryError): string {
+    return row < 0 ? message : `row ${row} (${account}): ${message}`;
+}
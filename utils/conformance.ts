@@ -0,0 +1,190 @@
+import { constants, providers, utils } from 'ethers';
+import type { IERC20, InsidersVesting, Vesting } from '../typechain';
+import { DEFAULT_ROLE_CHANGE_DELAY } from './authority';
+import { Beneficiary } from './beneficiaries';
+import { Deployment } from './deployments';
+import { BeneficiaryInfo, getInsidersSchedule, INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION, InsidersVestingModel } from './schedule';
+
+// Intended configuration of deployed vesting contract, fields of the other contract are ignored
+export interface IntendedDeployment {
+    contract: string;
+    owner?: string;
+    token?: string;
+    vestingStart?: number;
+    // Vesting
+    dao?: string;
+    roleChangeDelay?: number;
+    vestingFinish?: number;
+    vestingCliff?: number;
+    stepDuration?: number;
+    tokensTotal?: string;
+    // InsidersVesting, beneficiaries is the path to beneficiaries file
+    lockupDuration?: number;
+    vestingDuration?: number;
+    beneficiaries?: string;
+}
+
+export interface ConformanceRow {
+    check: string;
+    expected: string;
+    actual: string;
+    result: 'pass' | 'FAIL';
+}
+
+// EIP-1167 minimal proxy runtime code around the implementation address
+const CLONE_PREFIX = '0x363d3d373d3d3d363d73';
+const CLONE_SUFFIX = '5af43d82803e903d91602b57fd5bf3';
+
+function row(check: string, expected: unknown, actual: unknown): ConformanceRow {
+    const normalize = (value: unknown) => (typeof value === 'string' && utils.isAddress(value) ? utils.getAddress(value) : String(value));
+    return {
+        check,
+        expected: normalize(expected),
+        actual: normalize(actual),
+        result: normalize(expected) === normalize(actual) ? 'pass' : 'FAIL',
+    };
+}
+
+// Intended configuration recorded by deploy-vesting or create-pools
+export function getIntendedDeployment(deployment: Deployment): IntendedDeployment {
+    const { contract, constructorArgs, parameters } = deployment;
+    const params = parameters as Record<string, string | number | undefined>;
+    if (deployment.factory) {
+        // VestingFactory pool parameters, beneficiaries file is relative to the pools file
+        return {
+            contract,
+            owner: params.owner as string,
+            token: params.token as string,
+            vestingStart: params.vestingStart as number,
+            roleChangeDelay: params.roleChangeDelay as number,
+            vestingFinish: params.vestingFinish as number,
+            vestingCliff: params.vestingCliff as number,
+            stepDuration: params.stepDuration as number,
+            tokensTotal: params.tokenAmount as string,
+            lockupDuration: params.lockupDuration as number,
+            vestingDuration: params.vestingDuration as number,
+            beneficiaries: params.beneficiaries as string,
+        };
+    }
+
+    const [owner, first, second] = constructorArgs as [string, number, number?];
+    const isInsiders = contract === 'InsidersVesting';
+    return {
+        contract,
+        owner,
+        token: params.token as string,
+        vestingStart: params.start as number,
+        roleChangeDelay: isInsiders ? undefined : first,
+        vestingFinish: params.finish as number,
+        tokensTotal: params.fund as string,
+        lockupDuration: isInsiders ? first : undefined,
+        vestingDuration: second,
+        beneficiaries: params.beneficiaries as string,
+    };
+}
+
+export function getCloneImplementation(code: string): string | undefined {
+    const lowerCode = code.toLowerCase();
+    if (
+        lowerCode.length === CLONE_PREFIX.length + 40 + CLONE_SUFFIX.length &&
+        lowerCode.startsWith(CLONE_PREFIX) &&
+        lowerCode.endsWith(CLONE_SUFFIX)
+    ) {
+        return utils.getAddress('0x' + lowerCode.slice(CLONE_PREFIX.length, CLONE_PREFIX.length + 40));
+    }
+}
+
+// Runtime code of the contract, or of the implementation for VestingFactory clones, against deployedBytecode
+// of the local artifact; the contracts have no immutables, so the codes are equal byte for byte
+export async function checkBytecode(
+    provider: providers.Provider,
+    address: string,
+    deployedBytecode: string,
+    expectedImplementation?: string
+): Promise<ConformanceRow[]> {
+    const hash = (code: string) => (code === '0x' ? 'no code' : utils.keccak256(code));
+    const rows: ConformanceRow[] = [];
+    let code = await provider.getCode(address);
+    const implementation = getCloneImplementation(code);
+    if (implementation) {
+        rows.push(row('implementation', expectedImplementation ?? implementation, implementation));
+        code = await provider.getCode(implementation);
+    } else if (expectedImplementation) {
+        rows.push(row('implementation', expectedImplementation, 'not a clone'));
+    }
+    rows.push(row('bytecode', hash(deployedBytecode), hash(code)));
+
+    return rows;
+}
+
+// without the intended total, deploy-vesting without --fund, the contract is funded by someone else,
+// so only the consistency of the new contract with its own tokensTotal is checked
+export async function checkVesting(vesting: Vesting, token: IERC20, intended: IntendedDeployment): Promise<ConformanceRow[]> {
+    const tokensTotal = await vesting.tokensTotal();
+    return [
+        row('initialized', true, await vesting.initialized()),
+        row('owner', intended.owner, await vesting.owner()),
+        row('dao', intended.dao ?? constants.AddressZero, await vesting.dao()),
+        row('roleChangeDelay', intended.roleChangeDelay ?? DEFAULT_ROLE_CHANGE_DELAY, await vesting.roleChangeDelay()),
+        row('token', intended.token, await vesting.token()),
+        row('vestingStart', intended.vestingStart, await vesting.vestingStart()),
+        row('vestingFinish', intended.vestingFinish, await vesting.vestingFinish()),
+        row('vestingCliff', intended.vestingCliff ?? 0, await vesting.vestingCliff()),
+        row('stepDuration', intended.stepDuration ?? 0, await vesting.stepDuration()),
+        ...(intended.tokensTotal === undefined ? [] : [row('tokensTotal', intended.tokensTotal, tokensTotal)]),
+        row('tokensLocked', intended.tokensTotal ?? tokensTotal, await vesting.tokensLocked()),
+        row('balance', intended.tokensTotal ?? tokensTotal, await token.balanceOf(vesting.address)),
+    ];
+}
+
+function formatInfo(info: Record<keyof BeneficiaryInfo, { toString(): string }>): string {
+    return [
+        `locked ${info.tokensLocked}`,
+        `unlocked ${info.tokensUnlocked}`,
+        `claimed ${info.tokensClaimed}`,
+        `vesting ${info.tokensVesting}`,
+        `start ${info.startTime}`,
+        `update ${info.lastVestingUpdate}`,
+        `fraction ${info.vestedFraction}`,
+    ].join(', ');
+}
+
+// Every beneficiary is expected in the state initialize creates, so the check is meant for a new contract
+export async function checkInsidersVesting(
+    vesting: InsidersVesting,
+    token: IERC20,
+    intended: IntendedDeployment,
+    beneficiaries: Beneficiary[]
+): Promise<ConformanceRow[]> {
+    const schedule = getInsidersSchedule(
+        intended.vestingStart ?? 0,
+        intended.lockupDuration ?? INSIDERS_LOCKUP_DURATION,
+        intended.vestingDuration ?? INSIDERS_VESTING_DURATION
+    );
+    const model = new InsidersVestingModel(schedule, beneficiaries);
+    const total = beneficiaries.reduce((sum, { tokenAmount }) => sum.add(tokenAmount), constants.Zero);
+
+    const rows = [
+        row('initialized', true, await vesting.initialized()),
+        row('owner', intended.owner, await vesting.owner()),
+        row('token', intended.token, await vesting.token()),
+        row('VESTING_LOCKUP_DURATION', schedule.lockupEnd - schedule.vestingStart, await vesting.VESTING_LOCKUP_DURATION()),
+        row('VESTING_DURATION', schedule.vestingDuration, await vesting.VESTING_DURATION()),
+        row('vestingStart', intended.vestingStart, await vesting.vestingStart()),
+        row('lockupEnd', schedule.lockupEnd, await vesting.lockupEnd()),
+        row('vestingFinish', schedule.vestingFinish, await vesting.vestingFinish()),
+        row('tokensDistributed', total, await vesting.tokensDistributed()),
+        row('balance', total, await token.balanceOf(vesting.address)),
+    ];
+    for (const account of model.accounts()) {
+        let actual: string;
+        try {
+            actual = formatInfo(await vesting.getBeneficiaryInfo(account));
+        } catch {
+            actual = 'not in whitelist';
+        }
+        rows.push(row(account, formatInfo(model.getBeneficiaryInfo(account)), actual));
+    }
+
+    return rows;
+}
@@ -0,0 +1,98 @@
+// Parsing of task date parameters. Contracts take unix timestamps in seconds, so values which
+// look like milliseconds are rejected instead of locking tokens for thousands of years.
+
+// average Gregorian month, used for per month rates
+export const SECONDS_PER_MONTH = 2629746;
+
+// 5138-11-16, any larger timestamp is most likely given in milliseconds
+const MAX_TIMESTAMP = 1e11;
+
+const UNITS: Record<string, number> = {
+    s: 1,
+    min: 60,
+    h: 3600,
+    d: 86400,
+    w: 7 * 86400,
+};
+
+// same day of month `months` later (UTC), clamped to the last day of shorter months
+export function addMonths(timestamp: number, months: number): number {
+    const start = new Date(timestamp * 1000);
+    const date = new Date(timestamp * 1000);
+    date.setUTCDate(1);
+    date.setUTCMonth(start.getUTCMonth() + months);
+    const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(start.getUTCDate(), daysInMonth));
+
+    return Math.floor(date.getTime() / 1000);
+}
+
+// Accepts unix timestamp in seconds or ISO-8601 date; date-time without time zone is ambiguous and rejected
+export function parseDate(value: string): number {
+    let timestamp: number;
+    if (/^\d+$/.test(value)) {
+        timestamp = Number(value);
+    } else if (/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?$/.test(value)) {
+        timestamp = Date.parse(value) / 1000;
+    } else {
+        throw new Error(`Invalid date ${value}, expected ISO-8601 date with time zone like 2026-12-01T00:00:00Z or unix timestamp`);
+    }
+
+    if (Number.isNaN(timestamp)) {
+        throw new Error(`Invalid date ${value}`);
+    }
+    if (!Number.isInteger(timestamp)) {
+        throw new Error(`Invalid date ${value}, fractions of a second are not supported`);
+    }
+    if (timestamp >= MAX_TIMESTAMP) {
+        throw new Error(`Timestamp ${value} is too large, it should be in seconds, not milliseconds`);
+    }
+    return timestamp;
+}
+
+// Resolves relative duration like 36mo, 2y, 90d, 12h or 1w2d from `start`; months and years are calendar ones
+export function addDuration(start: number, duration: string): number {
+    const parts = duration.match(/\d+(mo|min|y|w|d|h|s)/g);
+    if (!parts || parts.join('') !== duration) {
+        throw new Error(`Invalid duration ${duration}, expected amounts with units y, mo, w, d, h, min or s like 36mo`);
+    }
+
+    let timestamp = start;
+    for (const part of parts) {
+        const [, amount, unit] = part.match(/(\d+)(\w+)/) as RegExpMatchArray;
+        if (unit === 'y' || unit === 'mo') {
+            timestamp = addMonths(timestamp, Number(amount) * (unit === 'y' ? 12 : 1));
+        } else {
+            timestamp += Number(amount) * UNITS[unit];
+        }
+    }
+    return timestamp;
+}
+
+// Date of a schedule point like the cliff: duration from `start` like 6mo or date as in parseDate;
+// durations always end with a unit, dates and timestamps never do
+export function parseDateOrDuration(start: number, value: string): number {
+    return /^(\d+(mo|min|y|w|d|h|s))+$/.test(value) ? addDuration(start, value) : parseDate(value);
+}
+
+// Fixed length in seconds, like contract lock-up and vesting durations: seconds or amounts of w, d, h, min and s;
+// calendar months and years depend on the start date, so they are rejected
+export function parseDuration(value: string): number {
+    if (/^\d+$/.test(value)) {
+        return Number(value);
+    }
+    if (/\d+(mo|y)/.test(value)) {
+        throw new Error(`Invalid duration ${value}, months and years have no fixed length, use days like 1004d`);
+    }
+    return addDuration(0, value);
+}
+
+export function formatDuration(seconds: number): string {
+    const days = Math.floor(seconds / UNITS.d);
+    const rest = seconds % UNITS.d;
+    return rest ? `${days}d ${rest}s` : `${days}d`;
+}
+
+export function formatDate(timestamp: number): string {
+    return new Date(timestamp * 1000).toISOString().replace('.000Z', 'Z');
+}
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+import { providers } from 'ethers';
+
+export interface DeploymentStep {
+    txHash: string;
+    block?: number;
+}
+
+export interface Deployment {
+    contract: string;
+    address?: string;
+    constructorArgs: unknown[];
+    parameters: Record<string, unknown>;
+    steps: Record<string, DeploymentStep | undefined>;
+    verified?: boolean;
+    // Safe Transaction Builder batch with initialize call, when owner is not the deployer
+    initializeProposal?: string;
+    // VestingFactory which created the pool, pools are clones and have no deploy step
+    factory?: string;
+}
+
+export type DeploymentManifest = Record<string, Deployment>;
+
+export function getManifestPath(networkName: string): string {
+    return path.join('deployments', `${networkName}.json`);
+}
+
+export function readManifest(filename: string): DeploymentManifest {
+    if (!fs.existsSync(filename)) {
+        return {};
+    }
+    return JSON.parse(fs.readFileSync(filename).toString());
+}
+
+export function writeManifest(filename: string, manifest: DeploymentManifest): void {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    fs.writeFileSync(filename, JSON.stringify(manifest, null, 4) + '\n');
+}
+
+// Sends the step transaction once: its hash is saved before waiting for the receipt,
+// so a rerun after a crash waits for the same transaction instead of sending a new one.
+// Besides deployments, it records chunks of vesting-payout runs.
+export async function executeStep(
+    provider: providers.Provider,
+    deployment: Pick<Deployment, 'steps'>,
+    step: string,
+    save: () => void,
+    send: () => Promise<{ hash: string }>
+): Promise<boolean> {
+    let record = deployment.steps[step];
+    if (record?.block !== undefined) {
+        return false;
+    }
+    if (!record) {
+        const tx = await send();
+        record = { txHash: tx.hash };
+        deployment.steps[step] = record;
+        save();
+    }
+
+    const receipt = await provider.waitForTransaction(record.txHash);
+    if (receipt.status !== 1) {
+        deployment.steps[step] = undefined;
+        save();
+        throw new Error(`Transaction ${record.txHash} of ${step} step is reverted`);
+    }
+    record.block = receipt.blockNumber;
+    save();
+
+    return true;
+}
@@ -0,0 +1,222 @@
+import fs from 'fs';
+import path from 'path';
+import { BigNumber, constants, providers, utils } from 'ethers';
+
+// Event signatures are the same in Vesting and InsidersVesting, so one interface decodes logs of both contracts
+const vestingEvents = new utils.Interface([
+    'event TokensClaimed(address indexed from, address indexed to, uint256 amount)',
+    'event TokensTransferred(address indexed from, address indexed to, uint256 amountLocked, uint256 amountUnlocked)',
+]);
+
+export const DEFAULT_REORG_DEPTH = 12;
+export const DEFAULT_BATCH_SIZE = 2000;
+
+export interface IndexedEvent {
+    contract: string;
+    event: 'TokensClaimed' | 'TokensTransferred';
+    blockNumber: number;
+    blockHash: string;
+    timestamp: number;
+    transactionHash: string;
+    logIndex: number;
+    from: string;
+    to: string;
+    amount?: string;
+    amountLocked?: string;
+    amountUnlocked?: string;
+}
+
+export interface IndexerState {
+    contracts: string[];
+    lastBlock: number;
+    // hashes of the latest synced blocks, used to detect reorgs on the next sync
+    recentBlocks: { number: number; hash: string }[];
+}
+
+export interface EventQuery {
+    account?: string;
+    from?: number;
+    to?: number;
+}
+
+export class EventStore {
+    private readonly statePath: string;
+    private readonly eventsPath: string;
+
+    constructor(public readonly directory: string) {
+        this.statePath = path.join(directory, 'state.json');
+        this.eventsPath = path.join(directory, 'events.jsonl');
+    }
+
+    exists(): boolean {
+        return fs.existsSync(this.statePath);
+    }
+
+    loadState(): IndexerState {
+        return JSON.parse(fs.readFileSync(this.statePath).toString());
+    }
+
+    saveState(state: IndexerState): void {
+        fs.mkdirSync(this.directory, { recursive: true });
+        // write to a temporary file first so an interrupted sync never leaves a broken state file
+        fs.writeFileSync(`${this.statePath}.tmp`, JSON.stringify(state, null, 4));
+        fs.renameSync(`${this.statePath}.tmp`, this.statePath);
+    }
+
+    readEvents(): IndexedEvent[] {
+        if (!fs.existsSync(this.eventsPath)) {
+            return [];
+        }
+        return fs
+            .readFileSync(this.eventsPath)
+            .toString()
+            .split('\n')
+            .filter(line => line.length > 0)
+            .map(line => JSON.parse(line));
+    }
+
+    appendEvents(events: IndexedEvent[]): void {
+        if (events.length === 0) {
+            return;
+        }
+        fs.mkdirSync(this.directory, { recursive: true });
+        fs.appendFileSync(this.eventsPath, events.map(event => JSON.stringify(event) + '\n').join(''));
+    }
+
+    // drops events after the given block, used on reorg and to clean up after an interrupted sync
+    truncate(lastBlock: number): void {
+        const events = this.readEvents();
+        const kept = events.filter(event => event.blockNumber <= lastBlock);
+        if (kept.length !== events.length) {
+            fs.writeFileSync(this.eventsPath, kept.map(event => JSON.stringify(event) + '\n').join(''));
+        }
+    }
+}
+
+async function findCommonBlock(provider: providers.Provider, state: IndexerState): Promise<number> {
+    if (state.recentBlocks.length === 0) {
+        return state.lastBlock;
+    }
+    for (const block of [...state.recentBlocks].reverse()) {
+        const current = await provider.getBlock(block.number);
+        if (current && current.hash === block.hash) {
+            return block.number;
+        }
+    }
+    throw new Error(`Reorg is deeper than ${state.recentBlocks.length} blocks, remove the store and sync again`);
+}
+
+async function fetchEvents(provider: providers.Provider, contract: string, fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+    const logs = await provider.getLogs({
+        address: contract,
+        topics: [[vestingEvents.getEventTopic('TokensClaimed'), vestingEvents.getEventTopic('TokensTransferred')]],
+        fromBlock,
+        toBlock,
+    });
+    const timestamps = new Map<number, number>();
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+        if (!timestamps.has(log.blockNumber)) {
+            timestamps.set(log.blockNumber, (await provider.getBlock(log.blockNumber)).timestamp);
+        }
+        const parsed = vestingEvents.parseLog(log);
+        const event: IndexedEvent = {
+            contract,
+            event: parsed.name as IndexedEvent['event'],
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            timestamp: timestamps.get(log.blockNumber) as number,
+            transactionHash: log.transactionHash,
+            logIndex: log.logIndex,
+            from: parsed.args.from,
+            to: parsed.args.to,
+        };
+        if (parsed.name === 'TokensClaimed') {
+            event.amount = parsed.args.amount.toString();
+        } else {
+            event.amountLocked = parsed.args.amountLocked.toString();
+            event.amountUnlocked = parsed.args.amountUnlocked.toString();
+        }
+        events.push(event);
+    }
+
+    return events;
+}
+
+async function getRecentBlocks(provider: providers.Provider, fromBlock: number, toBlock: number, depth: number) {
+    const blocks = [];
+    for (let number = Math.max(fromBlock, toBlock - depth + 1); number <= toBlock; number++) {
+        blocks.push({ number, hash: (await provider.getBlock(number)).hash });
+    }
+    return blocks;
+}
+
+export interface SyncOptions {
+    contracts: string[];
+    fromBlock?: number;
+    batchSize?: number;
+    reorgDepth?: number;
+    onBatch?: (toBlock: number, events: number) => void;
+}
+
+// Syncs TokensClaimed and TokensTransferred events of the contracts up to the latest block.
+// Progress is saved after each batch, so an interrupted sync resumes from the last saved block.
+export async function syncEvents(provider: providers.Provider, store: EventStore, options: SyncOptions): Promise<IndexerState> {
+    const contracts = options.contracts.map(contract => utils.getAddress(contract));
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
+
+    let state: IndexerState;
+    if (store.exists()) {
+        state = store.loadState();
+        if (state.contracts.join() !== contracts.join()) {
+            throw new Error(`Store ${store.directory} is created for contracts ${state.contracts.join(', ')}`);
+        }
+        state.lastBlock = await findCommonBlock(provider, state);
+        state.recentBlocks = state.recentBlocks.filter(block => block.number <= state.lastBlock);
+    } else {
+        state = { contracts, lastBlock: (options.fromBlock ?? 0) - 1, recentBlocks: [] };
+    }
+    store.truncate(state.lastBlock);
+    store.saveState(state);
+
+    const latestBlock = await provider.getBlockNumber();
+    for (let fromBlock = state.lastBlock + 1; fromBlock <= latestBlock; fromBlock += batchSize) {
+        const toBlock = Math.min(fromBlock + batchSize - 1, latestBlock);
+        const events: IndexedEvent[] = [];
+        for (const contract of contracts) {
+            events.push(...(await fetchEvents(provider, contract, fromBlock, toBlock)));
+        }
+        events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+        store.appendEvents(events);
+
+        const recentBlocks = await getRecentBlocks(provider, fromBlock, toBlock, reorgDepth);
+        state.recentBlocks = [...state.recentBlocks, ...recentBlocks].slice(-reorgDepth);
+        state.lastBlock = toBlock;
+        store.saveState(state);
+        options.onBatch?.(toBlock, events.length);
+    }
+
+    return state;
+}
+
+export function queryEvents(events: IndexedEvent[], { account, from, to }: EventQuery): IndexedEvent[] {
+    const address = account && utils.getAddress(account);
+    return events.filter(
+        event =>
+            (!address || event.from === address || event.to === address) &&
+            (from === undefined || event.timestamp >= from) &&
+            (to === undefined || event.timestamp <= to)
+    );
+}
+
+// claimed amounts grouped by beneficiary, i.e. by the `from` of TokensClaimed
+export function sumClaims(events: IndexedEvent[]): Map<string, BigNumber> {
+    const totals = new Map<string, BigNumber>();
+    for (const event of events) {
+        if (event.event === 'TokensClaimed') {
+            totals.set(event.from, (totals.get(event.from) ?? constants.Zero).add(event.amount as string));
+        }
+    }
+    return totals;
+}
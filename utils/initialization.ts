@@ -0,0 +1,62 @@
+import { BigNumber } from 'ethers';
+import type { InsidersVesting } from '../typechain';
+import { Beneficiary } from './beneficiaries';
+
+// Beneficiaries of the file which are not added on-chain yet, so an interrupted staged initialization
+// continues where it stopped. Transfers are impossible before initialization is finished,
+// so added beneficiaries still have exactly their initial amount locked.
+export async function getPendingBeneficiaries(vesting: InsidersVesting, beneficiaries: Beneficiary[]): Promise<Beneficiary[]> {
+    const pending: Beneficiary[] = [];
+    for (const beneficiary of beneficiaries) {
+        let tokensLocked: BigNumber;
+        try {
+            tokensLocked = (await vesting.getBeneficiaryInfo(beneficiary.account)).tokensLocked;
+        } catch (error) {
+            if (!(error as Error).message.includes('Account is not in whitelist')) {
+                throw error;
+            }
+            pending.push(beneficiary);
+            continue;
+        }
+        if (!tokensLocked.eq(beneficiary.tokenAmount)) {
+            throw new Error(
+                `Beneficiary ${beneficiary.account} is added with ${tokensLocked.toString()} tokens instead of ${beneficiary.tokenAmount}`
+            );
+        }
+    }
+
+    return pending;
+}
+
+// Largest number of first entries whose transaction fits in `maxGas`. Every added beneficiary or payout costs about
+// the same gas, so the size is scaled down by the estimate; failed estimates (above block gas limit) halve it.
+export async function getChunkSize(estimate: (count: number) => Promise<BigNumber>, count: number, maxGas: number): Promise<number> {
+    let size = count;
+    for (;;) {
+        let gas: BigNumber;
+        try {
+            gas = await estimate(size);
+        } catch (error) {
+            if (size === 1) {
+                throw error;
+            }
+            size = Math.ceil(size / 2);
+            continue;
+        }
+        if (gas.lte(maxGas)) {
+            return size;
+        }
+        if (size === 1) {
+            throw new Error(`One entry needs ${gas.toString()} gas, more than ${maxGas}`);
+        }
+        size = Math.max(1, Math.min(size - 1, Math.floor((size * maxGas) / gas.toNumber())));
+    }
+}
+
+export function splitChunks<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let index = 0; index < items.length; index += size) {
+        chunks.push(items.slice(index, index + size));
+    }
+    return chunks;
+}
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import { BigNumber, constants, utils } from 'ethers';
+import { Beneficiary } from './beneficiaries';
+
+// Merkle tree of MerkleInsidersVesting allocations. Leaves are double hashed abi.encode(account, tokenAmount)
+// and pairs are hashed sorted, as OpenZeppelin MerkleProof.verify expects.
+export interface MerkleProofEntry {
+    tokenAmount: string;
+    proof: string[];
+}
+
+export interface MerkleDistribution {
+    root: string;
+    tokensTotal: string;
+    proofs: Record<string, MerkleProofEntry>;
+}
+
+export function hashLeaf(account: string, tokenAmount: string): string {
+    return utils.keccak256(utils.keccak256(utils.defaultAbiCoder.encode(['address', 'uint96'], [account, tokenAmount])));
+}
+
+function hashPair(a: string, b: string): string {
+    return BigNumber.from(a).lte(b) ? utils.keccak256(utils.concat([a, b])) : utils.keccak256(utils.concat([b, a]));
+}
+
+// layers from sorted leaves up to the root, the last node of an odd layer is moved up unchanged
+function buildLayers(leaves: string[]): string[][] {
+    const layers = [[...leaves].sort((a, b) => (BigNumber.from(a).lt(b) ? -1 : 1))];
+    while (layers[layers.length - 1].length > 1) {
+        const layer = layers[layers.length - 1];
+        const next: string[] = [];
+        for (let index = 0; index < layer.length; index += 2) {
+            next.push(index + 1 < layer.length ? hashPair(layer[index], layer[index + 1]) : layer[index]);
+        }
+        layers.push(next);
+    }
+    return layers;
+}
+
+function getLayerProof(layers: string[][], leaf: string): string[] {
+    const proof: string[] = [];
+    let index = layers[0].indexOf(leaf);
+    for (const layer of layers.slice(0, -1)) {
+        const sibling = index ^ 1;
+        if (sibling < layer.length) {
+            proof.push(layer[sibling]);
+        }
+        index = Math.floor(index / 2);
+    }
+    return proof;
+}
+
+export function buildMerkleDistribution(beneficiaries: Beneficiary[]): MerkleDistribution {
+    if (!beneficiaries.length) {
+        throw new Error('No beneficiaries');
+    }
+    const leaves = beneficiaries.map(beneficiary => hashLeaf(beneficiary.account, beneficiary.tokenAmount));
+    const layers = buildLayers(leaves);
+
+    const proofs: Record<string, MerkleProofEntry> = {};
+    beneficiaries.forEach((beneficiary, index) => {
+        proofs[utils.getAddress(beneficiary.account)] = { tokenAmount: beneficiary.tokenAmount, proof: getLayerProof(layers, leaves[index]) };
+    });
+    const tokensTotal = beneficiaries.reduce((sum, beneficiary) => sum.add(beneficiary.tokenAmount), constants.Zero);
+
+    return { root: layers[layers.length - 1][0], tokensTotal: tokensTotal.toString(), proofs };
+}
+
+export function verifyMerkleProof(root: string, leaf: string, proof: string[]): boolean {
+    return proof.reduce((hash, sibling) => hashPair(hash, sibling), leaf) === root;
+}
+
+export function readMerkleDistribution(filename: string): MerkleDistribution {
+    return JSON.parse(fs.readFileSync(filename).toString());
+}
+
+export function writeMerkleDistribution(filename: string, distribution: MerkleDistribution): void {
+    fs.writeFileSync(filename, JSON.stringify(distribution, null, 4) + '\n');
+}
+
+// Proof lookup of the claim task, the account may be given in any letter case
+export function getMerkleProof(distribution: MerkleDistribution, account: string): MerkleProofEntry {
+    const entry = distribution.proofs[utils.getAddress(account)];
+    if (!entry) {
+        throw new Error(`${account} has no allocation in the distribution`);
+    }
+    return entry;
+}
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import { BigNumber, constants, utils } from 'ethers';
+import { DeploymentStep } from './deployments';
+import { TokenUnits } from './tokens';
+
+// Payout of Vesting.claimBatch, amount is in the smallest token units
+export interface Payout {
+    to: string;
+    amount: BigNumber;
+}
+
+// Payouts file is CSV of `recipient,amount` lines with human amounts like 1.5, an optional header line
+// and empty lines are skipped. Errors are reported with the line number, so the whole file is checked at once.
+export function readPayouts(filename: string, units: TokenUnits): Payout[] {
+    const payouts: Payout[] = [];
+    const errors: string[] = [];
+    const seen = new Map<string, number>();
+
+    fs.readFileSync(filename)
+        .toString()
+        .split(/\r?\n/)
+        .forEach((line, index) => {
+            const number = index + 1;
+            const cells = line.split(',').map(cell => cell.trim());
+            if (!line.trim() || (index === 0 && cells[0].toLowerCase() === 'recipient')) {
+                return;
+            }
+            if (cells.length !== 2) {
+                errors.push(`Line ${number}: expected recipient and amount`);
+                return;
+            }
+            const [recipient, amount] = cells;
+            if (!utils.isAddress(recipient) || utils.getAddress(recipient) === constants.AddressZero) {
+                errors.push(`Line ${number}: invalid recipient ${recipient}`);
+                return;
+            }
+            const to = utils.getAddress(recipient);
+            const firstLine = seen.get(to);
+            if (firstLine !== undefined) {
+                errors.push(`Line ${number}: ${to} duplicates line ${firstLine}`);
+                return;
+            }
+            seen.set(to, number);
+
+            let parsed: BigNumber;
+            try {
+                parsed = units.parse(amount);
+            } catch {
+                errors.push(`Line ${number}: invalid amount ${amount}`);
+                return;
+            }
+            if (parsed.isZero()) {
+                errors.push(`Line ${number}: amount should be greater than zero`);
+                return;
+            }
+            payouts.push({ to, amount: parsed });
+        });
+
+    if (errors.length) {
+        throw new Error(`Invalid payouts in ${filename}:\n${errors.join('\n')}`);
+    }
+    if (payouts.length === 0) {
+        throw new Error(`No payouts in ${filename}`);
+    }
+
+    return payouts;
+}
+
+export function sumPayouts(payouts: Payout[]): BigNumber {
+    return payouts.reduce((sum, payout) => sum.add(payout.amount), constants.Zero);
+}
+
+// Run of vesting-payout with claimBatch transactions of its chunks, see executeStep. The chunk size of the first run
+// is kept, so a rerun splits the payouts the same way and sends only the chunks which are not mined yet.
+export interface PayoutRun {
+    chunkSize: number;
+    steps: Record<string, DeploymentStep | undefined>;
+}
+
+// runs by getPayoutRunKey
+export type PayoutState = Record<string, PayoutRun>;
+
+export function getPayoutStatePath(networkName: string): string {
+    return path.join('deployments', `${networkName}-payouts.json`);
+}
+
+// the same file paid from the same contract is the same run, whatever its name
+export function getPayoutRunKey(contract: string, filename: string): string {
+    return `${utils.getAddress(contract)}:${utils.keccak256(fs.readFileSync(filename))}`;
+}
+
+export function getPayoutChunkStep(index: number): string {
+    return `chunk-${index}`;
+}
+
+export function readPayoutState(filename: string): PayoutState {
+    if (!fs.existsSync(filename)) {
+        return {};
+    }
+    return JSON.parse(fs.readFileSync(filename).toString());
+}
+
+export function writePayoutState(filename: string, state: PayoutState): void {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    fs.writeFileSync(filename, JSON.stringify(state, null, 4) + '\n');
+}
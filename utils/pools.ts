@@ -0,0 +1,186 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { BigNumber, constants, utils } from 'ethers';
+import { DEFAULT_ROLE_CHANGE_DELAY, MIN_ROLE_CHANGE_DELAY } from './authority';
+import { Beneficiary, formatBeneficiaryError, readBeneficiaries, UINT96_MAX, validateBeneficiaries } from './beneficiaries';
+import { addDuration, formatDuration, parseDate, parseDateOrDuration, parseDuration } from './dates';
+import { INSIDERS_LOCKUP_DURATION, INSIDERS_VESTING_DURATION, VESTING_CURVES } from './schedule';
+
+// Pool of create-pools file. token and owner of the file apply to pools without their own,
+// the owner is the deployer when neither is given.
+export interface PoolConfig {
+    name: string;
+    contract: string;
+    token?: string;
+    owner?: string;
+    start: string;
+    // Vesting: tokenAmount decimal string in the smallest units as in beneficiaries files, finish date or duration
+    // from start, curve, cliff date or duration from start
+    tokenAmount?: string;
+    finish?: string;
+    duration?: string;
+    curve?: string;
+    cliff?: string;
+    roleChangeDelay?: string;
+    // InsidersVesting: beneficiaries file relative to the pools file
+    beneficiaries?: string;
+    lockupDuration?: string;
+    vestingDuration?: string;
+}
+
+export interface PoolsFile {
+    token?: string;
+    owner?: string;
+    pools: PoolConfig[];
+}
+
+// VestingFactory.VestingPool
+export interface VestingPoolParams {
+    owner: string;
+    roleChangeDelay: number;
+    token: string;
+    tokenAmount: string;
+    vestingStart: number;
+    vestingFinish: number;
+    vestingCliff: number;
+    stepDuration: number;
+}
+
+// VestingFactory.InsidersPool
+export interface InsidersPoolParams {
+    owner: string;
+    lockupDuration: number;
+    vestingDuration: number;
+    token: string;
+    vestingStart: number;
+    beneficiaries: Beneficiary[];
+}
+
+export type Pool =
+    | { name: string; contract: 'Vesting'; tokenAmount: BigNumber; params: VestingPoolParams }
+    | { name: string; contract: 'InsidersVesting'; tokenAmount: BigNumber; params: InsidersPoolParams };
+
+export function readPools(filename: string): PoolsFile {
+    const content = fs.readFileSync(filename).toString();
+    // the failsafe schema keeps every scalar a string, so addresses and dates are not turned into numbers and Date objects
+    const file = /\.ya?ml$/.test(filename) ? yaml.safeLoad(content, { schema: yaml.FAILSAFE_SCHEMA }) : JSON.parse(content);
+    if (!file || !Array.isArray(file.pools) || file.pools.length === 0) {
+        throw new Error(`${filename} should contain a non-empty list of pools`);
+    }
+
+    const names = new Set<string>();
+    for (const pool of file.pools) {
+        if (!pool || typeof pool.name !== 'string' || !pool.name) {
+            throw new Error(`${filename} has a pool without name`);
+        }
+        if (names.has(pool.name)) {
+            throw new Error(`${filename} has more than one pool ${pool.name}`);
+        }
+        names.add(pool.name);
+    }
+
+    return file;
+}
+
+function parseAddress(pool: string, field: string, value: unknown): string {
+    if (typeof value !== 'string' || !utils.isAddress(value) || utils.getAddress(value) === constants.AddressZero) {
+        throw new Error(`Pool ${pool}: invalid ${field} ${value}`);
+    }
+    return utils.getAddress(value);
+}
+
+// Resolves pool dates, durations and defaults into VestingFactory parameters, so every pool of the file
+// is checked before the first transaction; `directory` is the one of the pools file
+export function resolvePool(file: PoolsFile, config: PoolConfig, directory: string, deployer: string): Pool {
+    const { name } = config;
+    const wrap = <T>(parse: () => T): T => {
+        try {
+            return parse();
+        } catch (error) {
+            throw new Error(`Pool ${name}: ${(error as Error).message}`);
+        }
+    };
+
+    const token = parseAddress(name, 'token', config.token ?? file.token);
+    const owner = parseAddress(name, 'owner', config.owner ?? file.owner ?? deployer);
+    if (config.start === undefined) {
+        throw new Error(`Pool ${name}: start is not provided`);
+    }
+    const vestingStart = wrap(() => parseDate(String(config.start)));
+
+    if (config.contract === 'Vesting') {
+        if (typeof config.tokenAmount !== 'string' || !/^[0-9]+$/.test(config.tokenAmount)) {
+            throw new Error(`Pool ${name}: tokenAmount should be a decimal string`);
+        }
+        const tokenAmount = BigNumber.from(config.tokenAmount);
+        if (tokenAmount.isZero() || tokenAmount.gt(UINT96_MAX)) {
+            throw new Error(`Pool ${name}: tokenAmount should be greater than zero and fit in uint96`);
+        }
+        if ((config.finish === undefined) === (config.duration === undefined)) {
+            throw new Error(`Pool ${name}: either finish or duration should be provided`);
+        }
+        const vestingFinish = wrap(() =>
+            config.finish !== undefined ? parseDate(String(config.finish)) : addDuration(vestingStart, String(config.duration))
+        );
+        if (vestingFinish <= vestingStart) {
+            throw new Error(`Pool ${name}: finish should be after start`);
+        }
+        const curve = config.curve ?? 'linear';
+        if (!(curve in VESTING_CURVES)) {
+            throw new Error(`Pool ${name}: unknown curve ${curve}, expected one of ${Object.keys(VESTING_CURVES).join(', ')}`);
+        }
+        const vestingCliff = config.cliff !== undefined ? wrap(() => parseDateOrDuration(vestingStart, String(config.cliff))) : 0;
+        if (vestingCliff && (vestingCliff < vestingStart || vestingCliff > vestingFinish)) {
+            throw new Error(`Pool ${name}: cliff should be between start and finish`);
+        }
+        const roleChangeDelay =
+            config.roleChangeDelay !== undefined ? wrap(() => parseDuration(String(config.roleChangeDelay))) : DEFAULT_ROLE_CHANGE_DELAY;
+        if (roleChangeDelay < MIN_ROLE_CHANGE_DELAY) {
+            throw new Error(`Pool ${name}: roleChangeDelay should be at least ${formatDuration(MIN_ROLE_CHANGE_DELAY)}`);
+        }
+
+        return {
+            name,
+            contract: 'Vesting',
+            tokenAmount,
+            params: {
+                owner,
+                roleChangeDelay,
+                token,
+                tokenAmount: tokenAmount.toString(),
+                vestingStart,
+                vestingFinish,
+                vestingCliff,
+                stepDuration: VESTING_CURVES[curve],
+            },
+        };
+    }
+
+    if (config.contract === 'InsidersVesting') {
+        if (!config.beneficiaries) {
+            throw new Error(`Pool ${name}: beneficiaries are not provided`);
+        }
+        const beneficiaries = wrap(() => readBeneficiaries(path.resolve(directory, config.beneficiaries as string)));
+        const errors = validateBeneficiaries(beneficiaries);
+        if (errors.length > 0) {
+            throw new Error(`Pool ${name}: ${config.beneficiaries} ${errors.map(formatBeneficiaryError).join(', ')}`);
+        }
+        const lockupDuration =
+            config.lockupDuration !== undefined ? wrap(() => parseDuration(String(config.lockupDuration))) : INSIDERS_LOCKUP_DURATION;
+        const vestingDuration =
+            config.vestingDuration !== undefined ? wrap(() => parseDuration(String(config.vestingDuration))) : INSIDERS_VESTING_DURATION;
+        if (vestingDuration === 0) {
+            throw new Error(`Pool ${name}: vestingDuration should be greater than zero`);
+        }
+
+        return {
+            name,
+            contract: 'InsidersVesting',
+            tokenAmount: beneficiaries.reduce((sum, { tokenAmount }) => sum.add(tokenAmount), constants.Zero),
+            params: { owner, lockupDuration, vestingDuration, token, vestingStart, beneficiaries },
+        };
+    }
+
+    throw new Error(`Pool ${name}: unknown contract ${config.contract}, expected Vesting or InsidersVesting`);
+}
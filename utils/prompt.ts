@@ -0,0 +1,18 @@
+import readline from 'readline';
+
+// Prints the preview and asks to continue; `yes` skips the question for scripted runs
+export async function confirm(preview: string[], yes: boolean): Promise<boolean> {
+    preview.forEach(line => console.log(line));
+    if (yes) {
+        return true;
+    }
+    if (!process.stdin.isTTY) {
+        throw new Error('Confirmation can not be asked in non-interactive run, pass --yes to continue');
+    }
+
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const answer = await new Promise<string>(resolve => rl.question('Continue? [y/N] ', resolve));
+    rl.close();
+
+    return ['y', 'yes'].includes(answer.trim().toLowerCase());
+}
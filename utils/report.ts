@@ -0,0 +1,133 @@
+import { BigNumber, constants, providers } from 'ethers';
+import { IERC20, InsidersVesting } from '../typechain';
+
+export interface BeneficiaryReport {
+    account: string;
+    tokensLocked: BigNumber;
+    tokensUnlocked: BigNumber;
+    tokensClaimed: BigNumber;
+    tokensVesting: BigNumber;
+    claimable: BigNumber;
+}
+
+export interface VestingReport {
+    initializeTx: string;
+    beneficiaries: BeneficiaryReport[];
+    totalLocked: BigNumber;
+    totalUnlocked: BigNumber;
+    totalClaimed: BigNumber;
+    claimedByEvents: BigNumber;
+    balance: BigNumber;
+    errors: string[];
+}
+
+async function isInitializedAt(vesting: InsidersVesting, blockTag: number): Promise<boolean> {
+    try {
+        return await vesting.initialized({ blockTag });
+    } catch {
+        // contract is not deployed yet at this block
+        return false;
+    }
+}
+
+// Binary search of the block where `initialized` became true, requires an archive node for non-local networks
+export async function findInitializeBlock(vesting: InsidersVesting, fromBlock: number): Promise<number> {
+    let low = fromBlock;
+    let high = await vesting.provider.getBlockNumber();
+    if (!(await isInitializedAt(vesting, high))) {
+        throw new Error('Contract is not initialized');
+    }
+    while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        if (await isInitializedAt(vesting, middle)) {
+            high = middle;
+        } else {
+            low = middle + 1;
+        }
+    }
+
+    return low;
+}
+
+export async function findInitializeTransaction(vesting: InsidersVesting, fromBlock: number): Promise<providers.TransactionResponse> {
+    const blockNumber = await findInitializeBlock(vesting, fromBlock);
+    const block = await vesting.provider.getBlockWithTransactions(blockNumber);
+    const selectors = [vesting.interface.getSighash('initialize'), vesting.interface.getSighash('finishInitialization')];
+    const tx = block.transactions.find(tx => tx.to?.toLowerCase() === vesting.address.toLowerCase() && selectors.includes(tx.data.slice(0, 10)));
+    if (!tx) {
+        throw new Error(`Contract was initialized in block ${blockNumber} by an internal call, pass the initialize transaction hash explicitly`);
+    }
+
+    return tx;
+}
+
+export async function buildVestingReport(
+    vesting: InsidersVesting,
+    token: IERC20,
+    initializeTx: providers.TransactionResponse
+): Promise<VestingReport> {
+    const fromBlock = initializeTx.blockNumber;
+    const accounts = new Set<string>();
+    if (initializeTx.data.startsWith(vesting.interface.getSighash('initialize'))) {
+        const { beneficiaries } = vesting.interface.decodeFunctionData('initialize', initializeTx.data);
+        beneficiaries.forEach((beneficiary: { account: string }) => accounts.add(beneficiary.account));
+    } else {
+        // staged initialization, beneficiaries are added by earlier transactions
+        const added = await vesting.queryFilter(vesting.filters.BeneficiaryAdded(), undefined, fromBlock);
+        added.forEach(event => accounts.add(event.args.account));
+    }
+
+    // recovery removes the old account from the whitelist, so transfers and recoveries are applied in order
+    const transfers = await vesting.queryFilter(vesting.filters.TokensTransferred(), fromBlock);
+    const recoveries = await vesting.queryFilter(vesting.filters.BeneficiaryRecovered(), fromBlock);
+    [...transfers, ...recoveries]
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+        .forEach(event => {
+            // (from, to) of TokensTransferred and (beneficiary, account) of BeneficiaryRecovered
+            const [from, to] = event.args;
+            if (event.event === 'BeneficiaryRecovered') {
+                accounts.delete(from);
+            }
+            accounts.add(to);
+        });
+    const claims = await vesting.queryFilter(vesting.filters.TokensClaimed(), fromBlock);
+    const claimedByEvents = claims.reduce((sum, event) => sum.add(event.args.amount), constants.Zero);
+
+    const report: VestingReport = {
+        initializeTx: initializeTx.hash,
+        beneficiaries: [],
+        totalLocked: constants.Zero,
+        totalUnlocked: constants.Zero,
+        totalClaimed: constants.Zero,
+        claimedByEvents,
+        balance: constants.Zero,
+        errors: [],
+    };
+    for (const account of accounts) {
+        const info = await vesting.getBeneficiaryInfo(account);
+        const claimable = await vesting.calculateClaim(account);
+        report.beneficiaries.push({
+            account,
+            tokensLocked: info.tokensLocked,
+            tokensUnlocked: info.tokensUnlocked,
+            tokensClaimed: info.tokensClaimed,
+            tokensVesting: info.tokensVesting,
+            claimable,
+        });
+        report.totalLocked = report.totalLocked.add(info.tokensLocked);
+        report.totalUnlocked = report.totalUnlocked.add(info.tokensUnlocked);
+        report.totalClaimed = report.totalClaimed.add(info.tokensClaimed);
+    }
+
+    report.balance = await token.balanceOf(vesting.address);
+
+    const obligations = report.totalLocked.add(report.totalUnlocked);
+    if (!obligations.eq(report.balance)) {
+        report.errors.push(`locked + unlocked ${obligations.toString()} is not equal to contract balance ${report.balance.toString()}`);
+    }
+    if (!report.totalClaimed.eq(claimedByEvents)) {
+        report.errors.push(`claimed ${report.totalClaimed.toString()} is not equal to sum of TokensClaimed events ${claimedByEvents.toString()}`);
+    }
+
+    return report;
+}
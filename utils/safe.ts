@@ -0,0 +1,134 @@
+import fs from 'fs';
+import { BigNumber, Contract, utils } from 'ethers';
+import { Artifacts } from 'hardhat/types';
+
+// Format of the batch files imported and exported by Safe Transaction Builder app.
+// Only raw `data` is filled, so the app does not re-encode struct arguments.
+export interface SafeTransaction {
+    to: string;
+    value: string;
+    data: string;
+    contractMethod: null;
+    contractInputsValues: null;
+}
+
+export interface SafeBatch {
+    version: string;
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description: string;
+        txBuilderVersion: string;
+        createdFromSafeAddress: string;
+        createdFromOwnerAddress: string;
+    };
+    transactions: SafeTransaction[];
+}
+
+export interface DecodedSafeTransaction {
+    to: string;
+    value: string;
+    method: string;
+    args: Record<string, unknown>;
+}
+
+export function encodeSafeTransaction(contract: Contract, method: string, args: unknown[]): SafeTransaction {
+    return {
+        to: contract.address,
+        value: '0',
+        data: contract.interface.encodeFunctionData(method, args),
+        contractMethod: null,
+        contractInputsValues: null,
+    };
+}
+
+export function readSafeBatch(filename: string): SafeBatch {
+    return JSON.parse(fs.readFileSync(filename).toString());
+}
+
+// Appends the transactions to the batch file, so several proposals can be signed at once
+export function writeSafeBatch(filename: string, chainId: number, safe: string, transactions: SafeTransaction[]): SafeBatch {
+    let batch: SafeBatch;
+    if (fs.existsSync(filename)) {
+        batch = readSafeBatch(filename);
+        if (batch.chainId !== chainId.toString() || batch.meta.createdFromSafeAddress !== safe) {
+            throw new Error(`Batch ${filename} is created for Safe ${batch.meta.createdFromSafeAddress} on chain ${batch.chainId}`);
+        }
+        batch.transactions.push(...transactions);
+    } else {
+        batch = {
+            version: '1.0',
+            chainId: chainId.toString(),
+            createdAt: Date.now(),
+            meta: {
+                name: 'Transactions Batch',
+                description: '',
+                txBuilderVersion: '1.16.1',
+                createdFromSafeAddress: safe,
+                createdFromOwnerAddress: '',
+            },
+            transactions,
+        };
+    }
+    fs.writeFileSync(filename, JSON.stringify(batch, null, 4) + '\n');
+
+    return batch;
+}
+
+// Adds the call to the batch on behalf of the Safe, which is the contract owner unless given explicitly
+export async function proposeTransaction(filename: string, contract: Contract, method: string, args: unknown[], safe?: string): Promise<string> {
+    const { chainId } = await contract.provider.getNetwork();
+    const safeAddress = utils.getAddress(safe ?? (await contract.owner()));
+    writeSafeBatch(filename, chainId, safeAddress, [encodeSafeTransaction(contract, method, args)]);
+
+    return safeAddress;
+}
+
+function formatValue(type: utils.ParamType, value: unknown): unknown {
+    if (type.baseType === 'array' && Array.isArray(value)) {
+        return value.map((item: unknown) => formatValue(type.arrayChildren, item));
+    }
+    if (type.baseType === 'tuple' && Array.isArray(value)) {
+        return formatArgs(type.components, value);
+    }
+    if (BigNumber.isBigNumber(value)) {
+        return value.toString();
+    }
+    return value;
+}
+
+function formatArgs(types: utils.ParamType[], values: utils.Result): Record<string, unknown> {
+    const args: Record<string, unknown> = {};
+    types.forEach((type, index) => {
+        args[type.name || index.toString()] = formatValue(type, values[index]);
+    });
+    return args;
+}
+
+export async function readVestingInterfaces(artifacts: Artifacts): Promise<utils.Interface[]> {
+    const interfaces: utils.Interface[] = [];
+    for (const contract of ['Vesting', 'InsidersVesting', 'MerkleInsidersVesting', 'IERC20']) {
+        interfaces.push(new utils.Interface((await artifacts.readArtifact(contract)).abi));
+    }
+    return interfaces;
+}
+
+// Decodes transaction data with the first interface knowing the selector
+export function decodeSafeTransaction(
+    transaction: Pick<SafeTransaction, 'to' | 'value' | 'data'>,
+    interfaces: utils.Interface[]
+): DecodedSafeTransaction {
+    const selector = transaction.data.slice(0, 10);
+    for (const contractInterface of interfaces) {
+        let fragment: utils.FunctionFragment;
+        try {
+            fragment = contractInterface.getFunction(selector);
+        } catch {
+            continue;
+        }
+        const values = contractInterface.decodeFunctionData(fragment, transaction.data);
+        return { to: transaction.to, value: transaction.value, method: fragment.format(), args: formatArgs(fragment.inputs, values) };
+    }
+    throw new Error(`Unknown method ${selector} called on ${transaction.to}`);
+}
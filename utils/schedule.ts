@@ -0,0 +1,301 @@
+import { BigNumber, BigNumberish, constants, utils } from 'ethers';
+import { addMonths, SECONDS_PER_MONTH } from './dates';
+
+// Offline copy of the unlock arithmetic of InsidersVesting and Vesting contracts.
+// All amounts are integer token units and all truncations happen in the same places as on-chain,
+// so the results are equal to what calculateClaim returns in a block with the same timestamp.
+
+// default terms of InsidersVesting deployments, every contract has its own in VESTING_LOCKUP_DURATION and VESTING_DURATION
+export const INSIDERS_LOCKUP_DURATION = 90 * 86400;
+export const INSIDERS_VESTING_DURATION = 86745600; // 33 months
+// denominator of BeneficiaryInfo.vestedFraction
+export const FRACTION_PRECISION = constants.WeiPerEther;
+
+export interface InsidersSchedule {
+    vestingStart: number;
+    lockupEnd: number;
+    vestingFinish: number;
+    vestingDuration: number;
+}
+
+export interface BeneficiaryInfo {
+    startTime: number;
+    tokensLocked: BigNumber;
+    tokensUnlocked: BigNumber;
+    tokensClaimed: BigNumber;
+    tokensVesting: BigNumber;
+    lastVestingUpdate: number;
+    vestedFraction: BigNumber;
+}
+
+export interface VestingParams {
+    tokensTotal: BigNumber;
+    vestingStart: number;
+    vestingFinish: number;
+    // Vesting.initializeWithCurve parameters, 0 or missing for the straight line
+    vestingCliff?: number;
+    stepDuration?: number;
+    // Vesting.topUp point of the curve, the rest of tokensTotal unlocks from it; missing before top-ups
+    unlockedAtTopUp?: BigNumber;
+    elapsedAtTopUp?: number;
+}
+
+// step durations of the named unlock curves of initialize-vesting, months are average Gregorian ones
+export const VESTING_CURVES: Record<string, number> = {
+    linear: 0,
+    monthly: SECONDS_PER_MONTH,
+    quarterly: 3 * SECONDS_PER_MONTH,
+};
+
+export function getInsidersSchedule(
+    vestingStart: number,
+    lockupDuration = INSIDERS_LOCKUP_DURATION,
+    vestingDuration = INSIDERS_VESTING_DURATION
+): InsidersSchedule {
+    const lockupEnd = vestingStart + lockupDuration;
+    return { vestingStart, lockupEnd, vestingFinish: lockupEnd + vestingDuration, vestingDuration };
+}
+
+export class InsidersVestingModel {
+    private readonly whitelist = new Map<string, BeneficiaryInfo>();
+
+    constructor(public readonly schedule: InsidersSchedule, beneficiaries: { account: string; tokenAmount: BigNumberish }[]) {
+        const { vestingStart, lockupEnd } = schedule;
+        for (const { account, tokenAmount } of beneficiaries) {
+            const tokensLocked = BigNumber.from(tokenAmount);
+            this.whitelist.set(utils.getAddress(account), {
+                startTime: vestingStart,
+                tokensLocked,
+                tokensUnlocked: constants.Zero,
+                tokensClaimed: constants.Zero,
+                tokensVesting: tokensLocked,
+                lastVestingUpdate: lockupEnd,
+                vestedFraction: constants.Zero,
+            });
+        }
+    }
+
+    accounts(): string[] {
+        return Array.from(this.whitelist.keys());
+    }
+
+    getBeneficiaryInfo(account: string): BeneficiaryInfo {
+        const info = this.whitelist.get(utils.getAddress(account));
+        if (!info) {
+            throw new Error('Account is not in whitelist');
+        }
+        return { ...info };
+    }
+
+    calculateClaim(account: string, timestamp: number): BigNumber {
+        const info = this.getBeneficiaryInfo(account);
+        return this.calculateUnlock(info, timestamp).add(info.tokensUnlocked);
+    }
+
+    claim(account: string, amount: BigNumberish, timestamp: number): void {
+        const claimer = this.getWhitelisted(account);
+        if (timestamp <= this.schedule.lockupEnd) {
+            throw new Error('Cannot claim during lock-up period');
+        }
+        const staged = this.stage(claimer, timestamp);
+        if (staged.tokensUnlocked.lt(amount)) {
+            throw new Error('Requested more than unlocked');
+        }
+        staged.tokensUnlocked = staged.tokensUnlocked.sub(amount);
+        staged.tokensClaimed = staged.tokensClaimed.add(amount);
+        this.whitelist.set(utils.getAddress(account), staged);
+    }
+
+    transfer(from: string, to: string, tokensLocked: BigNumberish, tokensUnlocked: BigNumberish, timestamp: number): void {
+        const sender = this.stage(this.getWhitelisted(from), timestamp);
+        if (sender.tokensLocked.lt(tokensLocked)) {
+            throw new Error('Requested more tokens than locked');
+        }
+        if (sender.tokensUnlocked.lt(tokensUnlocked)) {
+            throw new Error('Requested more tokens than unlocked');
+        }
+        this._transfer(from, sender, to, BigNumber.from(tokensLocked), BigNumber.from(tokensUnlocked), timestamp);
+    }
+
+    transferAll(from: string, to: string, timestamp: number): void {
+        const sender = this.stage(this.getWhitelisted(from), timestamp);
+        this._transfer(from, sender, to, sender.tokensLocked, sender.tokensUnlocked, timestamp);
+    }
+
+    // InsidersVesting.revoke, returns the locked amount which goes to the treasury
+    revoke(account: string, timestamp: number): BigNumber {
+        const info = this.getBeneficiaryInfo(account);
+        const staged = this.stage(info, timestamp);
+        const revoked = staged.tokensLocked;
+        staged.tokensLocked = constants.Zero;
+        staged.tokensVesting = constants.Zero;
+        staged.vestedFraction = constants.Zero;
+        this.whitelist.set(utils.getAddress(account), staged);
+        return revoked;
+    }
+
+    // InsidersVesting.executeRecovery, the info moves to the replacement account unchanged
+    recover(from: string, to: string): void {
+        const info = this.getBeneficiaryInfo(from);
+        if (this.whitelist.has(utils.getAddress(to))) {
+            throw new Error('Replacement is already in whitelist');
+        }
+        this.whitelist.delete(utils.getAddress(from));
+        this.whitelist.set(utils.getAddress(to), info);
+    }
+
+    // InsidersVesting._calculateClaim
+    calculateUnlock(info: BeneficiaryInfo, timestamp: number): BigNumber {
+        if (timestamp < info.lastVestingUpdate) {
+            return constants.Zero;
+        }
+        if (timestamp < this.schedule.vestingFinish) {
+            const [vested, duration] = this.vested(info, timestamp);
+            return vested.div(FRACTION_PRECISION.mul(duration)).sub(info.tokensVesting.sub(info.tokensLocked));
+        }
+        return info.tokensLocked;
+    }
+
+    private getWhitelisted(account: string): BeneficiaryInfo {
+        const info = this.whitelist.get(utils.getAddress(account));
+        if (!info) {
+            throw new Error('You are not in whitelist');
+        }
+        return info;
+    }
+
+    // InsidersVesting._vested
+    private vested(info: BeneficiaryInfo, timestamp: number): [BigNumber, number] {
+        const duration = this.schedule.vestingFinish - info.lastVestingUpdate;
+        const elapsed = timestamp - info.lastVestingUpdate;
+        return [
+            info.tokensVesting
+                .mul(FRACTION_PRECISION)
+                .mul(elapsed)
+                .add(info.vestedFraction.mul(duration - elapsed)),
+            duration,
+        ];
+    }
+
+    // InsidersVesting._restartVesting
+    private restartVesting(info: BeneficiaryInfo, timestamp: number) {
+        let vestedFraction = constants.Zero;
+        if (info.tokensLocked.gt(0) && timestamp >= info.lastVestingUpdate && timestamp < this.schedule.vestingFinish) {
+            const [vested, duration] = this.vested(info, timestamp);
+            vestedFraction = vested.mod(FRACTION_PRECISION.mul(duration)).div(duration);
+        }
+        info.vestedFraction = vestedFraction;
+        info.tokensVesting = info.tokensLocked;
+        info.lastVestingUpdate = Math.max(timestamp, this.schedule.lockupEnd);
+    }
+
+    // InsidersVesting._calculateClaimAndStage, returns an updated copy
+    private stage(info: BeneficiaryInfo, timestamp: number): BeneficiaryInfo {
+        if (timestamp <= this.schedule.lockupEnd) {
+            return { ...info };
+        }
+        const unlocked = this.calculateUnlock(info, timestamp);
+        return {
+            ...info,
+            tokensUnlocked: info.tokensUnlocked.add(unlocked),
+            tokensLocked: info.tokensLocked.sub(unlocked),
+        };
+    }
+
+    // InsidersVesting._transfer, sender is expected to be already staged
+    private _transfer(from: string, sender: BeneficiaryInfo, to: string, tokensLocked: BigNumber, tokensUnlocked: BigNumber, timestamp: number) {
+        if (utils.getAddress(from) === utils.getAddress(to)) {
+            throw new Error('Cannot transfer to the same address');
+        }
+        sender.tokensLocked = sender.tokensLocked.sub(tokensLocked);
+        sender.tokensUnlocked = sender.tokensUnlocked.sub(tokensUnlocked);
+        this.restartVesting(sender, timestamp);
+        this.whitelist.set(utils.getAddress(from), sender);
+
+        const existing = this.whitelist.get(utils.getAddress(to));
+        let recipient: BeneficiaryInfo;
+        if (!existing) {
+            recipient = {
+                startTime: timestamp,
+                tokensLocked,
+                tokensUnlocked,
+                tokensClaimed: constants.Zero,
+                tokensVesting: tokensLocked,
+                lastVestingUpdate: Math.max(timestamp, this.schedule.lockupEnd),
+                vestedFraction: constants.Zero,
+            };
+        } else {
+            recipient = this.stage(existing, timestamp);
+            recipient.tokensLocked = recipient.tokensLocked.add(tokensLocked);
+            recipient.tokensUnlocked = recipient.tokensUnlocked.add(tokensUnlocked);
+            this.restartVesting(recipient, timestamp);
+        }
+        this.whitelist.set(utils.getAddress(to), recipient);
+    }
+}
+
+// average rate, rounded down, for previews; claims are computed from tokensTotal directly
+export function getVestingTokensPerSec({ tokensTotal, vestingStart, vestingFinish }: VestingParams): BigNumber {
+    return tokensTotal.div(vestingFinish - vestingStart);
+}
+
+// Vesting.calculateClaim, the contract reverts before vestingStart so zero is returned there
+export function calculateVestingClaim(params: VestingParams, timestamp: number, tokensClaimed: BigNumberish = 0): BigNumber {
+    if (timestamp < params.vestingStart) {
+        return constants.Zero;
+    }
+    if (timestamp < params.vestingFinish) {
+        if (timestamp < (params.vestingCliff ?? 0)) {
+            return constants.Zero;
+        }
+        let elapsed = timestamp - params.vestingStart;
+        if (params.stepDuration) {
+            elapsed -= elapsed % params.stepDuration;
+        }
+        const unlockedAtTopUp = params.unlockedAtTopUp ?? constants.Zero;
+        const elapsedAtTopUp = params.elapsedAtTopUp ?? 0;
+        return params.tokensTotal
+            .sub(unlockedAtTopUp)
+            .mul(elapsed - elapsedAtTopUp)
+            .div(params.vestingFinish - params.vestingStart - elapsedAtTopUp)
+            .add(unlockedAtTopUp)
+            .sub(tokensClaimed);
+    }
+    return params.tokensTotal.sub(tokensClaimed);
+}
+
+// timestamps when claimable amount of Vesting jumps: the cliff, which unlocks everything accrued before it,
+// every tranche of a stepped curve after the cliff and vesting finish, which unlocks the rest
+export function getTrancheTimestamps({ vestingStart, vestingFinish, vestingCliff, stepDuration }: VestingParams): number[] {
+    const timestamps: number[] = [];
+    if (vestingCliff) {
+        timestamps.push(vestingCliff);
+    }
+    if (stepDuration) {
+        for (let timestamp = vestingStart + stepDuration; timestamp < vestingFinish; timestamp += stepDuration) {
+            if (timestamp > (vestingCliff ?? 0)) {
+                timestamps.push(timestamp);
+            }
+        }
+    }
+    if (timestamps[timestamps.length - 1] !== vestingFinish) {
+        timestamps.push(vestingFinish);
+    }
+    return timestamps;
+}
+
+// timestamps of calendar month boundaries (UTC) from `from` until `to`, both ends included;
+// the day of month is clamped, so a schedule starting on Jan 31 continues with Feb 28
+export function getMonthlyTimestamps(from: number, to: number): number[] {
+    const timestamps: number[] = [];
+    for (let month = 0; ; month++) {
+        const timestamp = addMonths(from, month);
+        if (timestamp >= to) {
+            break;
+        }
+        timestamps.push(timestamp);
+    }
+    timestamps.push(to);
+
+    return timestamps;
+}
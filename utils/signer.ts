@@ -0,0 +1,113 @@
+import fs from 'fs';
+import readline from 'readline';
+import { Writable } from 'stream';
+import { BigNumber, providers, utils, Wallet } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { config } from '../config';
+
+export interface UnsignedTransactions {
+    from: string;
+    // serialized unsigned transactions, signed one by one in this order
+    transactions: string[];
+}
+
+export interface SignedTransactions {
+    from: string;
+    transactions: string[];
+}
+
+const wallets = new Map<string, Wallet>();
+
+export function promptPassword(question: string): Promise<string> {
+    // readline has no option to hide input, so it echoes typed characters into an output which drops them
+    const muted = new Writable({ write: (chunk, encoding, callback) => callback() });
+    return new Promise(resolve => {
+        process.stdout.write(question);
+        const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+        rl.question('', password => {
+            rl.close();
+            process.stdout.write('\n');
+            resolve(password);
+        });
+    });
+}
+
+// Decrypts JSON keystore once per process, the password is read from the file or prompted
+export async function loadKeystore(keystorePath: string, passwordFile?: string): Promise<Wallet> {
+    let wallet = wallets.get(keystorePath);
+    if (!wallet) {
+        const password = passwordFile
+            ? fs.readFileSync(passwordFile).toString().trim()
+            : await promptPassword(`Password of keystore ${keystorePath}: `);
+        wallet = await Wallet.fromEncryptedJson(fs.readFileSync(keystorePath).toString(), password);
+        wallets.set(keystorePath, wallet);
+    }
+
+    return wallet;
+}
+
+// Signer of admin tasks: the keystore from config when it is set, otherwise the first account of the network
+export async function getSigner(ethers: HardhatRuntimeEnvironment['ethers']): Promise<Wallet | SignerWithAddress> {
+    if (config.keystorePath) {
+        const wallet = await loadKeystore(config.keystorePath, config.keystorePasswordFile);
+        return wallet.connect(ethers.provider);
+    }
+    const [signer] = await ethers.getSigners();
+    return signer;
+}
+
+export async function buildUnsignedTransactions(
+    provider: providers.Provider,
+    from: string,
+    calls: { to: string; value: string; data: string }[]
+): Promise<UnsignedTransactions> {
+    const { chainId } = await provider.getNetwork();
+    const feeData = await provider.getFeeData();
+    const nonce = await provider.getTransactionCount(from, 'pending');
+
+    const transactions: string[] = [];
+    for (const [index, call] of calls.entries()) {
+        const gasLimit = await provider.estimateGas({ from, to: call.to, value: call.value, data: call.data });
+        const transaction: utils.UnsignedTransaction = {
+            chainId,
+            nonce: nonce + index,
+            to: call.to,
+            value: BigNumber.from(call.value),
+            data: call.data,
+            gasLimit,
+        };
+        if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
+            transaction.type = 2;
+            transaction.maxFeePerGas = feeData.maxFeePerGas;
+            transaction.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas;
+        } else {
+            transaction.gasPrice = feeData.gasPrice ?? undefined;
+        }
+        transactions.push(utils.serializeTransaction(transaction));
+    }
+
+    return { from: utils.getAddress(from), transactions };
+}
+
+export function parseUnsignedTransaction(serialized: string): providers.TransactionRequest {
+    const { chainId, nonce, to, value, data, gasLimit, gasPrice, type, maxFeePerGas, maxPriorityFeePerGas, accessList } =
+        utils.parseTransaction(serialized);
+    const transaction: providers.TransactionRequest = { chainId, nonce, to, value, data, gasLimit };
+    if (type === 2) {
+        return { ...transaction, type, maxFeePerGas, maxPriorityFeePerGas, accessList };
+    }
+    return { ...transaction, gasPrice };
+}
+
+export async function signTransactions(wallet: Wallet, unsigned: UnsignedTransactions): Promise<SignedTransactions> {
+    if (utils.getAddress(unsigned.from) !== wallet.address) {
+        throw new Error(`Transactions are built for ${unsigned.from}, but keystore is of ${wallet.address}`);
+    }
+    const transactions: string[] = [];
+    for (const serialized of unsigned.transactions) {
+        transactions.push(await wallet.signTransaction(parseUnsignedTransaction(serialized)));
+    }
+
+    return { from: wallet.address, transactions };
+}
@@ -0,0 +1,41 @@
+import { BaseContract, BigNumber, BigNumberish, providers, utils } from 'ethers';
+import type { IERC20Metadata } from '../typechain';
+
+export interface TokenUnits {
+    symbol: string;
+    decimals: number;
+    // human amount like 1.5 to the smallest token units
+    parse(amount: string): BigNumber;
+    format(amount: BigNumberish): string;
+}
+
+export async function getTokenUnits(token: IERC20Metadata): Promise<TokenUnits> {
+    const symbol = await token.symbol();
+    const decimals = await token.decimals();
+
+    return {
+        symbol,
+        decimals,
+        parse: amount => {
+            const parsed = utils.parseUnits(amount, decimals);
+            if (parsed.isNegative()) {
+                throw new Error(`Amount ${amount} should not be negative`);
+            }
+            return parsed;
+        },
+        format: amount => `${utils.formatUnits(amount, decimals)} ${symbol}`,
+    };
+}
+
+// Events of the contract emitted by the transaction, amounts are formatted with token units when given
+export function formatEvents(receipt: providers.TransactionReceipt, contract: BaseContract, units?: TokenUnits): string[] {
+    return receipt.logs
+        .filter(log => log.address === contract.address)
+        .map(log => contract.interface.parseLog(log))
+        .map(event => {
+            const args = event.eventFragment.inputs.map(
+                (input, index) => `${input.name} ${units && input.type === 'uint256' ? units.format(event.args[index]) : event.args[index]}`
+            );
+            return `${event.name}: ${args.join(', ')}`;
+        });
+}